@@ -1,61 +1,56 @@
-import React, { useState } from 'react';
-import { KeyRound, KeySquare, FileSignature } from 'lucide-react';
+import { useState } from 'react';
+import { KeyRound, KeySquare, FileSignature, FolderArchive, Hash, ScrollText, ShieldCheck, Ticket, Users } from 'lucide-react';
+import ClassicalDemo from './components/ClassicalDemo';
 import SymmetricDemo from './components/SymmetricDemo';
 import AsymmetricDemo from './components/AsymmetricDemo';
 import SignatureDemo from './components/SignatureDemo';
+import MessagingDemo from './components/MessagingDemo';
+import HashingDemo from './components/HashingDemo';
+import MacDemo from './components/MacDemo';
+import JwtDemo from './components/JwtDemo';
+import WorkspacePanel from './components/WorkspacePanel';
+import { WorkspaceState } from './types';
 
-type View = 'symmetric' | 'asymmetric' | 'signature';
-
-interface KeyPair {
-  publicKey: string;
-  privateKey: string;
-}
-
-interface EncryptionResult {
-  encrypted: string;
-  decrypted?: string;
-}
-
-interface SignatureResult {
-  message: string;
-  signature: string;
-  digest?: string;
-  verified?: boolean;
-}
+type View = 'classical' | 'symmetric' | 'asymmetric' | 'signature' | 'messaging' | 'hashing' | 'mac' | 'jwt';
 
 function App() {
   const [currentView, setCurrentView] = useState<View>('symmetric');
   
+  const [showWorkspace, setShowWorkspace] = useState(false);
+  // Bumped on import so the open demo remounts and picks up the restored state.
+  const [workspaceVersion, setWorkspaceVersion] = useState(0);
+
   // Persistent state for each component
-  const [symmetricState, setSymmetricState] = useState<{
-    key: string | null;
-    result: EncryptionResult | null;
-  }>({
+  const [symmetricState, setSymmetricState] = useState<WorkspaceState['symmetric']>({
     key: null,
     result: null
   });
 
-  const [asymmetricState, setAsymmetricState] = useState<{
-    keyPair: KeyPair | null;
-    result: EncryptionResult | null;
-  }>({
+  const [asymmetricState, setAsymmetricState] = useState<WorkspaceState['asymmetric']>({
     keyPair: null,
     result: null
   });
 
-  const [signatureState, setSignatureState] = useState<{
-    keyPair: KeyPair | null;
-    result: SignatureResult | null;
-  }>({
+  const [signatureState, setSignatureState] = useState<WorkspaceState['signature']>({
     keyPair: null,
     result: null
   });
 
+  const importWorkspace = (workspace: WorkspaceState) => {
+    setSymmetricState(workspace.symmetric);
+    setAsymmetricState(workspace.asymmetric);
+    setSignatureState(workspace.signature);
+    setWorkspaceVersion(version => version + 1);
+  };
+
   const renderView = () => {
     switch (currentView) {
+      case 'classical':
+        return <ClassicalDemo />;
       case 'symmetric':
         return (
           <SymmetricDemo 
+            key={workspaceVersion}
             savedKey={symmetricState.key}
             result={symmetricState.result}
             onStateChange={(key, result) => {
@@ -66,16 +61,19 @@ function App() {
       case 'asymmetric':
         return (
           <AsymmetricDemo 
+            key={workspaceVersion}
             keyPair={asymmetricState.keyPair}
             result={asymmetricState.result}
             onStateChange={(keyPair, result) => {
               setAsymmetricState({ keyPair, result });
             }}
+            signingKeyPair={signatureState.keyPair}
           />
         );
       case 'signature':
         return (
           <SignatureDemo 
+            key={workspaceVersion}
             keyPair={signatureState.keyPair}
             result={signatureState.result}
             onStateChange={(keyPair, result) => {
@@ -83,6 +81,14 @@ function App() {
             }}
           />
         );
+      case 'messaging':
+        return <MessagingDemo />;
+      case 'hashing':
+        return <HashingDemo />;
+      case 'mac':
+        return <MacDemo />;
+      case 'jwt':
+        return <JwtDemo keyPair={signatureState.keyPair} />;
     }
   };
 
@@ -98,12 +104,40 @@ function App() {
                 </h1>
               </div>
             </div>
+            <div className="flex items-center">
+              <button
+                onClick={() => setShowWorkspace(!showWorkspace)}
+                className={`flex items-center px-4 py-2 rounded-lg transition-colors
+                  ${showWorkspace ? 'bg-indigo-600 text-white' : 'text-indigo-600 hover:bg-indigo-50'}`}
+              >
+                <FolderArchive className="mr-2" size={20} />
+                Workspace
+              </button>
+            </div>
           </div>
         </div>
       </nav>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        {showWorkspace && (
+          <WorkspacePanel
+            workspace={{ symmetric: symmetricState, asymmetric: asymmetricState, signature: signatureState }}
+            onImport={importWorkspace}
+          />
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4 mb-8">
+          <button
+            onClick={() => setCurrentView('classical')}
+            className={`p-6 rounded-lg shadow-md flex items-center justify-center space-x-2 transition-all
+              ${currentView === 'classical' 
+                ? 'bg-amber-600 text-white' 
+                : 'bg-white text-amber-600 hover:bg-amber-50'}`}
+          >
+            <ScrollText size={24} />
+            <span className="text-lg font-semibold">Classical Ciphers</span>
+          </button>
+
           <button
             onClick={() => setCurrentView('symmetric')}
             className={`p-6 rounded-lg shadow-md flex items-center justify-center space-x-2 transition-all
@@ -136,6 +170,50 @@ function App() {
             <FileSignature size={24} />
             <span className="text-lg font-semibold">Digital Signatures</span>
           </button>
+
+          <button
+            onClick={() => setCurrentView('messaging')}
+            className={`p-6 rounded-lg shadow-md flex items-center justify-center space-x-2 transition-all
+              ${currentView === 'messaging' 
+                ? 'bg-orange-600 text-white' 
+                : 'bg-white text-orange-600 hover:bg-orange-50'}`}
+          >
+            <Users size={24} />
+            <span className="text-lg font-semibold">Secure Messaging</span>
+          </button>
+
+          <button
+            onClick={() => setCurrentView('hashing')}
+            className={`p-6 rounded-lg shadow-md flex items-center justify-center space-x-2 transition-all
+              ${currentView === 'hashing' 
+                ? 'bg-teal-600 text-white' 
+                : 'bg-white text-teal-600 hover:bg-teal-50'}`}
+          >
+            <Hash size={24} />
+            <span className="text-lg font-semibold">Hash Functions</span>
+          </button>
+
+          <button
+            onClick={() => setCurrentView('mac')}
+            className={`p-6 rounded-lg shadow-md flex items-center justify-center space-x-2 transition-all
+              ${currentView === 'mac' 
+                ? 'bg-rose-600 text-white' 
+                : 'bg-white text-rose-600 hover:bg-rose-50'}`}
+          >
+            <ShieldCheck size={24} />
+            <span className="text-lg font-semibold">Message Authentication</span>
+          </button>
+
+          <button
+            onClick={() => setCurrentView('jwt')}
+            className={`p-6 rounded-lg shadow-md flex items-center justify-center space-x-2 transition-all
+              ${currentView === 'jwt' 
+                ? 'bg-cyan-600 text-white' 
+                : 'bg-white text-cyan-600 hover:bg-cyan-50'}`}
+          >
+            <Ticket size={24} />
+            <span className="text-lg font-semibold">JSON Web Tokens</span>
+          </button>
         </div>
 
         {renderView()}
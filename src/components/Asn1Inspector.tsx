@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  ASN1_TAG,
+  Asn1Field,
+  Asn1Node,
+  childPath,
+  decodeOid,
+  encapsulatedDer,
+  integerToBigInt,
+  OID_NAMES,
+  parseDer,
+  tagName,
+  toHex,
+  unsignedInteger,
+  utf8Decode
+} from '../crypto';
+
+const PREVIEW_BYTES = 24;
+
+const TEXT_TAGS: number[] = [
+  ASN1_TAG.UTF8_STRING,
+  ASN1_TAG.PRINTABLE_STRING,
+  ASN1_TAG.IA5_STRING,
+  ASN1_TAG.UTC_TIME,
+  ASN1_TAG.GENERALIZED_TIME
+];
+
+const bitLength = (magnitude: Uint8Array): number =>
+  magnitude.length === 0 ? 0 : (magnitude.length - 1) * 8 + (32 - Math.clz32(magnitude[0]));
+
+// Short integers read best in decimal; long ones (moduli, scalars) by size plus their hex.
+const describeValue = (node: Asn1Node): { text?: string; bytes?: Uint8Array } => {
+  switch (node.tag) {
+    case ASN1_TAG.BOOLEAN:
+      return { text: node.content[0] ? 'TRUE' : 'FALSE' };
+    case ASN1_TAG.INTEGER: {
+      const magnitude = unsignedInteger(node.content);
+      if (magnitude.length <= 6) return { text: integerToBigInt(node.content).toString() };
+      return { text: `${bitLength(magnitude)}-bit`, bytes: magnitude };
+    }
+    case ASN1_TAG.OBJECT_IDENTIFIER: {
+      const oid = decodeOid(node.content);
+      return { text: OID_NAMES[oid] ? `${oid} (${OID_NAMES[oid]})` : oid };
+    }
+    case ASN1_TAG.BIT_STRING:
+      return { text: `${node.content.length - 1} bytes, ${node.content[0]} unused bits`, bytes: node.content.subarray(1) };
+    case ASN1_TAG.OCTET_STRING:
+      return { text: `${node.content.length} bytes`, bytes: node.content };
+    case ASN1_TAG.NULL:
+      return {};
+    default:
+      if (TEXT_TAGS.includes(node.tag)) return { text: `"${utf8Decode(node.content)}"` };
+      return node.children ? {} : { text: `${node.content.length} bytes`, bytes: node.content };
+  }
+};
+
+interface NodeViewProps {
+  node: Asn1Node;
+  path: string;
+  depth: number;
+  // Position of the buffer this node was parsed from within the outermost DER.
+  base: number;
+  fields: Record<string, Asn1Field>;
+}
+
+const NodeView: React.FC<NodeViewProps> = ({ node, path, depth, base, fields }) => {
+  const [open, setOpen] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+
+  const encapsulated = node.children ? null : encapsulatedDer(node);
+  const children = node.children ?? (encapsulated ? [encapsulated] : []);
+  // Encapsulated DER starts after the header, and after the unused-bits byte of a BIT STRING.
+  const childBase = encapsulated
+    ? base + node.offset + node.headerLength + (node.tag === ASN1_TAG.BIT_STRING ? 1 : 0)
+    : base;
+  const field = fields[path];
+  const { text, bytes } = describeValue(node);
+  const hex = bytes && !encapsulated ? toHex(bytes) : '';
+  const truncated = hex.length > PREVIEW_BYTES * 2 && !showAll;
+
+  return (
+    <li>
+      <div
+        className={`flex flex-wrap items-baseline gap-x-2 py-0.5 pr-2 rounded ${field?.highlight ? 'bg-amber-50 border-l-2 border-amber-400' : ''}`}
+        style={{ paddingLeft: `${depth * 1.25 + 0.25}rem` }}
+      >
+        {children.length > 0 ? (
+          <button onClick={() => setOpen(!open)} className="text-gray-500 hover:text-gray-800 self-center">
+            {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          </button>
+        ) : (
+          <span className="inline-block w-3.5" />
+        )}
+        <span className="text-gray-400" title="offset, header length, content length">
+          {base + node.offset}+{node.headerLength}+{node.content.length}
+        </span>
+        <span className="font-semibold text-gray-800">{tagName(node.tag)}</span>
+        {encapsulated && <span className="text-gray-500">encapsulates DER</span>}
+        {field && (
+          <span className={field.highlight ? 'font-semibold text-amber-800' : 'italic text-gray-500'}>{field.name}</span>
+        )}
+        {text && <span className="text-gray-700">{text}</span>}
+        {hex && (
+          <button
+            onClick={() => setShowAll(!showAll)}
+            className="text-left text-gray-600 break-all"
+            title={truncated ? 'Show all bytes' : 'Collapse'}
+          >
+            {truncated ? `${hex.slice(0, PREVIEW_BYTES * 2)}…` : hex}
+          </button>
+        )}
+      </div>
+      {open && children.length > 0 && (
+        <ul>
+          {children.map((child, i) => (
+            <NodeView
+              key={i}
+              node={child}
+              path={childPath(path, i)}
+              depth={depth + 1}
+              base={childBase}
+              fields={fields}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+interface Asn1InspectorProps {
+  der: Uint8Array;
+  // Names for known parts of the structure, keyed by tree path.
+  fields?: Record<string, Asn1Field>;
+}
+
+/** Tree view of a DER structure, with OIDs named and key material highlighted. */
+const Asn1Inspector: React.FC<Asn1InspectorProps> = ({ der, fields = {} }) => {
+  const parsed = parseDer(der);
+  if (!parsed.ok) return <p className="text-sm text-red-700 mt-2">{parsed.error.message}</p>;
+
+  return (
+    <div className="mt-2">
+      <span className="text-xs font-medium text-gray-500">ASN.1 structure ({der.length} bytes of DER):</span>
+      <ul className="text-xs font-mono bg-white p-2 rounded border mt-1 overflow-x-auto">
+        <NodeView node={parsed.value} path="" depth={0} base={0} fields={fields} />
+      </ul>
+    </div>
+  );
+};
+
+export default Asn1Inspector;
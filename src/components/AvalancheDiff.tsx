@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { HASH_FUNCTIONS, HashFunction, bitDifferences, hashWith, toHex, utf8Encode } from '../crypto';
+
+/** Hashes two nearly identical inputs and marks every digest bit that differs. */
+const AvalancheDiff: React.FC = () => {
+  const [fn, setFn] = useState<HashFunction>('SHA-256');
+  const [first, setFirst] = useState('Pay Alice 100 euros');
+  const [second, setSecond] = useState('Pay Alice 900 euros');
+  const [digests, setDigests] = useState<[Uint8Array, Uint8Array] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const hashBoth = async () => {
+      const [a, b] = await Promise.all([hashWith(fn, utf8Encode(first)), hashWith(fn, utf8Encode(second))]);
+      if (cancelled) return;
+      if (!a.ok || !b.ok) {
+        setError(!a.ok ? a.error.message : 'The second input could not be hashed.');
+        setDigests(null);
+        return;
+      }
+      setError(null);
+      setDigests([a.value, b.value]);
+    };
+    hashBoth();
+    return () => {
+      cancelled = true;
+    };
+  }, [fn, first, second]);
+
+  const inputDiff = bitDifferences(utf8Encode(first), utf8Encode(second)).filter(Boolean).length;
+  const diff = digests ? bitDifferences(...digests) : [];
+  const changed = diff.filter(Boolean).length;
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+      <h4 className="text-sm font-medium text-gray-700">Avalanche effect</h4>
+      <p className="text-sm text-gray-600">
+        Changing a single input bit should flip each output bit with probability one half, so about half the
+        digest changes and nothing about the difference shows. Try two inputs that differ by one character.
+      </p>
+      <select
+        value={fn}
+        onChange={(e) => setFn(e.target.value as HashFunction)}
+        className="p-2 border rounded-lg text-sm"
+      >
+        {HASH_FUNCTIONS.map(({ name }) => (
+          <option key={name} value={name}>
+            {name}
+          </option>
+        ))}
+      </select>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {([
+          ['Input A', first, setFirst],
+          ['Input B', second, setSecond]
+        ] as [string, string, (value: string) => void][]).map(([label, value, setValue]) => (
+          <div key={label}>
+            <label className="block text-xs font-medium text-gray-500 mb-1">{label}</label>
+            <input type="text" className="w-full p-2 border rounded-lg text-sm" value={value} onChange={(e) => setValue(e.target.value)} />
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {digests && (
+        <div className="space-y-3">
+          <div className="text-xs space-y-1">
+            <p className="font-mono break-all">A: {toHex(digests[0])}</p>
+            <p className="font-mono break-all">B: {toHex(digests[1])}</p>
+          </div>
+          <div className="flex flex-wrap gap-px bg-white p-2 rounded border">
+            {diff.map((differs, i) => (
+              <span key={i} className={`w-2 h-2 ${differs ? 'bg-teal-600' : 'bg-gray-200'}`} title={`bit ${i}`} />
+            ))}
+          </div>
+          <p className="text-sm text-gray-700">
+            The inputs differ in <span className="font-semibold">{inputDiff}</span> bit{inputDiff === 1 ? '' : 's'}; the digests
+            differ in <span className="font-semibold">{changed}</span> of {diff.length} bits
+            ({((changed / diff.length) * 100).toFixed(1)}%, ideally close to 50%).
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AvalancheDiff;
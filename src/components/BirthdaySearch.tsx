@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
+import {
+  HASH_FUNCTIONS,
+  HashFunction,
+  TruncatedMatch,
+  findTruncatedCollision,
+  findTruncatedPreimage,
+  utf8Decode,
+  utf8Encode
+} from '../crypto';
+
+const BIT_OPTIONS = [8, 12, 16, 20, 24, 32];
+
+// A preimage costs 2^bits hashes, so beyond this the search takes minutes.
+const MAX_PREIMAGE_BITS = 20;
+
+type SearchKind = 'collision' | 'preimage';
+
+/** Birthday-bound collisions against brute-force preimages, on digests cut down to a few bits. */
+const BirthdaySearch: React.FC = () => {
+  const [fn, setFn] = useState<HashFunction>('SHA-256');
+  const [bits, setBits] = useState(16);
+  const [prefix, setPrefix] = useState('Transfer 100 euros to account');
+  const [target, setTarget] = useState('Transfer 100 euros to Alice');
+  const [running, setRunning] = useState<SearchKind | null>(null);
+  const [attempts, setAttempts] = useState(0);
+  const [match, setMatch] = useState<(TruncatedMatch & { search: SearchKind; fn: HashFunction; bits: number }) | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = async (kind: SearchKind) => {
+    setRunning(kind);
+    setMatch(null);
+    setError(null);
+    setAttempts(0);
+    const found =
+      kind === 'collision'
+        ? await findTruncatedCollision(fn, bits, prefix, setAttempts)
+        : await findTruncatedPreimage(fn, bits, utf8Encode(target), prefix, setAttempts);
+    if (found.ok) {
+      setMatch({ ...found.value, search: kind, fn, bits });
+      setAttempts(found.value.attempts);
+    } else {
+      setError(found.error.message);
+    }
+    setRunning(null);
+  };
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+      <h4 className="text-sm font-medium text-gray-700">Birthday collisions</h4>
+      <p className="text-sm text-gray-600">
+        Among 23 people, two probably share a birthday. In the same way, hashing about 2<sup>n/2</sup> random
+        inputs probably gives two with the same n-bit digest, while finding an input that matches one given
+        digest takes about 2<sup>n</sup>. That is why a 256-bit hash gives 128-bit collision resistance. Here
+        the digest is cut to its first few bits so both searches finish.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Hash function</label>
+          <select
+            value={fn}
+            onChange={(e) => setFn(e.target.value as HashFunction)}
+            className="w-full p-2 border rounded-lg text-sm"
+          >
+            {HASH_FUNCTIONS.map(({ name }) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Digest truncated to</label>
+          <select value={bits} onChange={(e) => setBits(Number(e.target.value))} className="w-full p-2 border rounded-lg text-sm">
+            {BIT_OPTIONS.map(option => (
+              <option key={option} value={option}>
+                {option} bits
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Candidate messages</label>
+          <input type="text" className="w-full p-2 border rounded-lg text-sm" value={prefix} onChange={(e) => setPrefix(e.target.value)} />
+          <p className="text-xs text-gray-500 mt-1">Tried as "{prefix} #0", "{prefix} #1", …</p>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Target for the preimage search</label>
+          <input type="text" className="w-full p-2 border rounded-lg text-sm" value={target} onChange={(e) => setTarget(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <button
+          onClick={() => search('collision')}
+          disabled={!!running}
+          className="bg-teal-600 text-white py-2 px-4 rounded-lg hover:bg-teal-700 flex items-center justify-center disabled:opacity-50"
+        >
+          <Search className="mr-2" size={16} />
+          Find a Collision (~{Math.round(1.25 * 2 ** (bits / 2)).toLocaleString()} hashes)
+        </button>
+        <button
+          onClick={() => search('preimage')}
+          disabled={!!running || bits > MAX_PREIMAGE_BITS}
+          className="bg-white border py-2 px-4 rounded-lg hover:bg-gray-50 flex items-center justify-center disabled:opacity-50"
+        >
+          <Search className="mr-2" size={16} />
+          {bits > MAX_PREIMAGE_BITS
+            ? `Preimage: ~${(2 ** bits).toLocaleString()} hashes, too slow here`
+            : `Find a Preimage (~${(2 ** bits).toLocaleString()} hashes)`}
+        </button>
+      </div>
+
+      {running && (
+        <p className="text-sm text-gray-600">
+          Searching for a {running}… <span className="font-mono">{attempts.toLocaleString()}</span> hashes so far
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {match && (
+        <div className="p-4 bg-green-50 rounded-lg text-sm space-y-1">
+          <p className="font-medium text-green-800">
+            {match.search === 'collision' ? 'Collision' : 'Preimage'} found after {match.attempts.toLocaleString()} hashes
+            (expected about {Math.round(match.search === 'collision' ? 1.25 * 2 ** (match.bits / 2) : 2 ** match.bits).toLocaleString()})
+          </p>
+          <p className="font-mono break-all">{utf8Decode(match.first)}</p>
+          <p className="font-mono break-all">{utf8Decode(match.second)}</p>
+          <p className="text-gray-700">
+            Both {match.fn} digests start with the same {match.bits} bits: <span className="font-mono">{match.truncated}</span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BirthdaySearch;
@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { bruteForceCaesar, caesar } from '../crypto';
+import FrequencyChart from './FrequencyChart';
+
+interface CaesarCipherProps {
+  sample: string;
+}
+
+/** Caesar's shift cipher, broken by trying all 25 keys and scoring each against English. */
+const CaesarCipher: React.FC<CaesarCipherProps> = ({ sample }) => {
+  const [text, setText] = useState(sample);
+  const [shift, setShift] = useState(3);
+
+  const ciphertext = caesar(text, shift);
+  const candidates = useMemo(() => bruteForceCaesar(ciphertext), [ciphertext]);
+  const best = candidates.reduce((a, b) => (b.score < a.score ? b : a));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">Encrypt</h4>
+        <p className="text-sm text-gray-600">
+          Every letter moves the same number of places along the alphabet, wrapping from Z to A. The key is
+          that one number, so there are only 25 useful keys.
+        </p>
+        <textarea
+          className="w-full p-4 border rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+          rows={3}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          Shift
+          <input type="range" min={0} max={25} value={shift} onChange={(e) => setShift(Number(e.target.value))} className="flex-1" />
+          <span className="font-mono w-6 text-right">{shift}</span>
+        </label>
+        <p className="text-sm font-mono break-all bg-white p-4 rounded border">{ciphertext}</p>
+      </div>
+
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">Break it: frequency analysis and brute force</h4>
+        <p className="text-sm text-gray-600">
+          The ciphertext's letter frequencies are English's, moved along by the shift. Trying all 26 shifts and
+          scoring each result by its chi-squared distance from English picks the key without reading a single line.
+        </p>
+        <FrequencyChart text={ciphertext} />
+        <div className="max-h-72 overflow-y-auto bg-white rounded border">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="p-1 w-12">shift</th>
+                <th className="p-1 w-16">χ²</th>
+                <th className="p-1">decryption</th>
+              </tr>
+            </thead>
+            <tbody>
+              {candidates.map(candidate => (
+                <tr key={candidate.shift} className={`border-t ${candidate === best ? 'bg-green-50 font-medium' : 'text-gray-500'}`}>
+                  <td className="p-1 font-mono">{candidate.shift}</td>
+                  <td className="p-1 font-mono">{Number.isFinite(candidate.score) ? candidate.score.toFixed(0) : '-'}</td>
+                  <td className="p-1 font-mono truncate max-w-0 w-full">{candidate.plaintext}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaesarCipher;
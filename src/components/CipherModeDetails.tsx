@@ -0,0 +1,112 @@
+import React from 'react';
+import { AES_BLOCK_BYTES, ctrCounterBlocks, pkcs7Pad, SymmetricCiphertext } from '../crypto';
+
+interface CipherModeDetailsProps {
+  plaintext: Uint8Array;
+  encrypted: SymmetricCiphertext;
+}
+
+const chunk = (bytes: Uint8Array, size = AES_BLOCK_BYTES): Uint8Array[] => {
+  const blocks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) blocks.push(bytes.subarray(i, i + size));
+  return blocks;
+};
+
+// Renders one block as hex, highlighting bytes from `highlightFrom` onwards.
+const HexBlock: React.FC<{ label: string; bytes: Uint8Array; highlightFrom?: number; highlightClass?: string }> = ({
+  label,
+  bytes,
+  highlightFrom = bytes.length,
+  highlightClass = 'bg-amber-200'
+}) => (
+  <div className="flex items-center gap-3 text-xs">
+    <span className="w-28 shrink-0 text-gray-500">{label}</span>
+    <span className="font-mono break-all">
+      {Array.from(bytes).map((b, i) => (
+        <span key={i} className={`px-0.5 rounded ${i >= highlightFrom ? highlightClass : ''}`}>
+          {b.toString(16).padStart(2, '0')}
+        </span>
+      ))}
+    </span>
+  </div>
+);
+
+const CipherModeDetails: React.FC<CipherModeDetailsProps> = ({ plaintext, encrypted }) => {
+  const { mode, iv, ciphertext } = encrypted;
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg space-y-3">
+      <h4 className="text-sm font-medium text-gray-700">How {mode} produced this ciphertext</h4>
+
+      {mode === 'AES-GCM' && (
+        <>
+          <p className="text-sm text-gray-600">
+            A 96-bit random IV feeds a counter mode keystream; a 128-bit authentication tag is appended so
+            any modification is detected on decryption.
+          </p>
+          <HexBlock label="IV (96 bits)" bytes={iv} />
+          <HexBlock
+            label="Ciphertext | tag"
+            bytes={ciphertext}
+            highlightFrom={ciphertext.length - 16}
+            highlightClass="bg-green-200"
+          />
+        </>
+      )}
+
+      {mode === 'AES-CBC' && (
+        <>
+          <p className="text-sm text-gray-600">
+            The plaintext is padded with PKCS#7 (highlighted: N bytes of value N) to a whole number of
+            16-byte blocks. Each block is XORed with the previous ciphertext block, or the random IV for
+            the first, before encryption. There is no integrity check.
+          </p>
+          <HexBlock label="IV" bytes={iv} />
+          {chunk(pkcs7Pad(plaintext)).map((block, i) => (
+            <HexBlock
+              key={i}
+              label={`Plaintext block ${i + 1}`}
+              bytes={block}
+              highlightFrom={Math.max(0, plaintext.length - i * AES_BLOCK_BYTES)}
+            />
+          ))}
+          {chunk(ciphertext).map((block, i) => (
+            <HexBlock key={i} label={`Ciphertext block ${i + 1}`} bytes={block} />
+          ))}
+        </>
+      )}
+
+      {mode === 'AES-CTR' && (
+        <>
+          <p className="text-sm text-gray-600">
+            AES encrypts successive counter blocks (random 64-bit nonce, highlighted 64-bit counter) into
+            a keystream that is XORed with the plaintext. No padding is needed, so the ciphertext is
+            exactly as long as the plaintext, and there is no integrity check.
+          </p>
+          {ctrCounterBlocks(iv, Math.ceil(plaintext.length / AES_BLOCK_BYTES)).map((block, i) => (
+            <HexBlock key={i} label={`Counter block ${i + 1}`} bytes={block} highlightFrom={8} />
+          ))}
+          <HexBlock label="Ciphertext" bytes={ciphertext} />
+        </>
+      )}
+
+      {mode === 'AES-KW' && (
+        <>
+          <p className="text-sm text-gray-600">
+            AES Key Wrap (RFC 3394) takes no IV. It runs six rounds over the key in 64-bit halves starting
+            from the fixed value a6a6a6a6a6a6a6a6, which is checked again on unwrap, so the output is 8 bytes
+            longer than the wrapped key.
+          </p>
+          <HexBlock label={`Key (${plaintext.length} bytes)`} bytes={plaintext} />
+          <HexBlock label={`Wrapped (${ciphertext.length} bytes)`} bytes={ciphertext} />
+        </>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {plaintext.length} bytes in, {ciphertext.length} bytes out
+      </p>
+    </div>
+  );
+};
+
+export default CipherModeDetails;
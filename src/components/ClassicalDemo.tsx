@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import CaesarCipher from './CaesarCipher';
+import OneTimePad from './OneTimePad';
+import SubstitutionCipher from './SubstitutionCipher';
+import VigenereCipher from './VigenereCipher';
+
+type Section = 'caesar' | 'vigenere' | 'substitution' | 'otp';
+
+// Long enough for frequency analysis and Kasiski examination to work.
+const SAMPLE_TEXT =
+  'It was the best of times, it was the worst of times, it was the age of wisdom, it was the age of ' +
+  'foolishness, it was the epoch of belief, it was the epoch of incredulity, it was the season of Light, ' +
+  'it was the season of Darkness, it was the spring of hope, it was the winter of despair.';
+
+const ClassicalDemo: React.FC = () => {
+  const [section, setSection] = useState<Section>('caesar');
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="flex items-center mb-6">
+          <h2 className="text-3xl font-bold text-amber-900">Classical Ciphers</h2>
+        </div>
+
+        <div className="mb-8">
+          <h3 className="text-xl font-semibold mb-4 text-gray-800">About</h3>
+          <p className="text-gray-600">
+            Before computers, ciphers substituted letters by hand. Each of these hides the message from a casual
+            reader, and each except the one-time pad leaks the statistics of the language underneath, which is
+            enough to break it without the key. Modern ciphers are designed so that the ciphertext looks random
+            whatever the plaintext.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-6">
+          {([
+            ['caesar', 'Caesar'],
+            ['vigenere', 'Vigenère'],
+            ['substitution', 'Substitution'],
+            ['otp', 'One-Time Pad']
+          ] as [Section, string][]).map(([option, title]) => (
+            <button
+              key={option}
+              onClick={() => setSection(option)}
+              className={`p-3 rounded-lg border font-semibold transition-colors
+                ${section === option ? 'bg-amber-600 text-white border-amber-600' : 'bg-white text-gray-700 hover:bg-amber-50'}`}
+            >
+              {title}
+            </button>
+          ))}
+        </div>
+
+        {section === 'caesar' ? (
+          <CaesarCipher sample={SAMPLE_TEXT} />
+        ) : section === 'vigenere' ? (
+          <VigenereCipher sample={SAMPLE_TEXT} />
+        ) : section === 'substitution' ? (
+          <SubstitutionCipher sample={SAMPLE_TEXT} />
+        ) : (
+          <OneTimePad />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClassicalDemo;
@@ -0,0 +1,44 @@
+import React from 'react';
+
+export type BlockTone = 'random' | 'hash' | 'message' | 'mask' | 'fixed';
+
+export interface BlockField {
+  label: string;
+  // Preformatted, usually hex.
+  value: string;
+  note: string;
+  tone: BlockTone;
+}
+
+const TONE_CLASSES: Record<BlockTone, string> = {
+  random: 'bg-amber-100 text-amber-900',
+  hash: 'bg-purple-100 text-purple-900',
+  message: 'bg-green-100 text-green-900',
+  mask: 'bg-gray-200 text-gray-800',
+  fixed: 'bg-blue-100 text-blue-900'
+};
+
+interface EncodedBlockProps {
+  title: string;
+  fields: BlockField[];
+}
+
+/** One stage of an encoded RSA block, field by field, coloured by where each byte comes from. */
+const EncodedBlock: React.FC<EncodedBlockProps> = ({ title, fields }) => (
+  <div>
+    <p className="text-xs font-medium text-gray-700 mb-1">{title}</p>
+    <div className="space-y-1">
+      {fields.map(field => (
+        <div key={field.label} className="flex gap-2 text-xs">
+          <span className={`w-28 shrink-0 px-1 rounded font-semibold ${TONE_CLASSES[field.tone]}`}>{field.label}</span>
+          <div className="min-w-0">
+            <p className="font-mono break-all">{field.value}</p>
+            <p className="text-gray-500">{field.note}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default EncodedBlock;
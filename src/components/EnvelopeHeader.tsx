@@ -0,0 +1,23 @@
+import React from 'react';
+import { readEnvelopeHeader } from '../crypto';
+
+interface EnvelopeHeaderProps {
+  envelope: string;
+}
+
+// Shows the decoded JSON header of a ciphertext envelope so its parameters are visible.
+const EnvelopeHeader: React.FC<EnvelopeHeaderProps> = ({ envelope }) => {
+  const header = readEnvelopeHeader(envelope);
+  if (!header) return null;
+
+  return (
+    <div className="mt-2">
+      <span className="text-xs font-medium text-gray-500">Envelope header (decoded):</span>
+      <pre className="text-xs font-mono bg-white p-3 rounded border mt-1 overflow-x-auto">
+        {JSON.stringify(header, null, 2)}
+      </pre>
+    </div>
+  );
+};
+
+export default EnvelopeHeader;
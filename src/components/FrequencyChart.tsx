@@ -0,0 +1,38 @@
+import React from 'react';
+import { ALPHABET, ENGLISH_FREQUENCIES, letterCounts } from '../crypto';
+
+interface FrequencyChartProps {
+  text: string;
+}
+
+// Scaled so English's E (12.7%) fills most of the height.
+const SCALE = 0.14;
+
+/** Letter frequencies of the text as bars, with English frequencies alongside in grey. */
+const FrequencyChart: React.FC<FrequencyChartProps> = ({ text }) => {
+  const counts = letterCounts(text);
+  const total = counts.reduce((sum, count) => sum + count, 0) || 1;
+
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-32 bg-white rounded border p-2">
+        {counts.map((count, i) => (
+          <div key={i} className="flex-1 flex items-end gap-px h-full" title={`${ALPHABET[i]}: ${count} (${((count / total) * 100).toFixed(1)}%)`}>
+            <div className="flex-1 bg-amber-500 rounded-t" style={{ height: `${Math.min(1, count / total / SCALE) * 100}%` }} />
+            <div className="flex-1 bg-gray-300 rounded-t" style={{ height: `${(ENGLISH_FREQUENCIES[i] / SCALE) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-0.5 px-2 text-[10px] font-mono text-gray-500">
+        {ALPHABET.split('').map(letter => (
+          <span key={letter} className="flex-1 text-center">
+            {letter}
+          </span>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">Amber: this text ({total} letters). Grey: typical English.</p>
+    </div>
+  );
+};
+
+export default FrequencyChart;
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { HASH_FUNCTIONS, HashFunction, hashWith, toHex, utf8Encode } from '../crypto';
+
+interface HashComparisonProps {
+  sample: string;
+}
+
+interface Row {
+  name: HashFunction;
+  hex: string | null;
+  error: string | null;
+}
+
+/** One input through every hash function the lab has, with each one's standing. */
+const HashComparison: React.FC<HashComparisonProps> = ({ sample }) => {
+  const [text, setText] = useState(sample);
+  const [rows, setRows] = useState<Row[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const hashAll = async () => {
+      const data = utf8Encode(text);
+      const hashed = await Promise.all(
+        HASH_FUNCTIONS.map(async ({ name }) => {
+          const result = await hashWith(name, data);
+          return result.ok ? { name, hex: toHex(result.value), error: null } : { name, hex: null, error: result.error.message };
+        })
+      );
+      if (!cancelled) setRows(hashed);
+    };
+    hashAll();
+    return () => {
+      cancelled = true;
+    };
+  }, [text]);
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+      <h4 className="text-sm font-medium text-gray-700">Hash an input</h4>
+      <p className="text-sm text-gray-600">
+        A hash function maps any input to a fixed-length digest. It should be infeasible to find two inputs
+        with the same digest (collision resistance) or an input for a given digest (preimage resistance).
+        The SHA-1 and SHA-2 digests come from WebCrypto; MD5, SHA-3 and BLAKE2b are TypeScript, since
+        browsers do not offer them.
+      </p>
+      <textarea
+        className="w-full p-4 border rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+        rows={3}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <div className="space-y-2">
+        {HASH_FUNCTIONS.map(({ name, status, note }) => {
+          const row = rows.find(candidate => candidate.name === name);
+          return (
+            <div key={name} className="bg-white p-3 rounded border text-xs space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-gray-800">{name}</span>
+                <span
+                  className={`px-1.5 rounded ${status === 'broken' ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}
+                >
+                  {status}
+                </span>
+                {row?.hex && <span className="text-gray-500">{row.hex.length * 4} bits</span>}
+              </div>
+              <p className={`font-mono break-all ${row?.error ? 'text-red-700' : ''}`}>{row?.error ?? row?.hex ?? '…'}</p>
+              <p className="text-gray-500">{note}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HashComparison;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import AvalancheDiff from './AvalancheDiff';
+import BirthdaySearch from './BirthdaySearch';
+import HashComparison from './HashComparison';
+import LengthExtension from './LengthExtension';
+
+type Section = 'compare' | 'avalanche' | 'birthday' | 'extension';
+
+const HashingDemo: React.FC = () => {
+  const [section, setSection] = useState<Section>('compare');
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="flex items-center mb-6">
+          <h2 className="text-3xl font-bold text-teal-900">Hash Functions</h2>
+        </div>
+
+        <div className="mb-8">
+          <h3 className="text-xl font-semibold mb-4 text-gray-800">About</h3>
+          <p className="text-gray-600">
+            Hash functions turn any input into a short fingerprint. Signatures, MACs, key derivation and password
+            storage all rely on them, and each relies on a different property: collision resistance, preimage
+            resistance, or output that looks unrelated to the input. These exercises show each property, and one
+            way a sound hash is still misused.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-6">
+          {([
+            ['compare', 'Compare'],
+            ['avalanche', 'Avalanche'],
+            ['birthday', 'Birthday Attack'],
+            ['extension', 'Length Extension']
+          ] as [Section, string][]).map(([option, title]) => (
+            <button
+              key={option}
+              onClick={() => setSection(option)}
+              className={`p-3 rounded-lg border font-semibold transition-colors
+                ${section === option ? 'bg-teal-600 text-white border-teal-600' : 'bg-white text-gray-700 hover:bg-teal-50'}`}
+            >
+              {title}
+            </button>
+          ))}
+        </div>
+
+        {section === 'compare' ? (
+          <HashComparison sample="The quick brown fox jumps over the lazy dog" />
+        ) : section === 'avalanche' ? (
+          <AvalancheDiff />
+        ) : section === 'birthday' ? (
+          <BirthdaySearch />
+        ) : (
+          <LengthExtension />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HashingDemo;
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { CheckCircle, Play, XCircle } from 'lucide-react';
+import {
+  fail,
+  fromHex,
+  HASH_BYTES,
+  HashAlgorithm,
+  hkdf,
+  hkdfExpand,
+  hkdfExtract,
+  HKDF_TEST_VECTORS,
+  HkdfTestVector,
+  ok,
+  Result,
+  toHex
+} from '../crypto';
+import EncodedBlock from './EncodedBlock';
+
+const HASHES = Object.keys(HASH_BYTES) as HashAlgorithm[];
+
+interface Inputs {
+  hash: HashAlgorithm;
+  // Hex, so the RFC 5869 vectors can be pasted as printed.
+  ikm: string;
+  salt: string;
+  info: string;
+  length: number;
+}
+
+interface Steps {
+  inputs: Inputs;
+  prk: Uint8Array;
+  blocks: Uint8Array[];
+  okm: Uint8Array;
+  // Whether WebCrypto's one-call deriveBits gave the same bytes.
+  matchesWebCrypto: boolean;
+}
+
+interface VectorResult {
+  name: string;
+  prk: boolean;
+  okm: boolean;
+}
+
+const vectorInputs = ({ hash, ikm, salt, info, length }: HkdfTestVector): Inputs => ({ hash, ikm, salt, info, length });
+
+const runSteps = async (inputs: Inputs): Promise<Result<Steps>> => {
+  let ikm, salt, info;
+  try {
+    ikm = fromHex(inputs.ikm);
+    salt = fromHex(inputs.salt);
+    info = fromHex(inputs.info);
+  } catch {
+    return fail('invalid-input', 'IKM, salt and info must be hex.');
+  }
+  const prk = await hkdfExtract(ikm, salt, inputs.hash);
+  if (!prk.ok) return prk;
+  const expanded = await hkdfExpand(prk.value, info, inputs.length, inputs.hash);
+  if (!expanded.ok) return expanded;
+  const derived = await hkdf(ikm, salt, info, inputs.length, inputs.hash);
+  if (!derived.ok) return derived;
+  return ok({
+    inputs,
+    prk: prk.value,
+    ...expanded.value,
+    matchesWebCrypto: toHex(derived.value) === toHex(expanded.value.okm)
+  });
+};
+
+/** HKDF one HMAC at a time, checked against WebCrypto and the RFC 5869 test vectors. */
+const HkdfExplorer: React.FC = () => {
+  const [inputs, setInputs] = useState<Inputs>(() => vectorInputs(HKDF_TEST_VECTORS[0]));
+  const [steps, setSteps] = useState<Steps | null>(null);
+  const [vectors, setVectors] = useState<VectorResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const derive = async () => {
+    const result = await runSteps(inputs);
+    if (!result.ok) {
+      setError(result.error.message);
+      setSteps(null);
+      return;
+    }
+    setError(null);
+    setSteps(result.value);
+  };
+
+  const runVectors = async () => {
+    const results: VectorResult[] = [];
+    for (const vector of HKDF_TEST_VECTORS) {
+      const result = await runSteps(vectorInputs(vector));
+      results.push({
+        name: vector.name,
+        prk: result.ok && toHex(result.value.prk) === vector.prk,
+        okm: result.ok && result.value.matchesWebCrypto && toHex(result.value.okm) === vector.okm
+      });
+    }
+    setVectors(results);
+  };
+
+  const hashLength = HASH_BYTES[inputs.hash];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">Extract, then expand</h4>
+        <p className="text-sm text-gray-600">
+          HKDF (RFC 5869) turns input keying material that is secret but not uniformly random, such as a
+          Diffie-Hellman shared secret, into keys. Extract concentrates its entropy into a pseudorandom key, PRK =
+          HMAC(salt, IKM). Expand stretches the PRK into as many bytes as needed, T(i) = HMAC(PRK, T(i-1) ‖ info ‖ i),
+          and the info string names what the output is for.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {HKDF_TEST_VECTORS.map(vector => (
+            <button
+              key={vector.name}
+              onClick={() => setInputs(vectorInputs(vector))}
+              className="px-2 py-1 rounded border bg-white text-xs text-gray-700 hover:bg-indigo-50"
+              title={vector.name}
+            >
+              {vector.name.split(' ')[0]}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {HASHES.map(option => (
+            <button
+              key={option}
+              onClick={() => setInputs(prev => ({ ...prev, hash: option }))}
+              className={`p-2 rounded-lg border text-sm transition-colors
+                ${inputs.hash === option ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-indigo-50'}`}
+            >
+              HKDF-{option}
+            </button>
+          ))}
+        </div>
+        {(['ikm', 'salt', 'info'] as const).map(field => (
+          <div key={field}>
+            <label className="block text-xs font-medium text-gray-500 mb-1">
+              {field === 'ikm' ? 'Input keying material' : field === 'salt' ? 'Salt (empty means HashLen zero bytes)' : 'Info'} (hex)
+            </label>
+            <input
+              type="text"
+              className="w-full p-2 border rounded-lg text-sm font-mono"
+              value={inputs[field]}
+              onChange={(e) => setInputs(prev => ({ ...prev, [field]: e.target.value }))}
+            />
+          </div>
+        ))}
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          Output length
+          <input
+            type="number"
+            min={1}
+            max={255 * hashLength}
+            className="w-24 p-2 border rounded-lg text-sm"
+            value={inputs.length}
+            onChange={(e) => setInputs(prev => ({ ...prev, length: Number(e.target.value) }))}
+          />
+          <span className="text-xs text-gray-500">bytes, at most 255 × {hashLength}</span>
+        </label>
+        <button
+          onClick={derive}
+          className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 flex items-center justify-center"
+        >
+          <Play className="mr-2" size={16} />
+          Derive Step by Step
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 rounded-lg">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {steps && (
+        <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+          <EncodedBlock
+            title={`Extract: PRK = HMAC-${steps.inputs.hash}(salt, IKM)`}
+            fields={[
+              { label: 'Salt', value: steps.inputs.salt || '(empty)', note: 'The HMAC key; public, but ideally random.', tone: 'random' },
+              { label: 'IKM', value: steps.inputs.ikm, note: 'The HMAC message: the secret.', tone: 'message' },
+              { label: 'PRK', value: toHex(steps.prk), note: `${steps.prk.length} bytes, one hash output.`, tone: 'hash' }
+            ]}
+          />
+          <EncodedBlock
+            title={`Expand: T(i) = HMAC-${steps.inputs.hash}(PRK, T(i-1) ‖ info ‖ i)`}
+            fields={[
+              { label: 'Info', value: steps.inputs.info || '(empty)', note: 'Binds the output to its purpose.', tone: 'fixed' },
+              ...steps.blocks.map((block, i) => ({
+                label: `T(${i + 1})`,
+                value: toHex(block),
+                note: i === 0 ? 'HMAC over info ‖ 0x01.' : `HMAC over T(${i}) ‖ info ‖ 0x${(i + 1).toString(16).padStart(2, '0')}.`,
+                tone: 'hash' as const
+              })),
+              {
+                label: 'OKM',
+                value: toHex(steps.okm),
+                note: `The first ${steps.okm.length} bytes of T(1) ‖ … ‖ T(${steps.blocks.length}).`,
+                tone: 'mask'
+              }
+            ]}
+          />
+          <div className={`p-3 rounded-lg flex items-center ${steps.matchesWebCrypto ? 'bg-green-50' : 'bg-red-50'}`}>
+            {steps.matchesWebCrypto ? (
+              <CheckCircle className="text-green-600 mr-2" size={16} />
+            ) : (
+              <XCircle className="text-red-600 mr-2" size={16} />
+            )}
+            <p className={`text-sm ${steps.matchesWebCrypto ? 'text-green-700' : 'text-red-700'}`}>
+              {steps.matchesWebCrypto
+                ? 'WebCrypto deriveBits, which does both steps in one call, gives the same OKM.'
+                : 'WebCrypto deriveBits gives a different OKM.'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-medium text-gray-700">RFC 5869 test vectors</h4>
+          <button onClick={runVectors} className="text-sm text-indigo-600 hover:text-indigo-800">
+            Run All
+          </button>
+        </div>
+        {vectors && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="font-medium pb-1">Case</th>
+                <th className="font-medium pb-1">PRK</th>
+                <th className="font-medium pb-1">OKM</th>
+              </tr>
+            </thead>
+            <tbody>
+              {vectors.map(vector => (
+                <tr key={vector.name} className="border-t">
+                  <td className="py-1 text-gray-700">{vector.name}</td>
+                  {[vector.prk, vector.okm].map((passed, i) => (
+                    <td key={i} className="py-1">
+                      {passed ? <CheckCircle className="text-green-600" size={16} /> : <XCircle className="text-red-600" size={16} />}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HkdfExplorer;
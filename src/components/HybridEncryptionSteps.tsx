@@ -0,0 +1,63 @@
+import React from 'react';
+import { HybridEncryption, toHex } from '../crypto';
+
+interface HybridEncryptionStepsProps {
+  encryption: HybridEncryption;
+  plaintextBytes: number;
+}
+
+const HybridEncryptionSteps: React.FC<HybridEncryptionStepsProps> = ({ encryption, plaintextBytes }) => {
+  const steps = [
+    {
+      title: 'Generate a fresh content key',
+      detail: 'A random 256-bit AES key, used for this one message only.',
+      value: toHex(encryption.contentKey)
+    },
+    {
+      title: 'Encrypt the message with AES-256-GCM',
+      detail: `${plaintextBytes} bytes of plaintext become ${encryption.ciphertext.length} bytes of ciphertext plus tag, under a random 96-bit IV. Symmetric encryption has no practical size limit and is fast.`,
+      value: toHex(encryption.iv)
+    },
+    {
+      title: 'Wrap the content key with RSA-OAEP',
+      detail: `Only the 32-byte key goes through RSA, well inside the OAEP size limit. The wrapped key is ${encryption.wrappedKey.length} bytes, one modulus long.`,
+      value: `${toHex(encryption.wrappedKey).slice(0, 96)}…`
+    },
+    {
+      title: 'Package everything together',
+      detail: 'The wrapped key, IV, tag and ciphertext travel in one envelope. The recipient unwraps the key with their private key, then decrypts the payload.',
+      value: null
+    }
+  ];
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg">
+      <h4 className="text-sm font-medium text-gray-700 mb-4">Hybrid encryption, step by step</h4>
+      <ol className="space-y-4">
+        {steps.map((step, i) => (
+          <li key={step.title} className="flex gap-4">
+            <span className="flex-shrink-0 w-7 h-7 rounded-full bg-green-600 text-white text-sm flex items-center justify-center">
+              {i + 1}
+            </span>
+            <div className="min-w-0">
+              <p className="font-medium text-gray-800">{step.title}</p>
+              <p className="text-sm text-gray-600">{step.detail}</p>
+              {step.value && (
+                <p className="text-xs font-mono break-all bg-white p-2 rounded border mt-1">{step.value}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+      <p className="text-sm text-gray-600 mt-4">
+        This is how real systems work. PGP encrypts each message under a session key wrapped for every
+        recipient, CMS (S/MIME) stores it as a KeyTransRecipientInfo, and TLS uses public-key
+        cryptography only to agree on keys before switching to AES or ChaCha20. RSA is slow, can only
+        encrypt a few hundred bytes, and its output is as large as the modulus; a symmetric cipher
+        handles the bulk data.
+      </p>
+    </div>
+  );
+};
+
+export default HybridEncryptionSteps;
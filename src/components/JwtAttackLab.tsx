@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { Search, Skull, Ticket } from 'lucide-react';
+import {
+  confusedJwt,
+  crackHmacSecret,
+  CrackedSecret,
+  generateMacKey,
+  JwtClaims,
+  JwtVerification,
+  JwtVerifier,
+  KeyPair,
+  lowercaseWords,
+  parseJwtClaims,
+  signatureSchemeOf,
+  signJwt,
+  toBase64Url,
+  unsignedJwt,
+  utf8Encode,
+  verifyJwt,
+  WEAK_SECRETS
+} from '../crypto';
+import JwtCheckList from './JwtCheckList';
+
+const HOUR = 3600;
+const AUDIENCE = 'cryptolab';
+const MAX_WORD_LENGTH = 3;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const userClaims = (admin: boolean): JwtClaims => {
+  const now = nowSeconds();
+  return { sub: 'student-42', aud: AUDIENCE, admin, iat: now, exp: now + HOUR };
+};
+
+interface Forgery {
+  token: string;
+  // The same server configuration, once pinned to its algorithm and once trusting the header.
+  strict: JwtVerification;
+  naive: JwtVerification;
+}
+
+// Both servers hold the same key and differ only in where the algorithm comes from.
+const verifyBoth = async (token: string, verifier: Omit<JwtVerifier, 'algorithm' | 'now'>, expected: JwtVerifier['algorithm']): Promise<Forgery> => {
+  const now = nowSeconds();
+  return {
+    token,
+    strict: await verifyJwt(token, { ...verifier, algorithm: expected, now }),
+    naive: await verifyJwt(token, { ...verifier, algorithm: null, now })
+  };
+};
+
+interface JwtAttackLabProps {
+  // The key pair from the digital signatures tab; key confusion needs an RSA one.
+  keyPair: KeyPair | null;
+}
+
+/** Forges tokens with alg "none" and RS256→HS256 key confusion, and brute forces a weak HS256 secret. */
+const JwtAttackLab: React.FC<JwtAttackLabProps> = ({ keyPair }) => {
+  const [claimsText, setClaimsText] = useState(() => JSON.stringify(userClaims(true), null, 2));
+  // The HS256 server's secret, which the alg "none" attacker never learns.
+  const [serverSecret] = useState(() => toBase64Url(generateMacKey('HS256')));
+  const [noneForgery, setNoneForgery] = useState<Forgery | null>(null);
+  const [confusionForgery, setConfusionForgery] = useState<Forgery | null>(null);
+  const [victimSecret, setVictimSecret] = useState('secret123');
+  const [victimToken, setVictimToken] = useState('');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [cracked, setCracked] = useState<(CrackedSecret & { milliseconds: number }) | null>(null);
+  const [crackedForgery, setCrackedForgery] = useState<Forgery | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const rsaKeyPair = keyPair && signatureSchemeOf(keyPair).name === 'RSA-PSS' ? keyPair : null;
+
+  const forgedClaims = (): JwtClaims | null => {
+    const claims = parseJwtClaims(claimsText);
+    if (!claims.ok) {
+      setError(claims.error.message);
+      return null;
+    }
+    setError(null);
+    return claims.value;
+  };
+
+  const forgeUnsigned = async () => {
+    const claims = forgedClaims();
+    if (!claims) return;
+    setNoneForgery(await verifyBoth(unsignedJwt(claims), { key: serverSecret, audience: AUDIENCE }, 'HS256'));
+  };
+
+  const forgeConfused = async () => {
+    const claims = forgedClaims();
+    if (!claims || !rsaKeyPair) return;
+    const token = await confusedJwt(claims, rsaKeyPair.publicKey);
+    if (!token.ok) {
+      setError(token.error.message);
+      return;
+    }
+    setConfusionForgery(await verifyBoth(token.value, { key: rsaKeyPair.publicKey, audience: AUDIENCE }, 'RS256'));
+  };
+
+  const issueVictimToken = async () => {
+    const token = await signJwt(userClaims(false), 'HS256', utf8Encode(victimSecret));
+    if (!token.ok) {
+      setError(token.error.message);
+      return;
+    }
+    setError(null);
+    setVictimToken(token.value);
+    setCracked(null);
+    setCrackedForgery(null);
+  };
+
+  const crack = async () => {
+    setProgress(0);
+    setCracked(null);
+    setCrackedForgery(null);
+    const started = performance.now();
+    const found = await crackHmacSecret(victimToken, [...WEAK_SECRETS, ...lowercaseWords(MAX_WORD_LENGTH)], setProgress);
+    setProgress(null);
+    if (!found.ok) {
+      setError(found.error.message);
+      return;
+    }
+    setCracked({ ...found.value, milliseconds: performance.now() - started });
+    const claims = forgedClaims();
+    if (!claims || found.value.secret === null) return;
+    const forged = await signJwt(claims, 'HS256', utf8Encode(found.value.secret));
+    if (!forged.ok) {
+      setError(forged.error.message);
+      return;
+    }
+    setCrackedForgery(await verifyBoth(forged.value, { key: victimSecret, audience: AUDIENCE }, 'HS256'));
+  };
+
+  const renderForgery = (forgery: Forgery, strictTitle: string) => (
+    <div className="space-y-4">
+      <p className="text-xs font-mono break-all bg-white p-3 rounded border">{forgery.token}</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <JwtCheckList verification={forgery.strict} title={strictTitle} />
+        <JwtCheckList verification={forgery.naive} title="Server trusting the header's alg" />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Forged Claims</label>
+        <textarea
+          className="w-full p-4 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+          rows={8}
+          value={claimsText}
+          onChange={(e) => setClaimsText(e.target.value)}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          What the attacker wants the server to believe, here that student-42 is an admin. Each attack below puts
+          these claims in a token the attacker had no key to sign.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 rounded-lg">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">alg: none</h4>
+        <p className="text-sm text-gray-600">
+          RFC 7519 allows unsecured tokens with alg "none" and an empty signature. A server that signs its own tokens
+          with HS256 but reads the algorithm from each token's header will skip the signature check for one that says
+          none, so anyone can write any claims.
+        </p>
+        <button
+          onClick={forgeUnsigned}
+          className="w-full bg-cyan-600 text-white py-2 px-4 rounded-lg hover:bg-cyan-700 flex items-center justify-center"
+        >
+          <Skull className="mr-2" size={16} />
+          Forge an Unsigned Token
+        </button>
+        {noneForgery && renderForgery(noneForgery, 'Server accepting only HS256')}
+      </div>
+
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">RS256 → HS256 key confusion</h4>
+        <p className="text-sm text-gray-600">
+          The server verifies RS256 tokens with its public key. If it lets the header pick the algorithm, a token
+          saying HS256 is checked with HMAC, using that same key, the PEM text, as the secret. The public key is
+          public, so the attacker computes the HMAC too.
+        </p>
+        {rsaKeyPair ? (
+          <button
+            onClick={forgeConfused}
+            className="w-full bg-cyan-600 text-white py-2 px-4 rounded-lg hover:bg-cyan-700 flex items-center justify-center"
+          >
+            <Skull className="mr-2" size={16} />
+            Forge with the Public Key as HMAC Secret
+          </button>
+        ) : (
+          <p className="text-sm p-3 rounded-lg bg-amber-50 text-amber-800">
+            Generate an RSA-PSS key pair on the Digital Signatures tab to play the server.
+          </p>
+        )}
+        {confusionForgery && renderForgery(confusionForgery, 'Server accepting only RS256')}
+      </div>
+
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">Weak HMAC secret</h4>
+        <p className="text-sm text-gray-600">
+          One HS256 token is enough to test guesses offline, without ever asking the server. This tries {WEAK_SECRETS.length}{' '}
+          common secrets, then every lowercase word of up to {MAX_WORD_LENGTH} letters. Pinning the algorithm does not
+          help: the forged token is genuinely signed with the server's own secret.
+        </p>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Server secret</label>
+          <input
+            type="text"
+            className="w-full p-2 border rounded-lg text-sm font-mono"
+            value={victimSecret}
+            onChange={(e) => {
+              setVictimSecret(e.target.value);
+              setVictimToken('');
+              setCracked(null);
+              setCrackedForgery(null);
+            }}
+          />
+        </div>
+        <button onClick={issueVictimToken} className="w-full bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50 flex items-center justify-center">
+          <Ticket className="mr-2" size={16} />
+          Issue an Ordinary User's Token
+        </button>
+        {victimToken && (
+          <>
+            <p className="text-xs font-mono break-all bg-white p-3 rounded border">{victimToken}</p>
+            <button
+              onClick={crack}
+              disabled={progress !== null}
+              className="w-full bg-cyan-600 text-white py-2 px-4 rounded-lg hover:bg-cyan-700 disabled:opacity-50 flex items-center justify-center"
+            >
+              <Search className="mr-2" size={16} />
+              {progress !== null ? `Tried ${progress.toLocaleString()} secrets...` : 'Guess the Secret'}
+            </button>
+          </>
+        )}
+        {cracked && (
+          <div className={`p-3 rounded text-sm ${cracked.secret === null ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+            {cracked.secret === null
+              ? `None of ${cracked.attempts.toLocaleString()} guesses matched: this secret is out of the wordlist's reach.`
+              : `Found "${cracked.secret}" after ${cracked.attempts.toLocaleString()} guesses in ${Math.round(cracked.milliseconds)} ms.`}
+          </div>
+        )}
+        {crackedForgery && renderForgery(crackedForgery, 'Server accepting only HS256')}
+      </div>
+    </div>
+  );
+};
+
+export default JwtAttackLab;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { CheckCircle, MinusCircle, XCircle } from 'lucide-react';
+import { CheckStatus, JwtVerification } from '../crypto';
+
+const STATUS_ICONS: Record<CheckStatus, React.ReactNode> = {
+  passed: <CheckCircle className="flex-shrink-0 text-green-600" size={18} />,
+  failed: <XCircle className="flex-shrink-0 text-red-600" size={18} />,
+  absent: <MinusCircle className="flex-shrink-0 text-amber-600" size={18} />
+};
+
+interface JwtCheckListProps {
+  verification: JwtVerification;
+  // Names the verifier, e.g. "Strict server".
+  title?: string;
+}
+
+/** Each check a token went through, and the verdict. */
+const JwtCheckList: React.FC<JwtCheckListProps> = ({ verification, title }) => {
+  const rejectedBy = verification.checks.filter(check => check.status === 'failed').map(check => check.name);
+  return (
+    <div className="space-y-2">
+      {title && <p className="text-sm font-medium text-gray-700">{title}</p>}
+      {verification.checks.map(check => (
+        <div key={check.name} className="flex gap-2 text-sm">
+          {STATUS_ICONS[check.status]}
+          <span>
+            <span className="font-medium">{check.name}:</span> {check.message}
+          </span>
+        </div>
+      ))}
+      <div className={`p-3 rounded text-sm ${verification.valid ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+        {verification.valid ? 'Accepted.' : `Rejected by ${rejectedBy.join(', ')}.`}
+      </div>
+    </div>
+  );
+};
+
+export default JwtCheckList;
@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import { Clock, RefreshCw, ShieldCheck, Ticket } from 'lucide-react';
+import {
+  generateMacKey,
+  JWT_ALGORITHMS,
+  JwtAlgorithm,
+  JwtClaims,
+  JwtVerification,
+  KeyPair,
+  parseJwtClaims,
+  PrivateKeyInput,
+  privateKeyOf,
+  schemeLabel,
+  signatureSchemeOf,
+  signJwt,
+  toBase64Url,
+  utf8Encode,
+  verifyJwt
+} from '../crypto';
+import JwtAttackLab from './JwtAttackLab';
+import JwtCheckList from './JwtCheckList';
+import SignatureFormatView from './SignatureFormatView';
+
+const ALGORITHM_DESCRIPTIONS: Record<JwtAlgorithm, string> = {
+  HS256: 'HMAC-SHA-256 with a shared secret',
+  RS256: 'RSASSA-PKCS1-v1_5 with SHA-256',
+  PS256: 'RSA-PSS with SHA-256',
+  ES256: 'ECDSA P-256 with SHA-256'
+};
+
+type Section = 'token' | 'attacks';
+
+type Validity = 'valid' | 'expired' | 'future';
+
+const HOUR = 3600;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const randomSecret = () => toBase64Url(generateMacKey('HS256'));
+
+// Sets iat, nbf and exp relative to the current time.
+const VALIDITY_TIMES: Record<Validity, (now: number) => Pick<JwtClaims, 'iat' | 'nbf' | 'exp'>> = {
+  valid: now => ({ iat: now, nbf: now, exp: now + HOUR }),
+  expired: now => ({ iat: now - 2 * HOUR, nbf: now - 2 * HOUR, exp: now - HOUR }),
+  future: now => ({ iat: now, nbf: now + HOUR, exp: now + 2 * HOUR })
+};
+
+const sampleClaims = (): JwtClaims => ({
+  iss: 'https://cryptolab.example',
+  sub: 'student-42',
+  aud: 'cryptolab',
+  admin: false,
+  ...VALIDITY_TIMES.valid(nowSeconds())
+});
+
+// RSA key pairs from the signatures tab sign RS256 and PS256; only P-256 fits ES256.
+const keyPairAlgorithms = (keyPair: KeyPair | null): JwtAlgorithm[] => {
+  if (!keyPair) return [];
+  const scheme = signatureSchemeOf(keyPair);
+  if (scheme.name === 'RSA-PSS') return ['RS256', 'PS256'];
+  if (scheme.name === 'ECDSA' && scheme.curve === 'P-256') return ['ES256'];
+  return [];
+};
+
+interface JwtDemoProps {
+  // The key pair from the digital signatures tab.
+  keyPair: KeyPair | null;
+}
+
+const JwtDemo: React.FC<JwtDemoProps> = ({ keyPair }) => {
+  const [section, setSection] = useState<Section>('token');
+  const [algorithm, setAlgorithm] = useState<JwtAlgorithm>('HS256');
+  const [secret, setSecret] = useState(randomSecret);
+  const [claimsText, setClaimsText] = useState(() => JSON.stringify(sampleClaims(), null, 2));
+  const [error, setError] = useState<string | null>(null);
+  const [token, setToken] = useState('');
+  const [pinned, setPinned] = useState<JwtAlgorithm | 'header'>('HS256');
+  const [verifyKey, setVerifyKey] = useState('');
+  const [audience, setAudience] = useState('cryptolab');
+  // Hours added to the verifier's clock, to try exp and nbf.
+  const [clockOffset, setClockOffset] = useState(0);
+  const [verification, setVerification] = useState<JwtVerification | null>(null);
+
+  const usable = keyPairAlgorithms(keyPair);
+
+  const setValidity = (validity: Validity) => {
+    const claims = parseJwtClaims(claimsText);
+    if (!claims.ok) {
+      setError(claims.error.message);
+      return;
+    }
+    setError(null);
+    setClaimsText(JSON.stringify({ ...claims.value, ...VALIDITY_TIMES[validity](nowSeconds()) }, null, 2));
+  };
+
+  const handleSign = async () => {
+    const claims = parseJwtClaims(claimsText);
+    if (!claims.ok) {
+      setError(claims.error.message);
+      return;
+    }
+    // The secret, or the key pair's halves: the private key signs, the public key goes to the verifier.
+    let signingKey: Uint8Array | PrivateKeyInput = utf8Encode(secret);
+    let verifyingKey = secret;
+    if (algorithm !== 'HS256') {
+      if (!keyPair || !usable.includes(algorithm)) {
+        setError(
+          algorithm === 'ES256'
+            ? 'ES256 needs an ECDSA P-256 key pair: generate one on the Digital Signatures tab.'
+            : `${algorithm} needs an RSA key pair: generate an RSA-PSS one on the Digital Signatures tab.`
+        );
+        return;
+      }
+      signingKey = privateKeyOf(keyPair);
+      verifyingKey = keyPair.publicKey;
+    }
+    const signed = await signJwt(claims.value, algorithm, signingKey);
+    if (!signed.ok) {
+      setError(signed.error.message);
+      return;
+    }
+    setError(null);
+    setToken(signed.value);
+    setPinned(algorithm);
+    setVerifyKey(verifyingKey);
+    setVerification(null);
+  };
+
+  const handleVerify = async () => {
+    setVerification(
+      await verifyJwt(token, {
+        algorithm: pinned === 'header' ? null : pinned,
+        key: verifyKey,
+        audience: audience.trim(),
+        now: nowSeconds() + clockOffset * HOUR
+      })
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="flex items-center mb-6">
+          <h2 className="text-3xl font-bold text-cyan-900">JSON Web Tokens</h2>
+        </div>
+
+        <div className="mb-8">
+          <h3 className="text-xl font-semibold mb-4 text-gray-800">About</h3>
+          <p className="text-gray-600">
+            A JSON Web Token (RFC 7519) is a set of claims about a user, such as who they are, who the token is
+            for and when it expires, signed as a compact JWS: base64url header, payload and signature joined by
+            dots. The claims are only encoded, not encrypted, so anyone can read them; the signature is what stops
+            anyone from changing them. HS256 uses a secret shared by issuer and verifier, the others a key pair
+            whose public half anyone can use to verify.
+          </p>
+          <p className="text-gray-600 mt-2">
+            A verifier has more to check than the signature: that the algorithm is the one it expects, that the
+            token has not expired (exp) and is already valid (nbf), and that it was issued for this service (aud).
+            The attacks section shows what goes wrong when it lets the token's own header choose the algorithm,
+            or when the HMAC secret can be guessed.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {([
+            ['token', 'Build & Verify'],
+            ['attacks', 'Attacks']
+          ] as [Section, string][]).map(([option, title]) => (
+            <button
+              key={option}
+              onClick={() => setSection(option)}
+              className={`p-3 rounded-lg border font-semibold transition-colors
+                ${section === option ? 'bg-cyan-600 text-white border-cyan-600' : 'bg-white text-gray-700 hover:bg-cyan-50'}`}
+            >
+              {title}
+            </button>
+          ))}
+        </div>
+
+        {section === 'attacks' ? (
+          <JwtAttackLab keyPair={keyPair} />
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Algorithm</label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {JWT_ALGORITHMS.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setAlgorithm(option)}
+                    className={`p-3 rounded-lg border text-left transition-colors
+                      ${algorithm === option ? 'bg-cyan-600 text-white border-cyan-600' : 'bg-white text-gray-700 hover:bg-cyan-50'}`}
+                  >
+                    <span className="block font-semibold">{option}</span>
+                    <span className={`block text-xs ${algorithm === option ? 'text-cyan-100' : 'text-gray-500'}`}>
+                      {ALGORITHM_DESCRIPTIONS[option]}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {algorithm === 'HS256' ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Shared Secret</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    className="flex-1 p-4 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                    value={secret}
+                    onChange={(e) => setSecret(e.target.value)}
+                  />
+                  <button onClick={() => setSecret(randomSecret())} className="text-cyan-600 hover:text-cyan-800" title="New random secret">
+                    <RefreshCw size={16} />
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  The text's UTF-8 bytes are the HMAC key. The default is 32 random bytes; a word typed here can be
+                  found from a single token, as the attacks section shows.
+                </p>
+              </div>
+            ) : (
+              <p className={`text-sm p-3 rounded-lg ${usable.includes(algorithm) ? 'bg-gray-50 text-gray-600' : 'bg-amber-50 text-amber-800'}`}>
+                {keyPair && usable.includes(algorithm)
+                  ? `Signs with the ${schemeLabel(signatureSchemeOf(keyPair))} key pair from the Digital Signatures tab.`
+                  : `Generate ${algorithm === 'ES256' ? 'an ECDSA P-256' : 'an RSA-PSS'} key pair on the Digital Signatures tab to sign ${algorithm} tokens.`}
+              </p>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Claims</label>
+              <textarea
+                className="w-full p-4 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                rows={10}
+                value={claimsText}
+                onChange={(e) => setClaimsText(e.target.value)}
+              />
+              <div className="flex flex-wrap gap-2 mt-2">
+                {([
+                  ['valid', 'Valid for an hour'],
+                  ['expired', 'Expired an hour ago'],
+                  ['future', 'Valid from an hour from now']
+                ] as [Validity, string][]).map(([validity, title]) => (
+                  <button key={validity} onClick={() => setValidity(validity)} className="px-3 py-1 text-xs border rounded-lg hover:bg-cyan-50">
+                    <Clock className="inline mr-1" size={12} />
+                    {title}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <button
+              onClick={handleSign}
+              className="w-full bg-cyan-600 text-white py-3 px-4 rounded-lg hover:bg-cyan-700 transition-colors flex items-center justify-center"
+            >
+              <Ticket className="mr-2" size={20} />
+              Sign Token
+            </button>
+
+            {error && (
+              <div className="p-4 bg-red-50 rounded-lg">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            <div className="border-t pt-6">
+              <h3 className="text-xl font-semibold mb-4">Decode and Verify a Token</h3>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Token</label>
+                  <textarea
+                    className="w-full p-4 border rounded-lg font-mono text-sm"
+                    rows={4}
+                    value={token}
+                    onChange={(e) => {
+                      setToken(e.target.value);
+                      setVerification(null);
+                    }}
+                    placeholder="Sign a token above or paste one"
+                  />
+                  {token.trim() && <SignatureFormatView text={token} format="jws" />}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Accepted Algorithm</label>
+                    <select
+                      className="w-full p-2 border rounded-lg text-sm"
+                      value={pinned}
+                      onChange={(e) => setPinned(e.target.value as JwtAlgorithm | 'header')}
+                    >
+                      {JWT_ALGORITHMS.map(option => (
+                        <option key={option} value={option}>
+                          Only {option}
+                        </option>
+                      ))}
+                      <option value="header">Whatever the header says</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Expected Audience</label>
+                    <input
+                      type="text"
+                      className="w-full p-2 border rounded-lg text-sm"
+                      value={audience}
+                      onChange={(e) => setAudience(e.target.value)}
+                      placeholder="Empty to skip"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Clock: {clockOffset >= 0 ? '+' : ''}{clockOffset} h</label>
+                    <input
+                      type="range"
+                      min={-3}
+                      max={3}
+                      className="w-full"
+                      value={clockOffset}
+                      onChange={(e) => setClockOffset(Number(e.target.value))}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {pinned === 'HS256' ? 'Shared Secret' : pinned === 'header' ? 'Key (secret or public key PEM)' : 'Public Key (PEM)'}
+                  </label>
+                  <textarea
+                    className="w-full p-4 border rounded-lg font-mono text-xs"
+                    rows={pinned === 'HS256' ? 1 : 4}
+                    value={verifyKey}
+                    onChange={(e) => setVerifyKey(e.target.value)}
+                  />
+                </div>
+
+                <button onClick={handleVerify} className="w-full bg-cyan-600 text-white py-3 px-4 rounded-lg hover:bg-cyan-700">
+                  <ShieldCheck className="inline mr-2" size={16} />
+                  Verify Token
+                </button>
+
+                {verification && <JwtCheckList verification={verification} />}
+                <p className="text-xs text-gray-500">
+                  Every check runs even after one fails, so a token can be rejected for several reasons at once. A
+                  real verifier also allows a minute or two of clock skew for exp and nbf.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JwtDemo;
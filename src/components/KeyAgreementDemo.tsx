@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import { Handshake, KeySquare } from 'lucide-react';
+import {
+  AGREEMENT_CURVES,
+  AgreementCurve,
+  agreementCurveOf,
+  agreeSharedSecret,
+  decodeSymmetricEnvelope,
+  decryptSymmetric,
+  encodeSymmetricEnvelope,
+  encryptSymmetric,
+  generateAgreementKeyPair,
+  hkdf,
+  KeyringEntry,
+  KeyringMaterial,
+  privateKeyOf,
+  supportsNative,
+  toHex,
+  utf8Decode,
+  utf8Encode
+} from '../crypto';
+import { KeyPair } from '../types';
+import KeyPairEditor from './KeyPairEditor';
+import KeyringPicker from './KeyringPicker';
+
+const HKDF_INFO = 'cryptolab ECDH AES-256-GCM';
+const AES_KEY_BYTES = 32;
+const SALT_BYTES = 32;
+
+interface Exchange {
+  aliceSecret: Uint8Array;
+  bobSecret: Uint8Array;
+  salt: Uint8Array;
+  aliceKey: Uint8Array;
+  bobKey: Uint8Array;
+  envelope: string;
+  decrypted: string;
+}
+
+const KeyAgreementDemo: React.FC = () => {
+  const [curve, setCurve] = useState<AgreementCurve>('X25519');
+  const [nativeX25519, setNativeX25519] = useState<boolean | null>(null);
+  const [alice, setAlice] = useState<KeyPair | null>(null);
+  const [bob, setBob] = useState<KeyPair | null>(null);
+  const [message, setMessage] = useState('');
+  const [exchange, setExchange] = useState<Exchange | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    supportsNative('X25519').then(setNativeX25519);
+  }, []);
+
+  const generateKeyPairs = async () => {
+    const [aliceKeys, bobKeys] = await Promise.all([generateAgreementKeyPair(curve), generateAgreementKeyPair(curve)]);
+    if (!aliceKeys.ok) {
+      setError(aliceKeys.error.message);
+      return;
+    }
+    if (!bobKeys.ok) {
+      setError(bobKeys.error.message);
+      return;
+    }
+    setError(null);
+    setExchange(null);
+    setAlice(aliceKeys.value);
+    setBob(bobKeys.value);
+  };
+
+  // Both parties must be on the selected curve for their keys to combine.
+  const acceptsAgreementKey = (material: KeyringMaterial) =>
+    material.type === 'key-pair' && agreementCurveOf(material.keyPair) === curve;
+
+  const selectFromKeyring = (setParty: (keyPair: KeyPair) => void) => (entry: KeyringEntry) => {
+    if (entry.type !== 'key-pair') return;
+    setExchange(null);
+    setParty(entry.keyPair);
+  };
+
+  const runExchange = async () => {
+    if (!alice || !bob) return;
+    const keyCurve = agreementCurveOf(alice) ?? curve;
+
+    // Each side combines its own private key with the other's public key.
+    const aliceSecret = await agreeSharedSecret(keyCurve, privateKeyOf(alice), bob.publicKey);
+    if (!aliceSecret.ok) return setError(`Alice: ${aliceSecret.error.message}`);
+    const bobSecret = await agreeSharedSecret(keyCurve, privateKeyOf(bob), alice.publicKey);
+    if (!bobSecret.ok) return setError(`Bob: ${bobSecret.error.message}`);
+
+    // The raw secret is not uniformly random, so it goes through HKDF before use as an AES key.
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const info = utf8Encode(HKDF_INFO);
+    const aliceKey = await hkdf(aliceSecret.value, salt, info, AES_KEY_BYTES);
+    if (!aliceKey.ok) return setError(aliceKey.error.message);
+    const bobKey = await hkdf(bobSecret.value, salt, info, AES_KEY_BYTES);
+    if (!bobKey.ok) return setError(bobKey.error.message);
+
+    const encrypted = await encryptSymmetric(utf8Encode(message), aliceKey.value, 'AES-GCM');
+    if (!encrypted.ok) return setError(encrypted.error.message);
+    const envelope = encodeSymmetricEnvelope(encrypted.value);
+
+    const received = decodeSymmetricEnvelope(envelope);
+    if (!received.ok) return setError(received.error.message);
+    const decrypted = await decryptSymmetric(received.value, bobKey.value);
+
+    setError(decrypted.ok ? null : `Bob could not decrypt: ${decrypted.error.message}`);
+    setExchange({
+      aliceSecret: aliceSecret.value,
+      bobSecret: bobSecret.value,
+      salt,
+      aliceKey: aliceKey.value,
+      bobKey: bobKey.value,
+      envelope,
+      decrypted: decrypted.ok ? utf8Decode(decrypted.value) : ''
+    });
+  };
+
+  const secretsMatch = exchange !== null && toHex(exchange.aliceSecret) === toHex(exchange.bobSecret);
+
+  const steps = exchange && [
+    {
+      title: "Alice combines Alice's private key with Bob's public key",
+      value: toHex(exchange.aliceSecret)
+    },
+    {
+      title: "Bob combines Bob's private key with Alice's public key",
+      value: toHex(exchange.bobSecret)
+    },
+    {
+      title: `Both run HKDF-SHA-256 with a shared salt and info "${HKDF_INFO}"`,
+      value: `salt ${toHex(exchange.salt)}\nAlice key ${toHex(exchange.aliceKey)}\nBob key   ${toHex(exchange.bobKey)}`
+    },
+    {
+      title: 'Alice encrypts with AES-256-GCM; only the envelope and salt cross the wire',
+      value: exchange.envelope
+    }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <p className="text-gray-600">
+        With ECDH, Alice and Bob each publish a public key and derive the same secret from their own
+        private key and the other's public key; nothing secret is ever sent. TLS 1.3, Signal and SSH
+        all agree keys this way with fresh ephemeral keys per session, which gives forward secrecy:
+        stealing a long-term key later does not decrypt past traffic. RSA key transport cannot offer
+        that, which is why TLS 1.3 removed it.
+      </p>
+      <p className="text-gray-600">
+        X25519 (Curve25519) is the default in TLS 1.3, SSH, Signal and WireGuard: every 32-byte string
+        is a valid public key, and the curve was designed to make fast constant-time code easy.
+        {nativeX25519 === false &&
+          ' This browser has no native X25519, so the lab uses its bundled pure-TypeScript implementation.'}
+      </p>
+
+      {error && (
+        <div className="p-4 bg-red-50 rounded-lg">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="flex gap-4 items-end">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Curve</label>
+          <select
+            className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            value={curve}
+            onChange={(e) => setCurve(e.target.value as AgreementCurve)}
+          >
+            {AGREEMENT_CURVES.map(name => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={generateKeyPairs}
+          className="flex-1 bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center"
+        >
+          <KeySquare className="mr-2" size={20} />
+          Generate Alice's and Bob's Key Pairs
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <KeyringPicker
+          accepts={acceptsAgreementKey}
+          current={alice && { type: 'key-pair', keyPair: alice }}
+          onSelect={selectFromKeyring(setAlice)}
+          accent="green"
+          title="Alice's key pair"
+          suggestedName="Alice"
+        />
+        <KeyringPicker
+          accepts={acceptsAgreementKey}
+          current={bob && { type: 'key-pair', keyPair: bob }}
+          onSelect={selectFromKeyring(setBob)}
+          accent="green"
+          title="Bob's key pair"
+          suggestedName="Bob"
+        />
+      </div>
+
+      {alice && <KeyPairEditor keyPair={alice} onChange={setAlice} accent="green" owner="Alice's" />}
+      {bob && <KeyPairEditor keyPair={bob} onChange={setBob} accent="green" owner="Bob's" />}
+
+      {alice && bob && (
+        <>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Alice's Message to Bob</label>
+            <textarea
+              className="w-full p-4 border rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              rows={3}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Enter your message..."
+            />
+          </div>
+
+          <button
+            onClick={runExchange}
+            className="w-full bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center"
+          >
+            <Handshake className="mr-2" size={20} />
+            Agree on a Key and Send
+          </button>
+        </>
+      )}
+
+      {exchange && steps && (
+        <div className="bg-gray-50 p-6 rounded-lg">
+          <h4 className="text-sm font-medium text-gray-700 mb-4">Key agreement, step by step</h4>
+          <ol className="space-y-4">
+            {steps.map((step, i) => (
+              <li key={step.title} className="flex gap-4">
+                <span className="flex-shrink-0 w-7 h-7 rounded-full bg-green-600 text-white text-sm flex items-center justify-center">
+                  {i + 1}
+                </span>
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800">{step.title}</p>
+                  <p className="text-xs font-mono break-all whitespace-pre-wrap bg-white p-2 rounded border mt-1">{step.value}</p>
+                </div>
+              </li>
+            ))}
+          </ol>
+          <div className={`mt-4 p-3 rounded ${secretsMatch ? 'bg-green-50' : 'bg-red-50'}`}>
+            <p className={secretsMatch ? 'text-green-700' : 'text-red-700'}>
+              Shared secrets {secretsMatch ? 'match' : 'differ: one of the keys was changed'}
+            </p>
+          </div>
+          {exchange.decrypted && (
+            <div className="mt-4 p-4 bg-green-50 rounded-lg">
+              <h4 className="text-sm font-medium text-green-800 mb-2">Bob decrypts:</h4>
+              <p className="text-green-700">{exchange.decrypted}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeyAgreementDemo;
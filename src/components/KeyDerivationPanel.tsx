@@ -0,0 +1,176 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import {
+  bruteForceSeconds,
+  DEFAULT_ARGON2_PARAMS,
+  DEFAULT_PBKDF2_ITERATIONS,
+  DEFAULT_SCRYPT_PARAMS,
+  KDF_LABELS,
+  KDF_LIMITS,
+  KdfAlgorithm,
+  KdfSettings
+} from '../crypto';
+
+export interface KdfChoice {
+  algorithm: KdfAlgorithm;
+  settings: KdfSettings;
+}
+
+interface KeyDerivationPanelProps {
+  choice: KdfChoice;
+  onChange: (choice: KdfChoice) => void;
+  // Most recent derivation time per algorithm, in milliseconds.
+  timings: Partial<Record<KdfAlgorithm, number>>;
+}
+
+const GUESS_TARGETS = [
+  { label: '6-digit PIN', guesses: 1e6 },
+  { label: '8 lowercase letters', guesses: 26 ** 8 },
+  { label: '10 mixed-case letters + digits', guesses: 62 ** 10 }
+];
+
+const formatDuration = (seconds: number): string => {
+  const units: [string, number][] = [
+    ['years', 365 * 24 * 3600],
+    ['days', 24 * 3600],
+    ['hours', 3600],
+    ['minutes', 60],
+    ['seconds', 1]
+  ];
+  for (const [name, size] of units) {
+    if (seconds >= size) {
+      const value = seconds / size;
+      return `${value >= 1e6 ? value.toExponential(1) : value.toFixed(1)} ${name}`;
+    }
+  }
+  return `${(seconds * 1000).toFixed(1)} ms`;
+};
+
+const KeyDerivationPanel: React.FC<KeyDerivationPanelProps> = ({ choice, onChange, timings }) => {
+  const updateSettings = (settings: KdfSettings) => onChange({ ...choice, settings: { ...choice.settings, ...settings } });
+  const numberInput = 'w-full p-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+  return (
+    <div className="bg-indigo-50 p-6 rounded-lg space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Key Derivation Function</label>
+        <select
+          className="w-full p-2 border rounded-lg bg-white"
+          value={choice.algorithm}
+          onChange={(e) => onChange({ ...choice, algorithm: e.target.value as KdfAlgorithm })}
+        >
+          {(Object.keys(KDF_LABELS) as KdfAlgorithm[]).map(algorithm => (
+            <option key={algorithm} value={algorithm}>{KDF_LABELS[algorithm]}</option>
+          ))}
+        </select>
+      </div>
+
+      {choice.algorithm === 'sha256' && (
+        <p className="text-sm text-red-700">
+          A single unsalted hash costs an attacker almost nothing per guess, and identical passphrases
+          always give identical keys. Shown here only for comparison.
+        </p>
+      )}
+
+      {choice.algorithm === 'pbkdf2-sha256' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Iterations</label>
+          <input
+            type="number"
+            min={1}
+            max={KDF_LIMITS.pbkdf2Iterations}
+            className={numberInput}
+            value={choice.settings.pbkdf2Iterations ?? DEFAULT_PBKDF2_ITERATIONS}
+            onChange={(e) =>
+              updateSettings({ pbkdf2Iterations: Math.min(KDF_LIMITS.pbkdf2Iterations, Math.max(1, Number(e.target.value))) })
+            }
+          />
+        </div>
+      )}
+
+      {choice.algorithm === 'scrypt' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Cost N = 2^{Math.log2(choice.settings.scryptN ?? DEFAULT_SCRYPT_PARAMS.N)} (r = {DEFAULT_SCRYPT_PARAMS.r},
+            p = {DEFAULT_SCRYPT_PARAMS.p}, memory ≈{' '}
+            {((128 * DEFAULT_SCRYPT_PARAMS.r * (choice.settings.scryptN ?? DEFAULT_SCRYPT_PARAMS.N)) / 2 ** 20).toFixed(0)} MiB)
+          </label>
+          <input
+            type="range"
+            min={10}
+            max={20}
+            className="w-full"
+            value={Math.log2(choice.settings.scryptN ?? DEFAULT_SCRYPT_PARAMS.N)}
+            onChange={(e) => updateSettings({ scryptN: 2 ** Number(e.target.value) })}
+          />
+        </div>
+      )}
+
+      {choice.algorithm === 'argon2id' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Memory (KiB)</label>
+            <input
+              type="number"
+              min={8}
+              max={KDF_LIMITS.argon2MemoryKiB}
+              className={numberInput}
+              value={choice.settings.argon2MemoryKiB ?? DEFAULT_ARGON2_PARAMS.memoryKiB}
+              onChange={(e) =>
+                updateSettings({ argon2MemoryKiB: Math.min(KDF_LIMITS.argon2MemoryKiB, Math.max(8, Number(e.target.value))) })
+              }
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Iterations</label>
+            <input
+              type="number"
+              min={1}
+              max={KDF_LIMITS.argon2Iterations}
+              className={numberInput}
+              value={choice.settings.argon2Iterations ?? DEFAULT_ARGON2_PARAMS.iterations}
+              onChange={(e) =>
+                updateSettings({ argon2Iterations: Math.min(KDF_LIMITS.argon2Iterations, Math.max(1, Number(e.target.value))) })
+              }
+            />
+          </div>
+        </div>
+      )}
+
+      {Object.keys(timings).length > 0 && (
+        <div className="bg-white p-4 rounded-lg border">
+          <div className="flex items-center mb-2 text-sm font-medium text-gray-700">
+            <Timer className="mr-2" size={16} />
+            Brute-force cost at the measured speed (one guess per derivation)
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">KDF</th>
+                <th className="py-1">Per guess</th>
+                {GUESS_TARGETS.map(target => (
+                  <th key={target.label} className="py-1">{target.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {(Object.entries(timings) as [KdfAlgorithm, number][]).map(([algorithm, elapsedMs]) => (
+                <tr key={algorithm} className="border-t">
+                  <td className="py-1 font-sans">{KDF_LABELS[algorithm]}</td>
+                  <td className="py-1">{elapsedMs.toFixed(1)} ms</td>
+                  {GUESS_TARGETS.map(target => (
+                    <td key={target.label} className="py-1">
+                      {formatDuration(bruteForceSeconds(elapsedMs, target.guesses))}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeyDerivationPanel;
@@ -0,0 +1,219 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy, CheckCircle, Edit2, X, Check, ListTree, Lock } from 'lucide-react';
+import { decodeKey, describeKey, exportKey, KeyDetails, KeyExportFormat, keyFields, keyToPem, Result } from '../crypto';
+import { KeyPair } from '../types';
+import Asn1Inspector from './Asn1Inspector';
+
+export type Accent = 'green' | 'purple' | 'indigo';
+
+// Tailwind needs complete class names at build time, so accents map to literal strings.
+const ACCENT_CLASSES: Record<Accent, { button: string; ring: string; selected: string }> = {
+  green: { button: 'text-green-600 hover:text-green-800', ring: 'focus:ring-green-500', selected: 'bg-green-600 text-white' },
+  purple: { button: 'text-purple-600 hover:text-purple-800', ring: 'focus:ring-purple-500', selected: 'bg-purple-600 text-white' },
+  indigo: { button: 'text-indigo-600 hover:text-indigo-800', ring: 'focus:ring-indigo-500', selected: 'bg-indigo-600 text-white' }
+};
+
+const FORMAT_LABELS: Record<KeyExportFormat, string> = {
+  pem: 'PEM',
+  pkcs1: 'PKCS#1',
+  der: 'DER',
+  jwk: 'JWK'
+};
+
+const summarise = (details: KeyDetails): string => {
+  const parts = [`${details.type} ${details.kind} key`];
+  if (details.modulusBits) parts.push(`${details.modulusBits}-bit modulus`, `e = ${details.publicExponent}`);
+  if (details.curve) parts.push(details.curve);
+  parts.push(`given as ${details.sourceFormat}`);
+  return parts.join(' · ');
+};
+
+interface KeyPairEditorProps {
+  keyPair: KeyPair;
+  onChange: (keyPair: KeyPair) => void;
+  accent: Accent;
+  // Prefix for the card labels, e.g. "Alice's".
+  owner?: string;
+}
+
+interface KeyCardProps {
+  label: string;
+  value: string;
+  accent: Accent;
+  onSave: (value: string) => void;
+}
+
+const KeyCard: React.FC<KeyCardProps> = ({ label, value, accent, onSave }) => {
+  const [editing, setEditing] = useState(false);
+  const [tempValue, setTempValue] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [format, setFormat] = useState<KeyExportFormat>('pem');
+  const [details, setDetails] = useState<Result<KeyDetails> | null>(null);
+  const [exported, setExported] = useState<Result<string> | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [inspecting, setInspecting] = useState(false);
+  const decoded = useMemo(() => decodeKey(value), [value]);
+  const classes = ACCENT_CLASSES[accent];
+
+  useEffect(() => {
+    let cancelled = false;
+    describeKey(value).then(result => {
+      if (!cancelled) setDetails(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [value]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (format === 'pem' || !decoded.ok) {
+      setExported(null);
+      return;
+    }
+    exportKey(decoded.value, format).then(result => {
+      if (!cancelled) setExported(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [decoded, format]);
+
+  const shown = exported?.ok ? exported.value : value;
+
+  const copyToClipboard = async (text: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleEdit = () => {
+    setTempValue(value);
+    setEditing(true);
+  };
+
+  // Any supported format may be pasted; it is stored as PEM so the rest of the lab sees one form.
+  const handleSave = () => {
+    const pasted = decodeKey(tempValue);
+    if (!pasted.ok) {
+      setSaveError(pasted.error.message);
+      return;
+    }
+    setSaveError(null);
+    onSave(keyToPem(pasted.value));
+    setEditing(false);
+  };
+
+  const handleCancelEdit = () => {
+    setEditing(false);
+    setSaveError(null);
+    setTempValue('');
+  };
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-sm font-medium text-gray-700">{label}:</span>
+        <div className="flex gap-2">
+          {!editing && (
+            <>
+              {decoded.ok && (
+                <button onClick={() => setInspecting(!inspecting)} className={classes.button} title="Inspect ASN.1 structure">
+                  <ListTree size={16} />
+                </button>
+              )}
+              <button onClick={handleEdit} className={classes.button}>
+                <Edit2 size={16} />
+              </button>
+              <button onClick={() => copyToClipboard(shown)} className={classes.button}>
+                {copied ? <CheckCircle size={16} /> : <Copy size={16} />}
+              </button>
+            </>
+          )}
+          {editing && (
+            <>
+              <button onClick={handleSave} className={classes.button}>
+                <Check size={16} />
+              </button>
+              <button onClick={handleCancelEdit} className="text-red-600 hover:text-red-800">
+                <X size={16} />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {editing ? (
+        <>
+          <textarea
+            className={`w-full text-sm font-mono p-4 rounded border focus:ring-2 ${classes.ring} focus:border-transparent`}
+            value={tempValue}
+            onChange={(e) => setTempValue(e.target.value)}
+            rows={5}
+            placeholder="PEM (SPKI, PKCS#8, PKCS#1, SEC1), base64 or hex DER, or a JWK"
+          />
+          {saveError && <p className="text-sm text-red-700 mt-2">{saveError}</p>}
+        </>
+      ) : (
+        <>
+          <div className="flex gap-1 mb-2">
+            {(Object.keys(FORMAT_LABELS) as KeyExportFormat[])
+              .filter(option => option !== 'pkcs1' || (details?.ok && details.value.type === 'RSA'))
+              .map(option => (
+                <button
+                  key={option}
+                  onClick={() => setFormat(option)}
+                  className={`px-2 py-0.5 text-xs rounded border ${format === option ? classes.selected : 'bg-white text-gray-600'}`}
+                >
+                  {FORMAT_LABELS[option]}
+                </button>
+              ))}
+          </div>
+          <p className="text-sm font-mono break-all whitespace-pre-wrap bg-white p-4 rounded border">{shown}</p>
+          {exported && !exported.ok && <p className="text-sm text-red-700 mt-2">{exported.error.message}</p>}
+          {inspecting && decoded.ok && <Asn1Inspector der={decoded.value.der} fields={keyFields(decoded.value)} />}
+        </>
+      )}
+      {details && !editing && (
+        details.ok ? (
+          <div className="text-xs text-gray-600 mt-2 space-y-1">
+            <p>{summarise(details.value)}</p>
+            <p className="font-mono break-all">SHA-256 fingerprint {details.value.fingerprint}</p>
+          </div>
+        ) : (
+          <p className="text-sm text-red-700 mt-2">{details.error.message}</p>
+        )
+      )}
+    </div>
+  );
+};
+
+/** Public and private key cards with copy and in-place edit, shared by every key-pair demo. */
+const KeyPairEditor: React.FC<KeyPairEditorProps> = ({ keyPair, onChange, accent, owner }) => (
+  <>
+    <KeyCard
+      label={owner ? `${owner} Public Key` : 'Public Key'}
+      value={keyPair.publicKey}
+      accent={accent}
+      onSave={(publicKey) => onChange({ ...keyPair, publicKey })}
+    />
+    {keyPair.privateCryptoKey ? (
+      <div className="bg-gray-50 p-6 rounded-lg">
+        <span className="text-sm font-medium text-gray-700">{owner ? `${owner} Private Key` : 'Private Key'}:</span>
+        <p className="text-sm text-gray-600 mt-2 flex items-center">
+          <Lock className="mr-2 flex-shrink-0" size={16} />
+          Held in the keyring as a non-extractable CryptoKey: the browser will use it, but its bytes cannot be
+          shown, copied or exported.
+        </p>
+      </div>
+    ) : (
+      <KeyCard
+        label={owner ? `${owner} Private Key` : 'Private Key'}
+        value={keyPair.privateKey}
+        accent={accent}
+        onSave={(privateKey) => onChange({ ...keyPair, privateKey })}
+      />
+    )}
+  </>
+);
+
+export default KeyPairEditor;
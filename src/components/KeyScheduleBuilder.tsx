@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { ArrowDown, KeyRound, RefreshCw } from 'lucide-react';
+import { deriveKeySchedule, fromHex, KeySchedule, toHex } from '../crypto';
+
+const MASTER_BYTES = 32;
+const SALT_BYTES = 32;
+
+const randomHex = (length: number) => toHex(crypto.getRandomValues(new Uint8Array(length)));
+
+type Role = 'encryption' | 'mac' | 'iv';
+
+interface RoleEntry {
+  role: Role;
+  label: string;
+  info: string;
+  length: number;
+}
+
+export interface ScheduledKeys {
+  encryption: Uint8Array;
+  mac: Uint8Array;
+  iv: Uint8Array;
+}
+
+interface KeyScheduleBuilderProps {
+  // IV length of the selected cipher mode, the default for the IV entry; 0 for AES-KW.
+  ivLength: number;
+  onUse: (keys: ScheduledKeys) => void;
+}
+
+/** Derives separate encryption, MAC and IV values from one master secret with HKDF-SHA-256. */
+const KeyScheduleBuilder: React.FC<KeyScheduleBuilderProps> = ({ ivLength, onUse }) => {
+  const [master, setMaster] = useState(() => randomHex(MASTER_BYTES));
+  const [salt, setSalt] = useState(() => randomHex(SALT_BYTES));
+  const [entries, setEntries] = useState<RoleEntry[]>([
+    { role: 'encryption', label: 'Encryption key', info: 'cryptolab encryption key', length: 32 },
+    { role: 'mac', label: 'MAC key', info: 'cryptolab mac key', length: 32 },
+    { role: 'iv', label: 'IV', info: 'cryptolab iv', length: ivLength || 16 }
+  ]);
+  const [schedule, setSchedule] = useState<KeySchedule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateEntry = (role: Role, change: Partial<RoleEntry>) => {
+    setEntries(prev => prev.map(entry => (entry.role === role ? { ...entry, ...change } : entry)));
+    setSchedule(null);
+  };
+
+  const derive = async () => {
+    let masterBytes, saltBytes;
+    try {
+      masterBytes = fromHex(master);
+      saltBytes = fromHex(salt);
+    } catch {
+      setError('The master secret and salt must be hex.');
+      return;
+    }
+    const derived = await deriveKeySchedule(masterBytes, saltBytes, entries);
+    if (!derived.ok) {
+      setError(derived.error.message);
+      setSchedule(null);
+      return;
+    }
+    setError(null);
+    setSchedule(derived.value);
+  };
+
+  const use = () => {
+    if (!schedule) return;
+    const [encryption, mac, iv] = schedule.keys.map(entry => entry.key);
+    onUse({ encryption, mac, iv });
+  };
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+      <h4 className="text-sm font-medium text-gray-700">Key schedule</h4>
+      <p className="text-sm text-gray-600">
+        One master secret, one extract, then one expand per key: each info string gives an independent value, so
+        the encryption key never doubles as the MAC key. Changing the salt changes every derived value, which is
+        how a protocol gets fresh keys and IVs for each session from a long-term secret.
+      </p>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Master secret (hex)</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            className="flex-1 p-2 border rounded-lg text-sm font-mono"
+            value={master}
+            onChange={(e) => {
+              setMaster(e.target.value);
+              setSchedule(null);
+            }}
+          />
+          <button onClick={() => setMaster(randomHex(MASTER_BYTES))} className="text-indigo-600 hover:text-indigo-800" title="New master secret">
+            <RefreshCw size={16} />
+          </button>
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Salt (hex)</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            className="flex-1 p-2 border rounded-lg text-sm font-mono"
+            value={salt}
+            onChange={(e) => {
+              setSalt(e.target.value);
+              setSchedule(null);
+            }}
+          />
+          <button
+            onClick={() => {
+              setSalt(randomHex(SALT_BYTES));
+              setSchedule(null);
+            }}
+            className="text-indigo-600 hover:text-indigo-800"
+            title="New salt"
+          >
+            <RefreshCw size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {entries.map(entry => (
+          <div key={entry.role} className="grid grid-cols-12 gap-2 items-center text-sm">
+            <span className="col-span-3 text-gray-700">{entry.label}</span>
+            <input
+              type="text"
+              className="col-span-7 p-2 border rounded-lg text-sm font-mono"
+              value={entry.info}
+              onChange={(e) => updateEntry(entry.role, { info: e.target.value })}
+              title="Info string"
+            />
+            <input
+              type="number"
+              min={1}
+              max={255 * 32}
+              className="col-span-2 p-2 border rounded-lg text-sm"
+              value={entry.length}
+              onChange={(e) => updateEntry(entry.role, { length: Number(e.target.value) })}
+              title="Length in bytes"
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={derive}
+        className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 flex items-center justify-center"
+      >
+        <KeyRound className="mr-2" size={16} />
+        Derive Keys
+      </button>
+
+      {error && (
+        <div className="p-4 bg-red-50 rounded-lg">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {schedule && (
+        <div className="space-y-2 text-xs">
+          <div className="p-3 bg-white rounded border">
+            <p className="font-medium text-gray-700">Master secret</p>
+            <p className="font-mono break-all">{master}</p>
+          </div>
+          <div className="flex items-center justify-center text-gray-500">
+            <ArrowDown size={14} className="mr-1" />
+            Extract: HMAC-SHA-256(salt, master)
+          </div>
+          <div className="p-3 bg-purple-50 rounded border border-purple-200">
+            <p className="font-medium text-purple-900">PRK</p>
+            <p className="font-mono break-all">{toHex(schedule.prk)}</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {schedule.keys.map(key => (
+              <div key={key.info} className="space-y-2">
+                <div className="flex items-center justify-center text-gray-500">
+                  <ArrowDown size={14} className="mr-1" />
+                  Expand("{key.info}", {key.length})
+                </div>
+                <div className="p-3 bg-indigo-50 rounded border border-indigo-200">
+                  <p className="font-medium text-indigo-900">{key.label}</p>
+                  <p className="font-mono break-all">{toHex(key.key)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+          <button onClick={use} className="w-full bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50">
+            Use in Encryption
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeyScheduleBuilder;
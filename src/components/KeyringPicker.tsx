@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Save, Trash2 } from 'lucide-react';
+import {
+  canLockPrivateKey,
+  deleteKeyringEntry,
+  describeKeyringMaterial,
+  KeyringEntry,
+  KeyringMaterial,
+  listKeyring,
+  lockPrivateKey,
+  saveKeyringEntry,
+  subscribeKeyring
+} from '../crypto';
+import { Accent } from './KeyPairEditor';
+
+const SAVE_BUTTON_CLASSES: Record<Accent, string> = {
+  green: 'bg-green-600 hover:bg-green-700',
+  purple: 'bg-purple-600 hover:bg-purple-700',
+  indigo: 'bg-indigo-600 hover:bg-indigo-700'
+};
+
+// Key pairs are identified by their public key, so a non-extractable copy is still the same key.
+const identity = (material: KeyringMaterial): string =>
+  material.type === 'secret' ? `secret:${material.key}` : `key-pair:${material.keyPair.publicKey}`;
+
+interface KeyringPickerProps {
+  // Which stored keys the demo can use, e.g. only signing key pairs in the signature tab.
+  accepts: (material: KeyringMaterial) => boolean;
+  // The demo's current key, offered for saving; null when it has none.
+  current: KeyringMaterial | null;
+  onSelect: (entry: KeyringEntry) => void;
+  accent: Accent;
+  title?: string;
+  suggestedName?: string;
+}
+
+/** Loads a named key from the browser keyring into a demo, or saves the demo's key under a name. */
+const KeyringPicker: React.FC<KeyringPickerProps> = ({ accepts, current, onSelect, accent, title, suggestedName }) => {
+  const [entries, setEntries] = useState<KeyringEntry[]>([]);
+  const [name, setName] = useState(suggestedName ?? '');
+  const [label, setLabel] = useState('');
+  // The default wherever the browser can hold the private key natively; keeping the PEM is the opt-out.
+  const [nonExtractable, setNonExtractable] = useState(true);
+  const [lockable, setLockable] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      listKeyring().then(result => {
+        if (cancelled) return;
+        if (result.ok) setEntries(result.value);
+        else setError(result.error.message);
+      });
+    load();
+    const unsubscribe = subscribeKeyring(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const currentKeyPair = current?.type === 'key-pair' ? current.keyPair : null;
+  useEffect(() => {
+    let cancelled = false;
+    setLockable(false);
+    if (currentKeyPair) {
+      canLockPrivateKey(currentKeyPair).then(can => {
+        if (!cancelled) setLockable(can);
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [currentKeyPair]);
+
+  const usable = entries.filter(accepts);
+  const selected = current ? usable.find(entry => identity(entry) === identity(current)) : undefined;
+
+  const handleSave = async () => {
+    if (!current) return;
+    setSaving(true);
+    let material = current;
+    if (nonExtractable && lockable && current.type === 'key-pair') {
+      const locked = await lockPrivateKey(current.keyPair);
+      if (!locked.ok) {
+        setSaving(false);
+        setError(locked.error.message);
+        return;
+      }
+      material = { type: 'key-pair', keyPair: locked.value };
+    }
+
+    const saved = await saveKeyringEntry(name, label, material);
+    setSaving(false);
+    if (!saved.ok) {
+      setError(saved.error.message);
+      return;
+    }
+    setError(null);
+    setLabel('');
+    onSelect(saved.value);
+  };
+
+  const handleDelete = async (id: string) => {
+    const deleted = await deleteKeyringEntry(id);
+    setError(deleted.ok ? null : deleted.error.message);
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+      <div className="flex items-center text-sm font-medium text-gray-700">
+        <Database className="mr-2" size={16} />
+        {title ?? 'Keyring'}
+      </div>
+      <div className="flex gap-2 items-center">
+        <select
+          className="flex-1 p-2 border rounded-lg text-sm"
+          value={selected?.id ?? ''}
+          onChange={(e) => {
+            const entry = usable.find(candidate => candidate.id === e.target.value);
+            if (entry) onSelect(entry);
+          }}
+        >
+          <option value="">{usable.length ? 'Load a saved key...' : 'No saved keys for this demo yet'}</option>
+          {usable.map(entry => (
+            <option key={entry.id} value={entry.id}>
+              {entry.name} ({describeKeyringMaterial(entry)}){entry.label && ` - ${entry.label}`}
+            </option>
+          ))}
+        </select>
+        {selected && (
+          <button
+            onClick={() => handleDelete(selected.id)}
+            className="text-red-600 hover:text-red-800"
+            title="Delete from the keyring"
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+
+      {current && !selected && (
+        <div className="flex flex-wrap gap-2 items-center">
+          <input
+            type="text"
+            className="w-32 p-2 border rounded-lg text-sm"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. Alice"
+          />
+          <input
+            type="text"
+            className="flex-1 min-w-[8rem] p-2 border rounded-lg text-sm"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label (optional)"
+          />
+          {current.type === 'key-pair' && (
+            <label
+              className={`flex items-center text-sm ${lockable ? 'text-gray-700' : 'text-gray-400'}`}
+              title={lockable ? 'Untick to keep the private PEM, so it can be shown and edited after loading' : 'This browser cannot hold this key natively, so its private PEM is kept'}
+            >
+              <input
+                type="checkbox"
+                className="h-4 w-4 mr-2 border-gray-300 rounded"
+                checked={nonExtractable && lockable}
+                disabled={!lockable}
+                onChange={(e) => setNonExtractable(e.target.checked)}
+              />
+              Non-extractable private key
+            </label>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className={`${SAVE_BUTTON_CLASSES[accent]} text-white py-2 px-3 rounded-lg text-sm flex items-center disabled:opacity-50`}
+          >
+            <Save className="mr-1" size={14} />
+            Save to Keyring
+          </button>
+        </div>
+      )}
+      {current?.type === 'secret' && !selected && (
+        <p className="text-xs text-gray-500">
+          Secrets are stored as raw bytes: the same key is used with every AES mode and to derive encrypt-then-MAC keys,
+          which a non-extractable key bound to one algorithm could not do.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </div>
+  );
+};
+
+export default KeyringPicker;
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { extendSha256Mac, naiveSha256Mac, toHex, utf8Encode } from '../crypto';
+import EncodedBlock from './EncodedBlock';
+
+const MAX_GUESS = 64;
+
+// Printable ASCII as is, anything else as \xNN, so the padding bytes show up in the request.
+const escapeBytes = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : `\\x${byte.toString(16).padStart(2, '0')}`)).join('');
+
+const sameBytes = (a: Uint8Array, b: Uint8Array): boolean => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/** Forges SHA-256(secret ‖ message) MACs for extended messages without knowing the secret. */
+const LengthExtension: React.FC = () => {
+  const [secret, setSecret] = useState('k3y-only-the-server-knows');
+  const [message, setMessage] = useState('user=alice&role=user');
+  const [suffix, setSuffix] = useState('&role=admin');
+  const [guess, setGuess] = useState(16);
+  const [searched, setSearched] = useState<number | null>(null);
+
+  const secretBytes = utf8Encode(secret);
+  const messageBytes = utf8Encode(message);
+  const mac = useMemo(() => naiveSha256Mac(utf8Encode(secret), utf8Encode(message)), [secret, message]);
+  const forged = useMemo(() => extendSha256Mac(mac, guess, utf8Encode(message), utf8Encode(suffix)), [mac, guess, message, suffix]);
+  // What the server computes for the forged request, with the real secret.
+  const accepted = sameBytes(naiveSha256Mac(secretBytes, forged.message), forged.mac);
+
+  const tryAllLengths = () => {
+    for (let length = 1; length <= MAX_GUESS; length++) {
+      const attempt = extendSha256Mac(mac, length, messageBytes, utf8Encode(suffix));
+      if (sameBytes(naiveSha256Mac(secretBytes, attempt.message), attempt.mac)) {
+        setGuess(length);
+        setSearched(length);
+        return;
+      }
+    }
+    setSearched(0);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">The server</h4>
+        <p className="text-sm text-gray-600">
+          The server authenticates requests with MAC = SHA-256(secret ‖ message). SHA-256 processes its input in
+          64-byte blocks and its digest is the whole internal state after the last one, so anyone holding a
+          MAC can carry on hashing from there.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Server's secret (the attacker never sees it)</label>
+            <input type="text" className="w-full p-2 border rounded-lg text-sm" value={secret} onChange={(e) => setSecret(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Request the server signed</label>
+            <input type="text" className="w-full p-2 border rounded-lg text-sm" value={message} onChange={(e) => setMessage(e.target.value)} />
+          </div>
+        </div>
+        <p className="text-xs font-mono break-all">MAC: {toHex(mac)}</p>
+      </div>
+
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">The attacker</h4>
+        <p className="text-sm text-gray-600">
+          Knowing only the request, its MAC and a guess at the secret's length, the attacker works out the
+          padding SHA-256 appended after secret ‖ message, loads the MAC as the hash state and hashes a suffix
+          of their choice. The result is the MAC of secret ‖ message ‖ padding ‖ suffix, and a query string
+          parser that keeps the last value of a repeated key reads the suffix's role.
+        </p>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Suffix to append</label>
+          <input type="text" className="w-full p-2 border rounded-lg text-sm" value={suffix} onChange={(e) => setSuffix(e.target.value)} />
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex flex-1 items-center gap-3 text-sm text-gray-700">
+            Guessed secret length
+            <input
+              type="range"
+              min={1}
+              max={MAX_GUESS}
+              value={guess}
+              onChange={(e) => {
+                setGuess(Number(e.target.value));
+                setSearched(null);
+              }}
+              className="flex-1"
+            />
+            <span className="font-mono w-6 text-right">{guess}</span>
+          </label>
+          <button onClick={tryAllLengths} className="bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50">
+            Try Lengths 1-{MAX_GUESS}
+          </button>
+        </div>
+        {searched !== null && (
+          <p className="text-sm text-gray-600">
+            {searched
+              ? `The server accepted the forgery for length ${searched}: each wrong guess costs the attacker one rejected request.`
+              : `No length up to ${MAX_GUESS} worked.`}
+          </p>
+        )}
+
+        <EncodedBlock
+          title="Forged request"
+          fields={[
+            { label: 'message', value: escapeBytes(messageBytes), note: 'The original request, unchanged.', tone: 'message' },
+            {
+              label: 'padding',
+              value: toHex(forged.padding),
+              note: `0x80, zeros, then the bit length of secret ‖ message as SHA-256 padded it (assuming a ${guess}-byte secret).`,
+              tone: 'fixed'
+            },
+            { label: 'suffix', value: escapeBytes(utf8Encode(suffix)), note: 'Chosen by the attacker and hashed from the MAC onwards.', tone: 'random' },
+            { label: 'forged MAC', value: toHex(forged.mac), note: 'Computed without the secret.', tone: 'hash' }
+          ]}
+        />
+
+        <div className={`flex items-start gap-2 p-4 rounded-lg ${accepted ? 'bg-red-50' : 'bg-white border'}`}>
+          {accepted ? <CheckCircle className="text-red-600 shrink-0" size={20} /> : <XCircle className="text-gray-500 shrink-0" size={20} />}
+          <p className={`text-sm ${accepted ? 'text-red-700' : 'text-gray-700'}`}>
+            {accepted
+              ? 'The server recomputes SHA-256(secret ‖ forged request), gets the forged MAC and accepts it.'
+              : `Rejected: the secret is not ${guess} bytes, so the padding is in the wrong place. Move the slider or try every length.`}
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-gray-50 p-6 rounded-lg space-y-2">
+        <h4 className="text-sm font-medium text-gray-700">What resists it</h4>
+        <ul className="text-sm text-gray-600 list-disc pl-5 space-y-1">
+          <li>HMAC hashes the inner digest again under a second key, so the published value is not a state the attacker can continue.</li>
+          <li>SHA-3 keeps the sponge's capacity bits out of the digest, and BLAKE2 hashes its last block with a final-block flag, so neither digest can be continued.</li>
+          <li>Truncated SHA-2 variants such as SHA-384 and SHA-512/256 drop part of the state from the digest.</li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default LengthExtension;
@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import { CheckCircle, Copy, ShieldCheck, XCircle } from 'lucide-react';
+import {
+  fromHex,
+  generateMacKey,
+  hmacSign,
+  hmacVerify,
+  MAC_ALGORITHMS,
+  MacAlgorithm,
+  ok,
+  parseBase64,
+  Result,
+  toBase64,
+  toHex,
+  utf8Encode
+} from '../crypto';
+import TimingLeakLab from './TimingLeakLab';
+
+const ALGORITHM_DESCRIPTIONS: Record<MacAlgorithm, string> = {
+  HS256: 'HMAC with SHA-256, 256-bit tag',
+  HS384: 'HMAC with SHA-384, 384-bit tag',
+  HS512: 'HMAC with SHA-512, 512-bit tag'
+};
+
+type Section = 'hmac' | 'timing';
+
+interface MacResult {
+  algorithm: MacAlgorithm;
+  tag: string;
+  // Base64 of a random key; absent when a custom key was typed.
+  key?: string;
+}
+
+// A typed key is used as its UTF-8 bytes; otherwise the field holds a base64 random key.
+const macKeyBytes = (key: string, custom: boolean): Result<Uint8Array> =>
+  custom ? ok(utf8Encode(key)) : parseBase64(key, 'HMAC key');
+
+const MacDemo: React.FC = () => {
+  const [section, setSection] = useState<Section>('hmac');
+  const [algorithm, setAlgorithm] = useState<MacAlgorithm>('HS256');
+  const [customKey, setCustomKey] = useState('');
+  const [message, setMessage] = useState('');
+  const [result, setResult] = useState<MacResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [verifyInput, setVerifyInput] = useState({ message: '', tag: '', key: '' });
+  const [useCustomKeyForVerification, setUseCustomKeyForVerification] = useState(false);
+  const [verification, setVerification] = useState<{ valid: boolean } | { error: string } | null>(null);
+
+  const handleSign = async () => {
+    const keyBytes = customKey ? utf8Encode(customKey) : generateMacKey(algorithm);
+    const tag = await hmacSign(utf8Encode(message), keyBytes, algorithm);
+    if (!tag.ok) {
+      setError(tag.error.message);
+      return;
+    }
+    setError(null);
+    const key = customKey ? undefined : toBase64(keyBytes);
+    setResult({ algorithm, tag: toHex(tag.value), key });
+    setVerifyInput({ message, tag: toHex(tag.value), key: key ?? customKey });
+    setUseCustomKeyForVerification(!!customKey);
+    setVerification(null);
+  };
+
+  const handleVerify = async () => {
+    const keyBytes = macKeyBytes(verifyInput.key, useCustomKeyForVerification);
+    if (!keyBytes.ok) {
+      setVerification({ error: keyBytes.error.message });
+      return;
+    }
+    let tag;
+    try {
+      tag = fromHex(verifyInput.tag.trim());
+    } catch {
+      setVerification({ error: 'The tag must be hex.' });
+      return;
+    }
+    const verified = await hmacVerify(utf8Encode(verifyInput.message), tag, keyBytes.value, result?.algorithm ?? algorithm);
+    setVerification(verified.ok ? { valid: verified.value } : { error: verified.error.message });
+  };
+
+  const copyToClipboard = async (text: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="flex items-center mb-6">
+          <h2 className="text-3xl font-bold text-rose-900">Message Authentication</h2>
+        </div>
+
+        <div className="mb-8">
+          <h3 className="text-xl font-semibold mb-4 text-gray-800">About</h3>
+          <p className="text-gray-600">
+            A message authentication code (MAC) is a short tag computed from a message and a secret key shared by
+            sender and receiver. Anyone holding the key can check that the message is unchanged and came from
+            another key holder; without the key, no valid tag can be made for a new message. HMAC (RFC 2104)
+            builds one from a hash function and, unlike SHA-256(key ‖ message), resists length extension.
+          </p>
+          <p className="text-gray-600 mt-2">
+            A MAC is not a signature: both sides hold the same key, so a tag convinces the receiver but proves
+            nothing to anyone else. The symmetric encryption tab can add an HMAC tag to AES-CBC and AES-CTR
+            messages (encrypt-then-MAC).
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {([
+            ['hmac', 'HMAC'],
+            ['timing', 'Timing Attack']
+          ] as [Section, string][]).map(([option, title]) => (
+            <button
+              key={option}
+              onClick={() => setSection(option)}
+              className={`p-3 rounded-lg border font-semibold transition-colors
+                ${section === option ? 'bg-rose-600 text-white border-rose-600' : 'bg-white text-gray-700 hover:bg-rose-50'}`}
+            >
+              {title}
+            </button>
+          ))}
+        </div>
+
+        {section === 'timing' ? (
+          <TimingLeakLab />
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Algorithm</label>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                {MAC_ALGORITHMS.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setAlgorithm(option)}
+                    className={`p-3 rounded-lg border text-left transition-colors
+                      ${algorithm === option ? 'bg-rose-600 text-white border-rose-600' : 'bg-white text-gray-700 hover:bg-rose-50'}`}
+                  >
+                    <span className="block font-semibold">{option}</span>
+                    <span className={`block text-xs ${algorithm === option ? 'text-rose-100' : 'text-gray-500'}`}>
+                      {ALGORITHM_DESCRIPTIONS[option]}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Shared Key (Optional)</label>
+              <input
+                type="text"
+                className="w-full p-4 border rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                value={customKey}
+                onChange={(e) => setCustomKey(e.target.value)}
+                placeholder="Enter a shared key or leave empty for a random key"
+              />
+              {customKey && (
+                <p className="text-xs text-gray-500 mt-1">
+                  The key's UTF-8 bytes are used directly. HMAC accepts keys of any length, but one tag is enough to
+                  test guesses offline, so a short or guessable key can be brute forced.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Message</label>
+              <textarea
+                className="w-full p-4 border rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+                rows={4}
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="Enter your message..."
+              />
+            </div>
+
+            <button
+              onClick={handleSign}
+              className="w-full bg-rose-600 text-white py-3 px-4 rounded-lg hover:bg-rose-700 transition-colors flex items-center justify-center"
+            >
+              <ShieldCheck className="mr-2" size={20} />
+              Compute Tag
+            </button>
+
+            {error && (
+              <div className="p-4 bg-red-50 rounded-lg">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            {result && (
+              <div className="space-y-6 mt-8">
+                <div className="bg-gray-50 p-6 rounded-lg">
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm font-medium text-gray-700">{result.algorithm} Tag:</span>
+                    <button onClick={() => copyToClipboard(result.tag)} className="text-rose-600 hover:text-rose-800">
+                      {copied ? <CheckCircle size={16} /> : <Copy size={16} />}
+                    </button>
+                  </div>
+                  <p className="text-sm font-mono break-all bg-white p-4 rounded border">{result.tag}</p>
+                </div>
+
+                {result.key && (
+                  <div className="bg-gray-50 p-6 rounded-lg">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-medium text-gray-700">Shared Key:</span>
+                      <button onClick={() => copyToClipboard(result.key || '')} className="text-rose-600 hover:text-rose-800">
+                        {copied ? <CheckCircle size={16} /> : <Copy size={16} />}
+                      </button>
+                    </div>
+                    <p className="text-sm font-mono break-all bg-white p-4 rounded border">{result.key}</p>
+                  </div>
+                )}
+
+                <div className="border-t pt-6">
+                  <h3 className="text-xl font-semibold mb-4">Verify a Message</h3>
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Message</label>
+                      <textarea
+                        className="w-full p-4 border rounded-lg"
+                        value={verifyInput.message}
+                        onChange={(e) => setVerifyInput(prev => ({ ...prev, message: e.target.value }))}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Tag (hex)</label>
+                      <input
+                        type="text"
+                        className="w-full p-4 border rounded-lg font-mono text-sm"
+                        value={verifyInput.tag}
+                        onChange={(e) => setVerifyInput(prev => ({ ...prev, tag: e.target.value }))}
+                      />
+                    </div>
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        id="useCustomMacKey"
+                        className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-gray-300 rounded"
+                        checked={useCustomKeyForVerification}
+                        onChange={(e) => setUseCustomKeyForVerification(e.target.checked)}
+                      />
+                      <label htmlFor="useCustomMacKey" className="ml-2 block text-sm text-gray-900">
+                        The key is typed text rather than a base64 random key
+                      </label>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Shared Key</label>
+                      <input
+                        type="text"
+                        className="w-full p-4 border rounded-lg"
+                        value={verifyInput.key}
+                        onChange={(e) => setVerifyInput(prev => ({ ...prev, key: e.target.value }))}
+                      />
+                    </div>
+                    <button onClick={handleVerify} className="w-full bg-rose-600 text-white py-3 px-4 rounded-lg hover:bg-rose-700">
+                      <ShieldCheck className="inline mr-2" size={16} />
+                      Verify Tag
+                    </button>
+                  </div>
+
+                  {verification && 'valid' in verification && (
+                    <div className={`mt-4 p-4 rounded-lg flex items-center ${verification.valid ? 'bg-green-50' : 'bg-red-50'}`}>
+                      {verification.valid ? (
+                        <CheckCircle className="text-green-600 mr-2" size={20} />
+                      ) : (
+                        <XCircle className="text-red-600 mr-2" size={20} />
+                      )}
+                      <p className={verification.valid ? 'text-green-700' : 'text-red-700'}>
+                        {verification.valid
+                          ? 'Valid tag: the message is unchanged and was tagged by a holder of the key.'
+                          : 'Invalid tag: the message, tag or key differs from what was tagged.'}
+                      </p>
+                    </div>
+                  )}
+                  {verification && 'error' in verification && (
+                    <div className="mt-4 p-4 bg-red-50 rounded-lg">
+                      <p className="text-red-700">{verification.error}</p>
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 mt-4">
+                    The tag is checked inside WebCrypto rather than with ===, which could leak through its timing how
+                    much of a guessed tag is right; the timing attack section shows how.
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MacDemo;
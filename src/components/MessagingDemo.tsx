@@ -0,0 +1,438 @@
+import React, { useRef, useState } from 'react';
+import { Ban, Eye, Pencil, Repeat, Send, Users, UserX } from 'lucide-react';
+import { CheckOutcome, createParty, openMessage, Packet, Party, Protections, Receipt, sealMessage, tamperPacket } from '../crypto';
+
+const PARTY_NAMES = ['Alice', 'Bob', 'Carol'];
+const EVE = 'Eve';
+
+const otherParty = (name: string) => PARTY_NAMES.find(other => other !== name) ?? name;
+
+type Origin = 'sent' | 'tampered' | 'replayed' | 'forged';
+
+interface ChannelEntry {
+  id: number;
+  packet: Packet;
+  origin: Origin;
+  status: 'held' | 'delivered' | 'dropped';
+  receipt?: Receipt;
+}
+
+const ORIGIN_LABELS: Record<Origin, string> = {
+  sent: 'sent',
+  tampered: 'tampered with by Eve',
+  replayed: 'replayed by Eve',
+  forged: 'forged by Eve'
+};
+
+const PROTECTION_OPTIONS: { key: keyof Protections; title: string; description: string }[] = [
+  {
+    key: 'encrypt',
+    title: 'Encrypt',
+    description: "Hybrid RSA-OAEP + AES-256-GCM to the recipient's public key: confidentiality, and the GCM tag catches changes."
+  },
+  {
+    key: 'sign',
+    title: 'Sign',
+    description: "Ed25519 over sender, recipient, counter and body: proves who sent it."
+  },
+  {
+    key: 'sequence',
+    title: 'Sequence numbers',
+    description: 'Each sender counts its messages and recipients drop any number they have already seen.'
+  }
+];
+
+const ATTACKS = [
+  ['Intercept', 'Eve reads the message on the wire', 'Encryption'],
+  ['Tamper', 'Eve changes the message in flight', 'The GCM tag of an encrypted message, or the signature'],
+  ['Forge', "Eve sends a message of Eve's own under someone else's name", "Only the signature: anyone can encrypt to Bob's public key"],
+  ['Replay', 'Eve resends a message that was already delivered', 'Sequence numbers, signed so Eve cannot bump them']
+];
+
+const CHECK_CLASSES: Record<CheckOutcome, string> = {
+  passed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  off: 'bg-gray-100 text-gray-500'
+};
+
+const CheckBadge: React.FC<{ label: string; outcome: CheckOutcome }> = ({ label, outcome }) => (
+  <span className={`text-xs px-2 py-1 rounded ${CHECK_CLASSES[outcome]}`}>
+    {label}: {outcome}
+  </span>
+);
+
+/** Several parties exchange messages over a channel that Eve can read, hold, change and replay. */
+const MessagingDemo: React.FC = () => {
+  const [protections, setProtections] = useState<Protections>({ encrypt: false, sign: false, sequence: false });
+  const [parties, setParties] = useState<Party[] | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [eveActive, setEveActive] = useState(false);
+  const [entries, setEntries] = useState<ChannelEntry[]>([]);
+  // Refs rather than state: sends and deliveries await in between, and must see each other's updates at once.
+  const nextId = useRef(1);
+  // Next counter per sender, and the highest counter each recipient accepted per sender.
+  const nextSeq = useRef<Record<string, number>>({});
+  const lastSeq = useRef<Record<string, number>>({});
+  const [from, setFrom] = useState('Alice');
+  const [to, setTo] = useState('Bob');
+  const [message, setMessage] = useState('');
+  const [forgeFrom, setForgeFrom] = useState('Alice');
+  const [forgeTo, setForgeTo] = useState('Bob');
+  const [forgeMessage, setForgeMessage] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const partyNamed = (name: string) => parties?.find(party => party.name === name);
+
+  const generateParties = async () => {
+    setGenerating(true);
+    const created = await Promise.all([...PARTY_NAMES, EVE].map(createParty));
+    setGenerating(false);
+    const failed = created.find(result => !result.ok);
+    if (failed && !failed.ok) {
+      setError(failed.error.message);
+      return;
+    }
+    setError(null);
+    setParties(created.flatMap(result => (result.ok ? [result.value] : [])));
+    setEntries([]);
+    nextSeq.current = {};
+    lastSeq.current = {};
+  };
+
+  const addEntry = (packet: Packet, origin: Origin): ChannelEntry => {
+    const entry: ChannelEntry = { id: nextId.current++, packet, origin, status: 'held' };
+    setEntries(current => [...current, entry]);
+    return entry;
+  };
+
+  const updateEntry = (id: number, changes: Partial<ChannelEntry>) =>
+    setEntries(current => current.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+
+  const deliver = async (entry: ChannelEntry, packet = entry.packet) => {
+    const recipient = partyNamed(packet.to);
+    const sender = partyNamed(packet.from);
+    if (!recipient || !sender) return;
+    const counterKey = `${packet.from}->${packet.to}`;
+    const opened = await openMessage(recipient, sender, packet, lastSeq.current[counterKey] ?? 0, protections);
+    if (!opened.ok) {
+      setError(opened.error.message);
+      return;
+    }
+    setError(null);
+    if (opened.value.accepted && protections.sequence) {
+      lastSeq.current = { ...lastSeq.current, [counterKey]: Math.max(lastSeq.current[counterKey] ?? 0, packet.seq) };
+    }
+    updateEntry(entry.id, { packet, status: 'delivered', receipt: opened.value });
+  };
+
+  const send = async (senderName: string, recipientName: string, text: string, origin: Origin) => {
+    const sender = partyNamed(senderName);
+    const recipient = partyNamed(recipientName);
+    const eve = partyNamed(EVE);
+    if (!sender || !recipient || !eve) return;
+
+    // A forger signs with Eve's key whatever name is claimed, and picks a counter above any seen on the wire.
+    // A real sender reserves its counter before sealing, so a second quick send cannot reuse it.
+    let seq: number;
+    if (origin === 'forged') {
+      seq = Math.max(0, ...entries.filter(entry => entry.packet.from === senderName).map(entry => entry.packet.seq)) + 1;
+    } else {
+      seq = nextSeq.current[senderName] ?? 1;
+      nextSeq.current = { ...nextSeq.current, [senderName]: seq + 1 };
+    }
+    const signer = origin === 'forged' ? { ...eve, name: senderName } : sender;
+    const sealed = await sealMessage(signer, recipient, text, seq, protections);
+    if (!sealed.ok) {
+      setError(sealed.error.message);
+      return;
+    }
+    const entry = addEntry(sealed.value, origin);
+    if (!eveActive || origin === 'forged') await deliver(entry);
+  };
+
+  const tamper = async (entry: ChannelEntry) => {
+    const tampered = tamperPacket(entry.packet, replacement);
+    if (!tampered.ok) {
+      setError(tampered.error.message);
+      return;
+    }
+    updateEntry(entry.id, { origin: 'tampered' });
+    await deliver({ ...entry, origin: 'tampered' }, tampered.value);
+  };
+
+  const replay = async (entry: ChannelEntry) => {
+    await deliver(addEntry(entry.packet, 'replayed'));
+  };
+
+  // A party cannot message itself, so picking the current recipient as sender moves the recipient on.
+  const selectPair = (
+    sender: string,
+    recipient: string,
+    setSender: (name: string) => void,
+    setRecipient: (name: string) => void
+  ) => {
+    setSender(sender);
+    if (recipient === sender) setRecipient(otherParty(sender));
+  };
+
+  const held = entries.filter(entry => entry.status === 'held');
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="flex items-center mb-6">
+          <h2 className="text-3xl font-bold text-orange-900">Secure Messaging</h2>
+        </div>
+
+        <div className="mb-8">
+          <h3 className="text-xl font-semibold mb-4 text-gray-800">About</h3>
+          <p className="text-gray-600">
+            Alice, Bob and Carol each own an encryption key pair and a signing key pair, and send each
+            other messages over a network that Eve controls. Eve sees every packet, and an active Eve can
+            also hold packets back, change them, replay old ones and send new ones under someone else's
+            name.
+          </p>
+          <p className="text-gray-600 mt-2">
+            Start with every protection off and try each attack, then switch protections on one at a
+            time to see which check catches it. Each protection covers a different property:
+          </p>
+          <table className="w-full text-sm mt-4 border">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="p-2">Attack</th>
+                <th className="p-2">What Eve does</th>
+                <th className="p-2">Caught by</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ATTACKS.map(([attack, action, defence]) => (
+                <tr key={attack} className="border-t">
+                  <td className="p-2 font-medium">{attack}</td>
+                  <td className="p-2 text-gray-600">{action}</td>
+                  <td className="p-2 text-gray-600">{defence}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-6">
+          {error && (
+            <div className="p-4 bg-red-50 rounded-lg">
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+            <h4 className="text-sm font-medium text-gray-700">Protections agreed by all parties</h4>
+            {PROTECTION_OPTIONS.map(option => (
+              <label key={option.key} className="flex items-start text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 mr-2 mt-0.5 border-gray-300 rounded"
+                  checked={protections[option.key]}
+                  onChange={(e) => setProtections({ ...protections, [option.key]: e.target.checked })}
+                />
+                <span>
+                  <span className="font-medium">{option.title}</span> - {option.description}
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <button
+            onClick={generateParties}
+            disabled={generating}
+            className="w-full bg-orange-600 text-white py-3 px-4 rounded-lg hover:bg-orange-700 transition-colors flex items-center justify-center disabled:opacity-50"
+          >
+            <Users className="mr-2" size={20} />
+            {generating ? 'Generating...' : parties ? 'Generate New Keys for Everyone' : "Generate Everyone's Keys"}
+          </button>
+
+          {parties && (
+            <>
+              <p className="text-sm text-gray-600">
+                Everyone holds an RSA-OAEP 2048 key pair for encryption and an Ed25519 key pair for
+                signing, and knows the others' public keys.
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+                  <h4 className="text-sm font-medium text-gray-700 flex items-center">
+                    <Send className="mr-2" size={16} />
+                    Send a message
+                  </h4>
+                  <div className="flex gap-2">
+                    <select className="flex-1 p-2 border rounded-lg text-sm" value={from} onChange={(e) => selectPair(e.target.value, to, setFrom, setTo)}>
+                      {PARTY_NAMES.map(name => (
+                        <option key={name} value={name}>From {name}</option>
+                      ))}
+                    </select>
+                    <select className="flex-1 p-2 border rounded-lg text-sm" value={to} onChange={(e) => setTo(e.target.value)}>
+                      {PARTY_NAMES.filter(name => name !== from).map(name => (
+                        <option key={name} value={name}>To {name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <textarea
+                    className="w-full p-2 border rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    rows={2}
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder="Pay Carol 10 euros"
+                  />
+                  <button
+                    onClick={() => send(from, to, message, 'sent')}
+                    className="w-full bg-orange-600 text-white py-2 px-4 rounded-lg hover:bg-orange-700 flex items-center justify-center"
+                  >
+                    <Send className="mr-2" size={16} />
+                    Send
+                  </button>
+                </div>
+
+                <div className="bg-red-50 p-4 rounded-lg space-y-3">
+                  <h4 className="text-sm font-medium text-red-800 flex items-center">
+                    <UserX className="mr-2" size={16} />
+                    Eve
+                  </h4>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 mr-2 border-gray-300 rounded"
+                      checked={eveActive}
+                      onChange={(e) => setEveActive(e.target.checked)}
+                    />
+                    Hold every packet until Eve decides what to do with it
+                  </label>
+                  <div className="flex gap-2">
+                    <select className="flex-1 p-2 border rounded-lg text-sm" value={forgeFrom} onChange={(e) => selectPair(e.target.value, forgeTo, setForgeFrom, setForgeTo)}>
+                      {PARTY_NAMES.map(name => (
+                        <option key={name} value={name}>Pretend to be {name}</option>
+                      ))}
+                    </select>
+                    <select className="flex-1 p-2 border rounded-lg text-sm" value={forgeTo} onChange={(e) => setForgeTo(e.target.value)}>
+                      {PARTY_NAMES.filter(name => name !== forgeFrom).map(name => (
+                        <option key={name} value={name}>To {name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <textarea
+                    className="w-full p-2 border rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    rows={2}
+                    value={forgeMessage}
+                    onChange={(e) => setForgeMessage(e.target.value)}
+                    placeholder="Pay Eve 1000 euros"
+                  />
+                  <button
+                    onClick={() => send(forgeFrom, forgeTo, forgeMessage, 'forged')}
+                    className="w-full bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 flex items-center justify-center"
+                  >
+                    <UserX className="mr-2" size={16} />
+                    Forge a Message
+                  </button>
+                </div>
+              </div>
+
+              {held.length > 0 && (
+                <div className="bg-red-50 p-4 rounded-lg space-y-3">
+                  <h4 className="text-sm font-medium text-red-800">Packets Eve is holding</h4>
+                  <input
+                    type="text"
+                    className="w-full p-2 border rounded-lg text-sm"
+                    value={replacement}
+                    onChange={(e) => setReplacement(e.target.value)}
+                    placeholder="Eve's replacement text for plaintext packets (encrypted ones get a bit flipped)"
+                  />
+                  {held.map(entry => (
+                    <div key={entry.id} className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="flex-1">
+                        #{entry.id} {entry.packet.from} → {entry.packet.to}
+                      </span>
+                      <button onClick={() => deliver(entry)} className="px-3 py-1 rounded bg-white border hover:bg-gray-50 flex items-center">
+                        <Send className="mr-1" size={14} />
+                        Forward
+                      </button>
+                      <button onClick={() => tamper(entry)} className="px-3 py-1 rounded bg-white border hover:bg-gray-50 flex items-center">
+                        <Pencil className="mr-1" size={14} />
+                        Tamper and Forward
+                      </button>
+                      <button
+                        onClick={() => updateEntry(entry.id, { status: 'dropped' })}
+                        className="px-3 py-1 rounded bg-white border hover:bg-gray-50 flex items-center"
+                      >
+                        <Ban className="mr-1" size={14} />
+                        Drop
+                      </button>
+                    </div>
+                  ))}
+                  <p className="text-xs text-gray-600">
+                    No protection stops Eve from dropping packets: cryptography cannot force delivery,
+                    only make sure nothing false is accepted.
+                  </p>
+                </div>
+              )}
+
+              {entries.length > 0 && (
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium text-gray-700">Channel</h4>
+                  {[...entries].reverse().map(entry => (
+                    <div key={entry.id} className="bg-gray-50 p-4 rounded-lg space-y-2">
+                      <div className="flex justify-between items-center text-sm">
+                        <span className="font-medium text-gray-800">
+                          #{entry.id} {entry.packet.from} → {entry.packet.to}
+                          {entry.packet.seq > 0 && ` (no. ${entry.packet.seq})`}, {ORIGIN_LABELS[entry.origin]}
+                        </span>
+                        {entry.status === 'delivered' && (
+                          <button
+                            onClick={() => replay(entry)}
+                            className="text-red-600 hover:text-red-800 flex items-center"
+                            title="Eve sends this packet again"
+                          >
+                            <Repeat className="mr-1" size={14} />
+                            Replay
+                          </button>
+                        )}
+                      </div>
+                      <div className="text-xs">
+                        <span className="flex items-center text-gray-600 mb-1">
+                          <Eye className="mr-1" size={12} />
+                          {entry.packet.encrypted ? 'Eve sees only ciphertext:' : 'Eve reads:'}
+                        </span>
+                        <p className="font-mono break-all bg-white p-2 rounded border">
+                          {entry.packet.body || '(empty)'}
+                          {entry.packet.signature && (
+                            <span className="block text-gray-500 mt-1">signature {entry.packet.signature}</span>
+                          )}
+                        </p>
+                      </div>
+                      {entry.status === 'held' && <p className="text-sm text-gray-600">Held by Eve.</p>}
+                      {entry.status === 'dropped' && <p className="text-sm text-gray-600">Dropped by Eve; {entry.packet.to} never sees it.</p>}
+                      {entry.receipt && (
+                        <>
+                          <div className="flex flex-wrap gap-2">
+                            <CheckBadge label="Integrity" outcome={entry.receipt.integrity} />
+                            <CheckBadge label="Authenticity" outcome={entry.receipt.authenticity} />
+                            <CheckBadge label="Freshness" outcome={entry.receipt.freshness} />
+                          </div>
+                          <div className={`p-3 rounded ${entry.receipt.accepted ? 'bg-green-50' : 'bg-red-50'}`}>
+                            <p className={`text-sm ${entry.receipt.accepted ? 'text-green-700' : 'text-red-700'}`}>
+                              {entry.receipt.accepted ? `${entry.packet.to} reads "${entry.receipt.text}". ` : `${entry.packet.to} rejects it. `}
+                              {entry.receipt.reason}
+                            </p>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessagingDemo;
@@ -0,0 +1,408 @@
+import React, { useState } from 'react';
+import { CheckCircle, Play, ShieldAlert, XCircle } from 'lucide-react';
+import {
+  decodeHybridEnvelope,
+  decodeKey,
+  DEFAULT_RSA_PARAMS,
+  describeKey,
+  encodeHybridEnvelope,
+  generateRsaKeyPair,
+  generateSigningKeyPair,
+  hybridDecrypt,
+  hybridEncrypt,
+  ok,
+  privateKeyOf,
+  Result,
+  RsaParams,
+  schemeLabel,
+  signatureSchemeOf,
+  signMessage,
+  utf8Decode,
+  utf8Encode,
+  verifyMessage
+} from '../crypto';
+import { KeyPair } from '../types';
+
+type Defence = 'none' | 'fingerprint' | 'signature';
+type Actor = 'Alice' | 'Bob' | 'Mallory';
+type Outcome = 'intercepted' | 'detected' | 'delivered' | 'false-alarm';
+
+interface Step {
+  actor: Actor;
+  text: string;
+  detail?: string;
+  succeeded: boolean;
+}
+
+interface RoundKeys {
+  bob: KeyPair;
+  mallory: KeyPair;
+  // Bob's signing key, which Alice already trusts, and Mallory's own of the same scheme.
+  bobSigning: KeyPair;
+  mallorySigning: KeyPair;
+}
+
+// Fingerprint mode stops the round until the user, as Alice, compares the two.
+interface PendingCheck {
+  keys: RoundKeys;
+  receivedKey: string;
+  receivedFingerprint: string;
+  bobFingerprint: string;
+}
+
+// Keys are generated per round, so 2048 bits keeps rounds quick.
+const RSA_PARAMS: RsaParams = { ...DEFAULT_RSA_PARAMS, modulusLength: 2048 };
+
+const DEFENCES: { value: Defence; title: string; description: string }[] = [
+  { value: 'none', title: 'No check', description: 'Alice uses whatever public key arrives.' },
+  {
+    value: 'fingerprint',
+    title: 'Compare fingerprints',
+    description: "Bob reads out the key's SHA-256 fingerprint over the phone and Alice compares it."
+  },
+  {
+    value: 'signature',
+    title: 'Signed key',
+    description: "Bob signs the encryption key with a signing key whose public half Alice already trusts."
+  }
+];
+
+const OUTCOME_TEXT: Record<Outcome, string> = {
+  intercepted: 'Mallory read the message and nobody noticed.',
+  detected: 'Alice caught the substituted key before sending anything.',
+  delivered: 'No attacker: Bob read the message.',
+  'false-alarm': "Alice rejected Bob's genuine key, so no message was sent."
+};
+
+const publicKeyDer = (pem: string): Result<Uint8Array> => {
+  const decoded = decodeKey(pem);
+  return decoded.ok ? ok(decoded.value.der) : decoded;
+};
+
+interface MitmDemoProps {
+  // The key pair from the Digital Signatures tab, used as Bob's trusted signing key.
+  signingKeyPair: KeyPair | null;
+}
+
+/** Mallory swaps the public key in an unauthenticated exchange, then relays the traffic. */
+const MitmDemo: React.FC<MitmDemoProps> = ({ signingKeyPair }) => {
+  const [defence, setDefence] = useState<Defence>('none');
+  const [malloryActive, setMalloryActive] = useState(true);
+  const [message, setMessage] = useState('Meet me at the station at noon.');
+  const [rewrite, setRewrite] = useState('');
+  const [steps, setSteps] = useState<Step[]>([]);
+  const [pending, setPending] = useState<PendingCheck | null>(null);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [score, setScore] = useState({ mallory: 0, defenders: 0 });
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const finish = (roundSteps: Step[], roundOutcome: Outcome) => {
+    setSteps(roundSteps);
+    setOutcome(roundOutcome);
+    setRunning(false);
+    if (roundOutcome === 'intercepted') setScore(current => ({ ...current, mallory: current.mallory + 1 }));
+    if (roundOutcome === 'detected') setScore(current => ({ ...current, defenders: current.defenders + 1 }));
+  };
+
+  const abort = (message: string) => {
+    setError(message);
+    setRunning(false);
+  };
+
+  const generateKeys = async (): Promise<Result<RoundKeys>> => {
+    const bobSigning = signingKeyPair ? ok(signingKeyPair) : await generateSigningKeyPair({ name: 'Ed25519' });
+    if (!bobSigning.ok) return bobSigning;
+    const [bob, mallory, mallorySigning] = await Promise.all([
+      generateRsaKeyPair('encryption', RSA_PARAMS),
+      generateRsaKeyPair('encryption', RSA_PARAMS),
+      generateSigningKeyPair(signatureSchemeOf(bobSigning.value))
+    ]);
+    if (!bob.ok) return bob;
+    if (!mallory.ok) return mallory;
+    if (!mallorySigning.ok) return mallorySigning;
+    return ok({ bob: bob.value, mallory: mallory.value, bobSigning: bobSigning.value, mallorySigning: mallorySigning.value });
+  };
+
+  const sendMessage = async (keys: RoundKeys, receivedKey: string, roundSteps: Step[]) => {
+    const sent = await hybridEncrypt(receivedKey, utf8Encode(message), RSA_PARAMS);
+    if (!sent.ok) return abort(sent.error.message);
+    let wire = encodeHybridEnvelope(sent.value);
+    roundSteps.push({ actor: 'Alice', text: 'Alice encrypts the message to the accepted key', detail: wire, succeeded: true });
+
+    if (malloryActive) {
+      // Mallory holds the private key matching the substituted public key.
+      const payload = decodeHybridEnvelope(wire);
+      if (!payload.ok) return abort(payload.error.message);
+      const read = await hybridDecrypt(keys.mallory.privateKey, payload.value, RSA_PARAMS);
+      if (!read.ok) return abort(read.error.message);
+      roundSteps.push({
+        actor: 'Mallory',
+        text: "Mallory decrypts it with Mallory's private key",
+        detail: utf8Decode(read.value),
+        succeeded: true
+      });
+
+      const relayed = await hybridEncrypt(keys.bob.publicKey, utf8Encode(rewrite || utf8Decode(read.value)), RSA_PARAMS);
+      if (!relayed.ok) return abort(relayed.error.message);
+      wire = encodeHybridEnvelope(relayed.value);
+      roundSteps.push({
+        actor: 'Mallory',
+        text: rewrite ? "Mallory re-encrypts a rewritten message to Bob's real key" : "Mallory re-encrypts the message to Bob's real key",
+        succeeded: true
+      });
+    }
+
+    const payload = decodeHybridEnvelope(wire);
+    if (!payload.ok) return abort(payload.error.message);
+    const received = await hybridDecrypt(keys.bob.privateKey, payload.value, RSA_PARAMS);
+    if (!received.ok) return abort(received.error.message);
+    roundSteps.push({
+      actor: 'Bob',
+      text: 'Bob decrypts the message, and nothing looks wrong',
+      detail: utf8Decode(received.value),
+      succeeded: true
+    });
+    finish(roundSteps, malloryActive ? 'intercepted' : 'delivered');
+  };
+
+  const startRound = async () => {
+    setRunning(true);
+    setError(null);
+    setOutcome(null);
+    setPending(null);
+    setSteps([]);
+
+    const keys = await generateKeys();
+    if (!keys.ok) return abort(keys.error.message);
+    const { bob, mallory, bobSigning, mallorySigning } = keys.value;
+    const scheme = signatureSchemeOf(bobSigning);
+    const roundSteps: Step[] = [
+      {
+        actor: 'Bob',
+        text: defence === 'signature' ? `Bob sends an RSA public key, signed with ${schemeLabel(scheme)}` : 'Bob sends an RSA public key',
+        succeeded: true
+      }
+    ];
+
+    let receivedKey = bob.publicKey;
+    let signer = bobSigning;
+    if (malloryActive) {
+      receivedKey = mallory.publicKey;
+      signer = mallorySigning;
+      roundSteps.push({
+        actor: 'Mallory',
+        text: "Mallory intercepts it and forwards Mallory's own public key instead",
+        detail: defence === 'signature' ? "Without Bob's private signing key, Mallory can only sign it with Mallory's key." : undefined,
+        succeeded: true
+      });
+    }
+
+    if (defence === 'signature') {
+      const der = publicKeyDer(receivedKey);
+      if (!der.ok) return abort(der.error.message);
+      const signature = await signMessage(scheme, privateKeyOf(signer), der.value);
+      if (!signature.ok) return abort(signature.error.message);
+      const verified = await verifyMessage(scheme, bobSigning.publicKey, der.value, signature.value);
+      if (!verified.ok) return abort(verified.error.message);
+      roundSteps.push({
+        actor: 'Alice',
+        text: verified.value
+          ? "Alice verifies the key's signature with Bob's trusted signing key: valid"
+          : "Alice verifies the key's signature with Bob's trusted signing key: invalid, key rejected",
+        succeeded: verified.value !== malloryActive
+      });
+      if (!verified.value) return finish(roundSteps, 'detected');
+    }
+
+    if (defence === 'fingerprint') {
+      const received = await describeKey(receivedKey);
+      if (!received.ok) return abort(received.error.message);
+      const genuine = await describeKey(bob.publicKey);
+      if (!genuine.ok) return abort(genuine.error.message);
+      setSteps(roundSteps);
+      setPending({
+        keys: keys.value,
+        receivedKey,
+        receivedFingerprint: received.value.fingerprint,
+        bobFingerprint: genuine.value.fingerprint
+      });
+      return;
+    }
+
+    if (defence === 'none') {
+      roundSteps.push({ actor: 'Alice', text: 'Alice accepts the key without checking it', succeeded: !malloryActive });
+    }
+    await sendMessage(keys.value, receivedKey, roundSteps);
+  };
+
+  const decideFingerprint = async (accept: boolean) => {
+    if (!pending) return;
+    const { keys, receivedKey, receivedFingerprint, bobFingerprint } = pending;
+    setPending(null);
+    const matches = receivedFingerprint === bobFingerprint;
+    const roundSteps = [
+      ...steps,
+      {
+        actor: 'Alice' as const,
+        text: accept
+          ? `Alice accepts the key; the fingerprints ${matches ? 'match' : 'differ'}`
+          : `Alice rejects the key; the fingerprints ${matches ? 'match' : 'differ'}`,
+        // Alice does well by accepting exactly the genuine key.
+        succeeded: accept === matches
+      }
+    ];
+    if (!accept) return finish(roundSteps, matches ? 'false-alarm' : 'detected');
+    await sendMessage(keys, receivedKey, roundSteps);
+  };
+
+  const mallorySteps = steps.filter(step => step.actor === 'Mallory');
+
+  return (
+    <div className="space-y-6">
+      <p className="text-gray-600">
+        Public-key encryption only protects a message if the sender has the recipient's real public
+        key. When Bob sends a public key over the network, Mallory can replace it with Mallory's own, read
+        everything Alice sends, and pass it on re-encrypted to Bob. Neither side sees anything wrong.
+        The defence is to authenticate the key: compare its fingerprint over a channel Mallory cannot
+        touch, or have it signed by a key Alice already trusts, as certificate authorities do for TLS.
+      </p>
+
+      {error && (
+        <div className="p-4 bg-red-50 rounded-lg">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        {DEFENCES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setDefence(option.value)}
+            disabled={running}
+            className={`p-3 rounded-lg border text-left transition-colors
+              ${defence === option.value ? 'bg-green-600 text-white border-green-600' : 'bg-white text-gray-700 hover:bg-green-50'}`}
+          >
+            <span className="block font-semibold">{option.title}</span>
+            <span className="block text-xs mt-1">{option.description}</span>
+          </button>
+        ))}
+      </div>
+      {defence === 'signature' && (
+        <p className="text-sm text-gray-600">
+          {signingKeyPair
+            ? `Bob's signing key is the ${schemeLabel(signatureSchemeOf(signingKeyPair))} key pair from the Digital Signatures tab.`
+            : 'No key pair in the Digital Signatures tab yet, so each round generates an Ed25519 signing key for Bob.'}
+        </p>
+      )}
+
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          className="h-4 w-4 mr-2 border-gray-300 rounded"
+          checked={malloryActive}
+          onChange={(e) => setMalloryActive(e.target.checked)}
+          disabled={running}
+        />
+        Mallory sits between Alice and Bob
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Alice's message to Bob</label>
+          <input
+            type="text"
+            className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Mallory's rewrite (optional)</label>
+          <input
+            type="text"
+            className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            value={rewrite}
+            onChange={(e) => setRewrite(e.target.value)}
+            placeholder="Relay the message unchanged"
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={startRound}
+        disabled={running}
+        className="w-full bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center disabled:opacity-50"
+      >
+        <Play className="mr-2" size={20} />
+        {running ? 'Running...' : 'Run the Exchange'}
+      </button>
+
+      {steps.length > 0 && (
+        <ol className="space-y-3">
+          {steps.map((step, i) => (
+            <li key={i} className="flex gap-3">
+              {step.succeeded ? (
+                <CheckCircle className="flex-shrink-0 text-green-600" size={20} />
+              ) : (
+                <XCircle className="flex-shrink-0 text-red-600" size={20} />
+              )}
+              <div className="min-w-0">
+                <p className={`font-medium ${step.actor === 'Mallory' ? 'text-red-800' : 'text-gray-800'}`}>{step.text}</p>
+                {step.detail && (
+                  <p className="text-xs font-mono break-all bg-gray-50 p-2 rounded border mt-1">{step.detail}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {pending && (
+        <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+          <p className="text-sm font-medium text-gray-700">
+            You are Alice. Compare the fingerprint of the key you received with the one Bob read out.
+          </p>
+          <p className="text-xs font-mono break-all">Received: {pending.receivedFingerprint}</p>
+          <p className="text-xs font-mono break-all">Bob says: {pending.bobFingerprint}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => decideFingerprint(true)}
+              className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700"
+            >
+              They Match: Use the Key
+            </button>
+            <button
+              onClick={() => decideFingerprint(false)}
+              className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700"
+            >
+              They Differ: Reject the Key
+            </button>
+          </div>
+        </div>
+      )}
+
+      {outcome && (
+        <div className={`p-4 rounded-lg ${outcome === 'intercepted' ? 'bg-red-50' : 'bg-green-50'}`}>
+          <p className={`flex items-center ${outcome === 'intercepted' ? 'text-red-700' : 'text-green-700'}`}>
+            <ShieldAlert className="mr-2" size={20} />
+            {OUTCOME_TEXT[outcome]}
+          </p>
+          {malloryActive && (
+            <p className="text-sm text-gray-600 mt-2">
+              Mallory completed {mallorySteps.filter(step => step.succeeded).length} of 3 attack steps
+              (substitute the key, read the message, relay it to Bob).
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-4 text-sm">
+        <span className="px-3 py-1 rounded bg-red-100 text-red-800">Mallory: {score.mallory}</span>
+        <span className="px-3 py-1 rounded bg-green-100 text-green-800">Alice and Bob: {score.defenders}</span>
+      </div>
+    </div>
+  );
+};
+
+export default MitmDemo;
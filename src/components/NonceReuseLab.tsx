@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import { Search } from 'lucide-react';
+import {
+  cribDrag,
+  decodeSymmetricEnvelope,
+  GCM_TAG_BYTES,
+  keystreamCiphertext,
+  ok,
+  Result,
+  SymmetricMode,
+  toHex,
+  utf8Decode,
+  utf8Encode,
+  xorBytes
+} from '../crypto';
+
+interface Analysis {
+  mode: SymmetricMode;
+  sameIv: boolean;
+  // P1 XOR P2, when the IVs match.
+  xored: Uint8Array;
+  // GCM only: both tags, whose XOR cancels E_K(J0).
+  tags?: [Uint8Array, Uint8Array];
+}
+
+const analyse = (first: string, second: string): Result<Analysis> => {
+  const a = decodeSymmetricEnvelope(first);
+  if (!a.ok) return a;
+  const b = decodeSymmetricEnvelope(second);
+  if (!b.ok) return b;
+  const c1 = keystreamCiphertext(a.value);
+  if (!c1.ok) return c1;
+  const c2 = keystreamCiphertext(b.value);
+  if (!c2.ok) return c2;
+
+  const { mode } = a.value;
+  return ok({
+    mode,
+    sameIv: mode === b.value.mode && toHex(a.value.iv) === toHex(b.value.iv),
+    xored: xorBytes(c1.value, c2.value),
+    tags:
+      mode === 'AES-GCM'
+        ? [a.value.ciphertext.subarray(-GCM_TAG_BYTES), b.value.ciphertext.subarray(-GCM_TAG_BYTES)]
+        : undefined
+  });
+};
+
+// Unknown bytes are shown as a middle dot.
+const showRecovered = (bytes: (number | null)[]): string =>
+  bytes.map(byte => (byte === null ? '·' : String.fromCharCode(byte))).join('');
+
+interface NonceReuseLabProps {
+  // Envelopes of the most recent encryptions, newest last.
+  recent: string[];
+}
+
+/** Recovers two plaintexts encrypted under the same key and IV by crib-dragging their XOR. */
+const NonceReuseLab: React.FC<NonceReuseLabProps> = ({ recent }) => {
+  const [first, setFirst] = useState('');
+  const [second, setSecond] = useState('');
+  const [crib, setCrib] = useState(' the ');
+  const [recovered, setRecovered] = useState<[(number | null)[], (number | null)[]] | null>(null);
+
+  const analysis = useMemo(() => (first && second ? analyse(first, second) : null), [first, second]);
+  const xored = analysis?.ok && analysis.value.sameIv ? analysis.value.xored : null;
+  const matches = useMemo(() => (xored && crib ? cribDrag(xored, utf8Encode(crib)) : []), [xored, crib]);
+
+  const loadRecent = () => {
+    setFirst(recent[recent.length - 2] ?? '');
+    setSecond(recent[recent.length - 1] ?? '');
+    setRecovered(null);
+  };
+
+  // Placing the crib in one message fixes the same bytes of the other through the XOR.
+  const place = (offset: number, inMessage: 0 | 1) => {
+    if (!xored) return;
+    const cribBytes = utf8Encode(crib);
+    const next: [(number | null)[], (number | null)[]] = recovered
+      ? [[...recovered[0]], [...recovered[1]]]
+      : [new Array(xored.length).fill(null), new Array(xored.length).fill(null)];
+    cribBytes.forEach((byte, i) => {
+      next[inMessage][offset + i] = byte;
+      next[1 - inMessage][offset + i] = byte ^ xored[offset + i];
+    });
+    setRecovered(next);
+  };
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+      <h4 className="text-sm font-medium text-gray-700">Nonce-reuse attack</h4>
+      <p className="text-sm text-gray-600">
+        AES-CTR and AES-GCM XOR the plaintext with a keystream that depends only on the key and IV.
+        Encrypt two messages with the same fixed IV and XOR the ciphertexts: the keystream cancels,
+        leaving the XOR of the two plaintexts. Guess a word that is likely to appear in one message
+        (a crib) and slide it along. Wherever the guess is right, the other message shows readable text.
+      </p>
+
+      <div className="flex justify-end">
+        <button
+          onClick={loadRecent}
+          disabled={recent.length < 2}
+          className="text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+        >
+          Use the last two encrypted messages
+        </button>
+      </div>
+      <textarea
+        className="w-full p-2 border rounded-lg text-xs font-mono"
+        rows={2}
+        value={first}
+        onChange={(e) => {
+          setFirst(e.target.value);
+          setRecovered(null);
+        }}
+        placeholder="First ciphertext envelope"
+      />
+      <textarea
+        className="w-full p-2 border rounded-lg text-xs font-mono"
+        rows={2}
+        value={second}
+        onChange={(e) => {
+          setSecond(e.target.value);
+          setRecovered(null);
+        }}
+        placeholder="Second ciphertext envelope, same key and IV"
+      />
+
+      {analysis && !analysis.ok && <p className="text-sm text-red-700">{analysis.error.message}</p>}
+      {analysis?.ok && !analysis.value.sameIv && (
+        <p className="text-sm text-green-700">
+          The two messages use different IVs (or modes), so their keystreams differ and the XOR reveals nothing.
+        </p>
+      )}
+
+      {xored && (
+        <>
+          <div className="text-xs">
+            <span className="text-gray-500">C1 XOR C2 = P1 XOR P2</span>
+            <p className="font-mono break-all bg-white p-2 rounded border mt-1">{toHex(xored)}</p>
+          </div>
+
+          <div className="flex gap-2 items-center">
+            <Search className="text-gray-500" size={16} />
+            <input
+              type="text"
+              className="flex-1 p-2 border rounded-lg text-sm font-mono"
+              value={crib}
+              onChange={(e) => setCrib(e.target.value)}
+              placeholder="Crib, e.g. ' the '"
+            />
+          </div>
+
+          {matches.length > 0 && (
+            <div className="max-h-64 overflow-y-auto bg-white rounded border">
+              <table className="w-full text-xs font-mono">
+                <tbody>
+                  {matches.map(match => (
+                    <tr key={match.offset} className={`border-t ${match.plausible ? 'bg-green-50' : 'text-gray-400'}`}>
+                      <td className="p-1 w-12 text-right">{match.offset}</td>
+                      <td className="p-1 whitespace-pre">{JSON.stringify(utf8Decode(match.revealed))}</td>
+                      <td className="p-1 text-right whitespace-nowrap">
+                        <button onClick={() => place(match.offset, 0)} className="text-indigo-600 hover:text-indigo-800 mr-2">
+                          crib in P1
+                        </button>
+                        <button onClick={() => place(match.offset, 1)} className="text-indigo-600 hover:text-indigo-800">
+                          crib in P2
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            Highlighted offsets reveal plausible text in the other message. Place a crib, then guess how
+            the revealed fragment continues and drag that as the next crib.
+          </p>
+
+          {recovered && (
+            <div className="text-xs space-y-1">
+              <p className="font-mono whitespace-pre-wrap break-all bg-white p-2 rounded border">P1: {showRecovered(recovered[0])}</p>
+              <p className="font-mono whitespace-pre-wrap break-all bg-white p-2 rounded border">P2: {showRecovered(recovered[1])}</p>
+            </div>
+          )}
+
+          {analysis?.ok && analysis.value.tags && (
+            <div className="text-sm text-gray-600 space-y-2 border-t pt-4">
+              <p className="font-medium text-gray-700">Why a repeated GCM nonce is worse still</p>
+              <p>
+                A GCM tag is GHASH<sub>H</sub>(A, C) XOR E<sub>K</sub>(J<sub>0</sub>), where GHASH evaluates a
+                polynomial whose coefficients are the ciphertext blocks at the secret point H = E<sub>K</sub>(0).
+                With the same nonce, both tags share E<sub>K</sub>(J<sub>0</sub>), so XORing them leaves a
+                polynomial in H with known coefficients:
+              </p>
+              <p className="text-xs font-mono break-all bg-white p-2 rounded border">
+                T1 XOR T2 = {toHex(xorBytes(analysis.value.tags[0], analysis.value.tags[1]))}
+              </p>
+              <p>
+                Finding the roots of that polynomial over GF(2<sup>128</sup>) leaves a handful of candidates
+                for H (Joux's "forbidden attack"). With H and one known tag, the attacker can compute valid
+                tags for any ciphertext of their choosing, so GCM loses its integrity as well as its
+                confidentiality for every message under that key.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NonceReuseLab;
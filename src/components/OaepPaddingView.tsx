@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { HASH_BYTES, inspectOaep, OaepBlock, PrivateKeyInput, Result, RsaParams, toHex, utf8Decode } from '../crypto';
+import EncodedBlock from './EncodedBlock';
+
+interface OaepPaddingViewProps {
+  privateKey: PrivateKeyInput;
+  // The RSA-OAEP ciphertext: the whole message in direct mode, the wrapped content key in hybrid mode.
+  ciphertext: Uint8Array;
+  params: RsaParams;
+  hybrid: boolean;
+}
+
+/** Decrypts an RSA-OAEP ciphertext with raw RSA and shows the EME-OAEP block WebCrypto built. */
+const OaepPaddingView: React.FC<OaepPaddingViewProps> = ({ privateKey, ciphertext, params, hybrid }) => {
+  const [block, setBlock] = useState<Result<OaepBlock> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    inspectOaep(privateKey, ciphertext, params).then(result => {
+      if (!cancelled) setBlock(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [privateKey, ciphertext, params]);
+
+  if (!block) return null;
+  if (!block.ok) return <p className="text-sm text-red-700 mt-2">{block.error.message}</p>;
+  const { em, maskedSeed, maskedDb, seedMask, seed, dbMask, lHash, expectedLHash, paddingBytes, message, reencodes } = block.value;
+  const hLen = HASH_BYTES[params.hash];
+  const labelMatches = toHex(lHash) === toHex(expectedLHash);
+
+  return (
+    <div className="mt-4 space-y-4">
+      <p className="text-xs text-gray-600">
+        Raw RSA with the private key, c<sup>d</sup> mod n, gives back the {em.length}-byte block that WebCrypto
+        encrypted. OAEP hides its structure behind two MGF1 masks ({params.hash}), so first the masks are peeled off.
+      </p>
+      <EncodedBlock
+        title="EM = c^d mod n"
+        fields={[
+          { label: 'Y', value: toHex(em.subarray(0, 1)), note: 'Always 00, so EM is below the modulus.', tone: 'fixed' },
+          { label: 'maskedSeed', value: toHex(maskedSeed), note: `${hLen} bytes: seed XOR MGF1(maskedDB).`, tone: 'mask' },
+          { label: 'maskedDB', value: toHex(maskedDb), note: `${maskedDb.length} bytes: DB XOR MGF1(seed).`, tone: 'mask' }
+        ]}
+      />
+      <EncodedBlock
+        title="Unmasking"
+        fields={[
+          { label: 'seedMask', value: toHex(seedMask), note: 'MGF1(maskedDB), hashed from the masked data block.', tone: 'hash' },
+          {
+            label: 'seed',
+            value: toHex(seed),
+            note: 'maskedSeed XOR seedMask. Fresh random bytes for every encryption: this is why encrypting the same message twice gives different ciphertexts.',
+            tone: 'random'
+          },
+          { label: 'dbMask', value: toHex(dbMask), note: 'MGF1(seed): every byte of DB depends on the random seed.', tone: 'hash' }
+        ]}
+      />
+      <EncodedBlock
+        title="DB = maskedDB XOR dbMask"
+        fields={[
+          {
+            label: 'lHash',
+            value: toHex(lHash),
+            note: labelMatches
+              ? `${params.hash} of the label ${params.label ? `"${params.label}"` : '(empty)'}: matches.`
+              : `Does not match ${params.hash} of the label, ${toHex(expectedLHash)}.`,
+            tone: 'hash'
+          },
+          { label: 'PS', value: paddingBytes ? `00 × ${paddingBytes}` : '(none)', note: 'Zero bytes filling the block.', tone: 'fixed' },
+          { label: '01', value: '01', note: 'Separator before the message.', tone: 'fixed' },
+          {
+            label: 'M',
+            value: message ? toHex(message) : '(malformed block)',
+            note: message
+              ? hybrid
+                ? 'The 32-byte AES content key of the hybrid envelope.'
+                : `The plaintext: "${utf8Decode(message)}".`
+              : 'The block does not parse: wrong key or label.',
+            tone: 'message'
+          }
+        ]}
+      />
+      <div className="flex gap-2 text-sm">
+        {reencodes ? (
+          <CheckCircle className="flex-shrink-0 text-green-600" size={18} />
+        ) : (
+          <XCircle className="flex-shrink-0 text-red-600" size={18} />
+        )}
+        <span>
+          {reencodes
+            ? 'Encoding M again in TypeScript with the recovered seed reproduces EM byte for byte.'
+            : 'The recovered fields do not re-encode to EM.'}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default OaepPaddingView;
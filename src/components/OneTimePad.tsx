@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { Dices, Search } from 'lucide-react';
+import { cribDrag, otpEncrypt, toHex, utf8Decode, utf8Encode, xorBytes } from '../crypto';
+
+const PAD_BYTES = 64;
+
+const randomPad = (): Uint8Array => crypto.getRandomValues(new Uint8Array(PAD_BYTES));
+
+/** The one-time pad: perfectly secret with a fresh pad, broken by crib-dragging once a pad is reused. */
+const OneTimePad: React.FC = () => {
+  const [pad, setPad] = useState(randomPad);
+  const [first, setFirst] = useState('meet me at the old mill at noon');
+  const [second, setSecond] = useState('bring the documents and come alone');
+  const [claimed, setClaimed] = useState('');
+  const [crib, setCrib] = useState(' the ');
+
+  const c1 = otpEncrypt(utf8Encode(first), pad);
+  const c2 = otpEncrypt(utf8Encode(second), pad);
+  // The pad that would turn C1 into the claimed plaintext instead.
+  const claimedBytes = utf8Encode(claimed);
+  const otherPad = c1.ok && claimedBytes.length === c1.value.length ? xorBytes(c1.value, claimedBytes) : null;
+
+  const xored = c1.ok && c2.ok ? xorBytes(c1.value, c2.value) : null;
+  const matches = useMemo(
+    () => (xored && crib ? cribDrag(xored, utf8Encode(crib)).filter(match => match.plausible) : []),
+    [xored, crib]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-medium text-gray-700">Encrypt with a random pad</h4>
+          <button onClick={() => setPad(randomPad())} className="text-sm text-amber-700 hover:text-amber-900 flex items-center">
+            <Dices className="mr-1" size={14} />
+            New Pad
+          </button>
+        </div>
+        <p className="text-sm text-gray-600">
+          XOR the message with truly random pad bytes, as long as the message, used once. Every plaintext of the
+          same length is then equally likely: for any guess there is a pad that turns the ciphertext into it, so the
+          ciphertext says nothing but the length.
+        </p>
+        <p className="text-xs font-mono break-all bg-white p-2 rounded border">pad {toHex(pad)}</p>
+        <input
+          type="text"
+          className="w-full p-2 border rounded-lg text-sm"
+          value={first}
+          onChange={(e) => setFirst(e.target.value)}
+        />
+        {c1.ok ? (
+          <p className="text-xs font-mono break-all bg-white p-2 rounded border">C1 {toHex(c1.value)}</p>
+        ) : (
+          <p className="text-sm text-red-700">{c1.error.message}</p>
+        )}
+        <input
+          type="text"
+          className="w-full p-2 border rounded-lg text-sm"
+          value={claimed}
+          onChange={(e) => setClaimed(e.target.value)}
+          placeholder={`Claim C1 says something else, exactly ${utf8Encode(first).length} bytes long`}
+        />
+        {claimed && !otherPad && (
+          <p className="text-xs text-gray-500">
+            {claimedBytes.length} of {utf8Encode(first).length} bytes: the only thing the ciphertext reveals is the length.
+          </p>
+        )}
+        {otherPad && (
+          <p className="text-xs font-mono break-all bg-green-50 p-2 rounded">
+            pad {toHex(otherPad)} decrypts C1 to "{claimed}", and is exactly as likely as the real one.
+          </p>
+        )}
+      </div>
+
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">Reuse the pad: the two-time pad</h4>
+        <p className="text-sm text-gray-600">
+          Encrypt a second message with the same pad and XOR the two ciphertexts. The pad cancels, leaving the XOR
+          of the two plaintexts, and guessing a word in one (a crib) reveals the other at the same position. The same
+          attack breaks AES-CTR and AES-GCM with a repeated nonce in the symmetric tab.
+        </p>
+        <input
+          type="text"
+          className="w-full p-2 border rounded-lg text-sm"
+          value={second}
+          onChange={(e) => setSecond(e.target.value)}
+        />
+        {c2.ok ? (
+          <p className="text-xs font-mono break-all bg-white p-2 rounded border">C2 {toHex(c2.value)}</p>
+        ) : (
+          <p className="text-sm text-red-700">{c2.error.message}</p>
+        )}
+        {xored && (
+          <>
+            <p className="text-xs font-mono break-all bg-white p-2 rounded border">C1 XOR C2 = P1 XOR P2 = {toHex(xored)}</p>
+            <div className="flex gap-2 items-center">
+              <Search className="text-gray-500" size={16} />
+              <input
+                type="text"
+                className="flex-1 p-2 border rounded-lg text-sm font-mono"
+                value={crib}
+                onChange={(e) => setCrib(e.target.value)}
+                placeholder="Crib, e.g. ' the '"
+              />
+            </div>
+            {matches.length > 0 ? (
+              <table className="w-full text-xs font-mono bg-white rounded border">
+                <tbody>
+                  {matches.map(match => (
+                    <tr key={match.offset} className="border-t">
+                      <td className="p-1 w-12 text-right">{match.offset}</td>
+                      <td className="p-1 whitespace-pre">{JSON.stringify(utf8Decode(match.revealed))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-xs text-gray-500">No offset reveals readable text for this crib.</p>
+            )}
+            <p className="text-xs text-gray-500">
+              Offsets where the crib, placed in one message, reveals readable text in the other. Extend a fragment by
+              guessing how it continues and drag that as the next crib.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OneTimePad;
@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import { FastForward, Play, Server, SkipForward } from 'lucide-react';
+import {
+  AES_BLOCK_BYTES,
+  createPaddingOracle,
+  OracleDefence,
+  OracleResponse,
+  PaddingOracle,
+  recoverIntermediateByte,
+  toHex,
+  utf8Encode
+} from '../crypto';
+
+const DEFENCES: [OracleDefence, string, string][] = [
+  ['none', 'AES-CBC', 'The server decrypts and reports a padding error separately from other failures.'],
+  [
+    'encrypt-then-mac',
+    'AES-CBC + HMAC',
+    'The server checks an HMAC-SHA256 over the IV and ciphertext first, and rejects anything modified before decrypting it.'
+  ],
+  ['aes-gcm', 'AES-GCM', 'What the encryption section uses: the tag is checked before any plaintext is released.']
+];
+
+type Tally = Record<OracleResponse, number>;
+
+interface Step {
+  block: number;
+  position: number;
+  pad: number;
+  // The forged previous block that the server accepted.
+  forged: Uint8Array;
+  intermediate: number;
+  plaintext: number;
+}
+
+interface Progress {
+  block: number;
+  position: number;
+  intermediates: Uint8Array[];
+  recovered: (number | null)[];
+}
+
+const splitBlocks = (bytes: Uint8Array): Uint8Array[] =>
+  Array.from({ length: bytes.length / AES_BLOCK_BYTES }, (_, i) =>
+    bytes.subarray(i * AES_BLOCK_BYTES, (i + 1) * AES_BLOCK_BYTES)
+  );
+
+const showByte = (byte: number | null): string =>
+  byte === null ? '·' : byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : `\\x${byte.toString(16).padStart(2, '0')}`;
+
+/** Decrypts a captured AES-CBC message one byte at a time, using only the server's padding errors. */
+const PaddingOracleLab: React.FC = () => {
+  const [defence, setDefence] = useState<OracleDefence>('none');
+  const [secret, setSecret] = useState('Transfer 500 to account 12-3456-789');
+  const [oracle, setOracle] = useState<PaddingOracle | null>(null);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [step, setStep] = useState<Step | null>(null);
+  const [tally, setTally] = useState<Tally | null>(null);
+  const [queries, setQueries] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const blocks = oracle ? splitBlocks(oracle.ciphertext) : [];
+  const done = !!progress && progress.block >= blocks.length;
+
+  const capture = async () => {
+    const created = await createPaddingOracle(defence, utf8Encode(secret));
+    setStep(null);
+    setTally(null);
+    setQueries(0);
+    if (!created.ok) {
+      setError(created.error.message);
+      setOracle(null);
+      setProgress(null);
+      return;
+    }
+    setError(null);
+    setOracle(created.value);
+    setProgress({
+      block: 0,
+      position: AES_BLOCK_BYTES - 1,
+      intermediates: splitBlocks(created.value.ciphertext).map(() => new Uint8Array(AES_BLOCK_BYTES)),
+      recovered: new Array(created.value.ciphertext.length).fill(null)
+    });
+  };
+
+  const advance = async (until: 'byte' | 'block' | 'end') => {
+    if (!oracle || !progress) return;
+    setRunning(true);
+    let { block, position } = progress;
+    const intermediates = progress.intermediates.map(bytes => new Uint8Array(bytes));
+    const recovered = [...progress.recovered];
+    const startBlock = block;
+
+    while (block < blocks.length) {
+      // Count how the server answered while guessing this byte.
+      const responses: Tally = { accepted: 0, 'bad-padding': 0, rejected: 0 };
+      const counted: PaddingOracle = {
+        ...oracle,
+        query: async (iv, ciphertext) => {
+          const response = await oracle.query(iv, ciphertext);
+          responses[response]++;
+          return response;
+        }
+      };
+      const found = await recoverIntermediateByte(counted, blocks[block], intermediates[block], position);
+      setTally(responses);
+      setQueries(oracle.queries());
+      if (!found.ok) {
+        setError(found.error.message);
+        setStep(null);
+        break;
+      }
+
+      const pad = AES_BLOCK_BYTES - position;
+      const previous = block === 0 ? oracle.iv : blocks[block - 1];
+      intermediates[block][position] = found.value;
+      recovered[block * AES_BLOCK_BYTES + position] = found.value ^ previous[position];
+      const forged = new Uint8Array(AES_BLOCK_BYTES);
+      for (let i = position; i < AES_BLOCK_BYTES; i++) forged[i] = intermediates[block][i] ^ pad;
+      setStep({ block, position, pad, forged, intermediate: found.value, plaintext: found.value ^ previous[position] });
+
+      if (position === 0) {
+        block++;
+        position = AES_BLOCK_BYTES - 1;
+      } else {
+        position--;
+      }
+      setProgress({ block, position, intermediates: intermediates.map(bytes => new Uint8Array(bytes)), recovered: [...recovered] });
+      if (until === 'byte' || (until === 'block' && block !== startBlock)) break;
+    }
+    setRunning(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">The server</h4>
+        <p className="text-sm text-gray-600">
+          A simulated server holds a secret AES key and accepts encrypted messages. It never returns
+          plaintext, but with plain AES-CBC it answers "bad padding" differently from "accepted", as
+          many real servers did through an error message, a status code or a timing difference. That one
+          bit is enough to decrypt any message encrypted under its key, without ever learning the key.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          {DEFENCES.map(([option, title, description]) => (
+            <button
+              key={option}
+              onClick={() => setDefence(option)}
+              className={`p-3 rounded-lg border text-left transition-colors
+                ${defence === option ? 'bg-indigo-50 border-indigo-500' : 'bg-white hover:bg-gray-50'}`}
+            >
+              <span className="block text-sm font-semibold text-gray-800">{title}</span>
+              <span className="block text-xs text-gray-600 mt-1">{description}</span>
+            </button>
+          ))}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Secret message the server encrypts</label>
+          <input
+            type="text"
+            className="w-full p-2 border rounded-lg text-sm"
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+          />
+        </div>
+        <button
+          onClick={capture}
+          disabled={running}
+          className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 flex items-center justify-center disabled:opacity-50"
+        >
+          <Server className="mr-2" size={16} />
+          Capture an Encrypted Message
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 rounded-lg">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {oracle && progress && (
+        <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+          <div className="flex justify-between items-center">
+            <h4 className="text-sm font-medium text-gray-700">The attack</h4>
+            <span className="text-sm text-gray-600">
+              Oracle queries: <span className="font-mono">{queries}</span>
+            </span>
+          </div>
+          <p className="text-sm text-gray-600">
+            CBC decrypts block C<sub>i</sub> as P<sub>i</sub> = D<sub>K</sub>(C<sub>i</sub>) XOR C<sub>i-1</sub>.
+            The attacker sends C<sub>i</sub> after a forged block C' and varies one byte of C' until the server
+            accepts the padding. Then that byte of D<sub>K</sub>(C<sub>i</sub>) XOR C' equals the padding value,
+            which gives the intermediate byte, and XORing it with the real C<sub>i-1</sub> gives the plaintext.
+            Each byte takes at most 256 queries.
+          </p>
+
+          <div className="text-xs space-y-1">
+            <div className="flex gap-3">
+              <span className="w-20 shrink-0 text-gray-500">IV</span>
+              <span className="font-mono break-all">{toHex(oracle.iv)}</span>
+            </div>
+            {blocks.map((bytes, index) => (
+              <div key={index} className="flex gap-3">
+                <span className="w-20 shrink-0 text-gray-500">C{index + 1}</span>
+                <span className={`font-mono break-all ${index === progress.block && !done ? 'bg-indigo-100 rounded' : ''}`}>
+                  {toHex(bytes)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={() => advance('byte')}
+              disabled={running || done}
+              className="bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50 flex items-center justify-center disabled:opacity-50"
+            >
+              <Play className="mr-1" size={14} />
+              Next Byte
+            </button>
+            <button
+              onClick={() => advance('block')}
+              disabled={running || done}
+              className="bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50 flex items-center justify-center disabled:opacity-50"
+            >
+              <SkipForward className="mr-1" size={14} />
+              Finish Block
+            </button>
+            <button
+              onClick={() => advance('end')}
+              disabled={running || done}
+              className="bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50 flex items-center justify-center disabled:opacity-50"
+            >
+              <FastForward className="mr-1" size={14} />
+              Run to End
+            </button>
+          </div>
+
+          {tally && (
+            <p className="text-xs text-gray-600">
+              Last byte's answers: accepted {tally.accepted}, bad padding {tally['bad-padding']}, rejected {tally.rejected}.
+            </p>
+          )}
+
+          {step && (
+            <div className="text-xs bg-white p-3 rounded border space-y-1">
+              <p>
+                Block C{step.block + 1}, byte {step.position}: target padding{' '}
+                <span className="font-mono">{step.pad.toString(16).padStart(2, '0')}</span> in the last {step.pad} byte
+                {step.pad === 1 ? '' : 's'}.
+              </p>
+              <p className="font-mono break-all">
+                C' ={' '}
+                {Array.from(step.forged).map((byte, index) => (
+                  <span
+                    key={index}
+                    className={`px-0.5 rounded ${index === step.position ? 'bg-green-200' : index > step.position ? 'bg-gray-100' : ''}`}
+                  >
+                    {byte.toString(16).padStart(2, '0')}
+                  </span>
+                ))}
+              </p>
+              <p className="font-mono">
+                intermediate = {step.forged[step.position].toString(16).padStart(2, '0')} XOR{' '}
+                {step.pad.toString(16).padStart(2, '0')} = {step.intermediate.toString(16).padStart(2, '0')}, plaintext ={' '}
+                {step.intermediate.toString(16).padStart(2, '0')} XOR {step.block === 0 ? 'IV' : `C${step.block}`}[{step.position}] ={' '}
+                {step.plaintext.toString(16).padStart(2, '0')} ({showByte(step.plaintext)})
+              </p>
+            </div>
+          )}
+
+          <div>
+            <span className="text-xs text-gray-500">Recovered plaintext (with PKCS#7 padding)</span>
+            <p className="font-mono text-sm break-all bg-white p-2 rounded border mt-1">
+              {progress.recovered.map(showByte).join('')}
+            </p>
+          </div>
+          {done && (
+            <p className="text-sm text-red-700">
+              The whole message was recovered in {queries} queries, without the key.
+            </p>
+          )}
+        </div>
+      )}
+
+      {oracle && oracle.defence !== 'none' && error && (
+        <div className="bg-green-50 p-4 rounded-lg text-sm text-gray-700 space-y-2">
+          <p className="font-medium">Why the attack fails</p>
+          <p>
+            Every forged message changes the IV or ciphertext, so the{' '}
+            {oracle.defence === 'aes-gcm' ? 'GCM tag' : 'HMAC'} no longer matches and the server rejects it
+            before decrypting. Valid and invalid padding produce the same answer, so the attacker's 256 guesses
+            all look alike. Authenticate the ciphertext, and check the tag or MAC first, in constant time.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaddingOracleLab;
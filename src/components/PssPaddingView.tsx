@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { HashAlgorithm, inspectPss, PssBlock, Result, toHex, utf8Encode } from '../crypto';
+import EncodedBlock from './EncodedBlock';
+
+interface PssPaddingViewProps {
+  publicKey: string;
+  message: string;
+  signature: Uint8Array;
+  hash: HashAlgorithm;
+}
+
+/** Opens an RSA-PSS signature with the public key and shows the EMSA-PSS block that was signed. */
+const PssPaddingView: React.FC<PssPaddingViewProps> = ({ publicKey, message, signature, hash }) => {
+  const [block, setBlock] = useState<Result<PssBlock> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    inspectPss(publicKey, utf8Encode(message), signature, hash).then(result => {
+      if (!cancelled) setBlock(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [publicKey, message, signature, hash]);
+
+  if (!block) return null;
+  if (!block.ok) return <p className="text-sm text-red-700 mt-2">{block.error.message}</p>;
+  const { em, maskedDb, h, trailer, dbMask, zeroBits, paddingBytes, salt, messageHash, mPrime, expectedH, valid, reencodes } =
+    block.value;
+
+  return (
+    <div className="mt-4 space-y-4">
+      <p className="text-xs text-gray-600">
+        Anyone can open a signature: s<sup>e</sup> mod n with the public key gives back the {em.length}-byte block the
+        signer raised to d. Verifying means checking that block's structure.
+      </p>
+      <EncodedBlock
+        title="EM = s^e mod n"
+        fields={[
+          { label: 'maskedDB', value: toHex(maskedDb), note: `${maskedDb.length} bytes: DB XOR MGF1(H).`, tone: 'mask' },
+          { label: 'H', value: toHex(h), note: `${hash} of M', which binds the message hash and the salt.`, tone: 'hash' },
+          {
+            label: 'trailer',
+            value: trailer.toString(16).padStart(2, '0'),
+            note: trailer === 0xbc ? 'The fixed bc byte.' : 'Should be bc.',
+            tone: 'fixed'
+          }
+        ]}
+      />
+      <EncodedBlock
+        title="DB = maskedDB XOR MGF1(H)"
+        fields={[
+          { label: 'dbMask', value: toHex(dbMask), note: `MGF1(H), with ${hash}.`, tone: 'hash' },
+          {
+            label: 'PS',
+            value: paddingBytes ? `00 × ${paddingBytes}` : '(none)',
+            note: `Zero bytes; the top ${zeroBits} bit${zeroBits === 1 ? ' is' : 's are'} cleared so EM fits below the modulus.`,
+            tone: 'fixed'
+          },
+          { label: '01', value: '01', note: 'Separator before the salt.', tone: 'fixed' },
+          {
+            label: 'salt',
+            value: salt ? (salt.length ? toHex(salt) : '(empty)') : '(malformed block)',
+            note: salt
+              ? `${salt.length} random bytes chosen by the signer, so signing the same message twice gives different signatures.`
+              : 'No 01 separator: this signature was not made by this key.',
+            tone: 'random'
+          }
+        ]}
+      />
+      {mPrime && expectedH && (
+        <EncodedBlock
+          title="Recomputing H"
+          fields={[
+            { label: 'mHash', value: toHex(messageHash), note: `${hash} of the message.`, tone: 'message' },
+            { label: "M'", value: toHex(mPrime), note: '00 × 8 ‖ mHash ‖ salt.', tone: 'hash' },
+            {
+              label: "Hash(M')",
+              value: toHex(expectedH),
+              note: valid ? 'Equals H: the signature is valid.' : 'Differs from H: the signature does not cover this message.',
+              tone: 'hash'
+            }
+          ]}
+        />
+      )}
+      <div className="flex gap-2 text-sm">
+        {reencodes ? (
+          <CheckCircle className="flex-shrink-0 text-green-600" size={18} />
+        ) : (
+          <XCircle className="flex-shrink-0 text-red-600" size={18} />
+        )}
+        <span>
+          {reencodes
+            ? 'Encoding the message again in TypeScript with the recovered salt reproduces EM byte for byte.'
+            : 'The recovered fields do not re-encode to EM.'}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default PssPaddingView;
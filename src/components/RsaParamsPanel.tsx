@@ -0,0 +1,113 @@
+import React from 'react';
+import {
+  HASH_BYTES,
+  HashAlgorithm,
+  RSA_MODULUS_LENGTHS,
+  RsaModulusLength,
+  RsaParams,
+  RsaUsage,
+  rsaOaepMaxPlaintextBytes,
+  rsaPssMaxSaltBytes,
+  validateRsaParams
+} from '../crypto';
+
+interface RsaParamsPanelProps {
+  usage: RsaUsage;
+  params: RsaParams;
+  onChange: (params: RsaParams) => void;
+}
+
+const MODULUS_NOTES: Record<RsaModulusLength, string> = {
+  1024: '1024 bits (insecure demo)',
+  2048: '2048 bits',
+  3072: '3072 bits',
+  4096: '4096 bits (slow to generate)'
+};
+
+const HASHES = Object.keys(HASH_BYTES) as HashAlgorithm[];
+
+const RsaParamsPanel: React.FC<RsaParamsPanelProps> = ({ usage, params, onChange }) => {
+  const update = (changes: Partial<RsaParams>) => onChange({ ...params, ...changes });
+  const invalid = validateRsaParams(usage, params);
+  const field = 'w-full p-2 border rounded-lg bg-white';
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+      <h4 className="text-sm font-medium text-gray-700">RSA Parameters for New Keys</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Modulus Size</label>
+          <select
+            className={field}
+            value={params.modulusLength}
+            onChange={(e) => update({ modulusLength: Number(e.target.value) as RsaModulusLength })}
+          >
+            {RSA_MODULUS_LENGTHS.map(length => (
+              <option key={length} value={length}>{MODULUS_NOTES[length]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Hash Function</label>
+          <select className={field} value={params.hash} onChange={(e) => update({ hash: e.target.value as HashAlgorithm })}>
+            {HASHES.map(hash => (
+              <option key={hash} value={hash}>{hash}</option>
+            ))}
+          </select>
+        </div>
+        {usage === 'signing' ? (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              PSS Salt Length (bytes, at most {rsaPssMaxSaltBytes(params.modulusLength, HASH_BYTES[params.hash])})
+            </label>
+            <input
+              type="number"
+              min={0}
+              className={field}
+              value={params.saltLength}
+              onChange={(e) => update({ saltLength: Number(e.target.value) })}
+            />
+          </div>
+        ) : (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">OAEP Label (optional)</label>
+            <input
+              type="text"
+              className={field}
+              value={params.label}
+              onChange={(e) => update({ label: e.target.value })}
+              placeholder="e.g. invoices-2024"
+            />
+          </div>
+        )}
+      </div>
+
+      {params.modulusLength === 1024 && (
+        <p className="text-sm text-red-700">
+          1024-bit RSA has been within reach of well-funded attackers for years and is no longer
+          accepted anywhere. Use it only to see how fast small keys generate.
+        </p>
+      )}
+      {params.hash === 'SHA-1' && (
+        <p className="text-sm text-amber-700">
+          SHA-1 collisions are practical. It is still allowed inside OAEP and PSS, but new designs should
+          not use it.
+        </p>
+      )}
+      {usage === 'signing' ? (
+        <p className="text-xs text-gray-500">
+          The salt makes signatures randomised; a length of 0 gives deterministic signatures. It is
+          normally the hash length ({HASH_BYTES[params.hash]} bytes), and the verifier must use the same value.
+        </p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Direct encryption fits at most {Math.max(0, rsaOaepMaxPlaintextBytes(params.modulusLength, HASH_BYTES[params.hash]))} bytes.
+          The label is bound into every ciphertext: decrypting with a different label fails.
+        </p>
+      )}
+      {invalid && <p className="text-sm text-red-700">{invalid}</p>}
+    </div>
+  );
+};
+
+export default RsaParamsPanel;
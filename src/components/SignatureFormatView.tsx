@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+import { cmsDer, CMS_SIGNED_DATA_FIELDS, decodeJws, utf8Decode } from '../crypto';
+import Asn1Inspector from './Asn1Inspector';
+
+interface SignatureFormatViewProps {
+  // The formatted signature as shown on the signature card.
+  text: string;
+  format: 'jws' | 'cms';
+}
+
+/** Takes a JWS apart into its three segments, or shows a CMS message as its ASN.1 tree. */
+const SignatureFormatView: React.FC<SignatureFormatViewProps> = ({ text, format }) => {
+  const jws = useMemo(() => (format === 'jws' ? decodeJws(text) : null), [text, format]);
+  const der = useMemo(() => (format === 'cms' ? cmsDer(text) : null), [text, format]);
+
+  if (der) {
+    if (!der.ok) return <p className="text-sm text-red-700 mt-2">{der.error.message}</p>;
+    return (
+      <div className="mt-2">
+        <p className="text-xs text-gray-600">
+          A ContentInfo wrapping SignedData: the message as eContent, and one SignerInfo naming the key by its
+          fingerprint, the algorithms, and the signature over the message. Real CMS usually signs a set of
+          attributes instead and carries the signer's certificate.
+        </p>
+        <Asn1Inspector der={der.value} fields={CMS_SIGNED_DATA_FIELDS} />
+      </div>
+    );
+  }
+
+  if (!jws) return null;
+  if (!jws.ok) return <p className="text-sm text-red-700 mt-2">{jws.error.message}</p>;
+  const [headerSegment, payloadSegment, signatureSegment] = text.trim().split('.');
+  return (
+    <div className="mt-2 text-xs space-y-2">
+      <p className="font-mono break-all bg-white p-2 rounded border">
+        <span className="text-purple-700">{headerSegment}</span>.<span className="text-green-700">{payloadSegment}</span>.
+        <span className="text-amber-700">{signatureSegment}</span>
+      </p>
+      <p>
+        <span className="font-semibold text-purple-700">Header</span>{' '}
+        <span className="font-mono">{JSON.stringify(jws.value.header)}</span>
+      </p>
+      <p>
+        <span className="font-semibold text-green-700">Payload</span>{' '}
+        <span className="font-mono break-all">{jws.value.detached ? '(detached)' : utf8Decode(jws.value.payload)}</span>
+      </p>
+      <p>
+        <span className="font-semibold text-amber-700">Signature</span> {jws.value.signature.length} bytes over the
+        ASCII of header.payload, so changing the header's alg breaks it as surely as changing the payload.
+      </p>
+    </div>
+  );
+};
+
+export default SignatureFormatView;
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { Asn1Field, ecdsaSignatureToDer, parseBase64, SignatureScheme, toHex } from '../crypto';
+import Asn1Inspector from './Asn1Inspector';
+import PssPaddingView from './PssPaddingView';
+
+interface SignatureStructureProps {
+  // Base64, as shown on the signature card.
+  signature: string;
+  scheme: SignatureScheme;
+  // The signed message and the public key, for opening RSA-PSS signatures.
+  message: string;
+  publicKey: string;
+}
+
+const ECDSA_FIELDS: Record<string, Asn1Field> = {
+  '': { name: 'Ecdsa-Sig-Value' },
+  '0': { name: 'r', highlight: true },
+  '1': { name: 's', highlight: true }
+};
+
+// Only ECDSA has an ASN.1 form; RSA-PSS and Ed25519 signatures are fixed-size byte strings.
+const SignatureStructure: React.FC<SignatureStructureProps> = ({ signature, scheme, message, publicKey }) => {
+  const bytes = useMemo(() => parseBase64(signature, 'Signature'), [signature]);
+  if (!bytes.ok) return <p className="text-sm text-red-700 mt-2">{bytes.error.message}</p>;
+  const half = bytes.value.length / 2;
+
+  switch (scheme.name) {
+    case 'ECDSA':
+      return (
+        <div className="mt-2">
+          <p className="text-xs text-gray-600">
+            WebCrypto returns r ‖ s as two {half}-byte integers (IEEE P1363). X.509, CMS and OpenSSL
+            carry the same two values as a DER SEQUENCE, shown here:
+          </p>
+          <Asn1Inspector der={ecdsaSignatureToDer(bytes.value)} fields={ECDSA_FIELDS} />
+        </div>
+      );
+    case 'Ed25519':
+      return (
+        <div className="mt-2 text-xs text-gray-600 space-y-1">
+          <p>An Ed25519 signature is not ASN.1: it is the 32-byte point R followed by the 32-byte scalar S.</p>
+          <p className="font-mono break-all">
+            <span className="font-semibold text-amber-800">R</span> {toHex(bytes.value.subarray(0, half))}
+          </p>
+          <p className="font-mono break-all">
+            <span className="font-semibold text-amber-800">S</span> {toHex(bytes.value.subarray(half))}
+          </p>
+        </div>
+      );
+    case 'RSA-PSS':
+      return (
+        <div className="mt-2">
+          <p className="text-xs text-gray-600">
+            An RSA-PSS signature is not ASN.1: it is the single integer s = EM<sup>d</sup> mod n, written
+            as {bytes.value.length} big-endian bytes, the size of the modulus. Only the key around it is DER.
+          </p>
+          <PssPaddingView publicKey={publicKey} message={message} signature={bytes.value} hash={scheme.params.hash} />
+        </div>
+      );
+  }
+};
+
+export default SignatureStructure;
@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { Dices, Wand2 } from 'lucide-react';
+import {
+  ALPHABET,
+  applyMapping,
+  frequencyMapping,
+  inverseSubstitutionKey,
+  letterCounts,
+  parseSubstitutionKey,
+  randomSubstitutionKey,
+  substitute
+} from '../crypto';
+import FrequencyChart from './FrequencyChart';
+
+interface SubstitutionCipherProps {
+  sample: string;
+}
+
+const emptyMapping = (): (number | null)[] => new Array(26).fill(null);
+
+/** A monoalphabetic substitution cipher, solved by hand from a frequency-based first guess. */
+const SubstitutionCipher: React.FC<SubstitutionCipherProps> = ({ sample }) => {
+  const [text, setText] = useState(sample);
+  const [keyText, setKeyText] = useState(randomSubstitutionKey);
+  // The attacker's guess: mapping[cipher letter] = plaintext letter.
+  const [mapping, setMapping] = useState<(number | null)[]>(emptyMapping);
+
+  const key = parseSubstitutionKey(keyText);
+  const ciphertext = key.ok ? substitute(text, key.value) : '';
+  const counts = useMemo(() => letterCounts(ciphertext), [ciphertext]);
+  const cipherLetters = ALPHABET.split('')
+    .map((_, index) => index)
+    .filter(index => counts[index] > 0)
+    .sort((a, b) => counts[b] - counts[a]);
+  const truth = key.ok ? inverseSubstitutionKey(key.value) : null;
+  const correct = truth ? cipherLetters.filter(index => mapping[index] === truth[index]).length : 0;
+
+  const setLetter = (cipherIndex: number, plainLetter: string) => {
+    const next = [...mapping];
+    const plainIndex = ALPHABET.indexOf(plainLetter);
+    // Each plaintext letter can only come from one ciphertext letter.
+    if (plainIndex >= 0) next.forEach((value, i) => value === plainIndex && (next[i] = null));
+    next[cipherIndex] = plainIndex >= 0 ? plainIndex : null;
+    setMapping(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">Encrypt</h4>
+        <p className="text-sm text-gray-600">
+          The key is a shuffled alphabet: A becomes its first letter, B its second, and so on. There are 26! ≈ 4 × 10
+          <sup>26</sup> keys, far too many to try, yet each plaintext letter always becomes the same ciphertext letter.
+        </p>
+        <textarea
+          className="w-full p-4 border rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+          rows={4}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <input
+            type="text"
+            className="flex-1 p-2 border rounded-lg text-sm font-mono"
+            value={keyText}
+            onChange={(e) => setKeyText(e.target.value)}
+          />
+          <button
+            onClick={() => {
+              setKeyText(randomSubstitutionKey());
+              setMapping(emptyMapping());
+            }}
+            className="bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50 flex items-center"
+          >
+            <Dices className="mr-1" size={14} />
+            Random Key
+          </button>
+        </div>
+        <p className="text-xs font-mono text-gray-500">plain {ALPHABET}</p>
+        {!key.ok && <p className="text-sm text-red-700">{key.error.message}</p>}
+        {ciphertext && <p className="text-sm font-mono break-all bg-white p-4 rounded border">{ciphertext}</p>}
+      </div>
+
+      {ciphertext && (
+        <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+          <h4 className="text-sm font-medium text-gray-700">Break it: frequency analysis</h4>
+          <p className="text-sm text-gray-600">
+            The most common ciphertext letter is probably E, the next T or A. Start from that guess, then fix it up
+            by reading: short words (THE, AND, OF), doubled letters and word endings give the rest away.
+          </p>
+          <FrequencyChart text={ciphertext} />
+          <div className="flex flex-wrap gap-2 items-center">
+            <button
+              onClick={() => setMapping(frequencyMapping(ciphertext))}
+              className="bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50 flex items-center"
+            >
+              <Wand2 className="mr-1" size={14} />
+              Guess From Frequencies
+            </button>
+            <button onClick={() => setMapping(emptyMapping())} className="text-sm text-amber-700 hover:text-amber-900">
+              Clear
+            </button>
+            <span className="text-sm text-gray-600 ml-auto">
+              {correct} of {cipherLetters.length} letters right
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {cipherLetters.map(index => {
+              const guess = mapping[index];
+              return (
+                <label key={index} className="flex flex-col items-center text-xs font-mono">
+                  <span className="text-gray-500">{ALPHABET[index]}</span>
+                  <input
+                    type="text"
+                    maxLength={1}
+                    className={`w-7 p-1 border rounded text-center uppercase ${
+                      guess !== null && truth && guess === truth[index] ? 'bg-green-50' : 'bg-white'
+                    }`}
+                    value={guess === null ? '' : ALPHABET[guess]}
+                    onChange={(e) => setLetter(index, e.target.value.toUpperCase())}
+                  />
+                </label>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500">Ciphertext letters, most common first, with your plaintext guess below each.</p>
+          <p className="text-sm font-mono break-all bg-white p-4 rounded border">{applyMapping(ciphertext, mapping)}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubstitutionCipher;
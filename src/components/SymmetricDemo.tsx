@@ -1,12 +1,54 @@
 import React, { useState } from 'react';
-import { Lock, Unlock, Copy, CheckCircle, Edit2, X, Check } from 'lucide-react';
+import { Lock, Unlock, Copy, CheckCircle } from 'lucide-react';
+import {
+  createKdfParams,
+  decodeSymmetricEnvelope,
+  decryptSymmetric,
+  deriveKey,
+  encodeSymmetricEnvelope,
+  encryptSymmetric,
+  encryptThenMac,
+  ETM_MODES,
+  fail,
+  fromHex,
+  generateSymmetricKey,
+  IV_BYTES,
+  KdfAlgorithm,
+  KeyringMaterial,
+  MAC_ALGORITHMS,
+  MacAlgorithm,
+  ok,
+  parseBase64,
+  Result,
+  SymmetricCiphertext,
+  SymmetricMode,
+  SYMMETRIC_MODES,
+  toBase64,
+  toHex,
+  utf8Decode,
+  utf8Encode
+} from '../crypto';
+import { EncryptionResult } from '../types';
+import CipherModeDetails from './CipherModeDetails';
+import EnvelopeHeader from './EnvelopeHeader';
+import HkdfExplorer from './HkdfExplorer';
+import KeyDerivationPanel, { KdfChoice } from './KeyDerivationPanel';
+import KeyringPicker from './KeyringPicker';
+import KeyScheduleBuilder, { ScheduledKeys } from './KeyScheduleBuilder';
+import NonceReuseLab from './NonceReuseLab';
+import PaddingOracleLab from './PaddingOracleLab';
+import TamperLab from './TamperLab';
 
-interface EncryptionResult {
-  encrypted: string;
-  decrypted?: string;
-  key?: string;
-  iv?: string;
-}
+const MODE_DESCRIPTIONS: Record<SymmetricMode, string> = {
+  'AES-GCM': 'Authenticated encryption, 96-bit random IV, 128-bit tag',
+  'AES-CBC': 'Block chaining, 128-bit random IV, PKCS#7 padding, no integrity',
+  'AES-CTR': 'Stream mode, 64-bit nonce + 64-bit counter, no integrity',
+  'AES-KW': 'Key wrapping (RFC 3394), no IV, wraps 128/192/256-bit keys'
+};
+
+type Section = 'encrypt' | 'key-schedule' | 'padding-oracle';
+
+const acceptsSecretKey = (material: KeyringMaterial) => material.type === 'secret';
 
 interface SymmetricDemoProps {
   savedKey: string | null;
@@ -20,108 +62,154 @@ const SymmetricDemo: React.FC<SymmetricDemoProps> = ({ savedKey, result, onState
   const [decryptInput, setDecryptInput] = useState({ message: '', key: '', customKey: '' });
   const [customKey, setCustomKey] = useState(savedKey || '');
   const [useCustomKeyForDecryption, setUseCustomKeyForDecryption] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [kdfChoice, setKdfChoice] = useState<KdfChoice>({ algorithm: 'pbkdf2-sha256', settings: {} });
+  const [kdfTimings, setKdfTimings] = useState<Partial<Record<KdfAlgorithm, number>>>({});
+  const [mode, setMode] = useState<SymmetricMode>(result?.mode ?? 'AES-GCM');
+  // A raw key loaded from the keyring; it replaces both the passphrase and the random key.
+  const [keyringKey, setKeyringKey] = useState<{ name: string; key: string } | null>(null);
+  // Hex IV for the deliberately unsafe nonce-reuse mode; null draws a fresh IV every time.
+  const [fixedIvHex, setFixedIvHex] = useState<string | null>(null);
+  // HMAC added to AES-CBC and AES-CTR by encrypt-then-MAC; null leaves them unauthenticated.
+  const [macAlgorithm, setMacAlgorithm] = useState<MacAlgorithm | null>(null);
+  // Keys and IV from the HKDF key schedule; they replace every other key source until cleared.
+  const [scheduleKeys, setScheduleKeys] = useState<(ScheduledKeys & { used: boolean }) | null>(null);
+  const [section, setSection] = useState<Section>('encrypt');
+  const [recentEnvelopes, setRecentEnvelopes] = useState<string[]>([]);
+  const [lastEncryption, setLastEncryption] = useState<{
+    plaintext: Uint8Array;
+    encrypted: SymmetricCiphertext;
+    macKey?: Uint8Array;
+  } | null>(null);
 
-  const handleEncryption = async () => {
+  // AES-KW wraps keys rather than text, so its input and output are hex key material.
+  const encodePlaintext = (text: string): Result<Uint8Array> => {
+    if (mode !== 'AES-KW') return ok(utf8Encode(text));
     try {
-      let key;
-      if (customKey) {
-        // Use custom key if provided
-        const encoder = new TextEncoder();
-        const keyData = encoder.encode(customKey);
-        // Hash the custom key to ensure it's always 256 bits
-        const hash = await crypto.subtle.digest('SHA-256', keyData);
-        key = await crypto.subtle.importKey(
-          'raw',
-          hash,
-          'AES-GCM',
-          true,
-          ['encrypt', 'decrypt']
-        );
-      } else {
-        // Generate a new random key if no custom key
-        key = await crypto.subtle.generateKey(
-          {
-            name: 'AES-GCM',
-            length: 256
-          },
-          true,
-          ['encrypt', 'decrypt']
-        );
-      }
-
-      const iv = crypto.getRandomValues(new Uint8Array(12));
-      const encoder = new TextEncoder();
-      const messageBuffer = encoder.encode(message);
-
-      const encryptedBuffer = await crypto.subtle.encrypt(
-        {
-          name: 'AES-GCM',
-          iv: iv,
-          tagLength: 128
-        },
-        key,
-        messageBuffer
-      );
-
-      const exportedKey = await crypto.subtle.exportKey('raw', key);
-      
-      const encryptedBase64 = btoa(String.fromCharCode(...new Uint8Array(encryptedBuffer)));
-      const keyBase64 = btoa(String.fromCharCode(...new Uint8Array(exportedKey)));
-      const ivBase64 = btoa(String.fromCharCode(...iv));
-
-      onStateChange(customKey || keyBase64, {
-        encrypted: `${encryptedBase64}.${ivBase64}`,
-        key: keyBase64
-      });
+      return ok(fromHex(text));
     } catch (error) {
-      console.error('Encryption failed:', error);
+      return fail('invalid-input', 'AES-KW expects the key to wrap as hex.', error);
     }
   };
 
-  const handleDecryption = async (encryptedBase64: string, keyBase64: string, customKeyForDecryption: string) => {
-    try {
-      const [ciphertext, ivBase64] = encryptedBase64.split('.');
-      
-      let keyBytes;
-      if (useCustomKeyForDecryption) {
-        // If using custom key for decryption, hash it first
-        const encoder = new TextEncoder();
-        const keyData = encoder.encode(customKeyForDecryption);
-        keyBytes = new Uint8Array(await crypto.subtle.digest('SHA-256', keyData));
-      } else {
-        // Otherwise use the provided key directly
-        keyBytes = Uint8Array.from(atob(keyBase64), c => c.charCodeAt(0));
+  const handleEncryption = async () => {
+    let keyBytes = generateSymmetricKey();
+    let kdf;
+    if (scheduleKeys) {
+      if (scheduleKeys.used) {
+        setError('This key schedule has already encrypted a message under its IV. Derive a new one with a fresh salt.');
+        return;
+      }
+      keyBytes = scheduleKeys.encryption;
+    } else if (keyringKey) {
+      const parsedKey = parseBase64(keyringKey.key, 'Keyring key');
+      if (!parsedKey.ok) {
+        setError(parsedKey.error.message);
+        return;
+      }
+      keyBytes = parsedKey.value;
+    } else if (customKey) {
+      kdf = createKdfParams(kdfChoice.algorithm, kdfChoice.settings);
+      const derived = await deriveKey(customKey, kdf);
+      if (!derived.ok) {
+        setError(derived.error.message);
+        return;
+      }
+      keyBytes = derived.value.key;
+      setKdfTimings(prev => ({ ...prev, [kdfChoice.algorithm]: derived.value.elapsedMs }));
+    } else if (fixedIvHex !== null && result?.key) {
+      // Reusing an IV only matters under the same key, so the unsafe mode keeps the random key too.
+      const previousKey = parseBase64(result.key, 'Previous key');
+      if (!previousKey.ok) {
+        setError(previousKey.error.message);
+        return;
+      }
+      keyBytes = previousKey.value;
+    }
+
+    let fixedIv;
+    if (scheduleKeys && mode !== 'AES-KW') {
+      if (scheduleKeys.iv.length !== IV_BYTES[mode]) {
+        setError(`The key schedule's IV is ${scheduleKeys.iv.length} bytes; ${mode} needs ${IV_BYTES[mode]}. Change its length and derive again.`);
+        return;
       }
+      fixedIv = scheduleKeys.iv;
+    } else if (fixedIvHex !== null && mode !== 'AES-KW') {
+      try {
+        fixedIv = fromHex(fixedIvHex);
+      } catch {
+        setError('The fixed IV must be hex.');
+        return;
+      }
+    }
 
-      const encryptedBytes = Uint8Array.from(atob(ciphertext), c => c.charCodeAt(0));
-      const iv = Uint8Array.from(atob(ivBase64), c => c.charCodeAt(0));
-
-      const key = await crypto.subtle.importKey(
-        'raw',
-        keyBytes,
-        { name: 'AES-GCM' },
-        false,
-        ['decrypt']
-      );
-
-      const decryptedBuffer = await crypto.subtle.decrypt(
-        {
-          name: 'AES-GCM',
-          iv: iv,
-          tagLength: 128
-        },
-        key,
-        encryptedBytes
-      );
-
-      const decoder = new TextDecoder();
-      return decoder.decode(decryptedBuffer);
-    } catch (error) {
-      console.error('Decryption failed:', error);
-      return 'Decryption failed. Please check your key and encrypted message.';
+    const plaintext = encodePlaintext(message);
+    if (!plaintext.ok) {
+      setError(plaintext.error.message);
+      return;
+    }
+
+    const encrypted =
+      macAlgorithm && ETM_MODES.includes(mode)
+        ? await encryptThenMac(
+            plaintext.value,
+            scheduleKeys ? { encryption: keyBytes, mac: scheduleKeys.mac } : keyBytes,
+            mode,
+            macAlgorithm,
+            fixedIv
+          )
+        : await encryptSymmetric(plaintext.value, keyBytes, mode, fixedIv);
+    if (!encrypted.ok) {
+      setError(encrypted.error.message);
+      return;
     }
+
+    setError(null);
+    if (scheduleKeys) setScheduleKeys({ ...scheduleKeys, used: true });
+    setLastEncryption({ plaintext: plaintext.value, encrypted: encrypted.value, macKey: scheduleKeys?.mac });
+    const keyBase64 = toBase64(keyBytes);
+    const envelope = encodeSymmetricEnvelope({ ...encrypted.value, kdf });
+    setRecentEnvelopes(prev => [...prev.slice(-1), envelope]);
+    onStateChange(keyringKey || scheduleKeys ? keyBase64 : customKey || keyBase64, {
+      encrypted: envelope,
+      key: keyBase64,
+      mode
+    });
+  };
+
+  const handleDecryption = async (
+    encryptedText: string,
+    keyBase64: string,
+    customKeyForDecryption: string
+  ): Promise<Result<string>> => {
+    const payload = decodeSymmetricEnvelope(encryptedText);
+    if (!payload.ok) return payload;
+
+    let keyBytes;
+    if (useCustomKeyForDecryption) {
+      // Messages without KDF parameters predate salted derivation and used a bare SHA-256.
+      const derived = await deriveKey(customKeyForDecryption, payload.value.kdf ?? { algorithm: 'sha256' });
+      if (!derived.ok) return derived;
+      keyBytes = derived.value.key;
+    } else {
+      const parsedKey = parseBase64(keyBase64, 'Decryption key');
+      if (!parsedKey.ok) return parsedKey;
+      keyBytes = parsedKey.value;
+    }
+
+    // Under a key schedule the MAC key is not derived from the AES key, so it is passed alongside.
+    const decrypted = await decryptSymmetric(
+      payload.value,
+      scheduleKeys && !useCustomKeyForDecryption ? { encryption: keyBytes, mac: scheduleKeys.mac } : keyBytes
+    );
+    if (!decrypted.ok) return decrypted;
+    // The mode comes from the message itself, not from the encryption selector.
+    return ok(payload.value.mode === 'AES-KW' ? toHex(decrypted.value) : utf8Decode(decrypted.value));
   };
 
+  // The raw key in use, offered for saving; a passphrase is not a key and is never stored.
+  const currentKey = keyringKey?.key ?? (!customKey ? result?.key : undefined);
+
   const copyToClipboard = async (text: string) => {
     await navigator.clipboard.writeText(text);
     setCopied(true);
@@ -138,167 +226,386 @@ const SymmetricDemo: React.FC<SymmetricDemoProps> = ({ savedKey, result, onState
         <div className="mb-8">
           <h3 className="text-xl font-semibold mb-4 text-gray-800">About</h3>
           <p className="text-gray-600">
-            This implementation uses AES-GCM with a 256-bit key and 96-bit IV. You can either 
-            provide your own encryption key or let the system generate a random one.
+            This implementation uses AES with a 256-bit key in your choice of mode: AES-GCM (the
+            default, with a 96-bit IV), AES-CBC, AES-CTR or AES-KW for wrapping other keys. You can
+            either provide your own encryption key or let the system generate a random one. The mode
+            is recorded in the encrypted message, so decryption picks the right algorithm
+            automatically.
+          </p>
+          <p className="text-gray-600 mt-2">
+            A custom key is a passphrase, not a key: it is stretched into 256 bits with a key
+            derivation function and a random salt, both recorded in the encrypted message. Slow,
+            memory-hard functions make every guess expensive for an attacker.
           </p>
         </div>
 
-        <div className="space-y-6">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Custom Encryption Key (Optional)
-            </label>
-            <div className="flex gap-2">
-              <input
-                type="text"
-                className="flex-1 p-4 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                value={customKey}
-                onChange={(e) => {
-                  const newKey = e.target.value;
-                  setCustomKey(newKey);
-                  onStateChange(newKey, result);
-                }}
-                placeholder="Enter a custom key or leave empty for random key"
-              />
-            </div>
-          </div>
+        <div className="grid grid-cols-3 gap-2 mb-6">
+          {([
+            ['encrypt', 'Encryption (AES)'],
+            ['key-schedule', 'Key Schedule (HKDF)'],
+            ['padding-oracle', 'Padding Oracle Attack']
+          ] as [Section, string][]).map(([option, title]) => (
+            <button
+              key={option}
+              onClick={() => setSection(option)}
+              className={`p-3 rounded-lg border font-semibold transition-colors
+                ${section === option ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-indigo-50'}`}
+            >
+              {title}
+            </button>
+          ))}
+        </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Message to Encrypt
-            </label>
-            <textarea
-              className="w-full p-4 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-              rows={4}
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              placeholder="Enter your message..."
+        {section === 'padding-oracle' ? (
+          <PaddingOracleLab />
+        ) : section === 'key-schedule' ? (
+          <div className="space-y-6">
+            <HkdfExplorer />
+            <KeyScheduleBuilder
+              ivLength={IV_BYTES[mode]}
+              onUse={(keys) => {
+                setScheduleKeys({ ...keys, used: false });
+                setKeyringKey(null);
+                setDecryptInput(prev => ({ ...prev, key: toBase64(keys.encryption) }));
+                setUseCustomKeyForDecryption(false);
+                setSection('encrypt');
+              }}
             />
           </div>
+        ) : (
+          <div className="space-y-6">
+            <KeyringPicker
+              accepts={acceptsSecretKey}
+              current={currentKey ? { type: 'secret', key: currentKey } : null}
+              onSelect={(entry) => {
+                if (entry.type !== 'secret') return;
+                setScheduleKeys(null);
+                setKeyringKey({ name: entry.name, key: entry.key });
+                setDecryptInput(prev => ({ ...prev, key: entry.key }));
+                setUseCustomKeyForDecryption(false);
+              }}
+              accent="indigo"
+            />
+
+            {scheduleKeys ? (
+              <div className="flex justify-between items-center p-4 bg-indigo-50 rounded-lg">
+                <p className="text-sm text-indigo-800">
+                  Encrypting with the key schedule's encryption key
+                  {mode !== 'AES-KW' && ', its IV'}
+                  {macAlgorithm && ETM_MODES.includes(mode) && ' and its MAC key'}.{' '}
+                  {scheduleKeys.used
+                    ? 'Its IV has been used, so derive a new schedule for the next message.'
+                    : 'The IV is fixed, so the schedule encrypts one message.'}
+                </p>
+                <button onClick={() => setScheduleKeys(null)} className="text-sm text-indigo-600 hover:text-indigo-800">
+                  Use a passphrase or random key
+                </button>
+              </div>
+            ) : keyringKey ? (
+              <div className="flex justify-between items-center p-4 bg-indigo-50 rounded-lg">
+                <p className="text-sm text-indigo-800">
+                  Encrypting with the 256-bit keyring key "{keyringKey.name}"; no passphrase is derived.
+                </p>
+                <button onClick={() => setKeyringKey(null)} className="text-sm text-indigo-600 hover:text-indigo-800">
+                  Use a passphrase or random key
+                </button>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Custom Encryption Key (Optional)
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    className="flex-1 p-4 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    value={customKey}
+                    onChange={(e) => {
+                      const newKey = e.target.value;
+                      setCustomKey(newKey);
+                      onStateChange(newKey, result);
+                    }}
+                    placeholder="Enter a custom key or leave empty for random key"
+                  />
+                </div>
+              </div>
+            )}
 
-          <button
-            onClick={handleEncryption}
-            className="w-full bg-indigo-600 text-white py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors flex items-center justify-center"
-          >
-            <Lock className="mr-2" size={20} />
-            Encrypt Message
-          </button>
-
-          {result && (
-            <div className="space-y-6 mt-8">
-              <div className="bg-gray-50 p-6 rounded-lg">
-                <div className="flex justify-between items-center mb-2">
-                  <span className="text-sm font-medium text-gray-700">Encrypted Message:</span>
+            {customKey && !keyringKey && !scheduleKeys && (
+              <KeyDerivationPanel choice={kdfChoice} onChange={setKdfChoice} timings={kdfTimings} />
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Cipher Mode
+              </label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {SYMMETRIC_MODES.map(option => (
                   <button
-                    onClick={() => copyToClipboard(result.encrypted)}
-                    className="text-indigo-600 hover:text-indigo-800"
+                    key={option}
+                    onClick={() => {
+                      setMode(option);
+                      if (fixedIvHex !== null) setFixedIvHex('00'.repeat(IV_BYTES[option]));
+                    }}
+                    className={`p-3 rounded-lg border text-left transition-colors
+                      ${mode === option ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-indigo-50'}`}
                   >
-                    {copied ? <CheckCircle size={16} /> : <Copy size={16} />}
+                    <span className="block font-semibold">{option}</span>
+                    <span className={`block text-xs ${mode === option ? 'text-indigo-100' : 'text-gray-500'}`}>
+                      {MODE_DESCRIPTIONS[option]}
+                    </span>
                   </button>
-                </div>
-                <p className="text-sm font-mono break-all bg-white p-4 rounded border">
-                  {result.encrypted}
-                </p>
+                ))}
               </div>
+            </div>
+
+            {ETM_MODES.includes(mode) && (
+              <div className="p-4 rounded-lg bg-gray-50">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 mr-2 border-gray-300 rounded"
+                    checked={macAlgorithm !== null}
+                    onChange={(e) => setMacAlgorithm(e.target.checked ? 'HS256' : null)}
+                  />
+                  Encrypt-then-MAC: add an HMAC tag over the IV and ciphertext
+                </label>
+                {macAlgorithm !== null && (
+                  <>
+                    <div className="flex gap-2 mt-2">
+                      {MAC_ALGORITHMS.map(option => (
+                        <button
+                          key={option}
+                          onClick={() => setMacAlgorithm(option)}
+                          className={`px-3 py-1 rounded-lg border text-sm transition-colors
+                            ${macAlgorithm === option ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-indigo-50'}`}
+                        >
+                          {option}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-600 mt-2">
+                      {scheduleKeys
+                        ? 'The HMAC key comes from the key schedule.'
+                        : 'Separate encryption and HMAC keys are derived from the AES key with HKDF.'}{' '}
+                      Decryption checks
+                      the tag first and refuses to decrypt anything modified, which also closes the padding oracle.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {mode !== 'AES-KW' && !scheduleKeys && (
+              <div className={`p-4 rounded-lg ${fixedIvHex !== null ? 'bg-red-50' : 'bg-gray-50'}`}>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 mr-2 border-gray-300 rounded"
+                    checked={fixedIvHex !== null}
+                    onChange={(e) => setFixedIvHex(e.target.checked ? '00'.repeat(IV_BYTES[mode]) : null)}
+                  />
+                  Unsafe: reuse a fixed IV, and keep the same random key
+                </label>
+                {fixedIvHex !== null && (
+                  <>
+                    <input
+                      type="text"
+                      className="w-full p-2 border rounded-lg text-sm font-mono mt-2"
+                      value={fixedIvHex}
+                      onChange={(e) => setFixedIvHex(e.target.value)}
+                      placeholder={`${IV_BYTES[mode]}-byte IV as hex`}
+                    />
+                    <p className="text-xs text-red-700 mt-2">
+                      Every message now uses the same key and IV, which real code must never do. A passphrase
+                      is salted afresh for every message, so use the random key or a keyring key.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {mode === 'AES-KW' ? 'Key to Wrap (hex)' : 'Message to Encrypt'}
+                </label>
+                {mode === 'AES-KW' && (
+                  <button
+                    onClick={() => setMessage(toHex(generateSymmetricKey()))}
+                    className="text-sm text-indigo-600 hover:text-indigo-800"
+                  >
+                    Generate random 256-bit key
+                  </button>
+                )}
+              </div>
+              <textarea
+                className="w-full p-4 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                rows={4}
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder={mode === 'AES-KW' ? 'Enter 16, 24 or 32 bytes of key material as hex...' : 'Enter your message...'}
+              />
+            </div>
+
+            <button
+              onClick={handleEncryption}
+              className="w-full bg-indigo-600 text-white py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors flex items-center justify-center"
+            >
+              <Lock className="mr-2" size={20} />
+              Encrypt Message
+            </button>
+
+            {error && (
+              <div className="p-4 bg-red-50 rounded-lg">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            {result && (
+              <div className="space-y-6 mt-8">
+                {lastEncryption && (
+                  <CipherModeDetails plaintext={lastEncryption.plaintext} encrypted={lastEncryption.encrypted} />
+                )}
+
+                {lastEncryption && result.key && (
+                  <TamperLab
+                    key={result.encrypted}
+                    plaintext={lastEncryption.plaintext}
+                    encrypted={lastEncryption.encrypted}
+                    keyBase64={result.key}
+                    macKey={lastEncryption.macKey}
+                  />
+                )}
 
-              {!customKey && result.key && (
                 <div className="bg-gray-50 p-6 rounded-lg">
                   <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm font-medium text-gray-700">Encryption Key:</span>
+                    <span className="text-sm font-medium text-gray-700">Encrypted Message:</span>
                     <button
-                      onClick={() => copyToClipboard(result.key || '')}
+                      onClick={() => copyToClipboard(result.encrypted)}
                       className="text-indigo-600 hover:text-indigo-800"
                     >
                       {copied ? <CheckCircle size={16} /> : <Copy size={16} />}
                     </button>
                   </div>
                   <p className="text-sm font-mono break-all bg-white p-4 rounded border">
-                    {result.key}
+                    {result.encrypted}
                   </p>
+                  <EnvelopeHeader envelope={result.encrypted} />
                 </div>
-              )}
-
-              <div className="border-t pt-6">
-                <h3 className="text-xl font-semibold mb-4">Decrypt a Message</h3>
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Encrypted Message (with IV)
-                    </label>
-                    <textarea
-                      className="w-full p-4 border rounded-lg"
-                      placeholder="Enter encrypted message with IV (format: encrypted.iv)"
-                      value={decryptInput.message}
-                      onChange={(e) => setDecryptInput(prev => ({ ...prev, message: e.target.value }))}
-                    />
-                  </div>
 
-                  <div className="flex items-center">
-                    <input
-                      type="checkbox"
-                      id="useCustomKey"
-                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                      checked={useCustomKeyForDecryption}
-                      onChange={(e) => setUseCustomKeyForDecryption(e.target.checked)}
-                    />
-                    <label htmlFor="useCustomKey" className="ml-2 block text-sm text-gray-900">
-                      Use custom key for decryption
-                    </label>
+                {(keyringKey || scheduleKeys || !customKey) && result.key && (
+                  <div className="bg-gray-50 p-6 rounded-lg">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-medium text-gray-700">Encryption Key:</span>
+                      <button
+                        onClick={() => copyToClipboard(result.key || '')}
+                        className="text-indigo-600 hover:text-indigo-800"
+                      >
+                        {copied ? <CheckCircle size={16} /> : <Copy size={16} />}
+                      </button>
+                    </div>
+                    <p className="text-sm font-mono break-all bg-white p-4 rounded border">
+                      {result.key}
+                    </p>
                   </div>
+                )}
 
-                  {useCustomKeyForDecryption ? (
+                <div className="border-t pt-6">
+                  <h3 className="text-xl font-semibold mb-4">Decrypt a Message</h3>
+                  <div className="space-y-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Custom Decryption Key
+                        Encrypted Message
                       </label>
-                      <input
-                        type="text"
+                      <textarea
                         className="w-full p-4 border rounded-lg"
-                        placeholder="Enter custom decryption key"
-                        value={decryptInput.customKey}
-                        onChange={(e) => setDecryptInput(prev => ({ ...prev, customKey: e.target.value }))}
+                        placeholder="Paste a ciphertext envelope (legacy encrypted.iv messages are also accepted)"
+                        value={decryptInput.message}
+                        onChange={(e) => setDecryptInput(prev => ({ ...prev, message: e.target.value }))}
                       />
                     </div>
-                  ) : (
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Decryption Key
-                      </label>
+
+                    <div className="flex items-center">
                       <input
-                        type="text"
-                        className="w-full p-4 border rounded-lg"
-                        placeholder="Enter key"
-                        value={decryptInput.key}
-                        onChange={(e) => setDecryptInput(prev => ({ ...prev, key: e.target.value }))}
+                        type="checkbox"
+                        id="useCustomKey"
+                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                        checked={useCustomKeyForDecryption}
+                        onChange={(e) => setUseCustomKeyForDecryption(e.target.checked)}
                       />
+                      <label htmlFor="useCustomKey" className="ml-2 block text-sm text-gray-900">
+                        Use custom key for decryption
+                      </label>
                     </div>
-                  )}
 
-                  <button
-                    onClick={async () => {
-                      const decrypted = await handleDecryption(
-                        decryptInput.message,
-                        decryptInput.key,
-                        decryptInput.customKey
-                      );
-                      onStateChange(customKey || savedKey, { ...result!, decrypted });
-                    }}
-                    className="w-full bg-indigo-600 text-white py-3 px-4 rounded-lg hover:bg-indigo-700"
-                  >
-                    <Unlock className="inline mr-2" size={16} />
-                    Decrypt Message
-                  </button>
-                </div>
-                {result.decrypted && (
-                  <div className="mt-4 p-4 bg-green-50 rounded-lg">
-                    <h4 className="text-sm font-medium text-green-800 mb-2">Decrypted Message:</h4>
-                    <p className="text-green-700">{result.decrypted}</p>
+                    {useCustomKeyForDecryption ? (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Custom Decryption Key
+                        </label>
+                        <input
+                          type="text"
+                          className="w-full p-4 border rounded-lg"
+                          placeholder="Enter custom decryption key"
+                          value={decryptInput.customKey}
+                          onChange={(e) => setDecryptInput(prev => ({ ...prev, customKey: e.target.value }))}
+                        />
+                      </div>
+                    ) : (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Decryption Key
+                        </label>
+                        <input
+                          type="text"
+                          className="w-full p-4 border rounded-lg"
+                          placeholder="Enter key"
+                          value={decryptInput.key}
+                          onChange={(e) => setDecryptInput(prev => ({ ...prev, key: e.target.value }))}
+                        />
+                      </div>
+                    )}
+
+                    <button
+                      onClick={async () => {
+                        const decrypted = await handleDecryption(
+                          decryptInput.message,
+                          decryptInput.key,
+                          decryptInput.customKey
+                        );
+                        onStateChange(
+                          customKey || savedKey,
+                          decrypted.ok
+                            ? { ...result!, decrypted: decrypted.value, error: undefined }
+                            : { ...result!, decrypted: undefined, error: decrypted.error.message }
+                        );
+                      }}
+                      className="w-full bg-indigo-600 text-white py-3 px-4 rounded-lg hover:bg-indigo-700"
+                    >
+                      <Unlock className="inline mr-2" size={16} />
+                      Decrypt Message
+                    </button>
                   </div>
-                )}
+                  {result.decrypted !== undefined && (
+                    <div className="mt-4 p-4 bg-green-50 rounded-lg">
+                      <h4 className="text-sm font-medium text-green-800 mb-2">Decrypted Message:</h4>
+                      <p className="text-green-700">{result.decrypted}</p>
+                    </div>
+                  )}
+                  {result.error && (
+                    <div className="mt-4 p-4 bg-red-50 rounded-lg">
+                      <h4 className="text-sm font-medium text-red-800 mb-2">Decryption Failed:</h4>
+                      <p className="text-red-700">{result.error}</p>
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
-          )}
-        </div>
+            )}
+
+            {fixedIvHex !== null && <NonceReuseLab recent={recentEnvelopes} />}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { CheckCircle, MinusCircle, RotateCcw, Unlock, Wand2, XCircle } from 'lucide-react';
+import {
+  CheckStatus,
+  DecryptionTrace,
+  encodeSymmetricEnvelope,
+  GCM_TAG_BYTES,
+  SymmetricCiphertext,
+  toHex,
+  traceSymmetricDecryption,
+  utf8Decode,
+  utf8Encode,
+  xorRewrite
+} from '../crypto';
+
+type Field = 'iv' | 'ciphertext' | 'tag';
+type Fields = Record<Field, Uint8Array>;
+
+const FIELD_LABELS: Record<Field, string> = {
+  iv: 'IV',
+  ciphertext: 'Ciphertext',
+  tag: 'GCM tag'
+};
+
+// GCM's tag is split off so it can be tampered with on its own; an HMAC tag already is.
+const splitFields = ({ mode, iv, ciphertext, mac }: SymmetricCiphertext): Fields =>
+  mode === 'AES-GCM'
+    ? {
+        iv,
+        ciphertext: ciphertext.subarray(0, ciphertext.length - GCM_TAG_BYTES),
+        tag: ciphertext.subarray(ciphertext.length - GCM_TAG_BYTES)
+      }
+    : { iv, ciphertext, tag: mac?.tag ?? new Uint8Array(0) };
+
+const joinFields = ({ mode, mac }: SymmetricCiphertext, { iv, ciphertext, tag }: Fields): string =>
+  mac
+    ? encodeSymmetricEnvelope({ mode, iv, ciphertext, mac: { algorithm: mac.algorithm, tag } })
+    : encodeSymmetricEnvelope({ mode, iv, ciphertext: new Uint8Array([...ciphertext, ...tag]) });
+
+const STATUS_ICONS: Record<CheckStatus, React.ReactNode> = {
+  passed: <CheckCircle className="flex-shrink-0 text-green-600" size={18} />,
+  failed: <XCircle className="flex-shrink-0 text-red-600" size={18} />,
+  absent: <MinusCircle className="flex-shrink-0 text-amber-600" size={18} />
+};
+
+const MODE_NOTES: Record<SymmetricCiphertext['mode'], string> = {
+  'AES-GCM': 'Any change to the IV, ciphertext or tag makes the tag check fail, and nothing is decrypted.',
+  'AES-CBC':
+    'A flipped ciphertext bit garbles its own block and flips the same bit in the next block; a flipped IV bit flips the same bit of the first block. Only the padding is checked, so most changes go unnoticed.',
+  'AES-CTR':
+    'Each flipped ciphertext bit flips exactly the same plaintext bit. Nothing is checked, so whoever knows the plaintext can rewrite it.',
+  'AES-KW': 'Any change breaks the integrity check value that unwrapping verifies.'
+};
+
+const ETM_NOTE = 'The HMAC tag covers the IV and ciphertext, so any change is rejected before decryption.';
+
+interface TamperLabProps {
+  plaintext: Uint8Array;
+  encrypted: SymmetricCiphertext;
+  keyBase64: string;
+  // The HMAC key when it was not derived from the AES key.
+  macKey?: Uint8Array;
+}
+
+/** Flips bits of a ciphertext, IV or tag in a hex grid and shows which decryption check notices. */
+const TamperLab: React.FC<TamperLabProps> = ({ plaintext, encrypted, keyBase64, macKey }) => {
+  const { mode } = encrypted;
+  const original = splitFields(encrypted);
+  const [fields, setFields] = useState<Fields>(original);
+  const [selected, setSelected] = useState<{ field: Field; index: number } | null>(null);
+  const [envelope, setEnvelope] = useState(() => joinFields(encrypted, original));
+  const [key, setKey] = useState(keyBase64);
+  const [known, setKnown] = useState(() => utf8Decode(plaintext));
+  const [wanted, setWanted] = useState('');
+  const [trace, setTrace] = useState<DecryptionTrace | null>(null);
+
+  const editableFields = (['iv', 'ciphertext', 'tag'] as Field[]).filter(field => original[field].length > 0);
+
+  const updateFields = (updated: Fields) => {
+    setFields(updated);
+    setEnvelope(joinFields(encrypted, updated));
+    setTrace(null);
+  };
+
+  const flipBit = (bit: number) => {
+    if (!selected) return;
+    const bytes = new Uint8Array(fields[selected.field]);
+    bytes[selected.index] ^= 1 << bit;
+    updateFields({ ...fields, [selected.field]: bytes });
+  };
+
+  // CBC decrypts the first block as D(C1) XOR IV, so that block is rewritten through the IV.
+  const rewriteField: Field = mode === 'AES-CBC' ? 'iv' : 'ciphertext';
+
+  const rewrite = () => {
+    updateFields({
+      ...fields,
+      [rewriteField]: xorRewrite(fields[rewriteField], 0, utf8Encode(known), utf8Encode(wanted))
+    });
+  };
+
+  const reset = () => {
+    updateFields(original);
+    setKey(keyBase64);
+    setSelected(null);
+  };
+
+  const decrypt = async () => setTrace(await traceSymmetricDecryption(envelope, key, macKey));
+
+  const selectedByte = selected ? fields[selected.field][selected.index] : null;
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-medium text-gray-700">Tamper with the message</h4>
+        <button onClick={reset} className="text-sm text-indigo-600 hover:text-indigo-800 flex items-center">
+          <RotateCcw className="mr-1" size={14} />
+          Reset
+        </button>
+      </div>
+      <p className="text-sm text-gray-600">
+        Click a byte, flip its bits, then decrypt. {encrypted.mac ? ETM_NOTE : MODE_NOTES[mode]}
+      </p>
+
+      {editableFields.map(field => (
+        <div key={field} className="flex gap-3 text-xs">
+          <span className="w-20 shrink-0 text-gray-500 pt-1">
+            {field === 'tag' && encrypted.mac ? `${encrypted.mac.algorithm} tag` : FIELD_LABELS[field]}
+          </span>
+          <div className="flex flex-wrap font-mono">
+            {Array.from(fields[field]).map((byte, index) => {
+              const changed = byte !== original[field][index];
+              const isSelected = selected?.field === field && selected.index === index;
+              return (
+                <button
+                  key={index}
+                  onClick={() => setSelected({ field, index })}
+                  className={`px-0.5 rounded ${changed ? 'bg-red-200' : 'hover:bg-indigo-100'} ${isSelected ? 'ring-2 ring-indigo-500' : ''}`}
+                >
+                  {byte.toString(16).padStart(2, '0')}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      {selected && selectedByte !== null && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-600">
+            {FIELD_LABELS[selected.field]} byte {selected.index}, bits 7 to 0:
+          </span>
+          {[7, 6, 5, 4, 3, 2, 1, 0].map(bit => (
+            <button
+              key={bit}
+              onClick={() => flipBit(bit)}
+              className="w-7 h-7 font-mono rounded border bg-white hover:bg-indigo-50"
+              title={`Flip bit ${bit}`}
+            >
+              {(selectedByte >> bit) & 1}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {mode !== 'AES-KW' && (
+        <div className="flex flex-wrap gap-2 items-center">
+          <input
+            type="text"
+            className="flex-1 min-w-[8rem] p-2 border rounded-lg text-sm"
+            value={known}
+            onChange={(e) => setKnown(e.target.value)}
+            placeholder="Plaintext the attacker knows"
+          />
+          <input
+            type="text"
+            className="flex-1 min-w-[8rem] p-2 border rounded-lg text-sm"
+            value={wanted}
+            onChange={(e) => setWanted(e.target.value)}
+            placeholder="Plaintext the attacker wants"
+          />
+          <button
+            onClick={rewrite}
+            disabled={!wanted}
+            className="bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50 flex items-center disabled:opacity-50"
+          >
+            <Wand2 className="mr-1" size={14} />
+            Rewrite Without the Key
+          </button>
+        </div>
+      )}
+      {mode === 'AES-CBC' && (
+        <p className="text-xs text-gray-500">In CBC only the first 16 bytes can be rewritten cleanly, through the IV.</p>
+      )}
+
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">
+          Envelope sent to the recipient (edit it to break the base64 or header)
+        </label>
+        <textarea
+          className="w-full p-2 border rounded-lg text-xs font-mono"
+          rows={3}
+          value={envelope}
+          onChange={(e) => {
+            setEnvelope(e.target.value);
+            setTrace(null);
+          }}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Key (base64)</label>
+        <input
+          type="text"
+          className="w-full p-2 border rounded-lg text-xs font-mono"
+          value={key}
+          onChange={(e) => {
+            setKey(e.target.value);
+            setTrace(null);
+          }}
+        />
+      </div>
+
+      <button
+        onClick={decrypt}
+        className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 flex items-center justify-center"
+      >
+        <Unlock className="mr-2" size={16} />
+        Decrypt the Tampered Message
+      </button>
+
+      {trace && (
+        <div className="space-y-2">
+          {trace.checks.map(check => (
+            <div key={check.name} className="flex gap-2 text-sm">
+              {STATUS_ICONS[check.status]}
+              <span>
+                <span className="font-medium">{check.name}:</span> {check.message}
+              </span>
+            </div>
+          ))}
+          {trace.plaintext && (
+            <div className={`p-3 rounded ${mode === 'AES-GCM' || mode === 'AES-KW' ? 'bg-green-50' : 'bg-amber-50'}`}>
+              <p className="text-sm text-gray-800 break-all">{mode === 'AES-KW' ? toHex(trace.plaintext) : utf8Decode(trace.plaintext)}</p>
+              <p className="text-xs font-mono break-all mt-2">
+                {Array.from(trace.plaintext).map((byte, index) => (
+                  <span key={index} className={`px-0.5 rounded ${byte !== plaintext[index] ? 'bg-red-200' : ''}`}>
+                    {byte.toString(16).padStart(2, '0')}
+                  </span>
+                ))}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">Bytes that differ from the original plaintext are highlighted.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TamperLab;
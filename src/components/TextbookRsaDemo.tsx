@@ -0,0 +1,343 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, Dices, XCircle } from 'lucide-react';
+import {
+  createTextbookKey,
+  generateTextbookKey,
+  ModPowStep,
+  ok,
+  parseInteger,
+  Result,
+  scaleCiphertext,
+  SmallExponentAttack,
+  smallExponentAttack,
+  TEXTBOOK_PRIME_BITS,
+  textbookDecrypt,
+  textbookEncrypt,
+  TextbookRsaKey
+} from '../crypto';
+
+const Value: React.FC<{ label: string; value: bigint | string }> = ({ label, value }) => (
+  <div className="flex gap-3 text-sm">
+    <span className="w-28 shrink-0 text-gray-500">{label}</span>
+    <span className="font-mono break-all">{value.toString()}</span>
+  </div>
+);
+
+const ModPowTable: React.FC<{ base: string; exponent: bigint; steps: ModPowStep[] }> = ({ base, exponent, steps }) => (
+  <details className="text-xs">
+    <summary className="cursor-pointer text-gray-600">
+      Square-and-multiply: {steps.length} bits of the exponent {exponent.toString()} (binary {exponent.toString(2)})
+    </summary>
+    <div className="max-h-64 overflow-y-auto bg-white rounded border mt-2">
+      <table className="w-full font-mono">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="p-1">bit</th>
+            <th className="p-1">square</th>
+            <th className="p-1">× {base}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {steps.map((step, index) => (
+            <tr key={index} className="border-t">
+              <td className="p-1">{step.bit}</td>
+              <td className="p-1 break-all">{step.squared.toString()}</td>
+              <td className="p-1 break-all">{step.multiplied?.toString() ?? '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </details>
+);
+
+const ErrorText: React.FC<{ result: Result<unknown> | null }> = ({ result }) =>
+  result && !result.ok ? <p className="text-sm text-red-700">{result.error.message}</p> : null;
+
+const BROADCAST_KEYS = 3;
+const BROADCAST_PRIME_BITS = 32;
+
+/** RSA without padding on small primes: key generation, square-and-multiply, and the attacks OAEP prevents. */
+const TextbookRsaDemo: React.FC = () => {
+  const [p, setP] = useState('61');
+  const [q, setQ] = useState('53');
+  const [e, setE] = useState('17');
+  const [bits, setBits] = useState(16);
+  const [message, setMessage] = useState('65');
+  const [factor, setFactor] = useState('2');
+  const [generateError, setGenerateError] = useState<string | null>(null);
+  const [broadcastKeys, setBroadcastKeys] = useState<TextbookRsaKey[] | null>(null);
+  const [broadcastMessage, setBroadcastMessage] = useState('31415926');
+
+  const key = useMemo((): Result<TextbookRsaKey> => {
+    const parsed = [parseInteger(p, 'p'), parseInteger(q, 'q'), parseInteger(e, 'e')];
+    for (const value of parsed) if (!value.ok) return value;
+    const [pValue, qValue, eValue] = parsed.map(value => (value.ok ? value.value : 0n));
+    return createTextbookKey(pValue, qValue, eValue);
+  }, [p, q, e]);
+
+  const m = useMemo(() => parseInteger(message, 'The message'), [message]);
+  const encrypted = key.ok && m.ok ? textbookEncrypt(key.value, m.value) : null;
+  const decrypted = key.ok && encrypted?.ok ? textbookDecrypt(key.value, encrypted.value.value) : null;
+
+  const s = useMemo(() => parseInteger(factor, 'The factor'), [factor]);
+  const forged = key.ok && encrypted?.ok && s.ok ? scaleCiphertext(key.value, encrypted.value.value, s.value) : null;
+  const forgedDecrypted = key.ok && forged !== null ? textbookDecrypt(key.value, forged) : null;
+
+  const generate = () => {
+    const eValue = parseInteger(e, 'e');
+    const generated = eValue.ok ? generateTextbookKey(bits, eValue.value) : eValue;
+    if (!generated.ok) {
+      setGenerateError(generated.error.message);
+      return;
+    }
+    setGenerateError(null);
+    setP(generated.value.p.toString());
+    setQ(generated.value.q.toString());
+  };
+
+  const generateBroadcastKeys = () => {
+    const keys: TextbookRsaKey[] = [];
+    for (let i = 0; i < BROADCAST_KEYS; i++) {
+      const generated = generateTextbookKey(BROADCAST_PRIME_BITS, 3n);
+      if (generated.ok) keys.push(generated.value);
+    }
+    setBroadcastKeys(keys);
+  };
+
+  const broadcast = useMemo(() => {
+    if (!broadcastKeys) return null;
+    const value = parseInteger(broadcastMessage, 'The message');
+    if (!value.ok) return value;
+    const ciphertexts: bigint[] = [];
+    for (const broadcastKey of broadcastKeys) {
+      const c = textbookEncrypt(broadcastKey, value.value);
+      if (!c.ok) return c;
+      ciphertexts.push(c.value.value);
+    }
+    const moduli = broadcastKeys.map(broadcastKey => broadcastKey.n);
+    const single = smallExponentAttack(ciphertexts.slice(0, 1), moduli.slice(0, 1), 3n);
+    const combined = smallExponentAttack(ciphertexts, moduli, 3n);
+    if (!single.ok) return single;
+    if (!combined.ok) return combined;
+    return ok({ ciphertexts, single: single.value, combined: combined.value });
+  }, [broadcastKeys, broadcastMessage]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">1. Key generation</h4>
+        <p className="text-sm text-gray-600">
+          Pick two primes p and q. The public key is n = pq and an exponent e coprime to φ(n) = (p-1)(q-1);
+          the private exponent d is the inverse of e modulo φ(n), found with the extended Euclidean algorithm.
+          Anyone who can factor n can compute d, which is why real keys use primes of 1024 bits or more.
+        </p>
+        <div className="grid grid-cols-3 gap-2">
+          {([
+            ['p', p, setP],
+            ['q', q, setQ],
+            ['e', e, setE]
+          ] as [string, string, (value: string) => void][]).map(([label, value, setValue]) => (
+            <label key={label} className="text-xs text-gray-500">
+              {label}
+              <input
+                type="text"
+                className="w-full p-2 border rounded-lg text-sm font-mono mt-1"
+                value={value}
+                onChange={(event) => setValue(event.target.value)}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2 items-center">
+          <select
+            className="p-2 border rounded-lg text-sm"
+            value={bits}
+            onChange={(event) => setBits(Number(event.target.value))}
+          >
+            {TEXTBOOK_PRIME_BITS.map(option => (
+              <option key={option} value={option}>
+                {option}-bit primes
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={generate}
+            className="bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50 flex items-center"
+          >
+            <Dices className="mr-1" size={14} />
+            Generate Random Primes
+          </button>
+          <span className="text-xs text-gray-500">Common choices for e are 3, 17 and 65537.</span>
+        </div>
+        {generateError && <p className="text-sm text-red-700">{generateError}</p>}
+        <ErrorText result={key} />
+
+        {key.ok && (
+          <div className="space-y-1">
+            <Value label="n = p × q" value={key.value.n} />
+            <Value label="φ(n)" value={key.value.phi} />
+            <Value label="e" value={key.value.e} />
+            <Value label="d = e⁻¹ mod φ(n)" value={key.value.d} />
+            <details className="text-xs mt-2">
+              <summary className="cursor-pointer text-gray-600">Extended Euclid on φ(n) and e</summary>
+              <table className="w-full font-mono bg-white rounded border mt-2">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="p-1">quotient</th>
+                    <th className="p-1">remainder</th>
+                    <th className="p-1">= φ(n) × x + e × y, with y</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {key.value.euclid.map((step, index) => (
+                    <tr key={index} className="border-t">
+                      <td className="p-1">{step.quotient?.toString() ?? '-'}</td>
+                      <td className="p-1">{step.remainder.toString()}</td>
+                      <td className="p-1">{step.y.toString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-gray-600 mt-1">
+                The row with remainder 1 gives 1 = φ(n)x + ey, so ey ≡ 1 mod φ(n) and d is that y reduced modulo φ(n).
+              </p>
+            </details>
+          </div>
+        )}
+      </div>
+
+      {key.ok && (
+        <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+          <h4 className="text-sm font-medium text-gray-700">2. Encrypt and decrypt an integer</h4>
+          <p className="text-sm text-gray-600">
+            Encryption is c = m<sup>e</sup> mod n and decryption is m = c<sup>d</sup> mod n. Both use square-and-multiply:
+            one squaring per bit of the exponent, and a multiplication for every 1 bit.
+          </p>
+          <input
+            type="text"
+            className="w-full p-2 border rounded-lg text-sm font-mono"
+            value={message}
+            onChange={(event) => setMessage(event.target.value)}
+            placeholder={`Message m, below ${key.value.n}`}
+          />
+          <ErrorText result={m.ok ? encrypted : m} />
+          {encrypted?.ok && (
+            <>
+              <Value label="c = mᵉ mod n" value={encrypted.value.value} />
+              <ModPowTable base="m" exponent={key.value.e} steps={encrypted.value.steps} />
+            </>
+          )}
+          {decrypted?.ok && (
+            <>
+              <Value label="cᵈ mod n" value={decrypted.value.value} />
+              <ModPowTable base="c" exponent={key.value.d} steps={decrypted.value.steps} />
+            </>
+          )}
+          <p className="text-xs text-gray-500">
+            Textbook RSA is deterministic: the same m always gives the same c, so an attacker can confirm a guess
+            ("yes", "no", an amount) by encrypting it with the public key and comparing.
+          </p>
+        </div>
+      )}
+
+      {key.ok && encrypted?.ok && (
+        <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+          <h4 className="text-sm font-medium text-gray-700">3. Malleability</h4>
+          <p className="text-sm text-gray-600">
+            RSA is multiplicative: (m<sup>e</sup>)(s<sup>e</sup>) = (ms)<sup>e</sup> mod n. Without knowing m or d, an
+            attacker multiplies the ciphertext by s<sup>e</sup>, and the recipient decrypts m × s.
+          </p>
+          <input
+            type="text"
+            className="w-full p-2 border rounded-lg text-sm font-mono"
+            value={factor}
+            onChange={(event) => setFactor(event.target.value)}
+            placeholder="Factor s"
+          />
+          <ErrorText result={s} />
+          {forged !== null && forgedDecrypted?.ok && m.ok && s.ok && (
+            <>
+              <Value label="c × sᵉ mod n" value={forged} />
+              <Value label="decrypts to" value={forgedDecrypted.value.value} />
+              <Value label="m × s mod n" value={(m.value * s.value) % key.value.n} />
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">4. Small public exponent</h4>
+        <p className="text-sm text-gray-600">
+          With e = 3 and a short message, m<sup>3</sup> may be smaller than n, so the modulus never applies and the
+          ordinary cube root of c is m. Even when it does wrap, sending the same message to three recipients is
+          enough: the Chinese remainder theorem combines the three ciphertexts into m<sup>3</sup> modulo n₁n₂n₃,
+          which is larger than m<sup>3</sup>, and the cube root again gives m (Håstad's broadcast attack).
+        </p>
+        <button
+          onClick={generateBroadcastKeys}
+          className="bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50 flex items-center"
+        >
+          <Dices className="mr-1" size={14} />
+          Generate {BROADCAST_KEYS} Keys with e = 3 ({BROADCAST_PRIME_BITS}-bit primes)
+        </button>
+        {broadcastKeys && (
+          <>
+            {broadcastKeys.map((broadcastKey, index) => (
+              <Value key={index} label={`n${index + 1}`} value={broadcastKey.n} />
+            ))}
+            <input
+              type="text"
+              className="w-full p-2 border rounded-lg text-sm font-mono"
+              value={broadcastMessage}
+              onChange={(event) => setBroadcastMessage(event.target.value)}
+              placeholder="Message sent to all three"
+            />
+            <ErrorText result={broadcast} />
+            {broadcast?.ok && (
+              <div className="space-y-3">
+                {broadcast.value.ciphertexts.map((c, index) => (
+                  <Value key={index} label={`c${index + 1}`} value={c} />
+                ))}
+                {([
+                  ['Cube root of c1 alone', broadcast.value.single],
+                  ['Cube root of CRT(c1, c2, c3)', broadcast.value.combined]
+                ] as [string, SmallExponentAttack][]).map(([label, { root, exact }]) => (
+                  <div key={label} className="flex gap-2 text-sm">
+                    {exact ? (
+                      <XCircle className="flex-shrink-0 text-red-600" size={18} />
+                    ) : (
+                      <CheckCircle className="flex-shrink-0 text-green-600" size={18} />
+                    )}
+                    <span>
+                      <span className="font-medium">{label}:</span>{' '}
+                      {exact ? (
+                        <>
+                          recovers m = <span className="font-mono">{root.toString()}</span>
+                        </>
+                      ) : (
+                        'not an exact cube, because m³ wrapped around the modulus'
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="bg-indigo-50 p-4 rounded-lg text-sm text-gray-700 space-y-2">
+        <p className="font-medium">What OAEP changes</p>
+        <p>
+          OAEP pads the message with a random seed and a hash-based structure to the full size of n before
+          exponentiation. The random seed makes encryption probabilistic, so guesses cannot be confirmed; the padded
+          value is as large as n, so m<sup>e</sup> always wraps; and a multiplied ciphertext decrypts to something
+          whose structure check fails, so the recipient rejects it instead of acting on m × s.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TextbookRsaDemo;
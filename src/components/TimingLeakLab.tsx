@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Server } from 'lucide-react';
+import { TagComparison, TimedByte, TimingOracle, createTimingOracle, timeTagByte, utf8Encode } from '../crypto';
+
+const COMPARISONS: [TagComparison, string, string][] = [
+  ['naive', 'Early-exit comparison', 'The server compares tags byte by byte and returns at the first difference.'],
+  ['constant-time', 'Constant-time comparison', 'The server always looks at every byte, so each check takes as long.']
+];
+
+/** Forges an HMAC tag one byte at a time from how long a simulated server takes to reject guesses. */
+const TimingLeakLab: React.FC = () => {
+  const [comparison, setComparison] = useState<TagComparison>('naive');
+  const [message, setMessage] = useState('amount=1000000&to=mallory');
+  const [samples, setSamples] = useState(20);
+  const [oracle, setOracle] = useState<TimingOracle | null>(null);
+  const [recovered, setRecovered] = useState<number[]>([]);
+  const [last, setLast] = useState<TimedByte | null>(null);
+  const [accepted, setAccepted] = useState<boolean | null>(null);
+  const [queries, setQueries] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const start = async () => {
+    const created = await createTimingOracle(comparison, utf8Encode(message));
+    setRecovered([]);
+    setLast(null);
+    setAccepted(null);
+    setQueries(0);
+    if (!created.ok) {
+      setError(created.error.message);
+      setOracle(null);
+      return;
+    }
+    setError(null);
+    setOracle(created.value);
+  };
+
+  const advance = async (untilEnd: boolean) => {
+    if (!oracle) return;
+    setRunning(true);
+    const tag = [...recovered];
+    while (tag.length < oracle.tagLength) {
+      const timed = timeTagByte(oracle, new Uint8Array(tag), samples);
+      tag.push(timed.byte);
+      setLast(timed);
+      setRecovered([...tag]);
+      setQueries(oracle.queries());
+      if (tag.length === oracle.tagLength) setAccepted(timed.accepted);
+      if (!untilEnd) break;
+      // Let the chart repaint between bytes.
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    setRunning(false);
+  };
+
+  const lastMax = last ? Math.max(...last.averages) : 0;
+  const lastMin = last ? Math.min(...last.averages) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">The server</h4>
+        <p className="text-sm text-gray-600">
+          A simulated server accepts a request only with the right HMAC-SHA-256 tag, and the attacker wants it to
+          accept one message it will never tag. Comparing the tags with an ordinary loop or string equality stops
+          at the first wrong byte, so a guess whose first byte is right takes a little longer to reject. The
+          times here are simulated, with random jitter standing in for the network.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {COMPARISONS.map(([option, title, description]) => (
+            <button
+              key={option}
+              onClick={() => setComparison(option)}
+              className={`p-3 rounded-lg border text-left transition-colors
+                ${comparison === option ? 'bg-rose-50 border-rose-500' : 'bg-white hover:bg-gray-50'}`}
+            >
+              <span className="block text-sm font-semibold text-gray-800">{title}</span>
+              <span className="block text-xs text-gray-600 mt-1">{description}</span>
+            </button>
+          ))}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Message to forge a tag for</label>
+          <input type="text" className="w-full p-2 border rounded-lg text-sm" value={message} onChange={(e) => setMessage(e.target.value)} />
+        </div>
+        <button
+          onClick={start}
+          disabled={running}
+          className="w-full bg-rose-600 text-white py-2 px-4 rounded-lg hover:bg-rose-700 flex items-center justify-center disabled:opacity-50"
+        >
+          <Server className="mr-2" size={16} />
+          Start a Server
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 rounded-lg">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {oracle && (
+        <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+          <div className="flex justify-between items-center">
+            <h4 className="text-sm font-medium text-gray-700">The attack</h4>
+            <span className="text-sm text-gray-600">
+              Guesses sent: <span className="font-mono">{queries.toLocaleString()}</span>
+            </span>
+          </div>
+          <p className="text-sm text-gray-600">
+            For the next byte, send the bytes found so far followed by each of the 256 values, several times each,
+            and keep the value whose rejections were slowest on average. A wrong earlier byte shows up as a flat
+            chart, with no value standing out.
+          </p>
+          <label className="flex items-center gap-3 text-sm text-gray-700">
+            Samples per guess
+            <input type="range" min={1} max={50} value={samples} onChange={(e) => setSamples(Number(e.target.value))} className="flex-1" />
+            <span className="font-mono w-6 text-right">{samples}</span>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => advance(false)}
+              disabled={running || recovered.length === oracle.tagLength}
+              className="bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              Next Byte
+            </button>
+            <button
+              onClick={() => advance(true)}
+              disabled={running || recovered.length === oracle.tagLength}
+              className="bg-white border py-2 px-3 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              Run to End
+            </button>
+          </div>
+
+          <div className="text-xs">
+            <span className="text-gray-500">Forged tag: </span>
+            <span className="font-mono break-all">
+              {Array.from({ length: oracle.tagLength }, (_, i) =>
+                i < recovered.length ? recovered[i].toString(16).padStart(2, '0') : '··'
+              ).join('')}
+            </span>
+          </div>
+
+          {last && (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">
+                Average response time for each value of byte {recovered.length - 1};{' '}
+                {last.accepted ? 'the server accepted' : 'the slowest,'} {last.byte.toString(16).padStart(2, '0')}
+                {last.accepted ? '' : ', was kept'}
+              </p>
+              <div className="flex items-end h-24 bg-white rounded border p-1">
+                {last.averages.map((average, candidate) => (
+                  <div
+                    key={candidate}
+                    className={`flex-1 ${candidate === last.byte ? 'bg-rose-600' : 'bg-gray-300'}`}
+                    style={{ height: `${lastMax > lastMin ? 10 + ((average - lastMin) / (lastMax - lastMin)) * 90 : 50}%` }}
+                    title={`${candidate.toString(16).padStart(2, '0')}: ${average.toFixed(0)} ns`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {accepted !== null && (
+            <div className={`p-4 rounded-lg ${accepted ? 'bg-red-50' : 'bg-green-50'}`}>
+              <p className={`text-sm ${accepted ? 'text-red-700' : 'text-green-700'}`}>
+                {accepted
+                  ? `The server accepted the forged tag after ${queries.toLocaleString()} guesses: it will act on "${message}" without anyone holding the key having tagged it.`
+                  : oracle.comparison === 'naive'
+                    ? 'The forged tag was rejected: the jitter hid a byte. Start again with more samples per guess.'
+                    : 'The forged tag was rejected. Every guess took as long as every other, so the timings said nothing about the tag.'}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimingLeakLab;
@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import {
+  columnCoincidence,
+  ENGLISH_IOC,
+  indexOfCoincidence,
+  kasiski,
+  lettersOnly,
+  parseVigenereKey,
+  RANDOM_IOC,
+  solveVigenereKey,
+  vigenere
+} from '../crypto';
+
+interface VigenereCipherProps {
+  sample: string;
+}
+
+const MAX_KEY_LENGTH = 20;
+// Columns of a correctly guessed key length look like English; this sits between the two.
+const ENGLISH_LIKE_IOC = 0.06;
+const SHOWN_REPEATS = 12;
+
+/** Vigenère's polyalphabetic cipher, with Kasiski examination and the index of coincidence to find the key length. */
+const VigenereCipher: React.FC<VigenereCipherProps> = ({ sample }) => {
+  const [text, setText] = useState(sample);
+  const [keyText, setKeyText] = useState('LEMON');
+  const [chosenLength, setChosenLength] = useState<number | null>(null);
+
+  const key = parseVigenereKey(keyText);
+  const ciphertext = key.ok ? vigenere(text, key.value, 'encrypt') : '';
+  const examination = useMemo(() => kasiski(ciphertext, 3, MAX_KEY_LENGTH), [ciphertext]);
+  const coincidence = useMemo(() => columnCoincidence(ciphertext, MAX_KEY_LENGTH), [ciphertext]);
+  const guessedLength = coincidence.find(column => column.ioc >= ENGLISH_LIKE_IOC)?.length ?? 1;
+  const keyLength = chosenLength ?? guessedLength;
+  const solvedKey = useMemo(() => (ciphertext ? solveVigenereKey(ciphertext, keyLength) : ''), [ciphertext, keyLength]);
+  const solvedPlaintext = useMemo(() => {
+    const parsed = parseVigenereKey(solvedKey);
+    return parsed.ok ? vigenere(ciphertext, parsed.value, 'decrypt') : '';
+  }, [ciphertext, solvedKey]);
+
+  const maxFactorCount = Math.max(1, ...examination.factorCounts);
+  const repeats = [...examination.repeats].sort((a, b) => b.positions.length - a.positions.length).slice(0, SHOWN_REPEATS);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+        <h4 className="text-sm font-medium text-gray-700">Encrypt</h4>
+        <p className="text-sm text-gray-600">
+          Each letter of the key is a Caesar shift (A = 0, B = 1…), applied to the message letters in turn and
+          repeated. The same plaintext letter encrypts differently depending on its position, which flattens the
+          frequencies that break Caesar. Longer texts make the analysis below more reliable.
+        </p>
+        <textarea
+          className="w-full p-4 border rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+          rows={4}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <input
+          type="text"
+          className="w-full p-2 border rounded-lg text-sm font-mono"
+          value={keyText}
+          onChange={(e) => {
+            setKeyText(e.target.value);
+            setChosenLength(null);
+          }}
+          placeholder="Key, e.g. LEMON"
+        />
+        {!key.ok && <p className="text-sm text-red-700">{key.error.message}</p>}
+        {ciphertext && <p className="text-sm font-mono break-all bg-white p-4 rounded border">{ciphertext}</p>}
+      </div>
+
+      {ciphertext && (
+        <div className="bg-gray-50 p-6 rounded-lg space-y-4">
+          <h4 className="text-sm font-medium text-gray-700">Break it: find the key length, then solve each column</h4>
+          <p className="text-sm text-gray-600">
+            Index of coincidence of the whole ciphertext: <span className="font-mono">{indexOfCoincidence(ciphertext).toFixed(4)}</span>{' '}
+            (English ≈ {ENGLISH_IOC}, random letters ≈ {RANDOM_IOC.toFixed(4)}). Somewhere in between means several
+            alphabets are mixed together.
+          </p>
+
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-1">Kasiski examination</p>
+            <p className="text-xs text-gray-600 mb-2">
+              When the same plaintext fragment lines up with the same part of the key, it encrypts to the same
+              letters. The distance between such repeats is a multiple of the key length, so common factors point to it.
+            </p>
+            {repeats.length > 0 ? (
+              <table className="w-full text-xs font-mono bg-white rounded border">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="p-1">repeat</th>
+                    <th className="p-1">positions</th>
+                    <th className="p-1">distances</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {repeats.map(repeat => (
+                    <tr key={repeat.sequence} className="border-t">
+                      <td className="p-1">{repeat.sequence}</td>
+                      <td className="p-1">{repeat.positions.join(', ')}</td>
+                      <td className="p-1">{repeat.distances.join(', ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-xs text-gray-500">No repeated trigrams: the text is too short.</p>
+            )}
+            <div className="flex items-end gap-1 h-20 mt-2">
+              {examination.factorCounts.slice(2).map((count, i) => (
+                <div key={i} className="flex-1 flex flex-col items-center justify-end h-full" title={`${count} distances divisible by ${i + 2}`}>
+                  <div className="w-full bg-amber-400 rounded-t" style={{ height: `${(count / maxFactorCount) * 100}%` }} />
+                  <span className="text-[10px] text-gray-500">{i + 2}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">How many distances each number divides.</p>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-1">Index of coincidence per key length</p>
+            <p className="text-xs text-gray-600 mb-2">
+              Split the ciphertext into columns, one per key letter. At the right length each column is a single
+              Caesar cipher, so its index of coincidence jumps to English's. Click a bar to choose the length.
+            </p>
+            <div className="flex items-end gap-1 h-24">
+              {coincidence.map(column => (
+                <button
+                  key={column.length}
+                  onClick={() => setChosenLength(column.length)}
+                  className="flex-1 flex flex-col items-center justify-end h-full"
+                  title={`Length ${column.length}: ${column.ioc.toFixed(4)}`}
+                >
+                  <div
+                    className={`w-full rounded-t ${column.length === keyLength ? 'bg-amber-600' : column.ioc >= ENGLISH_LIKE_IOC ? 'bg-amber-400' : 'bg-gray-300'}`}
+                    style={{ height: `${Math.min(1, column.ioc / 0.08) * 100}%` }}
+                  />
+                  <span className="text-[10px] text-gray-500">{column.length}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700">
+              With key length {keyLength}, the best Caesar shift for each column spells the key{' '}
+              <span className="font-mono font-semibold">{solvedKey}</span>
+              {key.ok && solvedKey === lettersOnly(keyText) ? ', the real key.' : '.'}
+            </p>
+            <p className="text-sm font-mono break-all bg-white p-4 rounded border">{solvedPlaintext}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VigenereCipher;
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { decryptWorkspace, DEFAULT_PBKDF2_ITERATIONS, encryptWorkspace, MIN_WORKSPACE_PASSPHRASE_LENGTH } from '../crypto';
+import { KeyPair, WorkspaceState } from '../types';
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isKeyPair = (value: unknown): value is KeyPair | null =>
+  value === null || (isObject(value) && typeof value.publicKey === 'string' && typeof value.privateKey === 'string');
+
+const isResult = (value: unknown, field: string): boolean =>
+  value === null || (isObject(value) && typeof value[field] === 'string');
+
+// The file decrypted and authenticated, but its contents still come from outside.
+const isWorkspaceState = (value: unknown): value is WorkspaceState => {
+  if (!isObject(value)) return false;
+  const { symmetric, asymmetric, signature } = value;
+  return (
+    isObject(symmetric) &&
+    (symmetric.key === null || typeof symmetric.key === 'string') &&
+    isResult(symmetric.result, 'encrypted') &&
+    isObject(asymmetric) &&
+    isKeyPair(asymmetric.keyPair) &&
+    isResult(asymmetric.result, 'encrypted') &&
+    isObject(signature) &&
+    isKeyPair(signature.keyPair) &&
+    isResult(signature.result, 'signature')
+  );
+};
+
+interface WorkspacePanelProps {
+  workspace: WorkspaceState;
+  onImport: (workspace: WorkspaceState) => void;
+}
+
+/** Exports the demos' keys and results as one passphrase-encrypted file, and restores such a file. */
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ workspace, onImport }) => {
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  // The services return failures as results, but reading the file or the browser itself can still throw.
+  const whileBusy = async (what: string, run: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await run();
+    } catch (error) {
+      setStatus({ ok: false, message: `Could not ${what}: ${error instanceof Error ? error.message : String(error)}` });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (exportPassphrase !== confirmPassphrase) {
+      setStatus({ ok: false, message: 'The two passphrases do not match.' });
+      return;
+    }
+    // A non-extractable key cannot leave the browser, by design.
+    if (workspace.asymmetric.keyPair?.privateCryptoKey || workspace.signature.keyPair?.privateCryptoKey) {
+      setStatus({
+        ok: false,
+        message: 'A loaded key pair has a non-extractable private key, which cannot be exported. Load or generate an extractable pair first.'
+      });
+      return;
+    }
+
+    return whileBusy('export the workspace', async () => {
+      const encrypted = await encryptWorkspace(workspace, exportPassphrase);
+      if (!encrypted.ok) {
+        setStatus({ ok: false, message: encrypted.error.message });
+        return;
+      }
+
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([encrypted.value], { type: 'application/json' }));
+      link.download = `cryptolab-workspace-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      // Revoking straight after click() can cancel the download in some browsers.
+      setTimeout(() => URL.revokeObjectURL(link.href), 0);
+      setExportPassphrase('');
+      setConfirmPassphrase('');
+      setStatus({ ok: true, message: `Workspace exported as ${link.download}.` });
+    });
+  };
+
+  const handleImport = () => {
+    if (!file) return;
+    return whileBusy('import the workspace', async () => {
+      const decrypted = await decryptWorkspace(await file.text(), importPassphrase);
+      if (!decrypted.ok) {
+        setStatus({ ok: false, message: decrypted.error.message });
+        return;
+      }
+      if (!isWorkspaceState(decrypted.value.data)) {
+        setStatus({ ok: false, message: 'The file decrypted, but it does not contain a lab workspace.' });
+        return;
+      }
+
+      onImport(decrypted.value.data);
+      setImportPassphrase('');
+      setStatus({ ok: true, message: `Restored the workspace exported on ${new Date(decrypted.value.created).toLocaleString()}.` });
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <p className="text-sm text-gray-600 mb-4">
+        The workspace holds the keys, ciphertexts and signatures of all three demos. It is encrypted with
+        AES-256-GCM under a key derived from your passphrase with PBKDF2 ({DEFAULT_PBKDF2_ITERATIONS.toLocaleString('en-US')} iterations), so the file is
+        safe to hand in; anyone with the passphrase can restore it.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h3 className="font-semibold text-gray-800">Export</h3>
+          <input
+            type="password"
+            className="w-full p-2 border rounded-lg"
+            value={exportPassphrase}
+            onChange={(e) => setExportPassphrase(e.target.value)}
+            placeholder={`Passphrase (at least ${MIN_WORKSPACE_PASSPHRASE_LENGTH} characters)`}
+          />
+          <input
+            type="password"
+            className="w-full p-2 border rounded-lg"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder="Repeat the passphrase"
+          />
+          <button
+            onClick={handleExport}
+            disabled={busy || !exportPassphrase}
+            className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 flex items-center justify-center disabled:opacity-50"
+          >
+            <Download className="mr-2" size={16} />
+            Export Workspace
+          </button>
+        </div>
+        <div className="space-y-2">
+          <h3 className="font-semibold text-gray-800">Import</h3>
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="w-full text-sm"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+          <input
+            type="password"
+            className="w-full p-2 border rounded-lg"
+            value={importPassphrase}
+            onChange={(e) => setImportPassphrase(e.target.value)}
+            placeholder="Passphrase"
+          />
+          <button
+            onClick={handleImport}
+            disabled={busy || !file}
+            className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 flex items-center justify-center disabled:opacity-50"
+          >
+            <Upload className="mr-2" size={16} />
+            Import Workspace
+          </button>
+          <p className="text-xs text-gray-500">Importing replaces the keys and results in all three demos.</p>
+        </div>
+      </div>
+      {busy && <p className="text-sm text-gray-600 mt-4">Deriving the key from the passphrase...</p>}
+      {status && (
+        <div className={`mt-4 p-3 rounded-lg ${status.ok ? 'bg-green-50' : 'bg-red-50'}`}>
+          <p className={status.ok ? 'text-green-700' : 'text-red-700'}>{status.message}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspacePanel;
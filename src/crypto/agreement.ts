@@ -0,0 +1,29 @@
+import { ecdhSharedSecret, generateEcKeyPair, NAMED_CURVES } from './ec';
+import { Result } from './result';
+import { KeyPair, NamedCurve, PrivateKeyInput } from './types';
+import { generateX25519KeyPair, x25519SharedSecret } from './x25519';
+
+// Key agreement over either the NIST curves (ECDH) or Curve25519 (X25519).
+
+export type AgreementCurve = NamedCurve | 'X25519';
+
+export const AGREEMENT_CURVES: AgreementCurve[] = [...NAMED_CURVES, 'X25519'];
+
+/** The curve a key pair was generated on, or null for non-agreement keys. */
+export const agreementCurveOf = (keyPair: KeyPair): AgreementCurve | null => {
+  if (keyPair.algorithm?.name === 'ECDH') return keyPair.algorithm.curve;
+  if (keyPair.algorithm?.name === 'X25519') return 'X25519';
+  return null;
+};
+
+export const generateAgreementKeyPair = (curve: AgreementCurve): Promise<Result<KeyPair>> =>
+  curve === 'X25519' ? generateX25519KeyPair() : generateEcKeyPair('agreement', curve);
+
+export const agreeSharedSecret = (
+  curve: AgreementCurve,
+  privateKey: PrivateKeyInput,
+  peerPublicKeyPem: string
+): Promise<Result<Uint8Array>> =>
+  curve === 'X25519'
+    ? x25519SharedSecret(privateKey, peerPublicKeyPem)
+    : ecdhSharedSecret(privateKey, peerPublicKeyPem, curve);
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { argon2id } from './argon2';
+import { blake2b } from './blake2b';
+import { toHex, utf8Encode } from './encoding';
+
+describe('argon2id', () => {
+  // RFC 9106 section 5.3.
+  it('matches the RFC 9106 test vector', () => {
+    const tag = argon2id(new Uint8Array(32).fill(1), new Uint8Array(16).fill(2), {
+      memoryKiB: 32,
+      iterations: 3,
+      parallelism: 4,
+      outputLength: 32,
+      secret: new Uint8Array(8).fill(3),
+      associatedData: new Uint8Array(12).fill(4)
+    });
+    expect(toHex(tag)).toBe('0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659');
+  });
+});
+
+describe('blake2b', () => {
+  // RFC 7693 appendix A.
+  it('hashes "abc"', () => {
+    expect(toHex(blake2b(utf8Encode('abc')))).toBe(
+      'ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923'
+    );
+  });
+});
@@ -0,0 +1,268 @@
+import { blake2b } from './blake2b';
+
+// Argon2id (RFC 9106), version 0x13. Like blake2b.ts, 64-bit words are stored as
+// (low, high) 32-bit pairs; a 1 KiB block is 128 words = 256 Uint32 entries.
+
+export interface Argon2Options {
+  memoryKiB: number;
+  iterations: number;
+  parallelism: number;
+  outputLength: number;
+  secret?: Uint8Array;
+  associatedData?: Uint8Array;
+}
+
+const VERSION = 0x13;
+const TYPE_ARGON2ID = 2;
+const SYNC_POINTS = 4;
+const BLOCK_WORDS = 256;
+const ADDRESSES_PER_BLOCK = 128;
+
+// Full 64-bit product of two 32-bit integers, split into 16-bit limbs so every
+// intermediate stays exactly representable as a double.
+const mul32 = (a: number, b: number): [number, number] => {
+  const a0 = a & 0xffff;
+  const a1 = a >>> 16;
+  const b0 = b & 0xffff;
+  const b1 = b >>> 16;
+  const mid = a0 * b1 + a1 * b0;
+  const low = a0 * b0 + (mid % 0x10000) * 0x10000;
+  const high = a1 * b1 + Math.floor(mid / 0x10000) + Math.floor(low / 0x100000000);
+  return [low >>> 0, high >>> 0];
+};
+
+// v[a] = v[a] + v[b] + 2 * lo32(v[a]) * lo32(v[b])
+const fBlaMka = (v: Uint32Array, a: number, b: number) => {
+  const [pLo, pHi] = mul32(v[2 * a], v[2 * b]);
+  const dLo = (pLo << 1) >>> 0;
+  const dHi = ((pHi << 1) | (pLo >>> 31)) >>> 0;
+  const lo = v[2 * a] + v[2 * b] + dLo;
+  v[2 * a + 1] = v[2 * a + 1] + v[2 * b + 1] + dHi + Math.floor(lo / 0x100000000);
+  v[2 * a] = lo;
+};
+
+const xorRotr = (v: Uint32Array, a: number, b: number, n: number) => {
+  const lo = v[2 * a] ^ v[2 * b];
+  const hi = v[2 * a + 1] ^ v[2 * b + 1];
+  if (n === 32) {
+    v[2 * a] = hi;
+    v[2 * a + 1] = lo;
+  } else if (n < 32) {
+    v[2 * a] = (lo >>> n) | (hi << (32 - n));
+    v[2 * a + 1] = (hi >>> n) | (lo << (32 - n));
+  } else {
+    const s = n - 32;
+    v[2 * a] = (hi >>> s) | (lo << (32 - s));
+    v[2 * a + 1] = (lo >>> s) | (hi << (32 - s));
+  }
+};
+
+const gb = (v: Uint32Array, a: number, b: number, c: number, d: number) => {
+  fBlaMka(v, a, b);
+  xorRotr(v, d, a, 32);
+  fBlaMka(v, c, d);
+  xorRotr(v, b, c, 24);
+  fBlaMka(v, a, b);
+  xorRotr(v, d, a, 16);
+  fBlaMka(v, c, d);
+  xorRotr(v, b, c, 63);
+};
+
+// The BLAKE2b round without message words, applied to 16 words picked by index.
+const permute = (v: Uint32Array, w: number[]) => {
+  gb(v, w[0], w[4], w[8], w[12]);
+  gb(v, w[1], w[5], w[9], w[13]);
+  gb(v, w[2], w[6], w[10], w[14]);
+  gb(v, w[3], w[7], w[11], w[15]);
+  gb(v, w[0], w[5], w[10], w[15]);
+  gb(v, w[1], w[6], w[11], w[12]);
+  gb(v, w[2], w[7], w[8], w[13]);
+  gb(v, w[3], w[4], w[9], w[14]);
+};
+
+const ROW_INDICES = Array.from({ length: 8 }, (_, i) => Array.from({ length: 16 }, (_, j) => 16 * i + j));
+const COLUMN_INDICES = Array.from({ length: 8 }, (_, i) =>
+  Array.from({ length: 16 }, (_, j) => 2 * i + (j & 1) + 16 * (j >> 1))
+);
+
+const scratchR = new Uint32Array(BLOCK_WORDS);
+const scratchZ = new Uint32Array(BLOCK_WORDS);
+
+/** Compression function G. Writes G(x, y) into `out`, XORed with its old contents when `xorInto` is set. */
+const compressBlock = (x: Uint32Array, y: Uint32Array, out: Uint32Array, xorInto: boolean) => {
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    scratchR[i] = x[i] ^ y[i];
+  }
+  scratchZ.set(scratchR);
+  for (const row of ROW_INDICES) permute(scratchZ, row);
+  for (const column of COLUMN_INDICES) permute(scratchZ, column);
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    out[i] = (xorInto ? out[i] : 0) ^ scratchZ[i] ^ scratchR[i];
+  }
+};
+
+const le32 = (n: number): Uint8Array => new Uint8Array([n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff, (n >>> 24) & 0xff]);
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/** Variable-length hash H' built from BLAKE2b. */
+const hashLong = (input: Uint8Array, outputLength: number): Uint8Array => {
+  const prefixed = concat(le32(outputLength), input);
+  if (outputLength <= 64) {
+    return blake2b(prefixed, outputLength);
+  }
+  const out = new Uint8Array(outputLength);
+  const r = Math.ceil(outputLength / 32) - 2;
+  let v = blake2b(prefixed, 64);
+  out.set(v.subarray(0, 32), 0);
+  for (let i = 1; i < r; i++) {
+    v = blake2b(v, 64);
+    out.set(v.subarray(0, 32), 32 * i);
+  }
+  out.set(blake2b(v, outputLength - 32 * r), 32 * r);
+  return out;
+};
+
+const bytesToBlock = (bytes: Uint8Array, block: Uint32Array) => {
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    block[i] = bytes[4 * i] | (bytes[4 * i + 1] << 8) | (bytes[4 * i + 2] << 16) | (bytes[4 * i + 3] << 24);
+  }
+};
+
+const blockToBytes = (block: Uint32Array): Uint8Array => {
+  const bytes = new Uint8Array(BLOCK_WORDS * 4);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = block[i >> 2] >>> (8 * (i & 3));
+  }
+  return bytes;
+};
+
+export const argon2id = (password: Uint8Array, salt: Uint8Array, options: Argon2Options): Uint8Array => {
+  const { memoryKiB, iterations, parallelism: lanes, outputLength } = options;
+  const secret = options.secret ?? new Uint8Array(0);
+  const associatedData = options.associatedData ?? new Uint8Array(0);
+
+  if (lanes < 1 || iterations < 1 || outputLength < 4) {
+    throw new RangeError('Argon2 needs parallelism >= 1, iterations >= 1 and an output of at least 4 bytes');
+  }
+  if (memoryKiB < 8 * lanes) {
+    throw new RangeError('Argon2 memory must be at least 8 KiB per lane');
+  }
+  if (salt.length < 8) {
+    throw new RangeError('Argon2 salt must be at least 8 bytes');
+  }
+
+  const segmentLength = Math.floor(memoryKiB / (lanes * SYNC_POINTS));
+  const laneLength = segmentLength * SYNC_POINTS;
+  const blockCount = laneLength * lanes;
+  const memory = new Uint32Array(blockCount * BLOCK_WORDS);
+  const block = (lane: number, column: number) =>
+    memory.subarray((lane * laneLength + column) * BLOCK_WORDS, (lane * laneLength + column + 1) * BLOCK_WORDS);
+
+  const h0 = blake2b(
+    concat(
+      le32(lanes),
+      le32(outputLength),
+      le32(memoryKiB),
+      le32(iterations),
+      le32(VERSION),
+      le32(TYPE_ARGON2ID),
+      le32(password.length),
+      password,
+      le32(salt.length),
+      salt,
+      le32(secret.length),
+      secret,
+      le32(associatedData.length),
+      associatedData
+    ),
+    64
+  );
+
+  for (let lane = 0; lane < lanes; lane++) {
+    bytesToBlock(hashLong(concat(h0, le32(0), le32(lane)), 1024), block(lane, 0));
+    bytesToBlock(hashLong(concat(h0, le32(1), le32(lane)), 1024), block(lane, 1));
+  }
+
+  const zeroBlock = new Uint32Array(BLOCK_WORDS);
+  const inputBlock = new Uint32Array(BLOCK_WORDS);
+  const addressBlock = new Uint32Array(BLOCK_WORDS);
+
+  for (let pass = 0; pass < iterations; pass++) {
+    for (let slice = 0; slice < SYNC_POINTS; slice++) {
+      for (let lane = 0; lane < lanes; lane++) {
+        // Argon2id: the first half of the first pass uses data-independent addressing.
+        const independent = pass === 0 && slice < SYNC_POINTS / 2;
+        if (independent) {
+          inputBlock.fill(0);
+          inputBlock[0] = pass;
+          inputBlock[2] = lane;
+          inputBlock[4] = slice;
+          inputBlock[6] = blockCount;
+          inputBlock[8] = iterations;
+          inputBlock[10] = TYPE_ARGON2ID;
+        }
+        const nextAddresses = () => {
+          inputBlock[12]++;
+          compressBlock(zeroBlock, inputBlock, addressBlock, false);
+          compressBlock(zeroBlock, addressBlock, addressBlock, false);
+        };
+
+        const startIndex = pass === 0 && slice === 0 ? 2 : 0;
+        if (independent && startIndex === 2) nextAddresses();
+
+        for (let index = startIndex; index < segmentLength; index++) {
+          const column = slice * segmentLength + index;
+          const prevColumn = column === 0 ? laneLength - 1 : column - 1;
+          const prev = block(lane, prevColumn);
+
+          let j1: number;
+          let j2: number;
+          if (independent) {
+            if (index % ADDRESSES_PER_BLOCK === 0) nextAddresses();
+            j1 = addressBlock[2 * (index % ADDRESSES_PER_BLOCK)];
+            j2 = addressBlock[2 * (index % ADDRESSES_PER_BLOCK) + 1];
+          } else {
+            j1 = prev[0];
+            j2 = prev[1];
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % lanes;
+          const sameLane = refLane === lane;
+          let areaSize: number;
+          if (pass === 0) {
+            if (slice === 0) areaSize = index - 1;
+            else if (sameLane) areaSize = slice * segmentLength + index - 1;
+            else areaSize = slice * segmentLength + (index === 0 ? -1 : 0);
+          } else if (sameLane) {
+            areaSize = laneLength - segmentLength + index - 1;
+          } else {
+            areaSize = laneLength - segmentLength + (index === 0 ? -1 : 0);
+          }
+
+          const x = mul32(j1, j1)[1];
+          const relative = areaSize - 1 - mul32(areaSize, x)[1];
+          const start = pass === 0 || slice === SYNC_POINTS - 1 ? 0 : (slice + 1) * segmentLength;
+          const refColumn = (start + relative) % laneLength;
+
+          compressBlock(prev, block(refLane, refColumn), block(lane, column), pass > 0);
+        }
+      }
+    }
+  }
+
+  const final = new Uint32Array(block(0, laneLength - 1));
+  for (let lane = 1; lane < lanes; lane++) {
+    const last = block(lane, laneLength - 1);
+    for (let i = 0; i < BLOCK_WORDS; i++) final[i] ^= last[i];
+  }
+  return hashLong(blockToBytes(final), outputLength);
+};
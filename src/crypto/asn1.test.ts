@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { ASN1_TAG, decodeOid, encodeDer, encodeInteger, encodeOid, integerToBigInt, OID, parseDer } from './asn1';
+import { fromHex, toHex } from './encoding';
+import { unwrap } from './testing';
+
+describe('DER reader', () => {
+  it('parses what encodeDer writes, including long-form lengths', () => {
+    const der = encodeDer(ASN1_TAG.SEQUENCE, encodeInteger(fromHex('ff01')), encodeDer(ASN1_TAG.OCTET_STRING, new Uint8Array(300)));
+    const node = unwrap(parseDer(der));
+    expect(node.children?.map(child => child.tag)).toEqual([ASN1_TAG.INTEGER, ASN1_TAG.OCTET_STRING]);
+    expect(integerToBigInt(node.children![0].content)).toBe(0xff01n);
+    expect(node.children![1].headerLength).toBe(4);
+    expect(node.children![1].content).toHaveLength(300);
+  });
+
+  it('round-trips object identifiers', () => {
+    expect(toHex(encodeOid(OID.prime256v1))).toBe('06082a8648ce3d030107');
+    expect(decodeOid(unwrap(parseDer(encodeOid('1.2.840.113549.1.1.10'))).content)).toBe('1.2.840.113549.1.1.10');
+  });
+
+  it.each([
+    ['a child running past its SEQUENCE', '300730020203040100'],
+    ['a child running past a context-specific parent', '3007a0020203040100'],
+    ['a value running past the input', '300502030102'],
+    ['trailing bytes', '3003020101ff'],
+    ['a truncated header', '30']
+  ])('rejects %s', (_, hex) => {
+    const parsed = parseDer(fromHex(hex));
+    expect(parsed.ok).toBe(false);
+    if (!parsed.ok) expect(parsed.error.code).toBe('invalid-input');
+  });
+});
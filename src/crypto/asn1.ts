@@ -0,0 +1,245 @@
+// Minimal ASN.1 DER reader and writer: enough for key containers (SPKI, PKCS#8, PKCS#1,
+// SEC1) and certificates. Only single-byte tags and definite lengths are supported,
+// which is all DER allows for these structures anyway.
+
+import { Result, fail, ok } from './result';
+
+export const ASN1_TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OBJECT_IDENTIFIER: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+  // Context-specific constructed tags [0] to [2], as used by SEC1, X.509 and RSASSA-PSS parameters.
+  CONTEXT_0: 0xa0,
+  CONTEXT_1: 0xa1,
+  CONTEXT_2: 0xa2,
+  // [0] IMPLICIT on a primitive type, e.g. a CMS subjectKeyIdentifier.
+  CONTEXT_PRIMITIVE_0: 0x80
+} as const;
+
+export interface Asn1Node {
+  tag: number;
+  // Offset of the tag byte within the parsed buffer.
+  offset: number;
+  headerLength: number;
+  content: Uint8Array;
+  // Present for constructed types (SEQUENCE, SET, context-specific [n]).
+  children?: Asn1Node[];
+}
+
+const isConstructed = (tag: number) => (tag & 0x20) !== 0;
+
+// `end` is where the enclosing value's content stops: a child may not run past its parent.
+const readNode = (bytes: Uint8Array, offset: number, end = bytes.length): Asn1Node => {
+  if (offset + 2 > end) throw new RangeError(`Truncated DER at byte ${offset}`);
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) throw new RangeError(`Multi-byte tags are not supported (byte ${offset})`);
+
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) throw new RangeError(`Unsupported DER length at byte ${offset}`);
+    if (offset + 2 + lengthBytes > end) throw new RangeError(`Truncated DER length at byte ${offset}`);
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) length = length * 256 + bytes[offset + 2 + i];
+    headerLength += lengthBytes;
+  }
+
+  const start = offset + headerLength;
+  if (start + length > end) {
+    throw new RangeError(
+      end === bytes.length
+        ? `DER value at byte ${offset} runs past the end of the input`
+        : `DER value at byte ${offset} runs past the end of its enclosing value at byte ${end}`
+    );
+  }
+  const node: Asn1Node = { tag, offset, headerLength, content: bytes.subarray(start, start + length) };
+
+  if (isConstructed(tag)) {
+    node.children = [];
+    for (let position = start; position < start + length; ) {
+      const child = readNode(bytes, position, start + length);
+      node.children.push(child);
+      position = child.offset + child.headerLength + child.content.length;
+    }
+  }
+  return node;
+};
+
+const TAG_NAMES: Record<number, string> = {
+  [ASN1_TAG.BOOLEAN]: 'BOOLEAN',
+  [ASN1_TAG.INTEGER]: 'INTEGER',
+  [ASN1_TAG.BIT_STRING]: 'BIT STRING',
+  [ASN1_TAG.OCTET_STRING]: 'OCTET STRING',
+  [ASN1_TAG.NULL]: 'NULL',
+  [ASN1_TAG.OBJECT_IDENTIFIER]: 'OBJECT IDENTIFIER',
+  [ASN1_TAG.UTF8_STRING]: 'UTF8String',
+  [ASN1_TAG.PRINTABLE_STRING]: 'PrintableString',
+  [ASN1_TAG.IA5_STRING]: 'IA5String',
+  [ASN1_TAG.UTC_TIME]: 'UTCTime',
+  [ASN1_TAG.GENERALIZED_TIME]: 'GeneralizedTime',
+  [ASN1_TAG.SEQUENCE]: 'SEQUENCE',
+  [ASN1_TAG.SET]: 'SET'
+};
+
+/** "SEQUENCE", "[1]" for context-specific tags, or the raw tag byte when unknown. */
+export const tagName = (tag: number): string => {
+  if ((tag & 0xc0) === 0x80) return `[${tag & 0x1f}]`;
+  return TAG_NAMES[tag] ?? `tag 0x${tag.toString(16).padStart(2, '0')}`;
+};
+
+/** Parses one DER value that must span the whole input. */
+export const parseDer = (bytes: Uint8Array): Result<Asn1Node> => {
+  try {
+    const node = readNode(bytes, 0);
+    const end = node.headerLength + node.content.length;
+    if (end !== bytes.length) return fail('invalid-input', `${bytes.length - end} unexpected bytes after the DER value.`);
+    return ok(node);
+  } catch (error) {
+    return fail('invalid-input', error instanceof Error ? `Invalid DER: ${error.message}.` : 'Invalid DER.', error);
+  }
+};
+
+/**
+ * DER nested inside a BIT STRING or OCTET STRING, as SPKI and PKCS#8 wrap the algorithm's own
+ * key structure. Only SEQUENCEs (and OCTET STRINGs inside an OCTET STRING, as in Ed25519
+ * PKCS#8) are tried, so raw key bytes are not mistaken for DER.
+ */
+export const encapsulatedDer = (node: Asn1Node): Asn1Node | null => {
+  let inner: Uint8Array;
+  if (node.tag === ASN1_TAG.BIT_STRING && node.content[0] === 0) inner = node.content.subarray(1);
+  else if (node.tag === ASN1_TAG.OCTET_STRING) inner = node.content;
+  else return null;
+
+  const nested = inner[0] === ASN1_TAG.SEQUENCE || (node.tag === ASN1_TAG.OCTET_STRING && inner[0] === ASN1_TAG.OCTET_STRING);
+  if (!nested) return null;
+  const parsed = parseDer(inner);
+  return parsed.ok ? parsed.value : null;
+};
+
+// Meaning of a node in a known structure, keyed by path; highlighted fields carry the key material.
+export interface Asn1Field {
+  name: string;
+  highlight?: boolean;
+}
+
+/** Path of a child within a tree, e.g. "1.0.0"; the root's path is "". Encapsulated DER counts as child 0. */
+export const childPath = (path: string, index: number): string => (path ? `${path}.${index}` : `${index}`);
+
+export const encodeDer = (tag: number, ...contents: Uint8Array[]): Uint8Array => {
+  const length = contents.reduce((total, part) => total + part.length, 0);
+  const lengthBytes: number[] = [];
+  if (length < 0x80) {
+    lengthBytes.push(length);
+  } else {
+    for (let n = length; n > 0; n = Math.floor(n / 256)) lengthBytes.unshift(n & 0xff);
+    lengthBytes.unshift(0x80 | lengthBytes.length);
+  }
+
+  const out = new Uint8Array(1 + lengthBytes.length + length);
+  out[0] = tag;
+  out.set(lengthBytes, 1);
+  let offset = 1 + lengthBytes.length;
+  for (const part of contents) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/** Strips the sign byte DER adds to keep positive integers with a high top bit positive. */
+export const unsignedInteger = (content: Uint8Array): Uint8Array => {
+  let start = 0;
+  while (start < content.length - 1 && content[start] === 0) start++;
+  return content.subarray(start);
+};
+
+/** Encodes an unsigned big-endian magnitude as a DER INTEGER. */
+export const encodeInteger = (magnitude: Uint8Array): Uint8Array => {
+  const trimmed = unsignedInteger(magnitude.length ? magnitude : new Uint8Array(1));
+  return trimmed[0] & 0x80 ? encodeDer(ASN1_TAG.INTEGER, new Uint8Array([0]), trimmed) : encodeDer(ASN1_TAG.INTEGER, trimmed);
+};
+
+export const integerToBigInt = (content: Uint8Array): bigint =>
+  unsignedInteger(content).reduce((n, byte) => (n << 8n) | BigInt(byte), 0n);
+
+export const decodeOid = (content: Uint8Array): string => {
+  const arcs: number[] = [];
+  let value = 0;
+  for (const byte of content) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      arcs.push(value);
+      value = 0;
+    }
+  }
+  const first = Math.min(Math.floor(arcs[0] / 40), 2);
+  return [first, arcs[0] - first * 40, ...arcs.slice(1)].join('.');
+};
+
+export const encodeOid = (oid: string): Uint8Array => {
+  const [first, second, ...rest] = oid.split('.').map(Number);
+  const bytes: number[] = [];
+  for (const arc of [first * 40 + second, ...rest]) {
+    const chunk = [arc & 0x7f];
+    for (let n = Math.floor(arc / 128); n > 0; n = Math.floor(n / 128)) chunk.unshift((n & 0x7f) | 0x80);
+    bytes.push(...chunk);
+  }
+  return encodeDer(ASN1_TAG.OBJECT_IDENTIFIER, new Uint8Array(bytes));
+};
+
+export const OID = {
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  rsassaPss: '1.2.840.113549.1.1.10',
+  ecPublicKey: '1.2.840.10045.2.1',
+  prime256v1: '1.2.840.10045.3.1.7',
+  secp384r1: '1.3.132.0.34',
+  secp521r1: '1.3.132.0.35',
+  X25519: '1.3.101.110',
+  Ed25519: '1.3.101.112',
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3',
+  mgf1: '1.2.840.113549.1.1.8',
+  sha256WithRSAEncryption: '1.2.840.113549.1.1.11',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+  ecdsaWithSHA384: '1.2.840.10045.4.3.3',
+  ecdsaWithSHA512: '1.2.840.10045.4.3.4',
+  commonName: '2.5.4.3',
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2'
+} as const;
+
+export const OID_NAMES: Record<string, string> = {
+  [OID.rsaEncryption]: 'rsaEncryption',
+  [OID.rsassaPss]: 'RSASSA-PSS',
+  [OID.ecPublicKey]: 'id-ecPublicKey',
+  [OID.prime256v1]: 'prime256v1 (P-256)',
+  [OID.secp384r1]: 'secp384r1 (P-384)',
+  [OID.secp521r1]: 'secp521r1 (P-521)',
+  [OID.X25519]: 'X25519',
+  [OID.Ed25519]: 'Ed25519',
+  [OID.sha1]: 'sha1',
+  [OID.sha256]: 'sha256',
+  [OID.sha384]: 'sha384',
+  [OID.sha512]: 'sha512',
+  [OID.mgf1]: 'MGF1',
+  [OID.sha256WithRSAEncryption]: 'sha256WithRSAEncryption',
+  [OID.ecdsaWithSHA256]: 'ecdsa-with-SHA256',
+  [OID.ecdsaWithSHA384]: 'ecdsa-with-SHA384',
+  [OID.ecdsaWithSHA512]: 'ecdsa-with-SHA512',
+  [OID.commonName]: 'commonName',
+  [OID.data]: 'id-data',
+  [OID.signedData]: 'id-signedData'
+};
@@ -0,0 +1,136 @@
+// BLAKE2b (RFC 7693). 64-bit words are held as (low, high) pairs of 32-bit integers
+// in a Uint32Array, so word i lives at indices 2i and 2i + 1.
+
+const IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19
+]);
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0]
+];
+
+const BLOCK_BYTES = 128;
+
+// v[a] += v[b] + m[x], all 64-bit.
+const add3 = (v: Uint32Array, a: number, b: number, m: Uint32Array, x: number) => {
+  const lo = v[2 * a] + v[2 * b] + m[2 * x];
+  const hi = v[2 * a + 1] + v[2 * b + 1] + m[2 * x + 1] + Math.floor(lo / 0x100000000);
+  v[2 * a] = lo;
+  v[2 * a + 1] = hi;
+};
+
+const add2 = (v: Uint32Array, a: number, b: number) => {
+  const lo = v[2 * a] + v[2 * b];
+  const hi = v[2 * a + 1] + v[2 * b + 1] + (lo >= 0x100000000 ? 1 : 0);
+  v[2 * a] = lo;
+  v[2 * a + 1] = hi;
+};
+
+// v[a] = (v[a] ^ v[b]) >>> n for n in {16, 24, 32, 63}.
+const xorRotr = (v: Uint32Array, a: number, b: number, n: number) => {
+  const lo = v[2 * a] ^ v[2 * b];
+  const hi = v[2 * a + 1] ^ v[2 * b + 1];
+  if (n === 32) {
+    v[2 * a] = hi;
+    v[2 * a + 1] = lo;
+  } else if (n < 32) {
+    v[2 * a] = (lo >>> n) | (hi << (32 - n));
+    v[2 * a + 1] = (hi >>> n) | (lo << (32 - n));
+  } else {
+    const s = n - 32;
+    v[2 * a] = (hi >>> s) | (lo << (32 - s));
+    v[2 * a + 1] = (lo >>> s) | (hi << (32 - s));
+  }
+};
+
+const mix = (v: Uint32Array, m: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number) => {
+  add3(v, a, b, m, x);
+  xorRotr(v, d, a, 32);
+  add2(v, c, d);
+  xorRotr(v, b, c, 24);
+  add3(v, a, b, m, y);
+  xorRotr(v, d, a, 16);
+  add2(v, c, d);
+  xorRotr(v, b, c, 63);
+};
+
+const compress = (h: Uint32Array, block: Uint8Array, bytesSoFar: number, last: boolean) => {
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  for (let i = 0; i < 32; i++) {
+    m[i] = block[4 * i] | (block[4 * i + 1] << 8) | (block[4 * i + 2] << 16) | (block[4 * i + 3] << 24);
+  }
+  v.set(h, 0);
+  v.set(IV, 16);
+  // Byte counter t is 128 bits; inputs here never exceed 2^53 bytes.
+  v[24] ^= bytesSoFar >>> 0;
+  v[25] ^= Math.floor(bytesSoFar / 0x100000000);
+  if (last) {
+    v[28] = ~v[28];
+    v[29] = ~v[29];
+  }
+
+  for (let round = 0; round < 12; round++) {
+    const s = SIGMA[round % 10];
+    mix(v, m, 0, 4, 8, 12, s[0], s[1]);
+    mix(v, m, 1, 5, 9, 13, s[2], s[3]);
+    mix(v, m, 2, 6, 10, 14, s[4], s[5]);
+    mix(v, m, 3, 7, 11, 15, s[6], s[7]);
+    mix(v, m, 0, 5, 10, 15, s[8], s[9]);
+    mix(v, m, 1, 6, 11, 12, s[10], s[11]);
+    mix(v, m, 2, 7, 8, 13, s[12], s[13]);
+    mix(v, m, 3, 4, 9, 14, s[14], s[15]);
+  }
+
+  for (let i = 0; i < 16; i++) {
+    h[i] ^= v[i] ^ v[i + 16];
+  }
+};
+
+/**
+ * One-shot BLAKE2b. `outputLength` is in bytes (1-64); an optional key of up to
+ * 64 bytes turns it into BLAKE2b's built-in MAC mode.
+ */
+export const blake2b = (data: Uint8Array, outputLength = 64, key: Uint8Array = new Uint8Array(0)): Uint8Array => {
+  if (outputLength < 1 || outputLength > 64) {
+    throw new RangeError('BLAKE2b output length must be between 1 and 64 bytes');
+  }
+  if (key.length > 64) {
+    throw new RangeError('BLAKE2b key must be at most 64 bytes');
+  }
+
+  const h = new Uint32Array(IV);
+  h[0] ^= 0x01010000 ^ (key.length << 8) ^ outputLength;
+
+  let input = data;
+  if (key.length > 0) {
+    input = new Uint8Array(BLOCK_BYTES + data.length);
+    input.set(key, 0);
+    input.set(data, BLOCK_BYTES);
+  }
+
+  const block = new Uint8Array(BLOCK_BYTES);
+  let offset = 0;
+  while (input.length - offset > BLOCK_BYTES) {
+    compress(h, input.subarray(offset, offset + BLOCK_BYTES), offset + BLOCK_BYTES, false);
+    offset += BLOCK_BYTES;
+  }
+  block.set(input.subarray(offset));
+  compress(h, block, input.length, true);
+
+  const out = new Uint8Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    out[i] = h[i >> 2] >>> (8 * (i & 3));
+  }
+  return out;
+};
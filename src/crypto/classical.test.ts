@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyMapping,
+  bruteForceCaesar,
+  caesar,
+  columnCoincidence,
+  ENGLISH_IOC,
+  indexOfCoincidence,
+  inverseSubstitutionKey,
+  kasiski,
+  otpEncrypt,
+  parseSubstitutionKey,
+  parseVigenereKey,
+  randomSubstitutionKey,
+  solveVigenereKey,
+  substitute,
+  vigenere
+} from './classical';
+import { unwrap } from './testing';
+
+const TEXT =
+  'It was the best of times, it was the worst of times, it was the age of wisdom, it was the age of foolishness, ' +
+  'it was the epoch of belief, it was the epoch of incredulity, it was the season of Light, it was the season of ' +
+  'Darkness, it was the spring of hope, it was the winter of despair, we had everything before us, we had nothing ' +
+  'before us, we were all going direct to Heaven, we were all going direct the other way. In short, the period was ' +
+  'so far like the present period, that some of its noisiest authorities insisted on its being received, for good ' +
+  'or for evil, in the superlative degree of comparison only.';
+
+describe('classical ciphers', () => {
+  it('round-trips Caesar, keeping case and punctuation', () => {
+    expect(caesar('Hello, World!', 3)).toBe('Khoor, Zruog!');
+    expect(caesar(caesar(TEXT, 11), -11)).toBe(TEXT);
+  });
+
+  it('round-trips Vigenère with the classic example', () => {
+    const key = unwrap(parseVigenereKey('lemon'));
+    expect(vigenere('ATTACK AT DAWN', key, 'encrypt')).toBe('LXFOPV EF RNHR');
+    expect(vigenere(vigenere(TEXT, key, 'encrypt'), key, 'decrypt')).toBe(TEXT);
+    expect(parseVigenereKey('123').ok).toBe(false);
+  });
+
+  it('round-trips a substitution through its inverse key', () => {
+    const key = randomSubstitutionKey();
+    expect(unwrap(parseSubstitutionKey(key))).toBe(key);
+    expect(applyMapping(substitute(TEXT, key), inverseSubstitutionKey(key))).toBe(TEXT);
+    expect(parseSubstitutionKey('ABC').ok).toBe(false);
+  });
+
+  it('encrypts with a one-time pad only when the pad is long enough', () => {
+    const message = new Uint8Array([1, 2, 3]);
+    const pad = new Uint8Array([0xff, 0x0f, 0xf0]);
+    expect([...unwrap(otpEncrypt(unwrap(otpEncrypt(message, pad)), pad))]).toEqual([1, 2, 3]);
+    expect(otpEncrypt(message, pad.subarray(0, 2)).ok).toBe(false);
+  });
+});
+
+describe('frequency analysis', () => {
+  it('finds the Caesar shift by chi-squared', () => {
+    const [best] = bruteForceCaesar(caesar(TEXT, 17)).sort((a, b) => a.score - b.score);
+    expect(best.shift).toBe(17);
+    expect(best.plaintext).toBe(TEXT);
+  });
+
+  it('breaks Vigenère: key length from coincidence and Kasiski, then each column as a Caesar', () => {
+    const ciphertext = vigenere(TEXT, unwrap(parseVigenereKey('LEMON')), 'encrypt');
+    expect(indexOfCoincidence(TEXT)).toBeCloseTo(ENGLISH_IOC, 1);
+    expect(indexOfCoincidence(ciphertext)).toBeLessThan(indexOfCoincidence(TEXT));
+
+    const [likeliest] = columnCoincidence(ciphertext, 10)
+      .filter(({ length }) => length <= 7)
+      .sort((a, b) => b.ioc - a.ioc);
+    expect(likeliest.length).toBe(5);
+    const { factorCounts } = kasiski(ciphertext);
+    expect(factorCounts[5]).toBeGreaterThan(factorCounts[7]);
+
+    const key = solveVigenereKey(ciphertext, 5);
+    expect(key).toBe('LEMON');
+    expect(vigenere(ciphertext, unwrap(parseVigenereKey(key)), 'decrypt')).toBe(TEXT);
+  });
+});
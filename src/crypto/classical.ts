@@ -0,0 +1,206 @@
+import { xorBytes } from './cribdrag';
+import { Result, fail, ok } from './result';
+
+/*
+ * Classical ciphers and the statistics that break them. Letters are A-Z; case is kept and
+ * everything else passes through unchanged, as in the pencil-and-paper versions. None of
+ * this is secure except the one-time pad, and that only while each key is used once.
+ */
+
+export const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Relative letter frequencies of English text, A to Z.
+export const ENGLISH_FREQUENCIES = [
+  0.08167, 0.01492, 0.02782, 0.04253, 0.12702, 0.02228, 0.02015, 0.06094, 0.06966, 0.00153, 0.00772, 0.04025, 0.02406,
+  0.06749, 0.07507, 0.01929, 0.00095, 0.05987, 0.06327, 0.09056, 0.02758, 0.00978, 0.0236, 0.0015, 0.01974, 0.00074
+];
+
+// English letters from most to least common, for a first guess at a substitution key.
+const ENGLISH_BY_FREQUENCY = 'ETAOINSHRDLCUMWFGYPBVKJXQZ';
+
+export const ENGLISH_IOC = 0.0667;
+export const RANDOM_IOC = 1 / 26;
+
+const letterIndex = (char: string): number => ALPHABET.indexOf(char.toUpperCase());
+
+/** Replaces each letter by mapping its 0-25 index, keeping case and non-letters. */
+const mapLetters = (text: string, map: (index: number, position: number) => number | null): string => {
+  let position = 0;
+  return Array.from(text, char => {
+    const index = letterIndex(char);
+    if (index < 0) return char;
+    const mapped = map(index, position++);
+    if (mapped === null) return '·';
+    const letter = ALPHABET[((mapped % 26) + 26) % 26];
+    return char === char.toUpperCase() ? letter : letter.toLowerCase();
+  }).join('');
+};
+
+export const lettersOnly = (text: string): string => text.toUpperCase().replace(/[^A-Z]/g, '');
+
+/* Caesar */
+
+export const caesar = (text: string, shift: number): string => mapLetters(text, index => index + shift);
+
+/* Vigenère */
+
+export const parseVigenereKey = (key: string): Result<number[]> => {
+  const letters = lettersOnly(key);
+  return letters
+    ? ok(Array.from(letters, letterIndex))
+    : fail('invalid-key', 'A Vigenère key needs at least one letter.');
+};
+
+// Only letters advance the key, so spaces and punctuation do not shift the alignment.
+export const vigenere = (text: string, key: number[], direction: 'encrypt' | 'decrypt'): string =>
+  mapLetters(text, (index, position) => index + (direction === 'encrypt' ? 1 : -1) * key[position % key.length]);
+
+/* Monoalphabetic substitution */
+
+export const parseSubstitutionKey = (key: string): Result<string> => {
+  const letters = key.toUpperCase().replace(/\s/g, '');
+  if (letters.length !== 26 || new Set(letters).size !== 26 || !/^[A-Z]+$/.test(letters)) {
+    return fail('invalid-key', 'A substitution key is the 26 letters A-Z in some order, each exactly once.');
+  }
+  return ok(letters);
+};
+
+export const randomSubstitutionKey = (): string => {
+  const letters = Array.from(ALPHABET);
+  const random = crypto.getRandomValues(new Uint32Array(letters.length));
+  for (let i = letters.length - 1; i > 0; i--) {
+    const j = random[i] % (i + 1);
+    [letters[i], letters[j]] = [letters[j], letters[i]];
+  }
+  return letters.join('');
+};
+
+/** Plaintext letter i becomes key[i]. */
+export const substitute = (text: string, key: string): string => mapLetters(text, index => letterIndex(key[index]));
+
+/**
+ * Decrypts with a possibly partial inverse key: mapping[c] is the plaintext index for
+ * ciphertext letter c, or null while unknown (shown as a middle dot).
+ */
+export const applyMapping = (text: string, mapping: (number | null)[]): string => mapLetters(text, index => mapping[index]);
+
+export const inverseSubstitutionKey = (key: string): number[] => {
+  const mapping = new Array<number>(26);
+  Array.from(key).forEach((letter, index) => (mapping[letterIndex(letter)] = index));
+  return mapping;
+};
+
+/** A first guess: the nth most common ciphertext letter is the nth most common in English. */
+export const frequencyMapping = (text: string): number[] => {
+  const counts = letterCounts(text);
+  const byFrequency = ALPHABET.split('').map((_, index) => index).sort((a, b) => counts[b] - counts[a]);
+  const mapping = new Array<number>(26);
+  byFrequency.forEach((cipherIndex, rank) => (mapping[cipherIndex] = letterIndex(ENGLISH_BY_FREQUENCY[rank])));
+  return mapping;
+};
+
+/* Frequency analysis */
+
+export const letterCounts = (text: string): number[] => {
+  const counts = new Array<number>(26).fill(0);
+  for (const letter of lettersOnly(text)) counts[letterIndex(letter)]++;
+  return counts;
+};
+
+/** Chi-squared distance from English letter frequencies; lower means more English-like. */
+export const chiSquared = (text: string): number => {
+  const counts = letterCounts(text);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (!total) return Infinity;
+  return counts.reduce((sum, count, i) => {
+    const expected = total * ENGLISH_FREQUENCIES[i];
+    return sum + (count - expected) ** 2 / expected;
+  }, 0);
+};
+
+export interface CaesarCandidate {
+  shift: number;
+  plaintext: string;
+  score: number;
+}
+
+/** All 26 shifts, decrypted and scored against English. */
+export const bruteForceCaesar = (ciphertext: string): CaesarCandidate[] =>
+  ALPHABET.split('').map((_, shift) => {
+    const plaintext = caesar(ciphertext, -shift);
+    return { shift, plaintext, score: chiSquared(plaintext) };
+  });
+
+/**
+ * The probability that two letters drawn from the text are equal: about 0.067 for English,
+ * 0.038 for uniformly random letters. A polyalphabetic cipher pulls it towards random.
+ */
+export const indexOfCoincidence = (text: string): number => {
+  const counts = letterCounts(text);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total < 2) return 0;
+  return counts.reduce((sum, count) => sum + count * (count - 1), 0) / (total * (total - 1));
+};
+
+export interface RepeatedSequence {
+  sequence: string;
+  positions: number[];
+  // Distances between consecutive occurrences, each likely a multiple of the key length.
+  distances: number[];
+}
+
+export interface KasiskiResult {
+  repeats: RepeatedSequence[];
+  // factorCounts[f] = how many distances f divides, for f from 2 to maxFactor.
+  factorCounts: number[];
+}
+
+/** Kasiski examination: repeated letter sequences and the factors of their distances. */
+export const kasiski = (ciphertext: string, minLength = 3, maxFactor = 20): KasiskiResult => {
+  const letters = lettersOnly(ciphertext);
+  const seen = new Map<string, number[]>();
+  for (let i = 0; i + minLength <= letters.length; i++) {
+    const sequence = letters.slice(i, i + minLength);
+    seen.set(sequence, [...(seen.get(sequence) ?? []), i]);
+  }
+  const repeats = [...seen.entries()]
+    .filter(([, positions]) => positions.length > 1)
+    .map(([sequence, positions]) => ({
+      sequence,
+      positions,
+      distances: positions.slice(1).map((position, i) => position - positions[i])
+    }));
+  const factorCounts = new Array<number>(maxFactor + 1).fill(0);
+  for (const distance of repeats.flatMap(repeat => repeat.distances)) {
+    for (let factor = 2; factor <= maxFactor; factor++) if (distance % factor === 0) factorCounts[factor]++;
+  }
+  return { repeats, factorCounts };
+};
+
+const columns = (letters: string, count: number): string[] =>
+  Array.from({ length: count }, (_, column) => letters.split('').filter((_, i) => i % count === column).join(''));
+
+/** Average index of coincidence of the columns for each candidate key length. */
+export const columnCoincidence = (ciphertext: string, maxLength = 20): { length: number; ioc: number }[] => {
+  const letters = lettersOnly(ciphertext);
+  return Array.from({ length: maxLength }, (_, i) => {
+    const parts = columns(letters, i + 1);
+    return { length: i + 1, ioc: parts.reduce((sum, part) => sum + indexOfCoincidence(part), 0) / parts.length };
+  });
+};
+
+/** For a known key length, each column is a Caesar cipher: pick the most English-like shift. */
+export const solveVigenereKey = (ciphertext: string, keyLength: number): string =>
+  columns(lettersOnly(ciphertext), keyLength)
+    .map(column => {
+      const [best] = bruteForceCaesar(column).sort((a, b) => a.score - b.score);
+      return ALPHABET[best.shift];
+    })
+    .join('');
+
+/* One-time pad */
+
+export const otpEncrypt = (message: Uint8Array, pad: Uint8Array): Result<Uint8Array> =>
+  pad.length < message.length
+    ? fail('invalid-key', `The pad is ${pad.length} bytes but the message is ${message.length}: a one-time pad must be at least as long as the message.`)
+    : ok(xorBytes(message, pad));
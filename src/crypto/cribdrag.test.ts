@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { cribDrag, keystreamCiphertext, xorBytes } from './cribdrag';
+import { utf8Decode, utf8Encode } from './encoding';
+import { encryptSymmetric, generateSymmetricKey, SymmetricMode } from './symmetric';
+import { unwrap } from './testing';
+
+const FIRST = 'Attack the north gate at dawn tomorrow';
+const SECOND = 'The password for the vault is swordfish';
+
+describe('crib dragging', () => {
+  it.each<SymmetricMode>(['AES-CTR', 'AES-GCM'])('reveals the other message under a reused %s nonce', async mode => {
+    const key = generateSymmetricKey();
+    const iv = unwrap(await encryptSymmetric(new Uint8Array(0), key, mode)).iv;
+    const [c1, c2] = await Promise.all(
+      [FIRST, SECOND].map(async text => unwrap(keystreamCiphertext(unwrap(await encryptSymmetric(utf8Encode(text), key, mode, iv)))))
+    );
+    const xored = xorBytes(c1, c2);
+    expect(xored).toEqual(xorBytes(utf8Encode(FIRST), utf8Encode(SECOND)));
+
+    // "password" sits at offset 4 of the second message, so the first reads "ck the n" there.
+    const matches = cribDrag(xored, utf8Encode('password'));
+    expect(matches).toHaveLength(xored.length - 'password'.length + 1);
+    const match = matches[SECOND.indexOf('password')];
+    expect(match).toMatchObject({ offset: 4, plausible: true });
+    expect(utf8Decode(match.revealed)).toBe(FIRST.slice(4, 12));
+  });
+
+  it('marks most wrong placements as implausible', () => {
+    const xored = xorBytes(utf8Encode(FIRST), utf8Encode(SECOND));
+    const plausible = cribDrag(xored, utf8Encode('password')).filter(match => match.plausible).map(match => match.offset);
+    expect(plausible).toContain(4);
+    expect(plausible.length).toBeLessThan(xored.length / 2);
+  });
+
+  it('refuses a block mode, where XOR does not cancel the key', async () => {
+    const encrypted = unwrap(await encryptSymmetric(utf8Encode(FIRST), generateSymmetricKey(), 'AES-CBC'));
+    expect(keystreamCiphertext(encrypted).ok).toBe(false);
+  });
+});
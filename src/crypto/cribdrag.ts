@@ -0,0 +1,53 @@
+import { Result, fail, ok } from './result';
+import { GCM_TAG_BYTES, SymmetricCiphertext } from './symmetric';
+
+/*
+ * Two-time pad analysis. AES-CTR and AES-GCM encrypt by XORing the plaintext with a
+ * keystream that depends only on the key and IV, so two messages under the same pair give
+ *
+ *   C1 XOR C2 = (P1 XOR KS) XOR (P2 XOR KS) = P1 XOR P2
+ *
+ * and a guessed word ("crib") in one message reveals the bytes at the same place in the other.
+ */
+
+export const xorBytes = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const length = Math.min(a.length, b.length);
+  const result = new Uint8Array(length);
+  for (let i = 0; i < length; i++) result[i] = a[i] ^ b[i];
+  return result;
+};
+
+/** The keystream-encrypted part of a CTR or GCM message, without GCM's tag. */
+export const keystreamCiphertext = ({ mode, ciphertext }: SymmetricCiphertext): Result<Uint8Array> => {
+  switch (mode) {
+    case 'AES-CTR':
+      return ok(ciphertext);
+    case 'AES-GCM':
+      return ok(ciphertext.subarray(0, ciphertext.length - GCM_TAG_BYTES));
+    default:
+      return fail('invalid-input', `${mode} is not a stream mode, so XORing two ciphertexts does not cancel the key.`);
+  }
+};
+
+// Letters, digits, space and common punctuation: what a correct crib placement tends to reveal.
+const PLAUSIBLE_TEXT = /^[A-Za-z0-9 .,;:'!?()-]+$/;
+
+export const isPlausibleText = (bytes: Uint8Array): boolean =>
+  PLAUSIBLE_TEXT.test(String.fromCharCode(...bytes));
+
+export interface CribMatch {
+  offset: number;
+  // The other message's bytes at this offset, if the crib is right.
+  revealed: Uint8Array;
+  plausible: boolean;
+}
+
+/** Slides the crib along P1 XOR P2, returning what each placement would reveal. */
+export const cribDrag = (xored: Uint8Array, crib: Uint8Array): CribMatch[] => {
+  const matches: CribMatch[] = [];
+  for (let offset = 0; offset + crib.length <= xored.length; offset++) {
+    const revealed = xorBytes(xored.subarray(offset, offset + crib.length), crib);
+    matches.push({ offset, revealed, plausible: isPlausibleText(revealed) });
+  }
+  return matches;
+};
@@ -0,0 +1,198 @@
+// Pure TypeScript X25519 (RFC 7748) and Ed25519 (RFC 8032) over BigInt field arithmetic,
+// used where the browser's WebCrypto lacks the algorithms. BigInt operations are not
+// constant time, so this is for teaching, not for protecting real secrets.
+
+const P = 2n ** 255n - 19n;
+// Order of the Ed25519 base point.
+const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+
+const mod = (a: bigint, m = P): bigint => {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+};
+
+const pow = (base: bigint, exponent: bigint): bigint => {
+  let result = 1n;
+  let b = mod(base);
+  for (let e = exponent; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * b) % P;
+    b = (b * b) % P;
+  }
+  return result;
+};
+
+const invert = (a: bigint): bigint => pow(a, P - 2n);
+
+const bytesToNumberLE = (bytes: Uint8Array): bigint => {
+  let n = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) n = (n << 8n) | BigInt(bytes[i]);
+  return n;
+};
+
+const numberToBytesLE = (n: bigint, length = 32): Uint8Array => {
+  const out = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    out[i] = Number(n & 0xffn);
+    n >>= 8n;
+  }
+  return out;
+};
+
+const checkLength = (bytes: Uint8Array, length: number, what: string) => {
+  if (bytes.length !== length) throw new RangeError(`${what} must be ${length} bytes`);
+};
+
+// Clears the low three bits (cofactor) and fixes the top bit, as both RFCs require.
+const clampScalar = (bytes: Uint8Array): bigint => {
+  const clamped = new Uint8Array(bytes);
+  clamped[0] &= 248;
+  clamped[31] &= 127;
+  clamped[31] |= 64;
+  return bytesToNumberLE(clamped);
+};
+
+/* X25519 */
+
+const A24 = 121665n;
+export const X25519_BASE_POINT = numberToBytesLE(9n);
+
+/** The Montgomery ladder from RFC 7748 section 5: scalar times the point with u-coordinate `u`. */
+export const x25519 = (scalar: Uint8Array, uCoordinate: Uint8Array): Uint8Array => {
+  checkLength(scalar, 32, 'X25519 scalar');
+  checkLength(uCoordinate, 32, 'X25519 u-coordinate');
+  const k = clampScalar(scalar);
+  const u = new Uint8Array(uCoordinate);
+  u[31] &= 127;
+  const x1 = mod(bytesToNumberLE(u));
+
+  let [x2, z2, x3, z3] = [1n, 0n, x1, 1n];
+  let swap = 0n;
+  for (let t = 254; t >= 0; t--) {
+    const bit = (k >> BigInt(t)) & 1n;
+    swap ^= bit;
+    if (swap) [x2, x3, z2, z3] = [x3, x2, z3, z2];
+    swap = bit;
+
+    const a = mod(x2 + z2);
+    const aa = mod(a * a);
+    const b = mod(x2 - z2);
+    const bb = mod(b * b);
+    const e = mod(aa - bb);
+    const c = mod(x3 + z3);
+    const d = mod(x3 - z3);
+    const da = mod(d * a);
+    const cb = mod(c * b);
+    x3 = mod((da + cb) ** 2n);
+    z3 = mod(x1 * (da - cb) ** 2n);
+    x2 = mod(aa * bb);
+    z2 = mod(e * (aa + A24 * e));
+  }
+  if (swap) [x2, z2] = [x3, z3];
+  return numberToBytesLE(mod(x2 * invert(z2)));
+};
+
+export const x25519PublicKey = (privateKey: Uint8Array): Uint8Array => x25519(privateKey, X25519_BASE_POINT);
+
+/* Ed25519 */
+
+// Extended twisted Edwards coordinates (X, Y, Z, T) with x = X/Z, y = Y/Z, xy = T/Z.
+type Point = [bigint, bigint, bigint, bigint];
+
+const D = mod(-121665n * invert(121666n));
+const SQRT_M1 = pow(2n, (P - 1n) / 4n);
+const IDENTITY: Point = [0n, 1n, 1n, 0n];
+
+// RFC 8032 section 5.1.4; the formula is complete, so it also doubles.
+const addPoints = ([x1, y1, z1, t1]: Point, [x2, y2, z2, t2]: Point): Point => {
+  const a = mod((y1 - x1) * (y2 - x2));
+  const b = mod((y1 + x1) * (y2 + x2));
+  const c = mod(t1 * 2n * D * t2);
+  const d = mod(z1 * 2n * z2);
+  const e = b - a;
+  const f = d - c;
+  const g = d + c;
+  const h = b + a;
+  return [mod(e * f), mod(g * h), mod(f * g), mod(e * h)];
+};
+
+const multiply = (point: Point, scalar: bigint): Point => {
+  let result = IDENTITY;
+  let addend = point;
+  for (let n = scalar; n > 0n; n >>= 1n) {
+    if (n & 1n) result = addPoints(result, addend);
+    addend = addPoints(addend, addend);
+  }
+  return result;
+};
+
+const encodePoint = ([x, y, z]: Point): Uint8Array => {
+  const zInverse = invert(z);
+  const bytes = numberToBytesLE(mod(y * zInverse));
+  if (mod(x * zInverse) & 1n) bytes[31] |= 0x80;
+  return bytes;
+};
+
+// RFC 8032 section 5.1.3; null when the bytes are not a point on the curve.
+const decodePoint = (bytes: Uint8Array): Point | null => {
+  const sign = bytes[31] >> 7;
+  const y = bytesToNumberLE(bytes) & ((1n << 255n) - 1n);
+  if (y >= P) return null;
+
+  const x2 = mod((y * y - 1n) * invert(D * y * y + 1n));
+  let x = pow(x2, (P + 3n) / 8n);
+  if (mod(x * x) !== x2) x = mod(x * SQRT_M1);
+  if (mod(x * x) !== x2) return null;
+  if (x === 0n && sign === 1) return null;
+  if (Number(x & 1n) !== sign) x = P - x;
+  return [x, y, 1n, mod(x * y)];
+};
+
+const BASE_POINT = decodePoint(numberToBytesLE(mod(4n * invert(5n)))) as Point;
+
+const sha512 = async (...parts: Uint8Array[]): Promise<Uint8Array> => {
+  const input = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    input.set(part, offset);
+    offset += part.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest('SHA-512', input));
+};
+
+// The private key is a 32-byte seed; its hash gives the secret scalar and a nonce prefix.
+const expandSeed = async (seed: Uint8Array) => {
+  checkLength(seed, 32, 'Ed25519 private key');
+  const hash = await sha512(seed);
+  const scalar = clampScalar(hash.subarray(0, 32));
+  return { scalar, prefix: hash.subarray(32), publicKey: encodePoint(multiply(BASE_POINT, scalar)) };
+};
+
+export const ed25519PublicKey = async (seed: Uint8Array): Promise<Uint8Array> => (await expandSeed(seed)).publicKey;
+
+export const ed25519Sign = async (seed: Uint8Array, message: Uint8Array): Promise<Uint8Array> => {
+  const { scalar, prefix, publicKey } = await expandSeed(seed);
+  // The nonce is derived from the key and message, so it can never repeat by accident.
+  const r = mod(bytesToNumberLE(await sha512(prefix, message)), L);
+  const encodedR = encodePoint(multiply(BASE_POINT, r));
+  const k = mod(bytesToNumberLE(await sha512(encodedR, publicKey, message)), L);
+  const s = mod(r + k * scalar, L);
+
+  const signature = new Uint8Array(64);
+  signature.set(encodedR);
+  signature.set(numberToBytesLE(s), 32);
+  return signature;
+};
+
+export const ed25519Verify = async (publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): Promise<boolean> => {
+  if (publicKey.length !== 32 || signature.length !== 64) return false;
+  const a = decodePoint(publicKey);
+  const r = decodePoint(signature.subarray(0, 32));
+  const s = bytesToNumberLE(signature.subarray(32));
+  if (!a || !r || s >= L) return false;
+
+  const k = mod(bytesToNumberLE(await sha512(signature.subarray(0, 32), publicKey, message)), L);
+  // [S]B = R + [k]A, compared in encoded form.
+  const left = encodePoint(multiply(BASE_POINT, s));
+  const right = encodePoint(addPoints(r, multiply(a, k)));
+  return left.every((byte, i) => byte === right[i]);
+};
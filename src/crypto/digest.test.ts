@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { digest } from './digest';
+import { toHex, utf8Encode } from './encoding';
+import { unwrap } from './testing';
+
+// FIPS 180-2 examples for "abc".
+describe('digest', () => {
+  it('computes SHA-256 and SHA-512 of "abc"', async () => {
+    expect(toHex(unwrap(await digest(utf8Encode('abc'))))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(toHex(unwrap(await digest(utf8Encode('abc'), 'SHA-512')))).toBe(
+      'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f'
+    );
+  });
+});
@@ -0,0 +1,17 @@
+import { Result, fail, ok } from './result';
+import { HashAlgorithm } from './types';
+
+export const HASH_BYTES: Record<HashAlgorithm, number> = {
+  'SHA-1': 20,
+  'SHA-256': 32,
+  'SHA-384': 48,
+  'SHA-512': 64
+};
+
+export const digest = async (data: Uint8Array, algorithm: HashAlgorithm = 'SHA-256'): Promise<Result<Uint8Array>> => {
+  try {
+    return ok(new Uint8Array(await crypto.subtle.digest(algorithm, data)));
+  } catch (error) {
+    return fail('digest-failed', `Could not compute ${algorithm} digest.`, error);
+  }
+};
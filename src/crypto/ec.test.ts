@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ecdhSharedSecret,
+  ecdsaSignatureFromDer,
+  ecdsaSignatureToDer,
+  generateEcKeyPair,
+  NAMED_CURVES,
+  signEcdsa,
+  verifyEcdsa
+} from './ec';
+import { fromHex, toHex, utf8Encode } from './encoding';
+import { unwrap } from './testing';
+
+const MESSAGE = utf8Encode('signed on a NIST curve');
+
+describe('ECDSA', () => {
+  it.each(NAMED_CURVES)('signs, verifies and round-trips the signature through DER on %s', async curve => {
+    const keyPair = unwrap(await generateEcKeyPair('signing', curve));
+    const signature = unwrap(await signEcdsa(keyPair.privateKey, curve, MESSAGE));
+    expect(unwrap(await verifyEcdsa(keyPair.publicKey, curve, MESSAGE, signature))).toBe(true);
+    expect(unwrap(await verifyEcdsa(keyPair.publicKey, curve, utf8Encode('changed'), signature))).toBe(false);
+
+    const der = ecdsaSignatureToDer(signature);
+    expect(der[0]).toBe(0x30);
+    expect(toHex(unwrap(ecdsaSignatureFromDer(der, curve)))).toBe(toHex(signature));
+  });
+
+  it('keeps r and s positive in DER and restores their leading zeros', () => {
+    const signature = new Uint8Array(64);
+    signature[0] = 0x80;
+    signature[63] = 0x01;
+    const der = ecdsaSignatureToDer(signature);
+    // r gains a 00 so its high bit does not read as a sign; s loses its 31 leading zeros.
+    expect(toHex(der)).toBe(`3026022100${'80'.padEnd(64, '0')}020101`);
+    expect(toHex(unwrap(ecdsaSignatureFromDer(der, 'P-256')))).toBe(toHex(signature));
+  });
+
+  it('rejects a DER signature too long for the curve', () => {
+    const p384 = ecdsaSignatureToDer(new Uint8Array(96).fill(0x11));
+    const result = ecdsaSignatureFromDer(p384, 'P-256');
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('invalid-input');
+  });
+
+  it('rejects DER that is not SEQUENCE { INTEGER, INTEGER }', () => {
+    expect(ecdsaSignatureFromDer(fromHex('3006040101040101'), 'P-256').ok).toBe(false);
+  });
+});
+
+describe('ECDH', () => {
+  it.each(NAMED_CURVES)('gives Alice and Bob the same secret on %s', async curve => {
+    const alice = unwrap(await generateEcKeyPair('agreement', curve));
+    const bob = unwrap(await generateEcKeyPair('agreement', curve));
+    const aliceSecret = unwrap(await ecdhSharedSecret(alice.privateKey, bob.publicKey, curve));
+    const bobSecret = unwrap(await ecdhSharedSecret(bob.privateKey, alice.publicKey, curve));
+    expect(toHex(aliceSecret)).toBe(toHex(bobSecret));
+    expect(aliceSecret).toHaveLength({ 'P-256': 32, 'P-384': 48, 'P-521': 66 }[curve]);
+  });
+
+  it('refuses a peer key on another curve', async () => {
+    const alice = unwrap(await generateEcKeyPair('agreement', 'P-256'));
+    const bob = unwrap(await generateEcKeyPair('agreement', 'P-384'));
+    expect((await ecdhSharedSecret(alice.privateKey, bob.publicKey, 'P-256')).ok).toBe(false);
+  });
+});
@@ -0,0 +1,160 @@
+import { ASN1_TAG, encodeDer, encodeInteger, parseDer, unsignedInteger } from './asn1';
+import { decodeKeyAs } from './keys';
+import { derToPem } from './pem';
+import { Result, fail, ok } from './result';
+import { HashAlgorithm, KeyPair, NamedCurve, PrivateKeyInput } from './types';
+import { checkCryptoKey } from './webcrypto';
+
+export type EcUsage = 'signing' | 'agreement';
+
+export const NAMED_CURVES: NamedCurve[] = ['P-256', 'P-384', 'P-521'];
+
+// Each curve is paired with the hash of matching strength, as in TLS and JOSE.
+export const CURVE_HASH: Record<NamedCurve, HashAlgorithm> = {
+  'P-256': 'SHA-256',
+  'P-384': 'SHA-384',
+  'P-521': 'SHA-512'
+};
+
+const CURVE_SECRET_BITS: Record<NamedCurve, number> = {
+  'P-256': 256,
+  'P-384': 384,
+  'P-521': 528
+};
+
+const ALGORITHM: Record<EcUsage, 'ECDSA' | 'ECDH'> = {
+  signing: 'ECDSA',
+  agreement: 'ECDH'
+};
+
+const KEY_USAGES: Record<EcUsage, KeyUsage[]> = {
+  signing: ['sign', 'verify'],
+  agreement: ['deriveBits']
+};
+
+export const generateEcKeyPair = async (usage: EcUsage, curve: NamedCurve): Promise<Result<KeyPair>> => {
+  try {
+    const keyPair = await crypto.subtle.generateKey({ name: ALGORITHM[usage], namedCurve: curve }, true, KEY_USAGES[usage]);
+
+    const publicKeyBuffer = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+    const privateKeyBuffer = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+
+    return ok({
+      publicKey: derToPem(publicKeyBuffer, 'PUBLIC KEY'),
+      privateKey: derToPem(privateKeyBuffer, 'PRIVATE KEY'),
+      algorithm: { name: ALGORITHM[usage], curve }
+    });
+  } catch (error) {
+    return fail('key-generation-failed', `${ALGORITHM[usage]} ${curve} key generation failed.`, error);
+  }
+};
+
+const importEcKey = async (
+  input: PrivateKeyInput,
+  usage: EcUsage,
+  curve: NamedCurve,
+  isPublic: boolean,
+  keyUsages: KeyUsage[]
+): Promise<Result<CryptoKey>> => {
+  if (typeof input !== 'string') {
+    const checked = checkCryptoKey(input, ALGORITHM[usage], keyUsages[0]);
+    if (!checked.ok) return checked;
+    const { namedCurve } = input.algorithm as EcKeyAlgorithm;
+    return namedCurve === curve ? checked : fail('invalid-key', `The key is on ${namedCurve}, but ${curve} was expected.`);
+  }
+
+  const kind = isPublic ? 'public' : 'private';
+  const decoded = decodeKeyAs(input, kind, 'EC');
+  if (!decoded.ok) return decoded;
+  if (decoded.value.curve !== curve) {
+    return fail('invalid-key', `The ${kind} key is on ${decoded.value.curve}, but ${curve} was expected.`);
+  }
+  try {
+    return ok(
+      await crypto.subtle.importKey(
+        isPublic ? 'spki' : 'pkcs8',
+        decoded.value.der,
+        { name: ALGORITHM[usage], namedCurve: curve },
+        false,
+        keyUsages
+      )
+    );
+  } catch (error) {
+    return fail('invalid-key', `Could not import the ${kind} key as an ${ALGORITHM[usage]} ${curve} key.`, error);
+  }
+};
+
+// Signatures are in the IEEE P1363 form WebCrypto uses: r and s concatenated.
+export const signEcdsa = async (privateKey: PrivateKeyInput, curve: NamedCurve, message: Uint8Array): Promise<Result<Uint8Array>> => {
+  const key = await importEcKey(privateKey, 'signing', curve, false, ['sign']);
+  if (!key.ok) return key;
+
+  try {
+    return ok(new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: CURVE_HASH[curve] }, key.value, message)));
+  } catch (error) {
+    return fail('signing-failed', `ECDSA ${curve} signing failed.`, error);
+  }
+};
+
+export const verifyEcdsa = async (
+  publicKeyPem: string,
+  curve: NamedCurve,
+  message: Uint8Array,
+  signature: Uint8Array
+): Promise<Result<boolean>> => {
+  const key = await importEcKey(publicKeyPem, 'signing', curve, true, ['verify']);
+  if (!key.ok) return key;
+
+  try {
+    return ok(await crypto.subtle.verify({ name: 'ECDSA', hash: CURVE_HASH[curve] }, key.value, signature, message));
+  } catch (error) {
+    return fail('verification-failed', `ECDSA ${curve} verification could not be performed.`, error);
+  }
+};
+
+/** The same signature as the DER Ecdsa-Sig-Value SEQUENCE { r, s } used by X.509, CMS and OpenSSL. */
+export const ecdsaSignatureToDer = (signature: Uint8Array): Uint8Array => {
+  const half = signature.length / 2;
+  return encodeDer(ASN1_TAG.SEQUENCE, encodeInteger(signature.subarray(0, half)), encodeInteger(signature.subarray(half)));
+};
+
+/** Converts a DER Ecdsa-Sig-Value back to the fixed-length r ‖ s form WebCrypto verifies. */
+export const ecdsaSignatureFromDer = (der: Uint8Array, curve: NamedCurve): Result<Uint8Array> => {
+  const parsed = parseDer(der);
+  if (!parsed.ok) return parsed;
+  const [r, s] = parsed.value.children ?? [];
+  if (parsed.value.tag !== ASN1_TAG.SEQUENCE || r?.tag !== ASN1_TAG.INTEGER || s?.tag !== ASN1_TAG.INTEGER) {
+    return fail('invalid-input', 'Expected an Ecdsa-Sig-Value: SEQUENCE { r INTEGER, s INTEGER }.');
+  }
+
+  const size = CURVE_SECRET_BITS[curve] / 8;
+  const out = new Uint8Array(2 * size);
+  for (const [i, value] of [unsignedInteger(r.content), unsignedInteger(s.content)].entries()) {
+    if (value.length > size) return fail('invalid-input', `The signature is too long for ${curve}.`);
+    out.set(value, (i + 1) * size - value.length);
+  }
+  return ok(out);
+};
+
+/** Raw ECDH shared secret: the x-coordinate of our private scalar times the peer's public point. */
+export const ecdhSharedSecret = async (
+  ownPrivateKey: PrivateKeyInput,
+  peerPublicKeyPem: string,
+  curve: NamedCurve
+): Promise<Result<Uint8Array>> => {
+  const privateKey = await importEcKey(ownPrivateKey, 'agreement', curve, false, ['deriveBits']);
+  if (!privateKey.ok) return privateKey;
+  const publicKey = await importEcKey(peerPublicKeyPem, 'agreement', curve, true, []);
+  if (!publicKey.ok) return publicKey;
+
+  try {
+    const bits = await crypto.subtle.deriveBits(
+      { name: 'ECDH', public: publicKey.value },
+      privateKey.value,
+      CURVE_SECRET_BITS[curve]
+    );
+    return ok(new Uint8Array(bits));
+  } catch (error) {
+    return fail('invalid-key', 'ECDH key agreement failed.', error);
+  }
+};
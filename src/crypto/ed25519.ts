@@ -0,0 +1,76 @@
+import { ed25519PublicKey, ed25519Sign, ed25519Verify } from './curve25519';
+import { decodeKeyAs, rawKeyBytes, rawKeyToPem } from './keys';
+import { derToPem } from './pem';
+import { Result, fail, ok } from './result';
+import { KeyPair, PrivateKeyInput } from './types';
+import { checkCryptoKey, supportsNative } from './webcrypto';
+
+// Ed25519 keys are the same PEM whichever implementation made them, so a key generated
+// with native WebCrypto still works in a browser that falls back, and vice versa.
+
+export const generateEd25519KeyPair = async (): Promise<Result<KeyPair>> => {
+  try {
+    if (await supportsNative('Ed25519')) {
+      const keyPair = (await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify'])) as CryptoKeyPair;
+      return ok({
+        publicKey: derToPem(await crypto.subtle.exportKey('spki', keyPair.publicKey), 'PUBLIC KEY'),
+        privateKey: derToPem(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey), 'PRIVATE KEY'),
+        algorithm: { name: 'Ed25519' }
+      });
+    }
+
+    const seed = crypto.getRandomValues(new Uint8Array(32));
+    return ok({
+      publicKey: rawKeyToPem('Ed25519', await ed25519PublicKey(seed), 'public'),
+      privateKey: rawKeyToPem('Ed25519', seed, 'private'),
+      algorithm: { name: 'Ed25519' }
+    });
+  } catch (error) {
+    return fail('key-generation-failed', 'Ed25519 key generation failed.', error);
+  }
+};
+
+// A keyring CryptoKey only exists where the browser has native Ed25519.
+export const signEd25519 = async (privateKeyInput: PrivateKeyInput, message: Uint8Array): Promise<Result<Uint8Array>> => {
+  if (typeof privateKeyInput !== 'string') {
+    const key = checkCryptoKey(privateKeyInput, 'Ed25519', 'sign');
+    if (!key.ok) return key;
+    try {
+      return ok(new Uint8Array(await crypto.subtle.sign({ name: 'Ed25519' }, key.value, message)));
+    } catch (error) {
+      return fail('signing-failed', 'Ed25519 signing failed.', error);
+    }
+  }
+
+  const privateKey = decodeKeyAs(privateKeyInput, 'private', 'Ed25519');
+  if (!privateKey.ok) return privateKey;
+
+  try {
+    if (await supportsNative('Ed25519')) {
+      const key = await crypto.subtle.importKey('pkcs8', privateKey.value.der, { name: 'Ed25519' }, false, ['sign']);
+      return ok(new Uint8Array(await crypto.subtle.sign({ name: 'Ed25519' }, key, message)));
+    }
+    return ok(await ed25519Sign(rawKeyBytes(privateKey.value), message));
+  } catch (error) {
+    return fail('signing-failed', 'Ed25519 signing failed.', error);
+  }
+};
+
+export const verifyEd25519 = async (
+  publicKeyPem: string,
+  message: Uint8Array,
+  signature: Uint8Array
+): Promise<Result<boolean>> => {
+  const publicKey = decodeKeyAs(publicKeyPem, 'public', 'Ed25519');
+  if (!publicKey.ok) return publicKey;
+
+  try {
+    if (await supportsNative('Ed25519')) {
+      const key = await crypto.subtle.importKey('spki', publicKey.value.der, { name: 'Ed25519' }, false, ['verify']);
+      return ok(await crypto.subtle.verify({ name: 'Ed25519' }, key, signature, message));
+    }
+    return ok(await ed25519Verify(rawKeyBytes(publicKey.value), message, signature));
+  } catch (error) {
+    return fail('verification-failed', 'Ed25519 verification could not be performed.', error);
+  }
+};
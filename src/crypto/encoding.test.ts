@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { fromBase64, fromBase64Url, fromHex, parseBase64, toBase64, toBase64Url, toHex, utf8Decode, utf8Encode } from './encoding';
+
+describe('encoding', () => {
+  const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+
+  it('round-trips base64, base64url and hex', () => {
+    expect(fromBase64(toBase64(bytes))).toEqual(bytes);
+    expect(fromBase64Url(toBase64Url(bytes))).toEqual(bytes);
+    expect(fromHex(toHex(bytes))).toEqual(bytes);
+  });
+
+  it('matches RFC 4648 test vectors', () => {
+    expect(toBase64(utf8Encode('foobar'))).toBe('Zm9vYmFy');
+    expect(toBase64(utf8Encode('fo'))).toBe('Zm8=');
+    expect(toBase64Url(new Uint8Array([0xfb, 0xff]))).toBe('-_8');
+  });
+
+  it('round-trips UTF-8', () => {
+    expect(utf8Decode(utf8Encode('Grüße, 世界 🔑'))).toBe('Grüße, 世界 🔑');
+  });
+
+  it('reports invalid input as a result instead of throwing', () => {
+    const parsed = parseBase64('not base64!', 'Key');
+    expect(parsed.ok).toBe(false);
+    if (!parsed.ok) expect(parsed.error.code).toBe('invalid-input');
+    expect(() => fromHex('abc')).toThrow();
+  });
+});
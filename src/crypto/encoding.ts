@@ -0,0 +1,62 @@
+import { Result, fail, ok } from './result';
+
+export const utf8Encode = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+export const utf8Decode = (bytes: ArrayBuffer | Uint8Array): string => new TextDecoder().decode(bytes);
+
+// String.fromCharCode(...bytes) overflows the call stack on large buffers, so build the
+// binary string one byte at a time instead.
+export const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary);
+};
+
+// Throws a DOMException when the input is not valid base64.
+export const fromBase64 = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64.replace(/\s+/g, '')), c => c.charCodeAt(0));
+
+// RFC 4648 section 5: URL-safe alphabet, no padding.
+export const toBase64Url = (bytes: ArrayBuffer | Uint8Array): string =>
+  toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (base64Url: string): Uint8Array => {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+  return fromBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+};
+
+export const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+export const fromHex = (hex: string): Uint8Array => {
+  const clean = hex.replace(/\s+/g, '');
+  if (clean.length % 2 !== 0 || /[^0-9a-fA-F]/.test(clean)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+export const parseBase64 = (base64: string, what: string): Result<Uint8Array> => {
+  try {
+    return ok(fromBase64(base64));
+  } catch (error) {
+    return fail('invalid-input', `${what} is not valid base64.`, error);
+  }
+};
+
+export const parseBase64Url = (base64Url: string, what: string): Result<Uint8Array> => {
+  try {
+    return ok(fromBase64Url(base64Url));
+  } catch (error) {
+    return fail('invalid-input', `${what} is not valid base64url.`, error);
+  }
+};
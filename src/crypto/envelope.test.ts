@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { fromBase64Url, toBase64, toBase64Url, utf8Decode, utf8Encode } from './encoding';
+import {
+  decodeRsaEnvelope,
+  decodeSymmetricEnvelope,
+  encodeEnvelope,
+  encodeRsaEnvelope,
+  encodeSymmetricEnvelope,
+  readEnvelopeHeader
+} from './envelope';
+import { createKdfParams } from './kdf';
+import { decryptSymmetric, encryptSymmetric, encryptThenMac, generateSymmetricKey, SYMMETRIC_MODES } from './symmetric';
+import { unwrap } from './testing';
+
+describe('ciphertext envelope', () => {
+  const plaintext = utf8Encode('meet me at the usual place');
+
+  it.each(SYMMETRIC_MODES)('round-trips %s through the envelope', async mode => {
+    const key = generateSymmetricKey();
+    // AES-KW only wraps key material.
+    const message = mode === 'AES-KW' ? generateSymmetricKey() : plaintext;
+    const text = encodeSymmetricEnvelope(unwrap(await encryptSymmetric(message, key, mode)));
+    expect(readEnvelopeHeader(text)?.alg).toBe(mode);
+    expect(unwrap(await decryptSymmetric(unwrap(decodeSymmetricEnvelope(text)), key))).toEqual(message);
+  });
+
+  it('carries the encrypt-then-MAC tag and KDF parameters', async () => {
+    const key = generateSymmetricKey();
+    const kdf = createKdfParams('scrypt');
+    const encrypted = unwrap(await encryptThenMac(plaintext, key, 'AES-CTR', 'HS384'));
+    const decoded = unwrap(decodeSymmetricEnvelope(encodeSymmetricEnvelope({ ...encrypted, kdf })));
+    expect(decoded.mac?.algorithm).toBe('HS384');
+    expect(decoded.kdf).toEqual(kdf);
+    expect(utf8Decode(unwrap(await decryptSymmetric(decoded, key)))).toBe('meet me at the usual place');
+  });
+
+  it('still reads the legacy "ciphertext.iv" form', async () => {
+    const key = generateSymmetricKey();
+    const encrypted = unwrap(await encryptSymmetric(plaintext, key));
+    const decoded = unwrap(decodeSymmetricEnvelope(`${toBase64(encrypted.ciphertext)}.${toBase64(encrypted.iv)}`));
+    expect(utf8Decode(unwrap(await decryptSymmetric(decoded, key)))).toBe('meet me at the usual place');
+  });
+
+  it('round-trips RSA-OAEP envelopes with their hash', () => {
+    const ciphertext = new Uint8Array([1, 2, 3]);
+    const text = encodeRsaEnvelope({ ciphertext, hash: 'SHA-384' });
+    expect(readEnvelopeHeader(text)?.alg).toBe('RSA-OAEP-384');
+    expect(unwrap(decodeRsaEnvelope(text))).toEqual({ ciphertext, hash: 'SHA-384' });
+  });
+
+  it('rejects newer versions, the wrong cipher family and oversized KDF parameters', () => {
+    const newer = encodeEnvelope({ alg: 'AES-GCM' }, new Uint8Array(16)).split('.');
+    const header = JSON.parse(utf8Decode(fromBase64Url(newer[0])));
+    const bumped = `${toBase64Url(utf8Encode(JSON.stringify({ ...header, v: 2 })))}.${newer[1]}`;
+    expect(decodeSymmetricEnvelope(bumped).ok).toBe(false);
+    expect(decodeSymmetricEnvelope(encodeRsaEnvelope({ ciphertext: new Uint8Array(4), hash: 'SHA-256' })).ok).toBe(false);
+    const greedy = encodeEnvelope(
+      { alg: 'AES-GCM', iv: 'AAAAAAAAAAAAAAAA', tag: 'AAAAAAAAAAAAAAAAAAAAAA', kdf: 'scrypt$N=1073741824,r=8,p=1$c2FsdHNhbHQ=' },
+      new Uint8Array(4)
+    );
+    expect(decodeSymmetricEnvelope(greedy).ok).toBe(false);
+  });
+});
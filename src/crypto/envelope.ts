@@ -0,0 +1,248 @@
+import { parseBase64, parseBase64Url, toBase64Url, utf8Decode, utf8Encode } from './encoding';
+import { formatKdfParams, KdfParams, parseKdfParams } from './kdf';
+import { HybridCiphertext } from './hybrid';
+import { MAC_ALGORITHMS, MacAlgorithm } from './mac';
+import { Result, fail, ok } from './result';
+import { RsaCiphertext } from './rsa';
+import { ETM_MODES, GCM_TAG_BYTES, SYMMETRIC_MODES, SymmetricCiphertext, SymmetricMode } from './symmetric';
+import { HashAlgorithm } from './types';
+
+/*
+ * Ciphertext envelope, version 1.
+ *
+ * Compact form, modelled on JWE: two base64url segments joined by a dot,
+ *
+ *   BASE64URL(UTF-8(JSON header)) "." BASE64URL(ciphertext)
+ *
+ * Header fields:
+ *   v    envelope version (currently 1)
+ *   alg  AES-GCM | AES-CBC | AES-CTR | AES-KW, or RSA-OAEP | RSA-OAEP-256 | RSA-OAEP-384 |
+ *        RSA-OAEP-512 naming the OAEP hash as in JWA (plain RSA-OAEP is SHA-1)
+ *   enc  content cipher for hybrid RSA messages (AES-GCM); absent for direct RSA
+ *   ek   base64url RSA-OAEP-wrapped content key of a hybrid message
+ *   iv   base64url IV or initial counter block (absent for AES-KW and direct RSA)
+ *   tag  base64url AES-GCM authentication tag, split off the ciphertext, or the HMAC tag
+ *   mac  HS256 | HS384 | HS512 when AES-CBC or AES-CTR is encrypt-then-MAC; tag then holds
+ *        the HMAC over iv ‖ ciphertext
+ *   kdf  passphrase derivation as "<alg>$<params>$<base64 salt>", e.g.
+ *        "pbkdf2-sha256$i=600000$c2FsdHNhbHRzYWx0c2FsdA=="
+ *
+ * Messages from before the envelope ("ciphertext.iv" for AES, bare base64 for RSA)
+ * are still accepted by the decoders below.
+ */
+
+export const ENVELOPE_VERSION = 1;
+
+export type RsaOaepAlgorithm = 'RSA-OAEP' | 'RSA-OAEP-256' | 'RSA-OAEP-384' | 'RSA-OAEP-512';
+
+export type EnvelopeAlgorithm = SymmetricMode | RsaOaepAlgorithm;
+
+const RSA_OAEP_ALGORITHMS: Record<HashAlgorithm, RsaOaepAlgorithm> = {
+  'SHA-1': 'RSA-OAEP',
+  'SHA-256': 'RSA-OAEP-256',
+  'SHA-384': 'RSA-OAEP-384',
+  'SHA-512': 'RSA-OAEP-512'
+};
+
+const oaepHashOf = (alg: EnvelopeAlgorithm): HashAlgorithm | undefined =>
+  (Object.keys(RSA_OAEP_ALGORITHMS) as HashAlgorithm[]).find(hash => RSA_OAEP_ALGORITHMS[hash] === alg);
+
+export interface EnvelopeHeader {
+  v: number;
+  alg: EnvelopeAlgorithm;
+  enc?: 'AES-GCM';
+  ek?: string;
+  iv?: string;
+  tag?: string;
+  mac?: MacAlgorithm;
+  kdf?: string;
+}
+
+export interface DecodedEnvelope {
+  header: EnvelopeHeader;
+  ciphertext: Uint8Array;
+}
+
+export const encodeEnvelope = (header: Omit<EnvelopeHeader, 'v'>, ciphertext: Uint8Array): string =>
+  `${toBase64Url(utf8Encode(JSON.stringify({ v: ENVELOPE_VERSION, ...header })))}.${toBase64Url(ciphertext)}`;
+
+const isEnvelopeHeader = (value: unknown): value is EnvelopeHeader =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as EnvelopeHeader).v === 'number' &&
+  typeof (value as EnvelopeHeader).alg === 'string';
+
+/** Returns the parsed header, or null when the text is not a v1+ envelope at all. */
+export const readEnvelopeHeader = (text: string): EnvelopeHeader | null => {
+  const [headerPart, ciphertextPart, ...rest] = text.trim().split('.');
+  if (!headerPart || ciphertextPart === undefined || rest.length > 0) return null;
+  const header = parseBase64Url(headerPart, 'Envelope header');
+  if (!header.ok) return null;
+  try {
+    const parsed: unknown = JSON.parse(utf8Decode(header.value));
+    return isEnvelopeHeader(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const decodeEnvelope = (text: string): Result<DecodedEnvelope> => {
+  const header = readEnvelopeHeader(text);
+  if (!header) return fail('invalid-input', 'Not a ciphertext envelope.');
+  if (header.v > ENVELOPE_VERSION) {
+    return fail('invalid-input', `Envelope version ${header.v} is newer than this lab supports (${ENVELOPE_VERSION}).`);
+  }
+  const ciphertext = parseBase64Url(text.trim().split('.')[1], 'Envelope ciphertext');
+  if (!ciphertext.ok) return ciphertext;
+  return ok({ header, ciphertext: ciphertext.value });
+};
+
+export const encodeSymmetricEnvelope = ({ mode, ciphertext, iv, kdf, mac }: SymmetricCiphertext): string => {
+  const header: Omit<EnvelopeHeader, 'v'> = { alg: mode };
+  let body = ciphertext;
+  if (iv.length > 0) header.iv = toBase64Url(iv);
+  if (mode === 'AES-GCM') {
+    header.tag = toBase64Url(ciphertext.subarray(ciphertext.length - GCM_TAG_BYTES));
+    body = ciphertext.subarray(0, ciphertext.length - GCM_TAG_BYTES);
+  }
+  if (mac) {
+    header.mac = mac.algorithm;
+    header.tag = toBase64Url(mac.tag);
+  }
+  if (kdf) header.kdf = formatKdfParams(kdf);
+  return encodeEnvelope(header, body);
+};
+
+export const decodeSymmetricEnvelope = (text: string): Result<SymmetricCiphertext> => {
+  if (!readEnvelopeHeader(text)) return parseLegacySymmetricCiphertext(text);
+
+  const envelope = decodeEnvelope(text);
+  if (!envelope.ok) return envelope;
+  const { header } = envelope.value;
+  if (!SYMMETRIC_MODES.includes(header.alg as SymmetricMode)) {
+    return fail('invalid-input', `This message uses ${header.alg}, not a symmetric cipher.`);
+  }
+  const mode = header.alg as SymmetricMode;
+
+  const iv = parseBase64Url(header.iv ?? '', 'Envelope IV');
+  if (!iv.ok) return iv;
+
+  let ciphertext = envelope.value.ciphertext;
+  if (mode === 'AES-GCM') {
+    const tag = parseBase64Url(header.tag ?? '', 'Envelope tag');
+    if (!tag.ok) return tag;
+    ciphertext = new Uint8Array([...ciphertext, ...tag.value]);
+  }
+
+  let mac: SymmetricCiphertext['mac'];
+  if (header.mac) {
+    if (!MAC_ALGORITHMS.includes(header.mac) || !ETM_MODES.includes(mode)) {
+      return fail('invalid-input', `${mode} with a ${header.mac} tag is not a supported encrypt-then-MAC combination.`);
+    }
+    const tag = parseBase64Url(header.tag ?? '', 'Envelope tag');
+    if (!tag.ok) return tag;
+    mac = { algorithm: header.mac, tag: tag.value };
+  }
+
+  let kdf: KdfParams | undefined;
+  if (header.kdf) {
+    const parsed = parseKdfParams(header.kdf);
+    if (!parsed.ok) return parsed;
+    kdf = parsed.value;
+  }
+  return ok({ mode, ciphertext, iv: iv.value, kdf, mac });
+};
+
+export const encodeRsaEnvelope = ({ ciphertext, hash }: RsaCiphertext): string =>
+  encodeEnvelope({ alg: RSA_OAEP_ALGORITHMS[hash] }, ciphertext);
+
+export const decodeRsaEnvelope = (text: string): Result<RsaCiphertext> => {
+  if (!readEnvelopeHeader(text)) {
+    const ciphertext = parseBase64(text.trim(), 'Encrypted message');
+    if (!ciphertext.ok) return ciphertext;
+    return ok({ ciphertext: ciphertext.value, hash: 'SHA-256' });
+  }
+
+  const envelope = decodeEnvelope(text);
+  if (!envelope.ok) return envelope;
+  const { header } = envelope.value;
+  const hash = oaepHashOf(header.alg);
+  if (!hash) {
+    return fail('invalid-input', `This message uses ${header.alg}, not RSA-OAEP.`);
+  }
+  if (header.enc) {
+    return fail('invalid-input', 'This is a hybrid message; its payload is encrypted with a wrapped content key.');
+  }
+  return ok({ ciphertext: envelope.value.ciphertext, hash });
+};
+
+export const encodeHybridEnvelope = ({ wrappedKey, iv, ciphertext, hash }: HybridCiphertext): string =>
+  encodeEnvelope(
+    {
+      alg: RSA_OAEP_ALGORITHMS[hash],
+      enc: 'AES-GCM',
+      ek: toBase64Url(wrappedKey),
+      iv: toBase64Url(iv),
+      tag: toBase64Url(ciphertext.subarray(ciphertext.length - GCM_TAG_BYTES))
+    },
+    ciphertext.subarray(0, ciphertext.length - GCM_TAG_BYTES)
+  );
+
+export const decodeHybridEnvelope = (text: string): Result<HybridCiphertext> => {
+  const envelope = decodeEnvelope(text);
+  if (!envelope.ok) return envelope;
+  const { header } = envelope.value;
+  const hash = oaepHashOf(header.alg);
+  if (!hash || header.enc !== 'AES-GCM') {
+    return fail('invalid-input', 'Not a hybrid RSA-OAEP + AES-GCM message.');
+  }
+
+  const wrappedKey = parseBase64Url(header.ek ?? '', 'Wrapped content key');
+  if (!wrappedKey.ok) return wrappedKey;
+  const iv = parseBase64Url(header.iv ?? '', 'Envelope IV');
+  if (!iv.ok) return iv;
+  const tag = parseBase64Url(header.tag ?? '', 'Envelope tag');
+  if (!tag.ok) return tag;
+
+  return ok({
+    wrappedKey: wrappedKey.value,
+    iv: iv.value,
+    ciphertext: new Uint8Array([...envelope.value.ciphertext, ...tag.value]),
+    hash
+  });
+};
+
+/** True for envelopes whose payload is under a wrapped content key rather than raw RSA. */
+export const isHybridEnvelope = (text: string): boolean => readEnvelopeHeader(text)?.enc !== undefined;
+
+/**
+ * Pre-envelope symmetric format, "[<mode>:]<ciphertext>.<iv>[.<kdf>]": the mode is
+ * omitted for AES-GCM, ciphertext and IV are standard base64, and the KDF parameters
+ * follow when the key came from a passphrase.
+ */
+export const parseLegacySymmetricCiphertext = (text: string): Result<SymmetricCiphertext> => {
+  let body = text.trim();
+  let mode: SymmetricMode = 'AES-GCM';
+  const modeMatch = /^(AES-[A-Z]+):/.exec(body);
+  if (modeMatch) {
+    if (!SYMMETRIC_MODES.includes(modeMatch[1] as SymmetricMode)) {
+      return fail('invalid-input', `Unknown cipher mode "${modeMatch[1]}".`);
+    }
+    mode = modeMatch[1] as SymmetricMode;
+    body = body.slice(modeMatch[0].length);
+  }
+
+  const [ciphertextPart, ivPart, kdfPart, ...rest] = body.split('.');
+  if (!ciphertextPart || ivPart === undefined || (!ivPart && mode !== 'AES-KW') || rest.length > 0) {
+    return fail('invalid-input', 'Expected a ciphertext envelope or a legacy "ciphertext.iv" message.');
+  }
+  const ciphertext = parseBase64(ciphertextPart, 'Ciphertext');
+  if (!ciphertext.ok) return ciphertext;
+  const iv = parseBase64(ivPart, 'IV');
+  if (!iv.ok) return iv;
+  if (kdfPart === undefined) return ok({ mode, ciphertext: ciphertext.value, iv: iv.value });
+
+  const kdf = parseKdfParams(kdfPart);
+  if (!kdf.ok) return kdf;
+  return ok({ mode, ciphertext: ciphertext.value, iv: iv.value, kdf: kdf.value });
+};
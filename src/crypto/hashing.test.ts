@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { toHex, utf8Encode } from './encoding';
+import { extendSha256Mac, hashWith, naiveSha256Mac } from './hashing';
+import { sha256 } from './sha256';
+import { unwrap } from './testing';
+
+describe('hash playground', () => {
+  it('agrees with WebCrypto on SHA-256', async () => {
+    const data = utf8Encode('a'.repeat(200));
+    expect(toHex(unwrap(await hashWith('SHA-256', data)))).toBe(toHex(sha256(data)));
+  });
+
+  it('forges a naive MAC by length extension without the secret', () => {
+    const secret = utf8Encode('sixteen byte key');
+    const message = utf8Encode('user=student&role=guest');
+    const suffix = utf8Encode('&role=admin');
+    const extension = extendSha256Mac(naiveSha256Mac(secret, message), secret.length, message, suffix);
+    expect(toHex(extension.message)).toBe(toHex(new Uint8Array([...message, ...extension.padding, ...suffix])));
+    expect(toHex(naiveSha256Mac(secret, extension.message))).toBe(toHex(extension.mac));
+  });
+
+  it('produces a MAC that does not verify when the secret length is guessed wrong', () => {
+    const secret = utf8Encode('sixteen byte key');
+    const message = utf8Encode('user=student');
+    const extension = extendSha256Mac(naiveSha256Mac(secret, message), secret.length + 1, message, utf8Encode('&admin'));
+    expect(toHex(naiveSha256Mac(secret, extension.message))).not.toBe(toHex(extension.mac));
+  });
+});
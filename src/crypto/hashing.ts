@@ -0,0 +1,156 @@
+import { blake2b } from './blake2b';
+import { digest } from './digest';
+import { utf8Encode } from './encoding';
+import { md5 } from './md5';
+import { Result, fail, ok } from './result';
+import { sha256, sha256Padding } from './sha256';
+import { sha3 } from './sha3';
+
+/*
+ * The hash playground: WebCrypto's SHA family next to pure TypeScript MD5, SHA-3 and BLAKE2b,
+ * plus the exercises. Collisions and preimages are searched for on digests truncated to a
+ * few bits, where the 2^(n/2) and 2^n costs are small enough to watch.
+ */
+
+export type HashFunction = 'MD5' | 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512' | 'SHA3-256' | 'SHA3-512' | 'BLAKE2b-256' | 'BLAKE2b-512';
+
+export type HashStatus = 'broken' | 'current';
+
+export const HASH_FUNCTIONS: { name: HashFunction; status: HashStatus; note: string }[] = [
+  { name: 'MD5', status: 'broken', note: 'Collisions in seconds since 2004; still seen in old checksums.' },
+  { name: 'SHA-1', status: 'broken', note: 'A practical collision was published in 2017 (SHAttered).' },
+  { name: 'SHA-256', status: 'current', note: 'SHA-2, Merkle-Damgård construction: open to length extension.' },
+  { name: 'SHA-384', status: 'current', note: 'SHA-512 truncated with a different IV, which blocks length extension.' },
+  { name: 'SHA-512', status: 'current', note: 'SHA-2 on 64-bit words, faster than SHA-256 on 64-bit CPUs.' },
+  { name: 'SHA3-256', status: 'current', note: 'Keccak sponge: a different design, immune to length extension.' },
+  { name: 'SHA3-512', status: 'current', note: 'The same sponge with a smaller rate and twice the capacity.' },
+  { name: 'BLAKE2b-256', status: 'current', note: 'Fast software hash from ChaCha, used inside Argon2.' },
+  { name: 'BLAKE2b-512', status: 'current', note: 'Full-length BLAKE2b output.' }
+];
+
+export const hashWith = async (fn: HashFunction, data: Uint8Array): Promise<Result<Uint8Array>> => {
+  switch (fn) {
+    case 'MD5':
+      return ok(md5(data));
+    case 'SHA-1':
+    case 'SHA-256':
+    case 'SHA-384':
+    case 'SHA-512':
+      return digest(data, fn);
+    case 'SHA3-256':
+      return ok(sha3(data, 256));
+    case 'SHA3-512':
+      return ok(sha3(data, 512));
+    case 'BLAKE2b-256':
+      return ok(blake2b(data, 32));
+    case 'BLAKE2b-512':
+      return ok(blake2b(data, 64));
+  }
+};
+
+/** For each bit of the shorter input, whether the two differ there. */
+export const bitDifferences = (a: Uint8Array, b: Uint8Array): boolean[] =>
+  Array.from({ length: Math.min(a.length, b.length) * 8 }, (_, i) => ((a[i >> 3] ^ b[i >> 3]) & (0x80 >> (i & 7))) !== 0);
+
+/** The first `bits` bits of a digest as hex, with the unused low bits of the last byte cleared. */
+export const truncateDigest = (digestBytes: Uint8Array, bits: number): string => {
+  const bytes = digestBytes.slice(0, Math.ceil(bits / 8));
+  if (bits % 8) bytes[bytes.length - 1] &= 0xff << (8 - (bits % 8));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export interface TruncatedMatch {
+  first: Uint8Array;
+  second: Uint8Array;
+  truncated: string;
+  attempts: number;
+}
+
+// Gives the browser a chance to repaint between batches of synchronous hashing.
+const YIELD_EVERY = 2000;
+const pause = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const candidate = (prefix: string, i: number) => utf8Encode(`${prefix} #${i}`);
+
+/**
+ * Birthday search: hashes numbered messages until two share their first `bits` bits.
+ * Expect about 1.2 × 2^(bits/2) attempts.
+ */
+export const findTruncatedCollision = async (
+  fn: HashFunction,
+  bits: number,
+  prefix: string,
+  onProgress: (attempts: number) => void = () => {}
+): Promise<Result<TruncatedMatch>> => {
+  const maxAttempts = 2 ** (bits / 2) * 16;
+  const seen = new Map<string, number>();
+  for (let i = 0; i < maxAttempts; i++) {
+    const message = candidate(prefix, i);
+    const hashed = await hashWith(fn, message);
+    if (!hashed.ok) return hashed;
+    const truncated = truncateDigest(hashed.value, bits);
+    const earlier = seen.get(truncated);
+    if (earlier !== undefined) return ok({ first: candidate(prefix, earlier), second: message, truncated, attempts: i + 1 });
+    seen.set(truncated, i);
+    if (i % YIELD_EVERY === YIELD_EVERY - 1) {
+      onProgress(i + 1);
+      await pause();
+    }
+  }
+  return fail('digest-failed', `No collision in ${maxAttempts} attempts, which is very unlikely; try again with another prefix.`);
+};
+
+/**
+ * Second-preimage search: hashes numbered messages until one matches the target's first
+ * `bits` bits. Expect about 2^bits attempts, the square of the collision cost.
+ */
+export const findTruncatedPreimage = async (
+  fn: HashFunction,
+  bits: number,
+  target: Uint8Array,
+  prefix: string,
+  onProgress: (attempts: number) => void = () => {}
+): Promise<Result<TruncatedMatch>> => {
+  const targetHash = await hashWith(fn, target);
+  if (!targetHash.ok) return targetHash;
+  const truncated = truncateDigest(targetHash.value, bits);
+  const maxAttempts = 2 ** bits * 8;
+  for (let i = 0; i < maxAttempts; i++) {
+    const message = candidate(prefix, i);
+    const hashed = await hashWith(fn, message);
+    if (!hashed.ok) return hashed;
+    if (truncateDigest(hashed.value, bits) === truncated) return ok({ first: target, second: message, truncated, attempts: i + 1 });
+    if (i % YIELD_EVERY === YIELD_EVERY - 1) {
+      onProgress(i + 1);
+      await pause();
+    }
+  }
+  return fail('digest-failed', `No preimage in ${maxAttempts} attempts, which is very unlikely; try again with another prefix.`);
+};
+
+/* Length extension */
+
+/** The naive MAC SHA-256(secret ‖ message), which length extension breaks. */
+export const naiveSha256Mac = (secret: Uint8Array, message: Uint8Array): Uint8Array =>
+  sha256(new Uint8Array([...secret, ...message]));
+
+export interface LengthExtension {
+  // message ‖ padding ‖ suffix: what the attacker sends.
+  message: Uint8Array;
+  padding: Uint8Array;
+  // A valid naive MAC for it, computed without the secret.
+  mac: Uint8Array;
+}
+
+/**
+ * Given SHA-256(secret ‖ message) and a guess at the secret's length, resumes hashing from the
+ * digest to produce the MAC of secret ‖ message ‖ padding ‖ suffix.
+ */
+export const extendSha256Mac = (mac: Uint8Array, secretLength: number, message: Uint8Array, suffix: Uint8Array): LengthExtension => {
+  const padding = sha256Padding(secretLength + message.length);
+  return {
+    message: new Uint8Array([...message, ...padding, ...suffix]),
+    padding,
+    mac: sha256(suffix, { digest: mac, length: secretLength + message.length + padding.length })
+  };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { fromHex, toHex, utf8Encode } from './encoding';
+import { deriveKeySchedule, hkdf, hkdfExpand, hkdfExtract, HKDF_TEST_VECTORS } from './hkdf';
+import { unwrap } from './testing';
+
+// RFC 5869 appendix A, through both the WebCrypto path and the HMAC walk-through.
+describe('hkdf', () => {
+  it('keeps the A.1 output as printed in the RFC', () => {
+    expect(HKDF_TEST_VECTORS[0].okm).toBe('3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865');
+  });
+
+  it.each(HKDF_TEST_VECTORS)('$name: extract and expand', async vector => {
+    const prk = unwrap(await hkdfExtract(fromHex(vector.ikm), fromHex(vector.salt), vector.hash));
+    expect(toHex(prk)).toBe(vector.prk);
+    const { okm } = unwrap(await hkdfExpand(prk, fromHex(vector.info), vector.length, vector.hash));
+    expect(toHex(okm)).toBe(vector.okm);
+  });
+
+  it.each(HKDF_TEST_VECTORS)('$name: WebCrypto', async vector => {
+    const okm = unwrap(await hkdf(fromHex(vector.ikm), fromHex(vector.salt), fromHex(vector.info), vector.length, vector.hash));
+    expect(toHex(okm)).toBe(vector.okm);
+  });
+
+  it('rejects an expansion longer than 255 blocks', async () => {
+    const result = await hkdfExpand(new Uint8Array(32), new Uint8Array(0), 255 * 32 + 1);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('invalid-input');
+  });
+});
+
+describe('deriveKeySchedule', () => {
+  const master = utf8Encode('master secret');
+  const salt = utf8Encode('salt');
+
+  it('gives each info string its own key, matching a direct expand', async () => {
+    const schedule = unwrap(
+      await deriveKeySchedule(master, salt, [
+        { label: 'Encryption', info: 'enc', length: 32 },
+        { label: 'MAC', info: 'mac', length: 32 }
+      ])
+    );
+    const [enc, mac] = schedule.keys;
+    expect(toHex(enc.key)).not.toBe(toHex(mac.key));
+    const { okm } = unwrap(await hkdfExpand(schedule.prk, utf8Encode('mac'), 32));
+    expect(toHex(mac.key)).toBe(toHex(okm));
+  });
+
+  it('refuses two entries with the same info', async () => {
+    const result = await deriveKeySchedule(master, salt, [
+      { label: 'A', info: 'same', length: 16 },
+      { label: 'B', info: 'same', length: 16 }
+    ]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('invalid-input');
+  });
+});
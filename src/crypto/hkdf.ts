@@ -0,0 +1,212 @@
+import { HASH_BYTES } from './digest';
+import { utf8Encode } from './encoding';
+import { Result, fail, ok } from './result';
+import { HashAlgorithm } from './types';
+
+/** HKDF (RFC 5869) extract-and-expand via WebCrypto. `length` is in bytes. */
+export const hkdf = async (
+  inputKeyMaterial: Uint8Array,
+  salt: Uint8Array,
+  info: Uint8Array,
+  length: number,
+  hash: HashAlgorithm = 'SHA-256'
+): Promise<Result<Uint8Array>> => {
+  try {
+    const key = await crypto.subtle.importKey('raw', inputKeyMaterial, 'HKDF', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash, salt, info }, key, length * 8);
+    return ok(new Uint8Array(bits));
+  } catch (error) {
+    return fail('invalid-input', `HKDF-${hash} could not derive ${length} bytes.`, error);
+  }
+};
+
+/*
+ * The two halves of HKDF written out with HMAC, for the explorer: WebCrypto's deriveBits
+ * does both at once and never shows the pseudorandom key or the expand blocks.
+ *
+ *   PRK  = HMAC(salt, IKM)
+ *   T(i) = HMAC(PRK, T(i-1) ‖ info ‖ i),  OKM = first L bytes of T(1) ‖ T(2) ‖ …
+ */
+
+const hmac = async (hash: HashAlgorithm, key: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+  const imported = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', imported, data));
+};
+
+/** An empty salt stands for HashLen zero bytes, which is also what HMAC makes of an empty key. */
+export const hkdfExtract = async (
+  inputKeyMaterial: Uint8Array,
+  salt: Uint8Array,
+  hash: HashAlgorithm = 'SHA-256'
+): Promise<Result<Uint8Array>> => {
+  try {
+    return ok(await hmac(hash, salt.length > 0 ? salt : new Uint8Array(HASH_BYTES[hash]), inputKeyMaterial));
+  } catch (error) {
+    return fail('invalid-input', `HKDF-${hash} extract failed.`, error);
+  }
+};
+
+export interface HkdfExpansion {
+  // T(1), T(2)…, each one hash output long.
+  blocks: Uint8Array[];
+  okm: Uint8Array;
+}
+
+export const hkdfExpand = async (
+  prk: Uint8Array,
+  info: Uint8Array,
+  length: number,
+  hash: HashAlgorithm = 'SHA-256'
+): Promise<Result<HkdfExpansion>> => {
+  const hashLength = HASH_BYTES[hash];
+  if (!Number.isInteger(length) || length < 1 || length > 255 * hashLength) {
+    return fail('invalid-input', `HKDF-${hash} expands to between 1 and ${255 * hashLength} bytes.`);
+  }
+  try {
+    const blocks: Uint8Array[] = [];
+    let previous = new Uint8Array(0);
+    for (let i = 1; blocks.length * hashLength < length; i++) {
+      previous = await hmac(hash, prk, new Uint8Array([...previous, ...info, i]));
+      blocks.push(previous);
+    }
+    return ok({ blocks, okm: new Uint8Array(blocks.flatMap(block => [...block])).slice(0, length) });
+  } catch (error) {
+    return fail('invalid-input', `HKDF-${hash} expand failed.`, error);
+  }
+};
+
+export interface HkdfTestVector {
+  name: string;
+  hash: HashAlgorithm;
+  // Hex, as printed in RFC 5869 appendix A.
+  ikm: string;
+  salt: string;
+  info: string;
+  length: number;
+  prk: string;
+  okm: string;
+}
+
+const LONG_IKM =
+  '000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f202122232425262728292a2b2c2d2e2f' +
+  '303132333435363738393a3b3c3d3e3f404142434445464748494a4b4c4d4e4f';
+const LONG_SALT =
+  '606162636465666768696a6b6c6d6e6f707172737475767778797a7b7c7d7e7f808182838485868788898a8b8c8d8e8f' +
+  '909192939495969798999a9b9c9d9e9fa0a1a2a3a4a5a6a7a8a9aaabacadaeaf';
+const LONG_INFO =
+  'b0b1b2b3b4b5b6b7b8b9babbbcbdbebfc0c1c2c3c4c5c6c7c8c9cacbcccdcecfd0d1d2d3d4d5d6d7d8d9dadbdcdddedf' +
+  'e0e1e2e3e4e5e6e7e8e9eaebecedeeeff0f1f2f3f4f5f6f7f8f9fafbfcfdfeff';
+
+/** RFC 5869 appendix A. Case 7 omits the salt, which means the same as an empty one. */
+export const HKDF_TEST_VECTORS: HkdfTestVector[] = [
+  {
+    name: 'A.1 Basic test case with SHA-256',
+    hash: 'SHA-256',
+    ikm: '0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b',
+    salt: '000102030405060708090a0b0c',
+    info: 'f0f1f2f3f4f5f6f7f8f9',
+    length: 42,
+    prk: '077709362c2e32df0ddc3f0dc47bba6390b6c73bb50f9c3122ec844ad7c2b3e5',
+    okm: '3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865'
+  },
+  {
+    name: 'A.2 SHA-256 with longer inputs and outputs',
+    hash: 'SHA-256',
+    ikm: LONG_IKM,
+    salt: LONG_SALT,
+    info: LONG_INFO,
+    length: 82,
+    prk: '06a6b88c5853361a06104c9ceb35b45cef760014904671014a193f40c15fc244',
+    okm:
+      'b11e398dc80327a1c8e7f78c596a49344f012eda2d4efad8a050cc4c19afa97c59045a99cac7827271cb41c65e590e09' +
+      'da3275600c2f09b8367793a9aca3db71cc30c58179ec3e87c14c01d5c1f3434f1d87'
+  },
+  {
+    name: 'A.3 SHA-256 with zero-length salt and info',
+    hash: 'SHA-256',
+    ikm: '0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b',
+    salt: '',
+    info: '',
+    length: 42,
+    prk: '19ef24a32c717b167f33a91d6f648bdf96596776afdb6377ac434c1c293ccb04',
+    okm: '8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8'
+  },
+  {
+    name: 'A.4 Basic test case with SHA-1',
+    hash: 'SHA-1',
+    ikm: '0b0b0b0b0b0b0b0b0b0b0b',
+    salt: '000102030405060708090a0b0c',
+    info: 'f0f1f2f3f4f5f6f7f8f9',
+    length: 42,
+    prk: '9b6c18c432a7bf8f0e71c8eb88f4b30baa2ba243',
+    okm: '085a01ea1b10f36933068b56efa5ad81a4f14b822f5b091568a9cdd4f155fda2c22e422478d305f3f896'
+  },
+  {
+    name: 'A.5 SHA-1 with longer inputs and outputs',
+    hash: 'SHA-1',
+    ikm: LONG_IKM,
+    salt: LONG_SALT,
+    info: LONG_INFO,
+    length: 82,
+    prk: '8adae09a2a307059478d309b26c4115a224cfaf6',
+    okm:
+      '0bd770a74d1160f7c9f12cd5912a06ebff6adcae899d92191fe4305673ba2ffe8fa3f1a4e5ad79f3f334b3b202b2173c' +
+      '486ea37ce3d397ed034c7f9dfeb15c5e927336d0441f4c4300e2cff0d0900b52d3b4'
+  },
+  {
+    name: 'A.6 SHA-1 with zero-length salt and info',
+    hash: 'SHA-1',
+    ikm: '0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b',
+    salt: '',
+    info: '',
+    length: 42,
+    prk: 'da8c8a73c7fa77288ec6f5e7c297786aa0d32d01',
+    okm: '0ac1af7002b3d761d1e55298da9d0506b9ae52057220a306e07b6b87e8df21d0ea00033de03984d34918'
+  },
+  {
+    name: 'A.7 SHA-1, salt not provided, zero-length info',
+    hash: 'SHA-1',
+    ikm: '0c0c0c0c0c0c0c0c0c0c0c0c0c0c0c0c0c0c0c0c0c0c',
+    salt: '',
+    info: '',
+    length: 42,
+    prk: '2adccada18779e7c2077ad2eb19d3f3e731385dd',
+    okm: '2c91117204d745f3500d636a62f64f0ab3bae548aa53d423b0d1f27ebba6f5e5673a081d70cce7acfc48'
+  }
+];
+
+/* Key schedules */
+
+export interface KeyScheduleEntry {
+  label: string;
+  // Distinct info strings give independent keys from the same PRK.
+  info: string;
+  length: number;
+}
+
+export interface KeySchedule {
+  prk: Uint8Array;
+  keys: (KeyScheduleEntry & { key: Uint8Array })[];
+}
+
+/** One extract from the master secret, then one expand per entry, each through WebCrypto. */
+export const deriveKeySchedule = async (
+  masterSecret: Uint8Array,
+  salt: Uint8Array,
+  entries: KeyScheduleEntry[],
+  hash: HashAlgorithm = 'SHA-256'
+): Promise<Result<KeySchedule>> => {
+  if (masterSecret.length === 0) return fail('invalid-key', 'The master secret cannot be empty.');
+  if (new Set(entries.map(entry => entry.info)).size !== entries.length) {
+    return fail('invalid-input', 'Two keys share an info string, so they would be the same key.');
+  }
+  const prk = await hkdfExtract(masterSecret, salt, hash);
+  if (!prk.ok) return prk;
+  const keys: KeySchedule['keys'] = [];
+  for (const entry of entries) {
+    const key = await hkdf(masterSecret, salt, utf8Encode(entry.info), entry.length, hash);
+    if (!key.ok) return key;
+    keys.push({ ...entry, key: key.value });
+  }
+  return ok({ prk: prk.value, keys });
+};
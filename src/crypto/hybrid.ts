@@ -0,0 +1,55 @@
+import { DEFAULT_RSA_PARAMS, rsaOaepDecrypt, rsaOaepEncrypt } from './rsa';
+import { Result, ok } from './result';
+import { decryptSymmetric, encryptSymmetric, generateSymmetricKey } from './symmetric';
+import { HashAlgorithm, PrivateKeyInput, RsaParams } from './types';
+
+// Hybrid encryption, as in PGP, TLS and CMS: a fresh AES-256-GCM content key encrypts
+// the message and only that short key goes through RSA-OAEP.
+
+export interface HybridCiphertext {
+  wrappedKey: Uint8Array;
+  iv: Uint8Array;
+  // AES-GCM ciphertext with the 16-byte tag appended.
+  ciphertext: Uint8Array;
+  // OAEP hash used to wrap the content key.
+  hash: HashAlgorithm;
+}
+
+export interface HybridEncryption extends HybridCiphertext {
+  // Returned only so the lab can show it; real senders discard it immediately.
+  contentKey: Uint8Array;
+}
+
+export const hybridEncrypt = async (
+  publicKeyPem: string,
+  plaintext: Uint8Array,
+  params: RsaParams = DEFAULT_RSA_PARAMS
+): Promise<Result<HybridEncryption>> => {
+  const contentKey = generateSymmetricKey();
+
+  const encrypted = await encryptSymmetric(plaintext, contentKey, 'AES-GCM');
+  if (!encrypted.ok) return encrypted;
+
+  const wrappedKey = await rsaOaepEncrypt(publicKeyPem, contentKey, params);
+  if (!wrappedKey.ok) return wrappedKey;
+
+  return ok({
+    contentKey,
+    wrappedKey: wrappedKey.value,
+    iv: encrypted.value.iv,
+    ciphertext: encrypted.value.ciphertext,
+    hash: params.hash
+  });
+};
+
+// The hash comes from the message; the label, if any, from the recipient's key parameters.
+export const hybridDecrypt = async (
+  privateKey: PrivateKeyInput,
+  payload: HybridCiphertext,
+  params: RsaParams = DEFAULT_RSA_PARAMS
+): Promise<Result<Uint8Array>> => {
+  const contentKey = await rsaOaepDecrypt(privateKey, payload.wrappedKey, { ...params, hash: payload.hash });
+  if (!contentKey.ok) return contentKey;
+
+  return decryptSymmetric({ mode: 'AES-GCM', iv: payload.iv, ciphertext: payload.ciphertext }, contentKey.value);
+};
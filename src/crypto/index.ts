@@ -0,0 +1,40 @@
+export * from './result';
+export * from './types';
+export * from './encoding';
+export * from './pem';
+export * from './asn1';
+export * from './keys';
+export * from './digest';
+export * from './kdf';
+export { blake2b } from './blake2b';
+export { argon2id } from './argon2';
+export { scrypt } from './scrypt';
+export { md5 } from './md5';
+export { sha256, sha256Padding } from './sha256';
+export { sha3, type Sha3Bits } from './sha3';
+export * from './hashing';
+export * from './classical';
+export * from './symmetric';
+export * from './envelope';
+export * from './tamper';
+export * from './cribdrag';
+export * from './paddingoracle';
+export * from './rsa';
+export * from './hybrid';
+export * from './textbookrsa';
+export * from './rsapadding';
+export * from './ec';
+export * from './hkdf';
+export * from './mac';
+export * from './signature';
+export * from './jws';
+export * from './signatureformat';
+export * from './jwt';
+export * from './ed25519';
+export * from './x25519';
+export * from './agreement';
+export * from './webcrypto';
+export * from './keyring';
+export * from './workspace';
+export * from './messaging';
+export { ed25519PublicKey, ed25519Sign, ed25519Verify, x25519, x25519PublicKey } from './curve25519';
@@ -0,0 +1,143 @@
+import { HASH_BYTES } from './digest';
+import { parseBase64Url, toBase64Url, utf8Decode, utf8Encode } from './encoding';
+import { Result, fail, ok } from './result';
+import { SignatureScheme, signMessage, verifyMessage } from './signature';
+import { HashAlgorithm, NamedCurve, PrivateKeyInput } from './types';
+
+/*
+ * JSON Web Signature (RFC 7515), compact serialisation:
+ *
+ *   BASE64URL(UTF-8(header)) "." BASE64URL(payload) "." BASE64URL(signature)
+ *
+ * The signature covers the first two segments as ASCII, so the header is signed too. An empty
+ * payload segment is a detached JWS (appendix F): the payload travels separately. Signatures
+ * are in the same form WebCrypto produces, r ‖ s for ECDSA rather than DER.
+ */
+
+// JWA (RFC 7518, RFC 8037) names of the lab's signature schemes.
+export type JwsAlgorithm = 'PS256' | 'PS384' | 'PS512' | 'ES256' | 'ES384' | 'ES512' | 'EdDSA';
+
+export interface JwsHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+  [parameter: string]: unknown;
+}
+
+export interface DecodedJws {
+  header: JwsHeader;
+  // Empty for a detached JWS.
+  payload: Uint8Array;
+  detached: boolean;
+  signature: Uint8Array;
+  // The header and payload segments as they arrived, which is what the signature covers.
+  headerSegment: string;
+  payloadSegment: string;
+}
+
+const PS_BY_HASH: Partial<Record<HashAlgorithm, JwsAlgorithm>> = { 'SHA-256': 'PS256', 'SHA-384': 'PS384', 'SHA-512': 'PS512' };
+const ES_BY_CURVE: Record<NamedCurve, JwsAlgorithm> = { 'P-256': 'ES256', 'P-384': 'ES384', 'P-521': 'ES512' };
+
+/**
+ * The JWA name for a scheme. PS256 and friends fix the PSS salt to the hash length and have no
+ * SHA-1 variant, so RSA-PSS keys made with other parameters have none.
+ */
+export const jwsAlgorithmOf = (scheme: SignatureScheme): Result<JwsAlgorithm> => {
+  switch (scheme.name) {
+    case 'ECDSA':
+      return ok(ES_BY_CURVE[scheme.curve]);
+    case 'Ed25519':
+      return ok('EdDSA');
+    case 'RSA-PSS': {
+      const { hash, saltLength } = scheme.params;
+      const alg = PS_BY_HASH[hash];
+      if (!alg) return fail('invalid-input', `JWA defines no RSA-PSS algorithm with ${hash}.`);
+      if (saltLength !== HASH_BYTES[hash]) {
+        return fail('invalid-input', `${alg} requires a ${HASH_BYTES[hash]}-byte salt, but this key pair uses ${saltLength} bytes.`);
+      }
+      return ok(alg);
+    }
+  }
+};
+
+export const jwsSigningInput = (headerSegment: string, payloadSegment: string): Uint8Array =>
+  utf8Encode(`${headerSegment}.${payloadSegment}`);
+
+/** Signs `payload` as a compact JWS; `alg` is set from the scheme. */
+export const signJws = async (
+  header: Omit<JwsHeader, 'alg'>,
+  payload: Uint8Array,
+  scheme: SignatureScheme,
+  privateKey: PrivateKeyInput
+): Promise<Result<string>> => {
+  const alg = jwsAlgorithmOf(scheme);
+  if (!alg.ok) return alg;
+  const headerSegment = toBase64Url(utf8Encode(JSON.stringify({ alg: alg.value, ...header })));
+  const payloadSegment = toBase64Url(payload);
+  const signature = await signMessage(scheme, privateKey, jwsSigningInput(headerSegment, payloadSegment));
+  if (!signature.ok) return signature;
+  return ok(`${headerSegment}.${payloadSegment}.${toBase64Url(signature.value)}`);
+};
+
+const COMPACT_JWS = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*$/;
+
+/** True when the text has the shape of a compact JWS; nothing is decoded. */
+export const looksLikeJws = (text: string): boolean => COMPACT_JWS.test(text.trim());
+
+export const decodeJws = (text: string): Result<DecodedJws> => {
+  const trimmed = text.trim();
+  if (!looksLikeJws(trimmed)) return fail('invalid-input', 'A compact JWS is three base64url segments joined by dots.');
+  const [headerSegment, payloadSegment, signatureSegment] = trimmed.split('.');
+
+  const headerBytes = parseBase64Url(headerSegment, 'JWS header');
+  if (!headerBytes.ok) return headerBytes;
+  let header: unknown;
+  try {
+    header = JSON.parse(utf8Decode(headerBytes.value));
+  } catch (error) {
+    return fail('invalid-input', 'The JWS header is not JSON.', error);
+  }
+  if (typeof header !== 'object' || header === null || typeof (header as JwsHeader).alg !== 'string') {
+    return fail('invalid-input', 'The JWS header has no "alg".');
+  }
+
+  const payload = parseBase64Url(payloadSegment, 'JWS payload');
+  if (!payload.ok) return payload;
+  const signature = parseBase64Url(signatureSegment, 'JWS signature');
+  if (!signature.ok) return signature;
+  return ok({
+    header: header as JwsHeader,
+    payload: payload.value,
+    detached: payloadSegment === '',
+    signature: signature.value,
+    headerSegment,
+    payloadSegment
+  });
+};
+
+/**
+ * Verifies a decoded JWS with the scheme of the given key. The header's alg must name that
+ * scheme: trusting alg to choose the algorithm is what the alg-confusion attacks exploit.
+ * `detachedPayload` is required when the JWS carries none.
+ */
+export const verifyJws = async (
+  jws: DecodedJws,
+  scheme: SignatureScheme,
+  publicKeyPem: string,
+  detachedPayload?: Uint8Array
+): Promise<Result<boolean>> => {
+  // The JWA salt length, whatever the key pair was generated with.
+  const verifying: SignatureScheme =
+    scheme.name === 'RSA-PSS' ? { ...scheme, params: { ...scheme.params, saltLength: HASH_BYTES[scheme.params.hash] } } : scheme;
+  const expected = jwsAlgorithmOf(verifying);
+  if (!expected.ok) return expected;
+  if (jws.header.alg !== expected.value) {
+    return fail('invalid-input', `The JWS header says ${jws.header.alg}, but the key is for ${expected.value}.`);
+  }
+  let payloadSegment = jws.payloadSegment;
+  if (jws.detached) {
+    if (!detachedPayload) return fail('invalid-input', 'This JWS is detached: supply the payload it signs.');
+    payloadSegment = toBase64Url(detachedPayload);
+  }
+  return verifyMessage(verifying, publicKeyPem, jwsSigningInput(jws.headerSegment, payloadSegment), jws.signature);
+};
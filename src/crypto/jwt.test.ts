@@ -0,0 +1,99 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { generateEcKeyPair } from './ec';
+import { toBase64Url, utf8Encode } from './encoding';
+import { confusedJwt, crackHmacSecret, decodeJwt, JwtAlgorithm, JwtClaims, JwtVerifier, signJwt, unsignedJwt, verifyJwt } from './jwt';
+import { DEFAULT_RSA_PARAMS, generateRsaKeyPair } from './rsa';
+import { unwrap } from './testing';
+import { KeyPair } from './types';
+
+const NOW = 1_700_000_000;
+const AUDIENCE = 'cryptolab';
+const SECRET = 'correct horse battery staple';
+const claims: JwtClaims = { sub: 'student-42', aud: AUDIENCE, iat: NOW, exp: NOW + 3600 };
+
+const failedChecks = (verification: { checks: { name: string; status: string }[] }) =>
+  verification.checks.filter(check => check.status === 'failed').map(check => check.name);
+
+describe('JWT', () => {
+  let rsa: KeyPair;
+  let ec: KeyPair;
+
+  beforeAll(async () => {
+    rsa = unwrap(await generateRsaKeyPair('signing', { ...DEFAULT_RSA_PARAMS, modulusLength: 2048 }));
+    ec = unwrap(await generateEcKeyPair('signing', 'P-256'));
+  });
+
+  // The key each algorithm signs with, and the verifier key text for it.
+  const keysFor = (algorithm: JwtAlgorithm): [Uint8Array | string, string] => {
+    if (algorithm === 'HS256') return [utf8Encode(SECRET), SECRET];
+    const pair = algorithm === 'ES256' ? ec : rsa;
+    return [pair.privateKey, pair.publicKey];
+  };
+
+  const verifier = (algorithm: JwtAlgorithm | null, key: string, changes: Partial<JwtVerifier> = {}): JwtVerifier => ({
+    algorithm,
+    key,
+    audience: AUDIENCE,
+    now: NOW,
+    ...changes
+  });
+
+  it.each<JwtAlgorithm>(['HS256', 'RS256', 'PS256', 'ES256'])('signs and verifies %s', async algorithm => {
+    const [signingKey, verifyingKey] = keysFor(algorithm);
+    const token = unwrap(await signJwt(claims, algorithm, signingKey));
+    expect(unwrap(decodeJwt(token)).header.alg).toBe(algorithm);
+    const verification = await verifyJwt(token, verifier(algorithm, verifyingKey));
+    expect(verification.valid).toBe(true);
+    expect(verification.claims).toEqual(claims);
+  });
+
+  it('rejects a token whose claims were changed after signing', async () => {
+    const [header, , signature] = unwrap(await signJwt(claims, 'HS256', utf8Encode(SECRET))).split('.');
+    const forged = `${header}.${toBase64Url(utf8Encode(JSON.stringify({ ...claims, admin: true })))}.${signature}`;
+    expect(failedChecks(await verifyJwt(forged, verifier('HS256', SECRET)))).toEqual(['Signature']);
+  });
+
+  it('accepts alg "none" only when the header picks the algorithm', async () => {
+    const token = unsignedJwt({ ...claims, admin: true });
+    expect((await verifyJwt(token, verifier(null, SECRET))).valid).toBe(true);
+    expect(failedChecks(await verifyJwt(token, verifier('HS256', SECRET)))).toEqual(['Algorithm']);
+  });
+
+  it('accepts an RS256 to HS256 key-confusion token only when the header picks the algorithm', async () => {
+    const token = unwrap(await confusedJwt({ ...claims, admin: true }, rsa.publicKey));
+    expect((await verifyJwt(token, verifier(null, rsa.publicKey))).valid).toBe(true);
+    expect(failedChecks(await verifyJwt(token, verifier('RS256', rsa.publicKey)))).toEqual(['Algorithm']);
+  });
+
+  it('rejects an expired token and one for another audience', async () => {
+    const token = unwrap(await signJwt(claims, 'HS256', utf8Encode(SECRET)));
+    expect(failedChecks(await verifyJwt(token, verifier('HS256', SECRET, { now: NOW + 3600 })))).toEqual(['Expiry (exp)']);
+    expect(failedChecks(await verifyJwt(token, verifier('HS256', SECRET, { audience: 'elsewhere' })))).toEqual(['Audience (aud)']);
+  });
+
+  it.each([
+    ['two segments', 'eyJhbGciOiJIUzI1NiJ9.e30'],
+    ['a payload that is not JSON', `eyJhbGciOiJIUzI1NiJ9.${toBase64Url(utf8Encode('not json'))}.`],
+    ['an empty payload', 'eyJhbGciOiJIUzI1NiJ9..c2ln']
+  ])('reports %s as a format failure', async (_, token) => {
+    expect(decodeJwt(token).ok).toBe(false);
+    const verification = await verifyJwt(token, verifier('HS256', SECRET));
+    expect(verification).toMatchObject({ valid: false, claims: null });
+    expect(failedChecks(verification)).toEqual(['Format']);
+  });
+
+  it('finds a dictionary secret', async () => {
+    const token = unwrap(await signJwt(claims, 'HS256', utf8Encode('secret123')));
+    expect(unwrap(await crackHmacSecret(token, ['password', 'changeme', 'secret123', 'admin']))).toEqual({
+      secret: 'secret123',
+      attempts: 3
+    });
+    expect(unwrap(await crackHmacSecret(token, ['password', 'admin']))).toEqual({ secret: null, attempts: 2 });
+  });
+
+  it('refuses to crack a token that is not HS256', async () => {
+    const result = await crackHmacSecret(unsignedJwt(claims), ['secret']);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('invalid-input');
+  });
+});
@@ -0,0 +1,317 @@
+import { signEcdsa, verifyEcdsa } from './ec';
+import { toBase64Url, utf8Decode, utf8Encode } from './encoding';
+import { decodeJws, jwsSigningInput, JwsHeader } from './jws';
+import { constantTimeEqual, hmacSign, hmacVerify } from './mac';
+import { Result, fail, ok } from './result';
+import { DEFAULT_RSA_PARAMS, signPkcs1v15, signPss, verifyPkcs1v15, verifyPss } from './rsa';
+import { CheckStatus } from './tamper';
+import { PrivateKeyInput } from './types';
+
+/*
+ * JSON Web Tokens (RFC 7519): a JSON object of claims as the payload of a compact JWS. The
+ * verifier here reports each check separately so the lab can show which one stops a token,
+ * and it can be set to take the algorithm from the token's own header, as early libraries
+ * did, which is what alg "none" and RS256→HS256 key confusion exploit.
+ */
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'PS256' | 'ES256';
+
+export const JWT_ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'PS256', 'ES256'];
+
+// The registered claims the verifier checks; any others are carried along.
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  // NumericDates: seconds since the epoch.
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export interface DecodedJwt {
+  header: JwsHeader;
+  claims: JwtClaims;
+  signature: Uint8Array;
+  // The ASCII of header.payload, which is what the signature covers.
+  signingInput: Uint8Array;
+}
+
+export interface JwtCheck {
+  name: string;
+  status: CheckStatus;
+  message: string;
+}
+
+export interface JwtVerifier {
+  // The one algorithm accepted, or null to use whatever the token's header names.
+  algorithm: JwtAlgorithm | null;
+  // The shared secret as text for HS256, otherwise the public key PEM.
+  key: string;
+  // Required in aud; empty skips the check.
+  audience: string;
+  // Seconds since the epoch.
+  now: number;
+}
+
+export interface JwtVerification {
+  checks: JwtCheck[];
+  // Null when the token could not be decoded.
+  claims: JwtClaims | null;
+  // True unless a check failed.
+  valid: boolean;
+}
+
+const isJwtAlgorithm = (alg: string): alg is JwtAlgorithm => (JWT_ALGORITHMS as string[]).includes(alg);
+
+const encodeSegment = (value: object): string => toBase64Url(utf8Encode(JSON.stringify(value)));
+
+// PS256 fixes SHA-256 and a 32-byte salt, which are the RSA defaults.
+const signWith = (algorithm: JwtAlgorithm, key: Uint8Array | PrivateKeyInput, input: Uint8Array): Promise<Result<Uint8Array>> => {
+  if (algorithm === 'HS256') {
+    if (!(key instanceof Uint8Array)) return Promise.resolve(fail('invalid-key', 'HS256 signs with a shared secret, not a private key.'));
+    return hmacSign(input, key, 'HS256');
+  }
+  if (key instanceof Uint8Array) return Promise.resolve(fail('invalid-key', `${algorithm} signs with a private key, not a shared secret.`));
+  switch (algorithm) {
+    case 'RS256':
+      return signPkcs1v15(key, input);
+    case 'PS256':
+      return signPss(key, input, DEFAULT_RSA_PARAMS);
+    case 'ES256':
+      return signEcdsa(key, 'P-256', input);
+  }
+};
+
+const verifyWith = (algorithm: JwtAlgorithm, key: string, input: Uint8Array, signature: Uint8Array): Promise<Result<boolean>> => {
+  switch (algorithm) {
+    case 'HS256':
+      return hmacVerify(input, signature, utf8Encode(key), 'HS256');
+    case 'RS256':
+      return verifyPkcs1v15(key, input, signature);
+    case 'PS256':
+      return verifyPss(key, input, signature, DEFAULT_RSA_PARAMS);
+    case 'ES256':
+      return verifyEcdsa(key, 'P-256', input, signature);
+  }
+};
+
+/** `key` is the shared secret for HS256 and the private key otherwise. */
+export const signJwt = async (
+  claims: JwtClaims,
+  algorithm: JwtAlgorithm,
+  key: Uint8Array | PrivateKeyInput
+): Promise<Result<string>> => {
+  const headerSegment = encodeSegment({ alg: algorithm, typ: 'JWT' });
+  const payloadSegment = encodeSegment(claims);
+  const signature = await signWith(algorithm, key, jwsSigningInput(headerSegment, payloadSegment));
+  if (!signature.ok) return signature;
+  return ok(`${headerSegment}.${payloadSegment}.${toBase64Url(signature.value)}`);
+};
+
+export const parseJwtClaims = (json: string): Result<JwtClaims> => {
+  let claims: unknown;
+  try {
+    claims = JSON.parse(json);
+  } catch (error) {
+    return fail('invalid-input', 'The claims are not JSON.', error);
+  }
+  if (typeof claims !== 'object' || claims === null || Array.isArray(claims)) {
+    return fail('invalid-input', 'The claims must be a JSON object.');
+  }
+  return ok(claims as JwtClaims);
+};
+
+export const decodeJwt = (token: string): Result<DecodedJwt> => {
+  const jws = decodeJws(token);
+  if (!jws.ok) return jws;
+  const { header, payload, detached, signature, headerSegment, payloadSegment } = jws.value;
+  if (detached) return fail('invalid-input', 'A JWT carries its claims; the payload segment is empty.');
+  const claims = parseJwtClaims(utf8Decode(payload));
+  if (!claims.ok) return claims;
+  return ok({ header, claims: claims.value, signature, signingInput: jwsSigningInput(headerSegment, payloadSegment) });
+};
+
+const formatTime = (seconds: number) => new Date(seconds * 1000).toISOString().replace('.000', '');
+
+interface TimeClaim {
+  name: string;
+  // Whether the token is usable at `now` given the claim's value.
+  holds: (value: number, now: number) => boolean;
+  passed: string;
+  failed: string;
+  absent: string;
+}
+
+const EXPIRY: TimeClaim = {
+  name: 'Expiry (exp)',
+  holds: (exp, now) => now < exp,
+  passed: 'Valid until',
+  failed: 'Expired at',
+  absent: 'No exp claim: the token never expires.'
+};
+
+const NOT_BEFORE: TimeClaim = {
+  name: 'Not before (nbf)',
+  holds: (nbf, now) => now >= nbf,
+  passed: 'Valid since',
+  failed: 'Not valid before',
+  absent: 'No nbf claim: valid from the moment it is issued.'
+};
+
+const checkTime = ({ name, holds, passed, failed, absent }: TimeClaim, value: unknown, now: number): JwtCheck => {
+  if (value === undefined) return { name, status: 'absent', message: absent };
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return { name, status: 'failed', message: 'Not a NumericDate (seconds since the epoch).' };
+  }
+  return holds(value, now)
+    ? { name, status: 'passed', message: `${passed} ${formatTime(value)}.` }
+    : { name, status: 'failed', message: `${failed} ${formatTime(value)}; it is now ${formatTime(now)}.` };
+};
+
+/**
+ * Runs every check and reports each one, rather than stopping at the first failure. Signature
+ * checking follows `verifier.algorithm`; when it is null the header decides, so alg "none"
+ * skips the signature and HS256 uses the key text, even a public key, as the HMAC secret.
+ */
+export const verifyJwt = async (token: string, verifier: JwtVerifier): Promise<JwtVerification> => {
+  const decoded = decodeJwt(token);
+  if (!decoded.ok) {
+    return { checks: [{ name: 'Format', status: 'failed', message: decoded.error.message }], claims: null, valid: false };
+  }
+  const { header, claims, signature, signingInput } = decoded.value;
+  const checks: JwtCheck[] = [
+    { name: 'Format', status: 'passed', message: 'Three base64url segments; the header and claims are JSON objects.' }
+  ];
+
+  let algorithm: JwtAlgorithm | 'none' | null = null;
+  if (verifier.algorithm) {
+    if (header.alg === verifier.algorithm) {
+      algorithm = header.alg;
+      checks.push({ name: 'Algorithm', status: 'passed', message: `The header's alg is ${header.alg}, the only one this verifier accepts.` });
+    } else {
+      checks.push({ name: 'Algorithm', status: 'failed', message: `The header says ${header.alg}, but this verifier only accepts ${verifier.algorithm}.` });
+    }
+  } else if (header.alg === 'none' || isJwtAlgorithm(header.alg)) {
+    algorithm = header.alg;
+    checks.push({ name: 'Algorithm', status: 'passed', message: `Taken from the token's own header: ${header.alg}.` });
+  } else {
+    checks.push({ name: 'Algorithm', status: 'failed', message: `${header.alg} is not an algorithm this verifier knows.` });
+  }
+
+  if (algorithm === null) {
+    checks.push({ name: 'Signature', status: 'absent', message: 'Not checked: the algorithm was rejected.' });
+  } else if (algorithm === 'none') {
+    checks.push({ name: 'Signature', status: 'absent', message: 'alg is none, so there is nothing to check, and the token goes through unsigned.' });
+  } else {
+    const verified = await verifyWith(algorithm, verifier.key, signingInput, signature);
+    if (!verified.ok) checks.push({ name: 'Signature', status: 'failed', message: verified.error.message });
+    else if (!verified.value) checks.push({ name: 'Signature', status: 'failed', message: `The ${algorithm} signature does not match header.payload under this key.` });
+    else checks.push({ name: 'Signature', status: 'passed', message: `The ${algorithm} signature matches header.payload.` });
+  }
+
+  checks.push(checkTime(EXPIRY, claims.exp, verifier.now), checkTime(NOT_BEFORE, claims.nbf, verifier.now));
+
+  if (!verifier.audience) {
+    checks.push({ name: 'Audience (aud)', status: 'absent', message: 'Not checked: this verifier expects no audience.' });
+  } else {
+    const audiences = typeof claims.aud === 'string' ? [claims.aud] : Array.isArray(claims.aud) ? claims.aud : [];
+    checks.push(
+      audiences.includes(verifier.audience)
+        ? { name: 'Audience (aud)', status: 'passed', message: `Issued for ${verifier.audience}.` }
+        : {
+            name: 'Audience (aud)',
+            status: 'failed',
+            message: claims.aud === undefined ? `No aud claim, but this verifier requires ${verifier.audience}.` : `Issued for ${JSON.stringify(claims.aud)}, not ${verifier.audience}.`
+          }
+    );
+  }
+
+  return { checks, claims, valid: checks.every(check => check.status !== 'failed') };
+};
+
+/* Attacks */
+
+/** alg "none" and an empty signature segment: any claims at all, no key needed. */
+export const unsignedJwt = (claims: JwtClaims): string => `${encodeSegment({ alg: 'none', typ: 'JWT' })}.${encodeSegment(claims)}.`;
+
+/**
+ * RS256→HS256 key confusion: an HMAC over the token with the server's public key PEM as the
+ * secret. A verifier that lets the header pick the algorithm and is configured with that
+ * PEM computes the same tag.
+ */
+export const confusedJwt = (claims: JwtClaims, publicKeyPem: string): Promise<Result<string>> =>
+  signJwt(claims, 'HS256', utf8Encode(publicKeyPem));
+
+// Secrets that turn up in tutorials, defaults and leaked configs.
+export const WEAK_SECRETS = [
+  'secret',
+  'your-256-bit-secret',
+  'password',
+  'changeme',
+  'jwt-secret',
+  'jwtsecret',
+  'secretkey',
+  'secret123',
+  'supersecret',
+  'mysecret',
+  'shhhhh',
+  's3cr3t',
+  'admin',
+  'letmein',
+  'qwerty',
+  '123456',
+  'default',
+  'token',
+  'key',
+  'test'
+];
+
+/** Every string of lowercase letters up to `maxLength`, shortest first. */
+export const lowercaseWords = (maxLength: number): string[] => {
+  const words: string[] = [];
+  let previous = [''];
+  for (let length = 1; length <= maxLength; length++) {
+    previous = previous.flatMap(prefix => [...'abcdefghijklmnopqrstuvwxyz'].map(letter => prefix + letter));
+    words.push(...previous);
+  }
+  return words;
+};
+
+export interface CrackedSecret {
+  // Null when no candidate matched.
+  secret: string | null;
+  attempts: number;
+}
+
+const YIELD_EVERY = 500;
+const pause = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Offline dictionary attack on an HS256 token: one valid token is enough to test guesses
+ * without ever asking the server, so a secret a person chose falls in seconds.
+ */
+export const crackHmacSecret = async (
+  token: string,
+  candidates: string[],
+  onProgress: (attempts: number) => void = () => {}
+): Promise<Result<CrackedSecret>> => {
+  const decoded = decodeJwt(token);
+  if (!decoded.ok) return decoded;
+  const { header, signature, signingInput } = decoded.value;
+  if (header.alg !== 'HS256') return fail('invalid-input', `Only HS256 tokens have a secret to guess; this one is ${header.alg}.`);
+
+  for (let i = 0; i < candidates.length; i++) {
+    if (candidates[i]) {
+      const tag = await hmacSign(signingInput, utf8Encode(candidates[i]), 'HS256');
+      if (!tag.ok) return tag;
+      if (constantTimeEqual(tag.value, signature)) return ok({ secret: candidates[i], attempts: i + 1 });
+    }
+    if (i % YIELD_EVERY === YIELD_EVERY - 1) {
+      onProgress(i + 1);
+      await pause();
+    }
+  }
+  return ok({ secret: null, attempts: candidates.length });
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createKdfParams, deriveKey, formatKdfParams, KDF_LIMITS, parseKdfParams } from './kdf';
+import { unwrap } from './testing';
+
+describe('KDF parameters', () => {
+  it('round-trips through the text form', () => {
+    for (const algorithm of ['sha256', 'pbkdf2-sha256', 'scrypt', 'argon2id'] as const) {
+      const params = createKdfParams(algorithm);
+      expect(unwrap(parseKdfParams(formatKdfParams(params)))).toEqual(params);
+    }
+  });
+
+  it.each([
+    'scrypt$N=1073741824,r=8,p=1$c2FsdHNhbHQ=',
+    'scrypt$N=16384,r=1024,p=2$c2FsdHNhbHQ=',
+    'argon2id$m=4194304,t=1,p=1$c2FsdHNhbHQ=',
+    'argon2id$m=19456,t=1000,p=1$c2FsdHNhbHQ=',
+    'argon2id$m=19456,t=2,p=64$c2FsdHNhbHQ=',
+    'pbkdf2-sha256$i=4000000000$c2FsdHNhbHQ=',
+    'pbkdf2-sha256$i=0$c2FsdHNhbHQ='
+  ])('refuses %s before deriving anything', text => {
+    const parsed = parseKdfParams(text);
+    expect(parsed.ok).toBe(false);
+    if (!parsed.ok) expect(parsed.error.code).toBe('invalid-input');
+  });
+
+  it('accepts the largest allowed values', () => {
+    expect(parseKdfParams(`scrypt$N=${KDF_LIMITS.scryptN},r=8,p=1$c2FsdHNhbHQ=`).ok).toBe(true);
+    expect(parseKdfParams(`argon2id$m=${KDF_LIMITS.argon2MemoryKiB},t=${KDF_LIMITS.argon2Iterations},p=4$c2FsdHNhbHQ=`).ok).toBe(true);
+  });
+
+  it('derives the same key from the same passphrase and salt', async () => {
+    const params = { algorithm: 'scrypt' as const, N: 1024, r: 8, p: 1, salt: new Uint8Array(16) };
+    const first = unwrap(await deriveKey('correct horse', params));
+    const second = unwrap(await deriveKey('correct horse', params));
+    expect(first.key).toEqual(second.key);
+    expect(first.key).toHaveLength(32);
+  });
+
+  it('refuses oversized parameters in deriveKey too', async () => {
+    const derived = await deriveKey('x', { algorithm: 'argon2id', memoryKiB: 2 ** 22, iterations: 1, parallelism: 1, salt: new Uint8Array(16) });
+    expect(derived.ok).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+import { argon2id } from './argon2';
+import { parseBase64, toBase64, utf8Encode } from './encoding';
+import { Result, fail, ok } from './result';
+import { scrypt } from './scrypt';
+
+export type KdfAlgorithm = 'sha256' | 'pbkdf2-sha256' | 'scrypt' | 'argon2id';
+
+export type KdfParams =
+  | { algorithm: 'sha256' }
+  | { algorithm: 'pbkdf2-sha256'; iterations: number; salt: Uint8Array }
+  | { algorithm: 'scrypt'; N: number; r: number; p: number; salt: Uint8Array }
+  | { algorithm: 'argon2id'; memoryKiB: number; iterations: number; parallelism: number; salt: Uint8Array };
+
+export interface DerivedKey {
+  key: Uint8Array;
+  elapsedMs: number;
+}
+
+export const KDF_LABELS: Record<KdfAlgorithm, string> = {
+  sha256: 'SHA-256 (unsalted, insecure)',
+  'pbkdf2-sha256': 'PBKDF2-HMAC-SHA256',
+  scrypt: 'scrypt',
+  argon2id: 'Argon2id'
+};
+
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+export const DEFAULT_SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+export const DEFAULT_ARGON2_PARAMS = { memoryKiB: 19456, iterations: 2, parallelism: 1 };
+
+/*
+ * Upper bounds on the work and memory a set of parameters may ask for. Parameters arrive with
+ * pasted ciphertexts and workspace files, before anything is authenticated, and the pure-TS
+ * scrypt and Argon2id run on the main thread: an unbounded N or m would freeze the tab or
+ * exhaust its memory instead of failing.
+ */
+export const KDF_LIMITS = {
+  pbkdf2Iterations: 10_000_000,
+  scryptN: 2 ** 20,
+  // r·p, the number of 128-byte blocks scrypt mixes in each pass.
+  scryptRp: 2 ** 10,
+  argon2MemoryKiB: 2 ** 20,
+  argon2Iterations: 10,
+  argon2Parallelism: 16
+};
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+export interface KdfSettings {
+  pbkdf2Iterations?: number;
+  scryptN?: number;
+  argon2MemoryKiB?: number;
+  argon2Iterations?: number;
+}
+
+/** Builds parameters for a fresh derivation, including a new random salt. */
+export const createKdfParams = (algorithm: KdfAlgorithm, settings: KdfSettings = {}): KdfParams => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  switch (algorithm) {
+    case 'sha256':
+      return { algorithm };
+    case 'pbkdf2-sha256':
+      return { algorithm, iterations: settings.pbkdf2Iterations ?? DEFAULT_PBKDF2_ITERATIONS, salt };
+    case 'scrypt':
+      return { algorithm, ...DEFAULT_SCRYPT_PARAMS, N: settings.scryptN ?? DEFAULT_SCRYPT_PARAMS.N, salt };
+    case 'argon2id':
+      return {
+        algorithm,
+        ...DEFAULT_ARGON2_PARAMS,
+        memoryKiB: settings.argon2MemoryKiB ?? DEFAULT_ARGON2_PARAMS.memoryKiB,
+        iterations: settings.argon2Iterations ?? DEFAULT_ARGON2_PARAMS.iterations,
+        salt
+      };
+  }
+};
+
+/** Explains why the parameters are out of bounds, or returns null when they can run. */
+export const checkKdfParams = (params: KdfParams): string | null => {
+  switch (params.algorithm) {
+    case 'sha256':
+      return null;
+    case 'pbkdf2-sha256':
+      if (params.iterations < 1 || params.iterations > KDF_LIMITS.pbkdf2Iterations) {
+        return `PBKDF2 iterations must be between 1 and ${KDF_LIMITS.pbkdf2Iterations.toLocaleString('en')}.`;
+      }
+      return null;
+    case 'scrypt':
+      if (params.N > KDF_LIMITS.scryptN) return `scrypt N must be at most 2^${Math.log2(KDF_LIMITS.scryptN)}.`;
+      if (params.r * params.p > KDF_LIMITS.scryptRp) return `scrypt r·p must be at most ${KDF_LIMITS.scryptRp}.`;
+      return null;
+    case 'argon2id':
+      if (params.memoryKiB > KDF_LIMITS.argon2MemoryKiB) return `Argon2id memory must be at most ${KDF_LIMITS.argon2MemoryKiB} KiB (1 GiB).`;
+      if (params.iterations > KDF_LIMITS.argon2Iterations) return `Argon2id iterations must be at most ${KDF_LIMITS.argon2Iterations}.`;
+      if (params.parallelism > KDF_LIMITS.argon2Parallelism) return `Argon2id parallelism must be at most ${KDF_LIMITS.argon2Parallelism}.`;
+      return null;
+  }
+};
+
+const runKdf = async (password: Uint8Array, params: KdfParams): Promise<Uint8Array> => {
+  switch (params.algorithm) {
+    case 'sha256':
+      return new Uint8Array(await crypto.subtle.digest('SHA-256', password));
+    case 'pbkdf2-sha256': {
+      const baseKey = await crypto.subtle.importKey('raw', password, 'PBKDF2', false, ['deriveBits']);
+      const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: params.salt, iterations: params.iterations },
+        baseKey,
+        KEY_BYTES * 8
+      );
+      return new Uint8Array(bits);
+    }
+    case 'scrypt':
+      return scrypt(password, params.salt, { N: params.N, r: params.r, p: params.p, outputLength: KEY_BYTES });
+    case 'argon2id':
+      return argon2id(password, params.salt, {
+        memoryKiB: params.memoryKiB,
+        iterations: params.iterations,
+        parallelism: params.parallelism,
+        outputLength: KEY_BYTES
+      });
+  }
+};
+
+/** Stretches a passphrase into a 256-bit key and reports how long it took. */
+export const deriveKey = async (passphrase: string, params: KdfParams): Promise<Result<DerivedKey>> => {
+  const invalid = checkKdfParams(params);
+  if (invalid) return fail('invalid-input', invalid);
+  const started = performance.now();
+  try {
+    const key = await runKdf(utf8Encode(passphrase), params);
+    return ok({ key, elapsedMs: performance.now() - started });
+  } catch (error) {
+    return fail('invalid-input', `${KDF_LABELS[params.algorithm]} key derivation failed.`, error);
+  }
+};
+
+/** Seconds an attacker with the same hardware needs to try `guesses` passphrases. */
+export const bruteForceSeconds = (elapsedMs: number, guesses: number): number =>
+  (Math.max(elapsedMs, 0.001) * guesses) / 1000;
+
+// PHC-style text form: "<alg>$<k=v,...>$<salt>", e.g. "scrypt$N=16384,r=8,p=1$c2FsdA==".
+export const formatKdfParams = (params: KdfParams): string => {
+  switch (params.algorithm) {
+    case 'sha256':
+      return 'sha256';
+    case 'pbkdf2-sha256':
+      return `pbkdf2-sha256$i=${params.iterations}$${toBase64(params.salt)}`;
+    case 'scrypt':
+      return `scrypt$N=${params.N},r=${params.r},p=${params.p}$${toBase64(params.salt)}`;
+    case 'argon2id':
+      return `argon2id$m=${params.memoryKiB},t=${params.iterations},p=${params.parallelism}$${toBase64(params.salt)}`;
+  }
+};
+
+export const parseKdfParams = (text: string): Result<KdfParams> => {
+  const [algorithm, paramText = '', saltText = ''] = text.split('$');
+  if (algorithm === 'sha256') return ok({ algorithm });
+
+  const values: Record<string, number> = {};
+  for (const pair of paramText.split(',')) {
+    const [name, value] = pair.split('=');
+    if (!name || !/^\d+$/.test(value ?? '')) {
+      return fail('invalid-input', `Malformed KDF parameter "${pair}".`);
+    }
+    values[name] = Number(value);
+  }
+  const salt = parseBase64(saltText, 'KDF salt');
+  if (!salt.ok) return salt;
+
+  const has = (...names: string[]) => names.every(name => name in values);
+  let params: KdfParams;
+  switch (algorithm) {
+    case 'pbkdf2-sha256':
+      if (!has('i')) return fail('invalid-input', `Missing parameters for ${algorithm}.`);
+      params = { algorithm, iterations: values.i, salt: salt.value };
+      break;
+    case 'scrypt':
+      if (!has('N', 'r', 'p')) return fail('invalid-input', `Missing parameters for ${algorithm}.`);
+      params = { algorithm, N: values.N, r: values.r, p: values.p, salt: salt.value };
+      break;
+    case 'argon2id':
+      if (!has('m', 't', 'p')) return fail('invalid-input', `Missing parameters for ${algorithm}.`);
+      params = { algorithm, memoryKiB: values.m, iterations: values.t, parallelism: values.p, salt: salt.value };
+      break;
+    default:
+      return fail('invalid-input', `Unknown key derivation function "${algorithm}".`);
+  }
+  // Checked here, not only in deriveKey, so an oversized header is refused as soon as it is read.
+  const invalid = checkKdfParams(params);
+  return invalid ? fail('invalid-input', invalid) : ok(params);
+};
@@ -0,0 +1,197 @@
+import { decodeKey } from './keys';
+import { Result, fail, ok } from './result';
+import { rsaParamsOf } from './rsa';
+import { KeyAlgorithm, KeyPair, PrivateKeyInput } from './types';
+import { supportsNative } from './webcrypto';
+
+/*
+ * Named keys that survive a page reload, stored in IndexedDB and shared by every demo.
+ *
+ * Key pairs are saved non-extractable by default: the private half is kept only as a CryptoKey
+ * that IndexedDB stores natively, so the page can still sign, decrypt or agree with it but no
+ * script can read the key out again. Keeping the private PEM, to show and edit it, is the opt-out.
+ *
+ * AES secrets stay raw. A CryptoKey is bound to one algorithm and usage, while the symmetric demo
+ * uses one secret with every AES mode, wraps keys with it and derives encrypt-then-MAC keys from
+ * its bytes with HKDF, none of which a non-extractable AES-GCM key allows.
+ */
+
+export type KeyringMaterial = { type: 'key-pair'; keyPair: KeyPair } | { type: 'secret'; key: string };
+
+export type KeyringEntry = KeyringMaterial & {
+  id: string;
+  // "Alice", "Bob"; unique within the keyring.
+  name: string;
+  label: string;
+  createdAt: number;
+};
+
+const DB_NAME = 'cryptolab';
+const DB_VERSION = 1;
+const STORE = 'keyring';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (private browsing, blocked storage) is retried on the next call.
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const inStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  what: string
+): Promise<Result<T>> => {
+  try {
+    const db = await openDatabase();
+    return ok(
+      await new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(STORE, mode);
+        const request = run(transaction.objectStore(STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      })
+    );
+  } catch (error) {
+    return fail('storage-failed', `Could not ${what}: the browser's IndexedDB storage is unavailable.`, error);
+  }
+};
+
+const listeners = new Set<() => void>();
+
+/** Calls the listener after every change to the keyring; returns the unsubscribe function. */
+export const subscribeKeyring = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const listKeyring = async (): Promise<Result<KeyringEntry[]>> => {
+  const entries = await inStore('readonly', store => store.getAll() as IDBRequest<KeyringEntry[]>, 'read the keyring');
+  if (!entries.ok) return entries;
+  return ok(entries.value.sort((a, b) => a.name.localeCompare(b.name)));
+};
+
+export const saveKeyringEntry = async (
+  name: string,
+  label: string,
+  material: KeyringMaterial
+): Promise<Result<KeyringEntry>> => {
+  const trimmed = name.trim();
+  if (!trimmed) return fail('invalid-input', 'Give the key a name, such as "Alice".');
+  const existing = await listKeyring();
+  if (!existing.ok) return existing;
+  if (existing.value.some(entry => entry.name === trimmed)) {
+    return fail('invalid-input', `The keyring already has a key named "${trimmed}"; delete it first or pick another name.`);
+  }
+
+  const entry: KeyringEntry = { ...material, id: crypto.randomUUID(), name: trimmed, label: label.trim(), createdAt: Date.now() };
+  const saved = await inStore('readwrite', store => store.add(entry), 'save the key');
+  if (!saved.ok) return saved;
+  notify();
+  return ok(entry);
+};
+
+export const deleteKeyringEntry = async (id: string): Promise<Result<void>> => {
+  const deleted = await inStore('readwrite', store => store.delete(id), 'delete the key');
+  if (!deleted.ok) return deleted;
+  notify();
+  return ok(undefined);
+};
+
+const PRIVATE_USAGE: Record<KeyAlgorithm['name'], KeyUsage> = {
+  'RSA-OAEP': 'decrypt',
+  'RSA-PSS': 'sign',
+  ECDSA: 'sign',
+  ECDH: 'deriveBits',
+  Ed25519: 'sign',
+  X25519: 'deriveBits'
+};
+
+const importParams = (algorithm: KeyAlgorithm, keyPair: KeyPair): RsaHashedImportParams | EcKeyImportParams | Algorithm => {
+  switch (algorithm.name) {
+    case 'RSA-OAEP':
+    case 'RSA-PSS':
+      return { name: algorithm.name, hash: rsaParamsOf(keyPair).hash };
+    case 'ECDSA':
+    case 'ECDH':
+      return { name: algorithm.name, namedCurve: algorithm.curve };
+    default:
+      return { name: algorithm.name };
+  }
+};
+
+/** Whether lockPrivateKey can work on this pair in this browser. */
+export const canLockPrivateKey = async (keyPair: KeyPair): Promise<boolean> => {
+  const { algorithm } = keyPair;
+  if (!algorithm) return false;
+  if (algorithm.name === 'Ed25519' || algorithm.name === 'X25519') return supportsNative(algorithm.name);
+  return true;
+};
+
+/**
+ * Replaces the private PEM with a non-extractable CryptoKey. Ed25519 and X25519 keys can only
+ * be locked where the browser implements them natively, as the fallback needs the raw bytes.
+ */
+export const lockPrivateKey = async (keyPair: KeyPair): Promise<Result<KeyPair>> => {
+  const { algorithm } = keyPair;
+  if (!algorithm) return fail('invalid-key', 'Only key pairs generated in the lab can be made non-extractable.');
+  if (keyPair.privateCryptoKey) return ok(keyPair);
+  if ((algorithm.name === 'Ed25519' || algorithm.name === 'X25519') && !(await supportsNative(algorithm.name))) {
+    return fail('invalid-key', `This browser has no native ${algorithm.name}, so the private key must stay extractable.`);
+  }
+
+  const decoded = decodeKey(keyPair.privateKey);
+  if (!decoded.ok) return decoded;
+  try {
+    const privateCryptoKey = await crypto.subtle.importKey(
+      'pkcs8',
+      decoded.value.der,
+      importParams(algorithm, keyPair),
+      false,
+      [PRIVATE_USAGE[algorithm.name]]
+    );
+    return ok({ ...keyPair, privateKey: '', privateCryptoKey });
+  } catch (error) {
+    return fail('invalid-key', `Could not import the private key as a non-extractable ${algorithm.name} key.`, error);
+  }
+};
+
+/** What the crypto services accept as this pair's private key. */
+export const privateKeyOf = (keyPair: KeyPair): PrivateKeyInput => keyPair.privateCryptoKey ?? keyPair.privateKey;
+
+export const describeKeyAlgorithm = (algorithm: KeyAlgorithm | undefined): string => {
+  if (!algorithm) return 'RSA';
+  switch (algorithm.name) {
+    case 'RSA-OAEP':
+    case 'RSA-PSS':
+      return algorithm.params
+        ? `${algorithm.name} ${algorithm.params.modulusLength} / ${algorithm.params.hash}`
+        : algorithm.name;
+    case 'ECDSA':
+    case 'ECDH':
+      return `${algorithm.name} ${algorithm.curve}`;
+    default:
+      return algorithm.name;
+  }
+};
+
+export const describeKeyringMaterial = (material: KeyringMaterial): string =>
+  material.type === 'secret'
+    ? 'AES-256 key'
+    : describeKeyAlgorithm(material.keyPair.algorithm) + (material.keyPair.privateCryptoKey ? ', non-extractable' : '');
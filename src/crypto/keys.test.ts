@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { generateEcKeyPair } from './ec';
+import { generateEd25519KeyPair } from './ed25519';
+import { toHex } from './encoding';
+import { decodeKey, exportKey, keyFingerprint, keyToPem, publicKeyOf } from './keys';
+import { DEFAULT_RSA_PARAMS, generateRsaKeyPair } from './rsa';
+import { unwrap } from './testing';
+import { KeyPair } from './types';
+import { generateX25519KeyPair } from './x25519';
+
+describe('key codec', () => {
+  const pairs: Record<string, KeyPair> = {};
+
+  beforeAll(async () => {
+    pairs.RSA = unwrap(await generateRsaKeyPair('signing', { ...DEFAULT_RSA_PARAMS, modulusLength: 2048 }));
+    pairs.EC = unwrap(await generateEcKeyPair('signing', 'P-384'));
+    pairs.Ed25519 = unwrap(await generateEd25519KeyPair());
+    pairs.X25519 = unwrap(await generateX25519KeyPair());
+  });
+
+  it.each(['RSA', 'EC', 'Ed25519', 'X25519'])('decodes both halves of an %s key pair', async type => {
+    const publicKey = unwrap(decodeKey(pairs[type].publicKey));
+    const privateKey = unwrap(decodeKey(pairs[type].privateKey));
+    expect(publicKey).toMatchObject({ kind: 'public', type, sourceFormat: 'SPKI' });
+    expect(privateKey).toMatchObject({ kind: 'private', type, sourceFormat: 'PKCS#8' });
+    expect(unwrap(await publicKeyOf(privateKey)).der).toEqual(publicKey.der);
+    expect(unwrap(await keyFingerprint(privateKey))).toBe(unwrap(await keyFingerprint(publicKey)));
+  });
+
+  it.each(['RSA', 'EC', 'Ed25519', 'X25519'])('round-trips %s keys through JWK, DER and hex', async type => {
+    for (const pem of [pairs[type].publicKey, pairs[type].privateKey]) {
+      const key = unwrap(decodeKey(pem));
+      expect(keyToPem(unwrap(decodeKey(unwrap(await exportKey(key, 'jwk')))))).toBe(keyToPem(key));
+      expect(unwrap(decodeKey(unwrap(await exportKey(key, 'der')))).der).toEqual(key.der);
+      expect(unwrap(decodeKey(toHex(key.der))).der).toEqual(key.der);
+    }
+  });
+
+  it('round-trips RSA keys through PKCS#1 and reads the modulus size', async () => {
+    for (const pem of [pairs.RSA.publicKey, pairs.RSA.privateKey]) {
+      const key = unwrap(decodeKey(pem));
+      expect(key.modulusBits).toBe(2048);
+      expect(key.publicExponent).toBe(65537n);
+      const pkcs1 = unwrap(decodeKey(unwrap(await exportKey(key, 'pkcs1'))));
+      expect(pkcs1.sourceFormat).toBe('PKCS#1');
+      expect(pkcs1.der).toEqual(key.der);
+    }
+    expect((await exportKey(unwrap(decodeKey(pairs.EC.publicKey)), 'pkcs1')).ok).toBe(false);
+  });
+
+  it('reports undecodable input as an invalid key', () => {
+    for (const text of ['', 'not a key', '{"kty":', '{"kty":"oct","k":"AAAA"}', '30 03 02 01']) {
+      const decoded = decodeKey(text);
+      expect(decoded.ok).toBe(false);
+      if (!decoded.ok) expect(decoded.error.code).toBe('invalid-key');
+    }
+  });
+});
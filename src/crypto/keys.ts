@@ -0,0 +1,548 @@
+import {
+  ASN1_TAG,
+  Asn1Field,
+  Asn1Node,
+  decodeOid,
+  encodeDer,
+  encodeInteger,
+  encodeOid,
+  integerToBigInt,
+  OID,
+  OID_NAMES,
+  parseDer,
+  unsignedInteger
+} from './asn1';
+import { ed25519PublicKey, x25519PublicKey } from './curve25519';
+import { digest } from './digest';
+import { fromBase64, fromBase64Url, fromHex, toBase64, toBase64Url, toHex } from './encoding';
+import { derToPem, parsePem } from './pem';
+import { Result, fail, ok } from './result';
+import { NamedCurve } from './types';
+
+/*
+ * Key codec. Every key the lab handles is normalised to SPKI (public) or PKCS#8 (private)
+ * DER, whatever it arrived as:
+ *
+ *   PEM  "PUBLIC KEY" (SPKI), "PRIVATE KEY" (PKCS#8), "RSA PUBLIC KEY" / "RSA PRIVATE KEY"
+ *        (PKCS#1) and "EC PRIVATE KEY" (SEC1), with any line endings and wrapping
+ *   DER  the same structures as base64 or hex, recognised by shape
+ *   JWK  RSA, EC and OKP (Ed25519, X25519) keys, RFC 7517/7518/8037
+ */
+
+export type KeyKind = 'public' | 'private';
+export type KeyType = 'RSA' | 'EC' | 'Ed25519' | 'X25519';
+export type KeySourceFormat = 'SPKI' | 'PKCS#8' | 'PKCS#1' | 'SEC1' | 'JWK';
+export type KeyExportFormat = 'pem' | 'pkcs1' | 'der' | 'jwk';
+
+export interface DecodedKey {
+  kind: KeyKind;
+  type: KeyType;
+  // The container the key was supplied in, e.g. PKCS#1 for "BEGIN RSA PUBLIC KEY".
+  sourceFormat: KeySourceFormat;
+  // SPKI for public keys, PKCS#8 for private keys.
+  der: Uint8Array;
+  curve?: NamedCurve;
+  modulusBits?: number;
+  publicExponent?: bigint;
+}
+
+export interface KeyDetails extends DecodedKey {
+  // SHA-256 of the public key's SPKI encoding, so a key pair's halves share one fingerprint.
+  fingerprint: string;
+}
+
+const CURVE_OIDS: Record<NamedCurve, string> = {
+  'P-256': OID.prime256v1,
+  'P-384': OID.secp384r1,
+  'P-521': OID.secp521r1
+};
+
+const CURVE_BYTES: Record<NamedCurve, number> = {
+  'P-256': 32,
+  'P-384': 48,
+  'P-521': 66
+};
+
+const OKP_KEY_BYTES = 32;
+
+const curveOfOid = (oid: string): NamedCurve | undefined =>
+  (Object.keys(CURVE_OIDS) as NamedCurve[]).find(curve => CURVE_OIDS[curve] === oid);
+
+/* DER building blocks */
+
+const sequence = (...parts: Uint8Array[]) => encodeDer(ASN1_TAG.SEQUENCE, ...parts);
+const bitString = (bytes: Uint8Array) => encodeDer(ASN1_TAG.BIT_STRING, new Uint8Array([0]), bytes);
+const octetString = (bytes: Uint8Array) => encodeDer(ASN1_TAG.OCTET_STRING, bytes);
+const smallInteger = (value: number) => encodeInteger(new Uint8Array([value]));
+
+const rsaAlgorithmId = () => sequence(encodeOid(OID.rsaEncryption), encodeDer(ASN1_TAG.NULL));
+const ecAlgorithmId = (curve: NamedCurve) => sequence(encodeOid(OID.ecPublicKey), encodeOid(CURVE_OIDS[curve]));
+const okpAlgorithmId = (type: 'Ed25519' | 'X25519') => sequence(encodeOid(OID[type]));
+
+const spki = (algorithmId: Uint8Array, publicKey: Uint8Array) => sequence(algorithmId, bitString(publicKey));
+const pkcs8 = (algorithmId: Uint8Array, privateKey: Uint8Array) =>
+  sequence(smallInteger(0), algorithmId, octetString(privateKey));
+
+/* Parsing. Helpers throw Error with a readable message; decodeKey turns it into a Result. */
+
+const parse = (bytes: Uint8Array): Asn1Node => {
+  const node = parseDer(bytes);
+  if (!node.ok) throw new Error(node.error.message);
+  return node.value;
+};
+
+const fields = (node: Asn1Node, tags: number[], what: string): Asn1Node[] => {
+  const children = node.children ?? [];
+  if (node.tag !== ASN1_TAG.SEQUENCE || tags.some((tag, i) => children[i]?.tag !== tag)) {
+    throw new Error(`Malformed ${what}.`);
+  }
+  return children;
+};
+
+const bitLength = (magnitude: Uint8Array): number =>
+  magnitude.length === 0 ? 0 : (magnitude.length - 1) * 8 + (32 - Math.clz32(magnitude[0]));
+
+const rsaPublicDetails = (n: Asn1Node, e: Asn1Node) => ({
+  modulusBits: bitLength(unsignedInteger(n.content)),
+  publicExponent: integerToBigInt(e.content)
+});
+
+const checkOkpLength = (bytes: Uint8Array, type: KeyType) => {
+  if (bytes.length !== OKP_KEY_BYTES) throw new Error(`${type} keys are ${OKP_KEY_BYTES} bytes, got ${bytes.length}.`);
+};
+
+const algorithmOf = (algorithm: Asn1Node): { oid: string; parameter?: Asn1Node } => {
+  const [oid, parameter] = fields(algorithm, [ASN1_TAG.OBJECT_IDENTIFIER], 'AlgorithmIdentifier');
+  return { oid: decodeOid(oid.content), parameter };
+};
+
+const unsupportedAlgorithm = (oid: string): Error =>
+  oid === OID.rsassaPss
+    ? new Error('RSASSA-PSS-restricted keys cannot be imported by WebCrypto; export a plain rsaEncryption key instead.')
+    : new Error(`Unsupported key algorithm ${OID_NAMES[oid] ?? oid}.`);
+
+const curveParameter = (parameter: Asn1Node | undefined): NamedCurve => {
+  const curve = parameter?.tag === ASN1_TAG.OBJECT_IDENTIFIER ? curveOfOid(decodeOid(parameter.content)) : undefined;
+  if (!curve) throw new Error('Only the P-256, P-384 and P-521 named curves are supported.');
+  return curve;
+};
+
+const fromSpki = (der: Uint8Array, sourceFormat: KeySourceFormat): DecodedKey => {
+  const [algorithm, subjectPublicKey] = fields(parse(der), [ASN1_TAG.SEQUENCE, ASN1_TAG.BIT_STRING], 'SubjectPublicKeyInfo');
+  const { oid, parameter } = algorithmOf(algorithm);
+  const keyBytes = subjectPublicKey.content.subarray(1);
+  const key = { kind: 'public' as const, sourceFormat, der };
+
+  switch (oid) {
+    case OID.rsaEncryption: {
+      const [n, e] = fields(parse(keyBytes), [ASN1_TAG.INTEGER, ASN1_TAG.INTEGER], 'RSAPublicKey');
+      return { ...key, type: 'RSA', ...rsaPublicDetails(n, e) };
+    }
+    case OID.ecPublicKey: {
+      const curve = curveParameter(parameter);
+      if (keyBytes[0] !== 0x04 || keyBytes.length !== 1 + 2 * CURVE_BYTES[curve]) {
+        throw new Error(`Expected an uncompressed ${curve} point.`);
+      }
+      return { ...key, type: 'EC', curve };
+    }
+    case OID.Ed25519:
+    case OID.X25519: {
+      const type = oid === OID.Ed25519 ? 'Ed25519' : 'X25519';
+      checkOkpLength(keyBytes, type);
+      return { ...key, type };
+    }
+    default:
+      throw unsupportedAlgorithm(oid);
+  }
+};
+
+const fromPkcs8 = (der: Uint8Array, sourceFormat: KeySourceFormat): DecodedKey => {
+  const [, algorithm, privateKey] = fields(
+    parse(der),
+    [ASN1_TAG.INTEGER, ASN1_TAG.SEQUENCE, ASN1_TAG.OCTET_STRING],
+    'PrivateKeyInfo'
+  );
+  const { oid, parameter } = algorithmOf(algorithm);
+  const key = { kind: 'private' as const, sourceFormat, der };
+
+  switch (oid) {
+    case OID.rsaEncryption: {
+      const [, n, e] = fields(parse(privateKey.content), Array(9).fill(ASN1_TAG.INTEGER), 'RSAPrivateKey');
+      return { ...key, type: 'RSA', ...rsaPublicDetails(n, e) };
+    }
+    case OID.ecPublicKey: {
+      fields(parse(privateKey.content), [ASN1_TAG.INTEGER, ASN1_TAG.OCTET_STRING], 'ECPrivateKey');
+      return { ...key, type: 'EC', curve: curveParameter(parameter) };
+    }
+    case OID.Ed25519:
+    case OID.X25519: {
+      const type = oid === OID.Ed25519 ? 'Ed25519' : 'X25519';
+      const inner = parse(privateKey.content);
+      if (inner.tag !== ASN1_TAG.OCTET_STRING) throw new Error(`Malformed ${type} private key.`);
+      checkOkpLength(inner.content, type);
+      return { ...key, type };
+    }
+    default:
+      throw unsupportedAlgorithm(oid);
+  }
+};
+
+const fromPkcs1Public = (der: Uint8Array, sourceFormat: KeySourceFormat = 'PKCS#1') =>
+  fromSpki(spki(rsaAlgorithmId(), der), sourceFormat);
+
+const fromPkcs1Private = (der: Uint8Array, sourceFormat: KeySourceFormat = 'PKCS#1') =>
+  fromPkcs8(pkcs8(rsaAlgorithmId(), der), sourceFormat);
+
+// SEC1 names its curve in the [0] field; PKCS#8 moves it to the AlgorithmIdentifier.
+const fromSec1 = (der: Uint8Array, sourceFormat: KeySourceFormat = 'SEC1') => {
+  const children = fields(parse(der), [ASN1_TAG.INTEGER, ASN1_TAG.OCTET_STRING], 'ECPrivateKey');
+  const parameters = children.find(child => child.tag === ASN1_TAG.CONTEXT_0);
+  if (!parameters) throw new Error('This EC private key does not name its curve.');
+  const curve = curveParameter(parameters.children?.[0]);
+  return fromPkcs8(pkcs8(ecAlgorithmId(curve), der), sourceFormat);
+};
+
+// Raw DER carries no label, so the structure is recognised by its shape.
+const fromDer = (der: Uint8Array): DecodedKey => {
+  const root = parse(der);
+  const tags = (root.children ?? []).map(child => child.tag);
+  const { INTEGER, SEQUENCE, BIT_STRING, OCTET_STRING } = ASN1_TAG;
+  if (root.tag === SEQUENCE) {
+    if (tags[0] === SEQUENCE && tags[1] === BIT_STRING) return fromSpki(der, 'SPKI');
+    if (tags[0] === INTEGER && tags[1] === SEQUENCE && tags[2] === OCTET_STRING) return fromPkcs8(der, 'PKCS#8');
+    if (tags[0] === INTEGER && tags[1] === OCTET_STRING) return fromSec1(der);
+    if (tags.length === 2 && tags.every(tag => tag === INTEGER)) return fromPkcs1Public(der);
+    if (tags.length >= 9 && tags.slice(0, 9).every(tag => tag === INTEGER)) return fromPkcs1Private(der);
+  }
+  throw new Error('The DER is not an SPKI, PKCS#8, PKCS#1 or SEC1 key.');
+};
+
+const fromPem = (text: string): DecodedKey => {
+  const block = parsePem(text);
+  if (!block.ok) throw new Error(block.error.message);
+  const { label, der } = block.value;
+  switch (label) {
+    case 'PUBLIC KEY':
+      return fromSpki(der, 'SPKI');
+    case 'PRIVATE KEY':
+      return fromPkcs8(der, 'PKCS#8');
+    case 'RSA PUBLIC KEY':
+      return fromPkcs1Public(der);
+    case 'RSA PRIVATE KEY':
+      return fromPkcs1Private(der);
+    case 'EC PRIVATE KEY':
+      return fromSec1(der);
+    case 'ENCRYPTED PRIVATE KEY':
+      throw new Error('This private key is encrypted with a passphrase; decrypt it first (openssl pkey -in key.pem).');
+    default:
+      throw new Error(`"${label}" is not a key; expected PUBLIC KEY, PRIVATE KEY, RSA or EC key PEM.`);
+  }
+};
+
+const jwkBytes = (jwk: JsonWebKey, field: 'n' | 'e' | 'd' | 'p' | 'q' | 'dp' | 'dq' | 'qi' | 'x' | 'y'): Uint8Array => {
+  const value = jwk[field];
+  if (typeof value !== 'string') throw new Error(`The JWK has no "${field}" member.`);
+  try {
+    return fromBase64Url(value);
+  } catch {
+    throw new Error(`The JWK "${field}" member is not valid base64url.`);
+  }
+};
+
+const leftPad = (bytes: Uint8Array, length: number): Uint8Array => {
+  if (bytes.length >= length) return bytes;
+  const padded = new Uint8Array(length);
+  padded.set(bytes, length - bytes.length);
+  return padded;
+};
+
+const fromJwk = (jwk: JsonWebKey): DecodedKey => {
+  switch (jwk.kty) {
+    case 'RSA': {
+      const integers = (names: ('n' | 'e' | 'd' | 'p' | 'q' | 'dp' | 'dq' | 'qi')[]) =>
+        names.map(name => encodeInteger(jwkBytes(jwk, name)));
+      if (jwk.d === undefined) return fromPkcs1Public(sequence(...integers(['n', 'e'])), 'JWK');
+      // WebCrypto needs the CRT parameters, so a private JWK with only n, e and d is rejected.
+      const der = sequence(smallInteger(0), ...integers(['n', 'e', 'd', 'p', 'q', 'dp', 'dq', 'qi']));
+      return fromPkcs1Private(der, 'JWK');
+    }
+    case 'EC': {
+      const curve = jwk.crv as NamedCurve;
+      if (!CURVE_BYTES[curve]) throw new Error(`Unsupported JWK curve "${jwk.crv}".`);
+      const size = CURVE_BYTES[curve];
+      const [x, y] = [jwkBytes(jwk, 'x'), jwkBytes(jwk, 'y')];
+      if (x.length !== size || y.length !== size) throw new Error(`${curve} coordinates must be ${size} bytes.`);
+      const point = new Uint8Array([0x04, ...x, ...y]);
+      if (jwk.d === undefined) return fromSpki(spki(ecAlgorithmId(curve), point), 'JWK');
+      const ecPrivateKey = sequence(
+        smallInteger(1),
+        octetString(leftPad(jwkBytes(jwk, 'd'), size)),
+        encodeDer(ASN1_TAG.CONTEXT_1, bitString(point))
+      );
+      return fromPkcs8(pkcs8(ecAlgorithmId(curve), ecPrivateKey), 'JWK');
+    }
+    case 'OKP': {
+      if (jwk.crv !== 'Ed25519' && jwk.crv !== 'X25519') throw new Error(`Unsupported JWK curve "${jwk.crv}".`);
+      const algorithmId = okpAlgorithmId(jwk.crv);
+      if (jwk.d === undefined) return fromSpki(spki(algorithmId, jwkBytes(jwk, 'x')), 'JWK');
+      return fromPkcs8(pkcs8(algorithmId, octetString(jwkBytes(jwk, 'd'))), 'JWK');
+    }
+    default:
+      throw new Error(`Unsupported JWK key type "${jwk.kty}".`);
+  }
+};
+
+/** Decodes a key given as PEM, base64 or hex DER, or a JWK. */
+export const decodeKey = (text: string): Result<DecodedKey> => {
+  const trimmed = text.trim();
+  if (!trimmed) return fail('invalid-key', 'No key was given.');
+
+  try {
+    if (trimmed.startsWith('{')) {
+      let jwk: JsonWebKey;
+      try {
+        jwk = JSON.parse(trimmed);
+      } catch {
+        return fail('invalid-key', 'The key looks like a JWK but is not valid JSON.');
+      }
+      return ok(fromJwk(jwk));
+    }
+    if (trimmed.includes('-----BEGIN')) return ok(fromPem(trimmed));
+
+    const isHex = /^[0-9a-fA-F:\s]+$/.test(trimmed);
+    let der: Uint8Array;
+    try {
+      der = isHex ? fromHex(trimmed.replace(/:/g, '')) : fromBase64(trimmed);
+    } catch {
+      return fail('invalid-key', 'The key is not PEM, JWK, or DER in base64 or hex.');
+    }
+    return ok(fromDer(der));
+  } catch (error) {
+    return fail('invalid-key', error instanceof Error ? error.message : 'The key could not be decoded.', error);
+  }
+};
+
+const ARTICLE: Record<KeyKind, string> = { public: 'a public', private: 'a private' };
+
+/** Decodes a key and checks it is the expected kind and type before it reaches WebCrypto. */
+export const decodeKeyAs = (text: string, kind: KeyKind, type: KeyType): Result<DecodedKey> => {
+  const key = decodeKey(text);
+  if (!key.ok) return key;
+  if (key.value.type !== type) {
+    return fail('invalid-key', `Expected an ${type} key, but this is an ${key.value.type} key.`);
+  }
+  if (key.value.kind !== kind) {
+    return fail('invalid-key', `Expected ${ARTICLE[kind]} key, but this is ${ARTICLE[key.value.kind]} key.`);
+  }
+  return key;
+};
+
+/* Export */
+
+// The key bytes inside the SPKI BIT STRING or the PKCS#8 OCTET STRING.
+const innerKey = (key: DecodedKey): Uint8Array => {
+  const children = parse(key.der).children ?? [];
+  return key.kind === 'public' ? children[1].content.subarray(1) : children[2].content;
+};
+
+/** The 32 raw bytes of an Ed25519 or X25519 key, as used by the curve arithmetic. */
+export const rawKeyBytes = (key: DecodedKey): Uint8Array =>
+  key.kind === 'public' ? innerKey(key) : parse(innerKey(key)).content;
+
+/** The modulus and exponents of an RSA key as integers; d only for private keys. */
+export const rsaKeyIntegers = (key: DecodedKey): Result<{ n: bigint; e: bigint; d?: bigint }> => {
+  if (key.type !== 'RSA') return fail('invalid-key', `A ${key.type} key has no RSA modulus.`);
+  try {
+    const children = parse(innerKey(key)).children ?? [];
+    const [n, e, d] = (key.kind === 'public' ? children : children.slice(1)).map(child => integerToBigInt(child.content));
+    return ok(key.kind === 'public' ? { n, e } : { n, e, d });
+  } catch (error) {
+    return fail('invalid-key', 'The RSA key integers could not be read.', error);
+  }
+};
+
+export const rawKeyToPem = (type: 'Ed25519' | 'X25519', raw: Uint8Array, kind: KeyKind): string =>
+  kind === 'public'
+    ? derToPem(spki(okpAlgorithmId(type), raw), 'PUBLIC KEY')
+    : derToPem(pkcs8(okpAlgorithmId(type), octetString(raw)), 'PRIVATE KEY');
+
+export const keyToPem = (key: DecodedKey): string =>
+  derToPem(key.der, key.kind === 'public' ? 'PUBLIC KEY' : 'PRIVATE KEY');
+
+// EC private keys from WebCrypto and OpenSSL embed their public point in the optional [1] field.
+const ecPublicPoint = (key: DecodedKey): Uint8Array | null => {
+  if (key.kind === 'public') return innerKey(key);
+  const publicField = parse(innerKey(key)).children?.find(child => child.tag === ASN1_TAG.CONTEXT_1);
+  return publicField?.children?.[0].content.subarray(1) ?? null;
+};
+
+const okpPublicKey = async (key: DecodedKey): Promise<Uint8Array> => {
+  if (key.kind === 'public') return innerKey(key);
+  const raw = rawKeyBytes(key);
+  return key.type === 'Ed25519' ? ed25519PublicKey(raw) : x25519PublicKey(raw);
+};
+
+/** The public half of a key; private keys carry or imply everything needed. */
+export const publicKeyOf = async (key: DecodedKey): Promise<Result<DecodedKey>> => {
+  if (key.kind === 'public') return ok(key);
+  try {
+    switch (key.type) {
+      case 'RSA': {
+        const [, n, e] = parse(innerKey(key)).children ?? [];
+        return ok(fromPkcs1Public(sequence(encodeInteger(n.content), encodeInteger(e.content)), key.sourceFormat));
+      }
+      case 'EC': {
+        const point = ecPublicPoint(key);
+        if (!point) return fail('invalid-key', 'This EC private key does not include its public point.');
+        return ok(fromSpki(spki(ecAlgorithmId(key.curve!), point), key.sourceFormat));
+      }
+      case 'Ed25519':
+      case 'X25519':
+        return ok(fromSpki(spki(okpAlgorithmId(key.type), await okpPublicKey(key)), key.sourceFormat));
+    }
+  } catch (error) {
+    return fail('invalid-key', 'The public key could not be derived from the private key.', error);
+  }
+};
+
+const toJwk = async (key: DecodedKey): Promise<JsonWebKey> => {
+  const b64 = (bytes: Uint8Array) => toBase64Url(unsignedInteger(bytes));
+  switch (key.type) {
+    case 'RSA': {
+      if (key.kind === 'public') {
+        const [n, e] = parse(innerKey(key)).children ?? [];
+        return { kty: 'RSA', n: b64(n.content), e: b64(e.content) };
+      }
+      const [, n, e, d, p, q, dp, dq, qi] = parse(innerKey(key)).children ?? [];
+      return {
+        kty: 'RSA',
+        n: b64(n.content),
+        e: b64(e.content),
+        d: b64(d.content),
+        p: b64(p.content),
+        q: b64(q.content),
+        dp: b64(dp.content),
+        dq: b64(dq.content),
+        qi: b64(qi.content)
+      };
+    }
+    case 'EC': {
+      const size = CURVE_BYTES[key.curve!];
+      const point = ecPublicPoint(key);
+      if (!point) throw new Error('This EC private key does not include its public point, so x and y are unknown.');
+      const jwk: JsonWebKey = {
+        kty: 'EC',
+        crv: key.curve,
+        x: toBase64Url(point.subarray(1, 1 + size)),
+        y: toBase64Url(point.subarray(1 + size))
+      };
+      if (key.kind === 'private') {
+        const [, d] = parse(innerKey(key)).children ?? [];
+        jwk.d = toBase64Url(leftPad(d.content, size));
+      }
+      return jwk;
+    }
+    case 'Ed25519':
+    case 'X25519': {
+      const jwk: JsonWebKey = { kty: 'OKP', crv: key.type, x: toBase64Url(await okpPublicKey(key)) };
+      if (key.kind === 'private') jwk.d = toBase64Url(rawKeyBytes(key));
+      return jwk;
+    }
+  }
+};
+
+export const exportKey = async (key: DecodedKey, format: KeyExportFormat): Promise<Result<string>> => {
+  try {
+    switch (format) {
+      case 'pem':
+        return ok(keyToPem(key));
+      case 'pkcs1':
+        if (key.type !== 'RSA') return fail('invalid-key', 'PKCS#1 is only defined for RSA keys.');
+        return ok(derToPem(innerKey(key), key.kind === 'public' ? 'RSA PUBLIC KEY' : 'RSA PRIVATE KEY'));
+      case 'der':
+        return ok(toBase64(key.der));
+      case 'jwk':
+        return ok(JSON.stringify(await toJwk(key), null, 2));
+    }
+  } catch (error) {
+    return fail('invalid-key', error instanceof Error ? error.message : 'The key could not be exported.', error);
+  }
+};
+
+export const keyFingerprint = async (key: DecodedKey): Promise<Result<string>> => {
+  const publicKey = await publicKeyOf(key);
+  if (!publicKey.ok) return publicKey;
+  const hash = await digest(publicKey.value.der);
+  if (!hash.ok) return hash;
+  return ok(toHex(hash.value).match(/../g)!.join(':'));
+};
+
+// RSAPrivateKey after its version field (RFC 8017 A.1.2).
+const RSA_PRIVATE_FIELDS = [
+  'modulus n',
+  'public exponent e',
+  'private exponent d',
+  'prime p',
+  'prime q',
+  'd mod (p−1)',
+  'd mod (q−1)',
+  'q⁻¹ mod p'
+];
+
+/**
+ * Names the parts of a key's SPKI or PKCS#8 DER by tree path (see childPath), for the
+ * ASN.1 inspector. The modulus, exponents, EC points and raw OKP keys are highlighted.
+ */
+export const keyFields = (key: DecodedKey): Record<string, Asn1Field> => {
+  const fields: Record<string, Asn1Field> = {};
+  const highlight = (path: string, name: string) => {
+    fields[path] = { name, highlight: true };
+  };
+  const algorithm = key.kind === 'public' ? '0' : '1';
+  fields[algorithm] = { name: 'AlgorithmIdentifier' };
+  fields[`${algorithm}.0`] = { name: 'algorithm' };
+  if (key.type === 'EC') fields[`${algorithm}.1`] = { name: 'named curve' };
+  if (key.type === 'RSA') fields[`${algorithm}.1`] = { name: 'parameters (none)' };
+
+  if (key.kind === 'public') {
+    fields[''] = { name: 'SubjectPublicKeyInfo' };
+    fields['1'] = { name: 'subjectPublicKey' };
+    if (key.type === 'RSA') {
+      fields['1.0'] = { name: 'RSAPublicKey' };
+      highlight('1.0.0', 'modulus n');
+      highlight('1.0.1', 'public exponent e');
+    } else if (key.type === 'EC') {
+      highlight('1', 'public point 04 ‖ x ‖ y');
+    } else {
+      highlight('1', `${key.type} public key`);
+    }
+    return fields;
+  }
+
+  fields[''] = { name: 'PrivateKeyInfo' };
+  fields['0'] = { name: 'version' };
+  fields['2'] = { name: 'privateKey' };
+  if (key.type === 'RSA') {
+    fields['2.0'] = { name: 'RSAPrivateKey' };
+    fields['2.0.0'] = { name: 'version' };
+    RSA_PRIVATE_FIELDS.forEach((name, i) => highlight(`2.0.${i + 1}`, name));
+  } else if (key.type === 'EC') {
+    fields['2.0'] = { name: 'ECPrivateKey' };
+    fields['2.0.0'] = { name: 'version' };
+    highlight('2.0.1', 'private scalar d');
+    const children = parse(innerKey(key)).children ?? [];
+    const publicIndex = children.findIndex(child => child.tag === ASN1_TAG.CONTEXT_1);
+    if (publicIndex >= 0) highlight(`2.0.${publicIndex}.0`, 'public point 04 ‖ x ‖ y');
+  } else {
+    highlight('2.0', key.type === 'Ed25519' ? 'Ed25519 private key (seed)' : 'X25519 private scalar');
+  }
+  return fields;
+};
+
+export const describeKey = async (text: string): Promise<Result<KeyDetails>> => {
+  const key = decodeKey(text);
+  if (!key.ok) return key;
+  const fingerprint = await keyFingerprint(key.value);
+  if (!fingerprint.ok) return fingerprint;
+  return ok({ ...key.value, fingerprint: fingerprint.value });
+};
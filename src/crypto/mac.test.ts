@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { fromHex, toHex, utf8Encode } from './encoding';
+import { constantTimeEqual, createTimingOracle, hmacSign, hmacVerify, naiveEqual, timeTagByte } from './mac';
+import { unwrap } from './testing';
+
+const LONG_KEY = 'aa'.repeat(131);
+
+// RFC 4231 section 4, HMAC-SHA-256. Test case 5 truncates its output and is left out.
+const RFC_4231: [string, string, string, string][] = [
+  ['1', '0b'.repeat(20), toHex(utf8Encode('Hi There')), 'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'],
+  ['2', toHex(utf8Encode('Jefe')), toHex(utf8Encode('what do ya want for nothing?')), '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'],
+  ['3', 'aa'.repeat(20), 'dd'.repeat(50), '773ea91e36800e46854db8ebd09181a72959098b3ef8c122d9635514ced565fe'],
+  ['4', '0102030405060708090a0b0c0d0e0f10111213141516171819', 'cd'.repeat(50), '82558a389a443c0ea4cc819899f2083a85f0faa3e578f8077a2e3ff46729665b'],
+  [
+    '6',
+    LONG_KEY,
+    toHex(utf8Encode('Test Using Larger Than Block-Size Key - Hash Key First')),
+    '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54'
+  ],
+  [
+    '7',
+    LONG_KEY,
+    toHex(
+      utf8Encode(
+        'This is a test using a larger than block-size key and a larger than block-size data. The key needs to be hashed before being used by the HMAC algorithm.'
+      )
+    ),
+    '9b09ffa71b942fcb27635fbcd5b0e944bfdc63644f0713938a7f51535c3a35e2'
+  ]
+];
+
+describe('HMAC', () => {
+  it.each(RFC_4231)('matches RFC 4231 test case %s', async (_, key, data, expected) => {
+    const tag = unwrap(await hmacSign(fromHex(data), fromHex(key)));
+    expect(toHex(tag)).toBe(expected);
+    expect(unwrap(await hmacVerify(fromHex(data), tag, fromHex(key)))).toBe(true);
+    tag[0] ^= 1;
+    expect(unwrap(await hmacVerify(fromHex(data), tag, fromHex(key)))).toBe(false);
+  });
+
+  it('refuses an empty key', async () => {
+    const result = await hmacSign(utf8Encode('message'), new Uint8Array(0));
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('invalid-key');
+  });
+});
+
+describe('tag comparison', () => {
+  const tag = fromHex('00112233445566778899aabbccddeeff');
+
+  it.each([
+    ['equal tags', tag, true],
+    ['a wrong first byte', fromHex('ff112233445566778899aabbccddeeff'), false],
+    ['a wrong last byte', fromHex('00112233445566778899aabbccddee00'), false],
+    ['a shorter tag', tag.subarray(0, 15), false],
+    ['an empty tag', new Uint8Array(0), false]
+  ])('agrees between the naive and constant-time compare on %s', (_, other, equal) => {
+    expect(naiveEqual(tag, other).equal).toBe(equal);
+    expect(constantTimeEqual(tag, other)).toBe(equal);
+  });
+
+  it('reports how far the naive compare got', () => {
+    expect(naiveEqual(tag, fromHex('ff112233445566778899aabbccddeeff')).compared).toBe(1);
+    expect(naiveEqual(tag, fromHex('00112233445566778899aabbccddee00')).compared).toBe(16);
+  });
+
+  it('lets timing recover a whole tag from the naive compare', async () => {
+    const oracle = unwrap(await createTimingOracle('naive', utf8Encode('amount=100'), 'HS256'));
+    const known: number[] = [];
+    let accepted = false;
+    while (!accepted && known.length < oracle.tagLength) {
+      const timed = timeTagByte(oracle, new Uint8Array(known), 50);
+      known.push(timed.byte);
+      accepted = timed.accepted;
+    }
+    expect(accepted).toBe(true);
+    expect(oracle.check(new Uint8Array(known)).accepted).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+import { HASH_BYTES } from './digest';
+import { Result, fail, ok } from './result';
+import { HashAlgorithm } from './types';
+
+// HMAC algorithms by their JWA names, as in JWS and the ciphertext envelope.
+export type MacAlgorithm = 'HS256' | 'HS384' | 'HS512';
+
+export const MAC_ALGORITHMS: MacAlgorithm[] = ['HS256', 'HS384', 'HS512'];
+
+export const MAC_HASHES: Record<MacAlgorithm, HashAlgorithm> = {
+  HS256: 'SHA-256',
+  HS384: 'SHA-384',
+  HS512: 'SHA-512'
+};
+
+/** A random key as long as the hash output, as RFC 2104 recommends. */
+export const generateMacKey = (algorithm: MacAlgorithm = 'HS256'): Uint8Array =>
+  crypto.getRandomValues(new Uint8Array(HASH_BYTES[MAC_HASHES[algorithm]]));
+
+const importMacKey = async (keyBytes: Uint8Array, algorithm: MacAlgorithm, usage: KeyUsage): Promise<Result<CryptoKey>> => {
+  if (keyBytes.length === 0) return fail('invalid-key', 'An HMAC key cannot be empty.');
+  try {
+    return ok(await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: MAC_HASHES[algorithm] }, false, [usage]));
+  } catch (error) {
+    return fail('invalid-key', `The key could not be imported for ${algorithm}.`, error);
+  }
+};
+
+export const hmacSign = async (message: Uint8Array, keyBytes: Uint8Array, algorithm: MacAlgorithm = 'HS256'): Promise<Result<Uint8Array>> => {
+  const key = await importMacKey(keyBytes, algorithm, 'sign');
+  if (!key.ok) return key;
+  try {
+    return ok(new Uint8Array(await crypto.subtle.sign('HMAC', key.value, message)));
+  } catch (error) {
+    return fail('signing-failed', `${algorithm} could not compute the tag.`, error);
+  }
+};
+
+/** Verifies inside WebCrypto, whose comparison does not stop at the first wrong byte. */
+export const hmacVerify = async (
+  message: Uint8Array,
+  tag: Uint8Array,
+  keyBytes: Uint8Array,
+  algorithm: MacAlgorithm = 'HS256'
+): Promise<Result<boolean>> => {
+  const key = await importMacKey(keyBytes, algorithm, 'verify');
+  if (!key.ok) return key;
+  try {
+    return ok(await crypto.subtle.verify('HMAC', key.value, tag, message));
+  } catch (error) {
+    return fail('verification-failed', `${algorithm} verification failed.`, error);
+  }
+};
+
+/* Comparing tags */
+
+/**
+ * Stops at the first mismatch, like a plain loop or string ===. `compared` is how many bytes
+ * it looked at, and so how long it took: one more for every correct leading byte.
+ */
+export const naiveEqual = (a: Uint8Array, b: Uint8Array): { equal: boolean; compared: number } => {
+  if (a.length !== b.length) return { equal: false, compared: 0 };
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return { equal: false, compared: i + 1 };
+  }
+  return { equal: true, compared: a.length };
+};
+
+/**
+ * Looks at every byte whatever it finds, so the time depends only on the length. JavaScript
+ * engines promise nothing about timing; this is the shape real implementations use.
+ */
+export const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a[i] ^ b[i];
+  return difference === 0;
+};
+
+/* Timing-leak exercise */
+
+export type TagComparison = 'naive' | 'constant-time';
+
+export interface TimingOracle {
+  comparison: TagComparison;
+  tagLength: number;
+  // Checks a guessed tag for the server's message; the time is simulated in nanoseconds.
+  check: (tag: Uint8Array) => { accepted: boolean; nanoseconds: number };
+  queries: () => number;
+}
+
+// Simulated costs: a fixed request overhead, each byte compared, and network jitter. Real
+// measurements are noisier, which attackers average away with many more samples.
+const BASE_NANOSECONDS = 5000;
+const NANOSECONDS_PER_BYTE = 60;
+const JITTER_NANOSECONDS = 40;
+
+// Box-Muller: a normally distributed sample with the given standard deviation.
+const jitter = (deviation: number): number =>
+  deviation * Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+
+/**
+ * A simulated server that checks HMAC tags for one message it will not sign. With the naive
+ * comparison its response time grows with the number of correct leading bytes.
+ */
+export const createTimingOracle = async (
+  comparison: TagComparison,
+  message: Uint8Array,
+  algorithm: MacAlgorithm = 'HS256'
+): Promise<Result<TimingOracle>> => {
+  const expected = await hmacSign(message, generateMacKey(algorithm), algorithm);
+  if (!expected.ok) return expected;
+  let count = 0;
+  return ok({
+    comparison,
+    tagLength: expected.value.length,
+    check: tag => {
+      count++;
+      const { equal, compared } =
+        comparison === 'naive'
+          ? naiveEqual(tag, expected.value)
+          : { equal: constantTimeEqual(tag, expected.value), compared: expected.value.length };
+      return { accepted: equal, nanoseconds: BASE_NANOSECONDS + compared * NANOSECONDS_PER_BYTE + jitter(JITTER_NANOSECONDS) };
+    },
+    queries: () => count
+  });
+};
+
+export interface TimedByte {
+  // The candidate the server accepted, else the one with the longest average response.
+  byte: number;
+  accepted: boolean;
+  // Average simulated response time for each of the 256 candidates.
+  averages: number[];
+}
+
+/**
+ * Guesses the tag byte after `known` by timing all 256 candidates `samples` times each and
+ * keeping the slowest. Against the naive comparison the right byte costs one more byte compared.
+ * The last byte takes no longer when right, but then the server accepts the tag.
+ */
+export const timeTagByte = (oracle: TimingOracle, known: Uint8Array, samples: number): TimedByte => {
+  const guess = new Uint8Array(oracle.tagLength);
+  guess.set(known);
+  let accepted: number | null = null;
+  const averages = Array.from({ length: 256 }, (_, candidate) => {
+    guess[known.length] = candidate;
+    let total = 0;
+    for (let i = 0; i < samples; i++) {
+      const response = oracle.check(guess);
+      if (response.accepted) accepted = candidate;
+      total += response.nanoseconds;
+    }
+    return total / samples;
+  });
+  const slowest = averages.reduce((best, average, candidate) => (average > averages[best] ? candidate : best), 0);
+  return { byte: accepted ?? slowest, accepted: accepted !== null, averages };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { toHex, utf8Encode } from './encoding';
+import { md5 } from './md5';
+
+describe('md5', () => {
+  // RFC 1321 appendix A.5.
+  it.each([
+    ['', 'd41d8cd98f00b204e9800998ecf8427e'],
+    ['a', '0cc175b9c0f1b6a831c399e269772661'],
+    ['abc', '900150983cd24fb0d6963f7d28e17f72'],
+    ['message digest', 'f96b697d7cb7938d525a2f31aaf161d0'],
+    ['abcdefghijklmnopqrstuvwxyz', 'c3fcd3d76192e4007dfb496cca67e13b'],
+    ['ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789', 'd174ab98d277d9f5a5611c2c9f419d9f'],
+    ['1234567890'.repeat(8), '57edf4a22be3c955ac49da2e2107b67a']
+  ])('matches the RFC 1321 vector for "%s"', (input, expected) => {
+    expect(toHex(md5(utf8Encode(input)))).toBe(expected);
+  });
+
+  // Lengths where the padding fills the block exactly, spills into a second one, or starts a new one.
+  it.each([
+    [55, 'ef1772b6dff9a122358552954ad0df65'],
+    [56, '3b0c8ac703f828b04c6c197006d17218'],
+    [64, '014842d480b571495a4a0363793f7367']
+  ])('hashes %i bytes across the block boundary', (length, expected) => {
+    expect(toHex(md5(utf8Encode('a'.repeat(length))))).toBe(expected);
+  });
+});
@@ -0,0 +1,60 @@
+// MD5 (RFC 1321), for comparison only: collisions take seconds on a laptop, so it must not
+// be used where an attacker chooses any input.
+
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+// K[i] = floor(2^32 * |sin(i + 1)|)
+const K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0);
+
+const rotl = (x: number, n: number): number => (x << n) | (x >>> (32 - n));
+
+export const md5 = (data: Uint8Array): Uint8Array => {
+  // Pad to 56 mod 64 with 0x80 and zeros, then the bit length as 64-bit little-endian.
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(padded.length - 4, Math.floor(data.length / 0x20000000), true);
+
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  const m = new Array<number>(16);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) m[i] = view.getUint32(offset + 4 * i, true);
+    let [a, b, c, d] = h;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const next = (b + rotl((a + f + K[i] + m[g]) | 0, SHIFTS[i])) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = next;
+    }
+    h[0] = (h[0] + a) | 0;
+    h[1] = (h[1] + b) | 0;
+    h[2] = (h[2] + c) | 0;
+    h[3] = (h[3] + d) | 0;
+  }
+
+  const out = new Uint8Array(16);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setUint32(4 * i, word >>> 0, true));
+  return out;
+};
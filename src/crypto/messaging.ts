@@ -0,0 +1,196 @@
+import { parseBase64, toBase64, utf8Decode, utf8Encode } from './encoding';
+import { decodeHybridEnvelope, encodeHybridEnvelope } from './envelope';
+import { hybridDecrypt, hybridEncrypt } from './hybrid';
+import { Result, ok } from './result';
+import { DEFAULT_RSA_PARAMS, generateRsaKeyPair } from './rsa';
+import { generateSigningKeyPair, signMessage, verifyMessage } from './signature';
+import { KeyPair, RsaParams } from './types';
+
+/*
+ * A toy secure-messaging protocol for the multi-party simulation. Each protection can be
+ * switched off to show which attack it stops:
+ *
+ *   encrypt   hybrid RSA-OAEP + AES-256-GCM: confidentiality, and the GCM tag gives integrity
+ *   sign      Ed25519 over sender, recipient, counter and body: authenticity
+ *   sequence  a per-sender counter the recipient must see increase: freshness
+ *
+ * Sender and recipient agree on the protections beforehand, so a recipient expecting a
+ * signature rejects a message that arrives without one rather than being downgraded.
+ */
+
+export interface Protections {
+  encrypt: boolean;
+  sign: boolean;
+  sequence: boolean;
+}
+
+export interface Party {
+  name: string;
+  encryption: KeyPair;
+  signing: KeyPair;
+}
+
+export interface Packet {
+  from: string;
+  to: string;
+  // Sender's message counter; 0 when sequence numbers are off.
+  seq: number;
+  encrypted: boolean;
+  // The message text, or a hybrid envelope when encrypted.
+  body: string;
+  // Base64 Ed25519 signature over signedBytes(packet).
+  signature?: string;
+}
+
+export type CheckOutcome = 'passed' | 'failed' | 'off';
+
+export interface Receipt {
+  accepted: boolean;
+  // What the recipient reads; null when the body could not be decrypted.
+  text: string | null;
+  integrity: CheckOutcome;
+  authenticity: CheckOutcome;
+  freshness: CheckOutcome;
+  // The first check that failed, or how the message was accepted.
+  reason: string;
+}
+
+const SIGNING_SCHEME = { name: 'Ed25519' } as const;
+// Four parties' keys are generated at once, so 2048 bits keeps that quick.
+const ENCRYPTION_PARAMS: RsaParams = { ...DEFAULT_RSA_PARAMS, modulusLength: 2048 };
+
+const signedBytes = ({ from, to, seq, body }: Packet): Uint8Array =>
+  utf8Encode(JSON.stringify(['cryptolab message v1', from, to, seq, body]));
+
+export const createParty = async (name: string): Promise<Result<Party>> => {
+  const [encryption, signing] = await Promise.all([
+    generateRsaKeyPair('encryption', ENCRYPTION_PARAMS),
+    generateSigningKeyPair(SIGNING_SCHEME)
+  ]);
+  if (!encryption.ok) return encryption;
+  if (!signing.ok) return signing;
+  return ok({ name, encryption: encryption.value, signing: signing.value });
+};
+
+/**
+ * Builds the packet the sender puts on the wire. The sender's name is whatever it claims:
+ * only the signature ties the packet to the sender's key.
+ */
+export const sealMessage = async (
+  sender: Party,
+  recipient: Party,
+  text: string,
+  seq: number,
+  protections: Protections
+): Promise<Result<Packet>> => {
+  let body = text;
+  if (protections.encrypt) {
+    const encrypted = await hybridEncrypt(recipient.encryption.publicKey, utf8Encode(text), ENCRYPTION_PARAMS);
+    if (!encrypted.ok) return encrypted;
+    body = encodeHybridEnvelope(encrypted.value);
+  }
+
+  const packet: Packet = {
+    from: sender.name,
+    to: recipient.name,
+    seq: protections.sequence ? seq : 0,
+    encrypted: protections.encrypt,
+    body
+  };
+  if (!protections.sign) return ok(packet);
+
+  const signature = await signMessage(SIGNING_SCHEME, sender.signing.privateKey, signedBytes(packet));
+  if (!signature.ok) return signature;
+  return ok({ ...packet, signature: toBase64(signature.value) });
+};
+
+/**
+ * Runs the recipient's checks. `sender` is the party the packet claims to come from and
+ * `lastSeq` the highest counter already accepted from it.
+ */
+export const openMessage = async (
+  recipient: Party,
+  sender: Party,
+  packet: Packet,
+  lastSeq: number,
+  protections: Protections
+): Promise<Result<Receipt>> => {
+  let authenticity: CheckOutcome = 'off';
+  if (protections.sign) {
+    authenticity = 'failed';
+    if (packet.signature) {
+      const signature = parseBase64(packet.signature, 'Signature');
+      if (!signature.ok) return signature;
+      const verified = await verifyMessage(SIGNING_SCHEME, sender.signing.publicKey, signedBytes(packet), signature.value);
+      if (!verified.ok) return verified;
+      if (verified.value) authenticity = 'passed';
+    }
+  }
+
+  let freshness: CheckOutcome = 'off';
+  if (protections.sequence) freshness = packet.seq > lastSeq ? 'passed' : 'failed';
+
+  let integrity: CheckOutcome = 'off';
+  let text: string | null = packet.body;
+  if (protections.encrypt) {
+    integrity = 'failed';
+    text = null;
+    if (packet.encrypted) {
+      const payload = decodeHybridEnvelope(packet.body);
+      const decrypted = payload.ok
+        ? await hybridDecrypt(recipient.encryption.privateKey, payload.value, ENCRYPTION_PARAMS)
+        : null;
+      if (decrypted?.ok) {
+        integrity = 'passed';
+        text = utf8Decode(decrypted.value);
+      }
+    }
+  }
+
+  const receipt = { text, integrity, authenticity, freshness };
+  if (authenticity === 'failed') {
+    return ok({
+      ...receipt,
+      accepted: false,
+      reason: packet.signature
+        ? `The signature does not verify under ${sender.name}'s public key.`
+        : `The message is unsigned, but ${recipient.name} only accepts signed messages.`
+    });
+  }
+  if (integrity === 'failed') {
+    return ok({
+      ...receipt,
+      accepted: false,
+      reason: packet.encrypted
+        ? 'Decryption failed: the AES-GCM tag does not verify, so the ciphertext was changed.'
+        : `The message arrived in plaintext, but ${recipient.name} only accepts encrypted messages.`
+    });
+  }
+  if (freshness === 'failed') {
+    return ok({
+      ...receipt,
+      accepted: false,
+      reason: `Message number ${packet.seq} from ${sender.name} was already seen (last accepted: ${lastSeq}): a replay.`
+    });
+  }
+  return ok({
+    ...receipt,
+    accepted: true,
+    reason: protections.sign ? `Accepted as genuinely from ${sender.name}.` : `Accepted; nothing proves it is from ${sender.name}.`
+  });
+};
+
+/**
+ * What an attacker on the wire can do without any key: edit a plaintext body at will, or
+ * flip a bit of an encrypted one without knowing what it decrypts to.
+ */
+export const tamperPacket = (packet: Packet, replacement: string): Result<Packet> => {
+  if (!packet.encrypted) return ok({ ...packet, body: replacement });
+
+  const payload = decodeHybridEnvelope(packet.body);
+  if (!payload.ok) return payload;
+  // Never empty: the 16-byte GCM tag is always there.
+  const ciphertext = new Uint8Array(payload.value.ciphertext);
+  ciphertext[0] ^= 0x01;
+  return ok({ ...packet, body: encodeHybridEnvelope({ ...payload.value, ciphertext }) });
+};
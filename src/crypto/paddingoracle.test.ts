@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { utf8Decode, utf8Encode } from './encoding';
+import { createPaddingOracle, OracleDefence, PaddingOracle, recoverIntermediateByte } from './paddingoracle';
+import { AES_BLOCK_BYTES } from './symmetric';
+import { unwrap } from './testing';
+
+const SECRET = 'Meet at the usual place at ten.';
+
+// The whole attack: every byte of every block, then the PKCS#7 padding stripped.
+const decryptWithOracle = async (oracle: PaddingOracle): Promise<Uint8Array> => {
+  const plaintext: number[] = [];
+  for (let offset = 0; offset < oracle.ciphertext.length; offset += AES_BLOCK_BYTES) {
+    const block = oracle.ciphertext.slice(offset, offset + AES_BLOCK_BYTES);
+    const previous = offset === 0 ? oracle.iv : oracle.ciphertext.slice(offset - AES_BLOCK_BYTES, offset);
+    const intermediate = new Uint8Array(AES_BLOCK_BYTES);
+    for (let position = AES_BLOCK_BYTES - 1; position >= 0; position--) {
+      intermediate[position] = unwrap(await recoverIntermediateByte(oracle, block, intermediate, position));
+    }
+    plaintext.push(...intermediate.map((byte, i) => byte ^ previous[i]));
+  }
+  return new Uint8Array(plaintext.slice(0, plaintext.length - plaintext[plaintext.length - 1]));
+};
+
+describe('padding oracle', () => {
+  it('recovers the whole plaintext from plain AES-CBC', async () => {
+    const oracle = unwrap(await createPaddingOracle('none', utf8Encode(SECRET)));
+    expect(oracle.ciphertext).toHaveLength(2 * AES_BLOCK_BYTES);
+    expect(utf8Decode(await decryptWithOracle(oracle))).toBe(SECRET);
+    // About 128 guesses a byte on average, never more than 257.
+    expect(oracle.queries()).toBeLessThanOrEqual(oracle.ciphertext.length * 257);
+  });
+
+  it.each<OracleDefence>(['encrypt-then-mac', 'aes-gcm'])('learns nothing when the server uses %s', async defence => {
+    const oracle = unwrap(await createPaddingOracle(defence, utf8Encode(SECRET)));
+    const block = oracle.ciphertext.slice(0, AES_BLOCK_BYTES);
+    const result = await recoverIntermediateByte(oracle, block, new Uint8Array(AES_BLOCK_BYTES), AES_BLOCK_BYTES - 1);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('decryption-failed');
+    expect(oracle.queries()).toBe(256);
+  });
+});
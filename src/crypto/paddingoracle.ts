@@ -0,0 +1,125 @@
+import { Result, fail, ok } from './result';
+import { AES_BLOCK_BYTES, encryptSymmetric, GCM_TAG_BYTES, generateSymmetricKey } from './symmetric';
+
+/*
+ * A simulated server for the CBC padding-oracle lab. It holds a secret key, hands out one
+ * encrypted message, and answers every message it receives with one of
+ *
+ *   accepted     decrypted, and the padding was valid
+ *   bad-padding  the padding was invalid (the leak: a distinct error, status code or timing)
+ *   rejected     the tag or MAC did not verify, so nothing was decrypted
+ *
+ * With plain AES-CBC the second answer is enough to decrypt any captured message. With
+ * encrypt-then-MAC or AES-GCM every modified message is rejected before decryption, so all
+ * answers look the same and the attacker learns nothing.
+ */
+
+export type OracleDefence = 'none' | 'encrypt-then-mac' | 'aes-gcm';
+
+export type OracleResponse = 'accepted' | 'bad-padding' | 'rejected';
+
+export interface PaddingOracle {
+  defence: OracleDefence;
+  // The captured message. For encrypt-then-MAC and AES-GCM the server expects the captured
+  // MAC or tag with it, which the attacker cannot recompute for a modified message.
+  iv: Uint8Array;
+  ciphertext: Uint8Array;
+  query: (iv: Uint8Array, ciphertext: Uint8Array) => Promise<OracleResponse>;
+  queries: () => number;
+}
+
+const MAC_KEY_BYTES = 32;
+
+const concat = (a: Uint8Array, b: Uint8Array): Uint8Array => new Uint8Array([...a, ...b]);
+
+export const createPaddingOracle = async (defence: OracleDefence, secret: Uint8Array): Promise<Result<PaddingOracle>> => {
+  const keyBytes = generateSymmetricKey();
+  const mode = defence === 'aes-gcm' ? 'AES-GCM' : 'AES-CBC';
+  const encrypted = await encryptSymmetric(secret, keyBytes, mode);
+  if (!encrypted.ok) return encrypted;
+
+  let count = 0;
+  try {
+    const key = await crypto.subtle.importKey('raw', keyBytes, { name: mode }, false, ['decrypt']);
+    const macKey = await crypto.subtle.importKey(
+      'raw',
+      crypto.getRandomValues(new Uint8Array(MAC_KEY_BYTES)),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+    const { iv } = encrypted.value;
+
+    if (defence === 'aes-gcm') {
+      const { ciphertext } = encrypted.value;
+      const tag = ciphertext.subarray(ciphertext.length - GCM_TAG_BYTES);
+      return ok({
+        defence,
+        iv,
+        ciphertext: ciphertext.subarray(0, ciphertext.length - GCM_TAG_BYTES),
+        query: async (queryIv, queryCiphertext) => {
+          count++;
+          try {
+            await crypto.subtle.decrypt({ name: 'AES-GCM', iv: queryIv }, key, concat(queryCiphertext, tag));
+            return 'accepted';
+          } catch {
+            return 'rejected';
+          }
+        },
+        queries: () => count
+      });
+    }
+
+    const mac = new Uint8Array(await crypto.subtle.sign('HMAC', macKey, concat(iv, encrypted.value.ciphertext)));
+    return ok({
+      defence,
+      iv,
+      ciphertext: encrypted.value.ciphertext,
+      query: async (queryIv, queryCiphertext) => {
+        count++;
+        // Encrypt-then-MAC: authenticate IV and ciphertext before touching the padding.
+        if (defence === 'encrypt-then-mac' && !(await crypto.subtle.verify('HMAC', macKey, mac, concat(queryIv, queryCiphertext)))) {
+          return 'rejected';
+        }
+        try {
+          await crypto.subtle.decrypt({ name: 'AES-CBC', iv: queryIv }, key, queryCiphertext);
+          return 'accepted';
+        } catch {
+          return 'bad-padding';
+        }
+      },
+      queries: () => count
+    });
+  } catch (error) {
+    return fail('encryption-failed', 'The oracle server could not be set up.', error);
+  }
+};
+
+/**
+ * Finds byte `position` of D_K(block), the block's intermediate state, given the bytes after
+ * it. The attacker sends a forged previous block whose tail makes those later bytes decrypt
+ * to the padding value, then tries all 256 values at `position` until the padding is valid.
+ */
+export const recoverIntermediateByte = async (
+  oracle: PaddingOracle,
+  block: Uint8Array,
+  intermediate: Uint8Array,
+  position: number
+): Promise<Result<number>> => {
+  const pad = AES_BLOCK_BYTES - position;
+  const forged = new Uint8Array(AES_BLOCK_BYTES);
+  for (let i = position + 1; i < AES_BLOCK_BYTES; i++) forged[i] = intermediate[i] ^ pad;
+
+  for (let guess = 0; guess < 256; guess++) {
+    forged[position] = guess;
+    if ((await oracle.query(forged, block)) !== 'accepted') continue;
+    // For the last byte, ...02 02 is valid padding too; changing the byte before rules it out.
+    if (pad === 1 && position > 0) {
+      const check = new Uint8Array(forged);
+      check[position - 1] ^= 0xff;
+      if ((await oracle.query(check, block)) !== 'accepted') continue;
+    }
+    return ok(guess ^ pad);
+  }
+  return fail('decryption-failed', 'No guess was accepted: the server reveals nothing about the padding.');
+};
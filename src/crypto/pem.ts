@@ -0,0 +1,37 @@
+import { parseBase64, toBase64 } from './encoding';
+import { Result, fail, ok } from './result';
+
+export type PemLabel = 'PUBLIC KEY' | 'PRIVATE KEY' | 'RSA PUBLIC KEY' | 'RSA PRIVATE KEY' | 'EC PRIVATE KEY' | 'CMS';
+
+export interface PemBlock {
+  label: string;
+  der: Uint8Array;
+}
+
+const PEM_LINE_LENGTH = 64;
+
+// RFC 7468: the body is base64 wrapped at 64 columns, as OpenSSL writes it.
+export const derToPem = (der: ArrayBuffer | Uint8Array, label: PemLabel): string => {
+  const body = toBase64(der).match(new RegExp(`.{1,${PEM_LINE_LENGTH}}`, 'g')) ?? [];
+  return [`-----BEGIN ${label}-----`, ...body, `-----END ${label}-----`].join('\n');
+};
+
+const PEM_PATTERN = /-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/;
+
+/**
+ * Reads the first PEM block in the text. Line endings, wrapping and surrounding text are
+ * ignored, as are RFC 1421 headers such as "Proc-Type", which the lab then rejects as
+ * unsupported encryption.
+ */
+export const parsePem = (text: string): Result<PemBlock> => {
+  const match = PEM_PATTERN.exec(text);
+  if (!match) return fail('invalid-key', 'No PEM block found: expected "-----BEGIN ...-----" and a matching END line.');
+
+  const [, label, rawBody] = match;
+  if (/^[A-Za-z-]+:/m.test(rawBody)) {
+    return fail('invalid-key', `This ${label} is encrypted with a passphrase; decrypt it first (openssl pkey -in key.pem).`);
+  }
+  const der = parseBase64(rawBody, `The ${label} body`);
+  if (!der.ok) return der;
+  return ok({ label, der: der.value });
+};
@@ -0,0 +1,25 @@
+export type CryptoErrorCode =
+  | 'invalid-input'
+  | 'invalid-key'
+  | 'encryption-failed'
+  | 'decryption-failed'
+  | 'key-generation-failed'
+  | 'signing-failed'
+  | 'verification-failed'
+  | 'digest-failed'
+  | 'storage-failed';
+
+export interface CryptoError {
+  code: CryptoErrorCode;
+  message: string;
+  cause?: unknown;
+}
+
+export type Result<T> = { ok: true; value: T } | { ok: false; error: CryptoError };
+
+export const ok = <T>(value: T): Result<T> => ({ ok: true, value });
+
+export const fail = <T = never>(code: CryptoErrorCode, message: string, cause?: unknown): Result<T> => ({
+  ok: false,
+  error: { code, message, cause }
+});
@@ -0,0 +1,35 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { utf8Decode, utf8Encode } from './encoding';
+import { DEFAULT_RSA_PARAMS, generateRsaKeyPair, rsaOaepDecrypt, rsaOaepEncrypt, signPss, verifyPss } from './rsa';
+import { unwrap } from './testing';
+import { KeyPair, RsaParams } from './types';
+
+// 2048 bits keeps key generation quick; the code paths are the same as for 4096.
+const params: RsaParams = { ...DEFAULT_RSA_PARAMS, modulusLength: 2048 };
+
+describe('RSA', () => {
+  let encryption: KeyPair;
+  let signing: KeyPair;
+
+  beforeAll(async () => {
+    encryption = unwrap(await generateRsaKeyPair('encryption', params));
+    signing = unwrap(await generateRsaKeyPair('signing', params));
+  });
+
+  it('round-trips RSA-OAEP', async () => {
+    const ciphertext = unwrap(await rsaOaepEncrypt(encryption.publicKey, utf8Encode('session key'), params));
+    expect(utf8Decode(unwrap(await rsaOaepDecrypt(encryption.privateKey, ciphertext, params)))).toBe('session key');
+  });
+
+  it('refuses plaintexts longer than OAEP allows', async () => {
+    const tooLong = await rsaOaepEncrypt(encryption.publicKey, new Uint8Array(256), params);
+    expect(tooLong.ok).toBe(false);
+  });
+
+  it('verifies RSA-PSS signatures and rejects a changed message', async () => {
+    const message = utf8Encode('signed message');
+    const signature = unwrap(await signPss(signing.privateKey, message, params));
+    expect(unwrap(await verifyPss(signing.publicKey, message, signature, params))).toBe(true);
+    expect(unwrap(await verifyPss(signing.publicKey, utf8Encode('signed massage'), signature, params))).toBe(false);
+  });
+});
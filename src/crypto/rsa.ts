@@ -0,0 +1,253 @@
+import { HASH_BYTES } from './digest';
+import { utf8Encode } from './encoding';
+import { decodeKeyAs } from './keys';
+import { derToPem } from './pem';
+import { Result, fail, ok } from './result';
+import { HashAlgorithm, KeyPair, PrivateKeyInput, RsaModulusLength, RsaParams } from './types';
+import { checkCryptoKey } from './webcrypto';
+
+export type RsaUsage = 'encryption' | 'signing';
+
+export interface RsaCiphertext {
+  ciphertext: Uint8Array;
+  // OAEP hash, recorded in the envelope so the recipient can import the key to match.
+  hash: HashAlgorithm;
+}
+
+export const RSA_MODULUS_LENGTHS: RsaModulusLength[] = [1024, 2048, 3072, 4096];
+
+// Used for key pairs generated before parameters were recorded, and as the panel defaults.
+export const DEFAULT_RSA_PARAMS: RsaParams = {
+  modulusLength: 4096,
+  hash: 'SHA-256',
+  saltLength: 32,
+  label: ''
+};
+
+const ALGORITHM: Record<RsaUsage, 'RSA-OAEP' | 'RSA-PSS'> = {
+  encryption: 'RSA-OAEP',
+  signing: 'RSA-PSS'
+};
+
+const KEY_USAGES: Record<RsaUsage, KeyUsage[]> = {
+  encryption: ['encrypt', 'decrypt'],
+  signing: ['sign', 'verify']
+};
+
+/** The parameters a key pair was generated with; untagged RSA pairs use the defaults. */
+export const rsaParamsOf = (keyPair: KeyPair): RsaParams =>
+  (keyPair.algorithm?.name === 'RSA-OAEP' || keyPair.algorithm?.name === 'RSA-PSS') && keyPair.algorithm.params
+    ? keyPair.algorithm.params
+    : DEFAULT_RSA_PARAMS;
+
+export const formatRsaParams = (usage: RsaUsage, { modulusLength, hash, saltLength, label }: RsaParams): string =>
+  `${ALGORITHM[usage]} ${modulusLength} / ${hash}` +
+  (usage === 'signing' ? `, salt ${saltLength} bytes` : label ? `, label "${label}"` : '');
+
+/** Largest plaintext RSA-OAEP accepts: the modulus size minus two hashes and two bytes. */
+export const rsaOaepMaxPlaintextBytes = (modulusBits: number, hashBytes = 32): number =>
+  Math.floor(modulusBits / 8) - 2 * hashBytes - 2;
+
+/** Largest RSA-PSS salt: the encoded message length minus the hash and two bytes. */
+export const rsaPssMaxSaltBytes = (modulusBits: number, hashBytes = 32): number =>
+  Math.ceil((modulusBits - 1) / 8) - hashBytes - 2;
+
+/** Explains why a parameter combination cannot work, or returns null when it can. */
+export const validateRsaParams = (usage: RsaUsage, { modulusLength, hash, saltLength }: RsaParams): string | null => {
+  if (usage === 'encryption' && rsaOaepMaxPlaintextBytes(modulusLength, HASH_BYTES[hash]) < 32) {
+    return `RSA-OAEP with ${hash} on a ${modulusLength}-bit key leaves too little room to encrypt even a 32-byte AES key.`;
+  }
+  if (usage === 'signing') {
+    const maxSalt = rsaPssMaxSaltBytes(modulusLength, HASH_BYTES[hash]);
+    if (!Number.isInteger(saltLength) || saltLength < 0 || saltLength > maxSalt) {
+      return `RSA-PSS salt length must be between 0 and ${maxSalt} bytes for ${hash} with a ${modulusLength}-bit key.`;
+    }
+  }
+  return null;
+};
+
+export const generateRsaKeyPair = async (usage: RsaUsage, params: RsaParams = DEFAULT_RSA_PARAMS): Promise<Result<KeyPair>> => {
+  const invalid = validateRsaParams(usage, params);
+  if (invalid) return fail('invalid-input', invalid);
+
+  try {
+    const keyPair = await crypto.subtle.generateKey(
+      {
+        name: ALGORITHM[usage],
+        modulusLength: params.modulusLength,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: params.hash
+      },
+      true,
+      KEY_USAGES[usage]
+    );
+
+    const publicKeyBuffer = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+    const privateKeyBuffer = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+
+    return ok({
+      publicKey: derToPem(publicKeyBuffer, 'PUBLIC KEY'),
+      privateKey: derToPem(privateKeyBuffer, 'PRIVATE KEY'),
+      algorithm: { name: ALGORITHM[usage], params }
+    });
+  } catch (error) {
+    return fail('key-generation-failed', `${ALGORITHM[usage]} key generation failed.`, error);
+  }
+};
+
+// WebCrypto binds the hash to the imported key, so it must match what the key pair was made with.
+const importRsaKey = async (
+  input: PrivateKeyInput,
+  usage: RsaUsage,
+  keyUsage: KeyUsage,
+  params: RsaParams,
+  algorithm: 'RSA-OAEP' | 'RSA-PSS' | 'RSASSA-PKCS1-v1_5' = ALGORITHM[usage]
+): Promise<Result<CryptoKey>> => {
+  if (typeof input !== 'string') {
+    const checked = checkCryptoKey(input, algorithm, keyUsage);
+    if (!checked.ok) return checked;
+    const { hash } = input.algorithm as RsaHashedKeyAlgorithm;
+    if (hash.name !== params.hash) {
+      return fail('invalid-key', `This keyring key is bound to ${hash.name}, but ${params.hash} was requested.`);
+    }
+    return checked;
+  }
+
+  const isPublic = keyUsage === 'encrypt' || keyUsage === 'verify';
+  const decoded = decodeKeyAs(input, isPublic ? 'public' : 'private', 'RSA');
+  if (!decoded.ok) return decoded;
+  try {
+    return ok(
+      await crypto.subtle.importKey(
+        isPublic ? 'spki' : 'pkcs8',
+        decoded.value.der,
+        { name: algorithm, hash: params.hash },
+        false,
+        [keyUsage]
+      )
+    );
+  } catch (error) {
+    return fail('invalid-key', `Could not import the ${isPublic ? 'public' : 'private'} key for ${algorithm}.`, error);
+  }
+};
+
+const oaepParams = ({ label }: RsaParams): RsaOaepParams =>
+  label ? { name: 'RSA-OAEP', label: utf8Encode(label) } : { name: 'RSA-OAEP' };
+
+export const rsaOaepEncrypt = async (
+  publicKeyPem: string,
+  plaintext: Uint8Array,
+  params: RsaParams = DEFAULT_RSA_PARAMS
+): Promise<Result<Uint8Array>> => {
+  const key = await importRsaKey(publicKeyPem, 'encryption', 'encrypt', params);
+  if (!key.ok) return key;
+
+  const { modulusLength } = key.value.algorithm as RsaHashedKeyAlgorithm;
+  const maxBytes = rsaOaepMaxPlaintextBytes(modulusLength, HASH_BYTES[params.hash]);
+  if (plaintext.length > maxBytes) {
+    return fail(
+      'invalid-input',
+      `The message is ${plaintext.length} bytes, but RSA-OAEP with ${params.hash} and a ${modulusLength}-bit key can ` +
+        `encrypt at most ${Math.max(0, maxBytes)} bytes. Use hybrid encryption for longer messages.`
+    );
+  }
+
+  try {
+    return ok(new Uint8Array(await crypto.subtle.encrypt(oaepParams(params), key.value, plaintext)));
+  } catch (error) {
+    return fail('encryption-failed', 'RSA-OAEP encryption failed. The message may be too long for the key.', error);
+  }
+};
+
+export const rsaOaepDecrypt = async (
+  privateKey: PrivateKeyInput,
+  ciphertext: Uint8Array,
+  params: RsaParams = DEFAULT_RSA_PARAMS
+): Promise<Result<Uint8Array>> => {
+  const key = await importRsaKey(privateKey, 'encryption', 'decrypt', params);
+  if (!key.ok) return key;
+
+  try {
+    return ok(new Uint8Array(await crypto.subtle.decrypt(oaepParams(params), key.value, ciphertext)));
+  } catch (error) {
+    return fail(
+      'decryption-failed',
+      'RSA-OAEP decryption failed: wrong private key, hash or label, or corrupted ciphertext.',
+      error
+    );
+  }
+};
+
+export const signPss = async (
+  privateKey: PrivateKeyInput,
+  message: Uint8Array,
+  params: RsaParams = DEFAULT_RSA_PARAMS
+): Promise<Result<Uint8Array>> => {
+  const key = await importRsaKey(privateKey, 'signing', 'sign', params);
+  if (!key.ok) return key;
+
+  try {
+    return ok(
+      new Uint8Array(await crypto.subtle.sign({ name: 'RSA-PSS', saltLength: params.saltLength }, key.value, message))
+    );
+  } catch (error) {
+    return fail('signing-failed', 'RSA-PSS signing failed. The salt may be too long for the key and hash.', error);
+  }
+};
+
+// A well-formed but non-matching signature is ok(false); only unusable inputs are errors.
+export const verifyPss = async (
+  publicKeyPem: string,
+  message: Uint8Array,
+  signature: Uint8Array,
+  params: RsaParams = DEFAULT_RSA_PARAMS
+): Promise<Result<boolean>> => {
+  const key = await importRsaKey(publicKeyPem, 'signing', 'verify', params);
+  if (!key.ok) return key;
+
+  try {
+    return ok(
+      await crypto.subtle.verify({ name: 'RSA-PSS', saltLength: params.saltLength }, key.value, signature, message)
+    );
+  } catch (error) {
+    return fail('verification-failed', 'RSA-PSS verification could not be performed.', error);
+  }
+};
+
+/*
+ * RSASSA-PKCS1-v1_5, the older deterministic padding. The lab generates PSS key pairs, but the
+ * same key material works here; it is only for JWT's RS256, which still requires it.
+ */
+
+const PKCS1_V15 = 'RSASSA-PKCS1-v1_5';
+
+export const signPkcs1v15 = async (
+  privateKey: PrivateKeyInput,
+  message: Uint8Array,
+  hash: HashAlgorithm = 'SHA-256'
+): Promise<Result<Uint8Array>> => {
+  const key = await importRsaKey(privateKey, 'signing', 'sign', { ...DEFAULT_RSA_PARAMS, hash }, PKCS1_V15);
+  if (!key.ok) return key;
+
+  try {
+    return ok(new Uint8Array(await crypto.subtle.sign(PKCS1_V15, key.value, message)));
+  } catch (error) {
+    return fail('signing-failed', 'RSASSA-PKCS1-v1_5 signing failed.', error);
+  }
+};
+
+export const verifyPkcs1v15 = async (
+  publicKeyPem: string,
+  message: Uint8Array,
+  signature: Uint8Array,
+  hash: HashAlgorithm = 'SHA-256'
+): Promise<Result<boolean>> => {
+  const key = await importRsaKey(publicKeyPem, 'signing', 'verify', { ...DEFAULT_RSA_PARAMS, hash }, PKCS1_V15);
+  if (!key.ok) return key;
+
+  try {
+    return ok(await crypto.subtle.verify(PKCS1_V15, key.value, signature, message));
+  } catch (error) {
+    return fail('verification-failed', 'RSASSA-PKCS1-v1_5 verification could not be performed.', error);
+  }
+};
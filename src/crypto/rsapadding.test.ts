@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { toHex, utf8Encode } from './encoding';
+import { DEFAULT_RSA_PARAMS, generateRsaKeyPair, rsaOaepEncrypt, signPss } from './rsa';
+import { inspectOaep, inspectPss, mgf1 } from './rsapadding';
+import { unwrap } from './testing';
+import { HashAlgorithm, KeyPair, RsaParams } from './types';
+
+const MESSAGE = utf8Encode('open the encoded block');
+
+describe('RSA padding inspection', () => {
+  let encryption: KeyPair;
+  let signing: KeyPair;
+
+  beforeAll(async () => {
+    encryption = unwrap(await generateRsaKeyPair('encryption', { ...DEFAULT_RSA_PARAMS, modulusLength: 2048 }));
+    signing = unwrap(await generateRsaKeyPair('signing', { ...DEFAULT_RSA_PARAMS, modulusLength: 2048 }));
+  });
+
+  const paramsFor = (hash: HashAlgorithm, changes: Partial<RsaParams> = {}): RsaParams => ({
+    ...DEFAULT_RSA_PARAMS,
+    modulusLength: 2048,
+    hash,
+    ...changes
+  });
+
+  it('expands MGF1 by hashing the seed with a counter', async () => {
+    const seed = utf8Encode('seed');
+    const mask = await mgf1(seed, 40, 'SHA-256');
+    expect(mask).toHaveLength(40);
+    const first = new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array([...seed, 0, 0, 0, 0])));
+    expect(toHex(mask.subarray(0, 32))).toBe(toHex(first));
+  });
+
+  it.each<HashAlgorithm>(['SHA-1', 'SHA-256'])('decodes a WebCrypto RSA-OAEP %s ciphertext', async hash => {
+    const params = paramsFor(hash, { label: 'lab' });
+    const ciphertext = unwrap(await rsaOaepEncrypt(encryption.publicKey, MESSAGE, params));
+    const block = unwrap(await inspectOaep(encryption.privateKey, ciphertext, params));
+    expect(block.em).toHaveLength(256);
+    expect(block.em[0]).toBe(0);
+    expect(toHex(block.lHash)).toBe(toHex(block.expectedLHash));
+    expect(block.message && toHex(block.message)).toBe(toHex(MESSAGE));
+    expect(block.paddingBytes).toBe(256 - 2 * (hash === 'SHA-1' ? 20 : 32) - 2 - MESSAGE.length);
+    expect(block.reencodes).toBe(true);
+  });
+
+  it('finds no message when the label is wrong', async () => {
+    const ciphertext = unwrap(await rsaOaepEncrypt(encryption.publicKey, MESSAGE, paramsFor('SHA-256', { label: 'lab' })));
+    const block = unwrap(await inspectOaep(encryption.privateKey, ciphertext, paramsFor('SHA-256', { label: 'other' })));
+    expect(block).toMatchObject({ message: null, reencodes: false });
+  });
+
+  it('returns a failure rather than throwing when given a public key', async () => {
+    const ciphertext = unwrap(await rsaOaepEncrypt(encryption.publicKey, MESSAGE, paramsFor('SHA-256')));
+    expect((await inspectOaep(encryption.publicKey, ciphertext, paramsFor('SHA-256'))).ok).toBe(false);
+  });
+
+  it.each<HashAlgorithm>(['SHA-1', 'SHA-256'])('decodes a WebCrypto RSA-PSS %s signature', async hash => {
+    const params = paramsFor(hash, { saltLength: 20 });
+    const signature = unwrap(await signPss(signing.privateKey, MESSAGE, params));
+    const block = unwrap(await inspectPss(signing.publicKey, MESSAGE, signature, hash));
+    expect(block).toMatchObject({ trailer: 0xbc, zeroBits: 1, valid: true, reencodes: true });
+    expect(block.salt).toHaveLength(20);
+    expect(block.expectedH && toHex(block.expectedH)).toBe(toHex(block.h));
+  });
+
+  it('marks a PSS signature over another message invalid', async () => {
+    const signature = unwrap(await signPss(signing.privateKey, MESSAGE, paramsFor('SHA-256')));
+    const block = unwrap(await inspectPss(signing.publicKey, utf8Encode('another message'), signature, 'SHA-256'));
+    expect(block.valid).toBe(false);
+    // The block itself is intact; only H no longer matches the message.
+    expect(block.reencodes).toBe(false);
+  });
+});
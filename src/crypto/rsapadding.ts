@@ -0,0 +1,242 @@
+import { HASH_BYTES } from './digest';
+import { utf8Encode } from './encoding';
+import { decodeKeyAs, rsaKeyIntegers } from './keys';
+import { Result, fail, ok } from './result';
+import { HashAlgorithm, PrivateKeyInput, RsaParams } from './types';
+
+/*
+ * EME-OAEP and EMSA-PSS (RFC 8017 sections 7.1 and 9.1) written out in TypeScript, so the
+ * lab can open real WebCrypto output with raw RSA and show each field of the encoded block:
+ *
+ *   OAEP  EM = 00 ‖ maskedSeed ‖ maskedDB,     DB = lHash ‖ 00…00 ‖ 01 ‖ M
+ *   PSS   EM = maskedDB ‖ H ‖ bc,               DB = 00…00 ‖ 01 ‖ salt,
+ *         H = Hash(00 × 8 ‖ mHash ‖ salt)
+ *
+ * Both masks come from MGF1. WebCrypto does the real work; these are for inspection only.
+ */
+
+const hash = async (algorithm: HashAlgorithm, data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest(algorithm, data));
+
+/** MGF1: Hash(seed ‖ counter) for counter = 0, 1, 2… truncated to `length` bytes. */
+export const mgf1 = async (seed: Uint8Array, length: number, algorithm: HashAlgorithm): Promise<Uint8Array> => {
+  const output = new Uint8Array(Math.ceil(length / HASH_BYTES[algorithm]) * HASH_BYTES[algorithm]);
+  for (let counter = 0; counter * HASH_BYTES[algorithm] < length; counter++) {
+    const block = new Uint8Array([...seed, counter >>> 24, (counter >>> 16) & 0xff, (counter >>> 8) & 0xff, counter & 0xff]);
+    output.set(await hash(algorithm, block), counter * HASH_BYTES[algorithm]);
+  }
+  return output.subarray(0, length);
+};
+
+const xor = (a: Uint8Array, b: Uint8Array): Uint8Array => a.map((byte, i) => byte ^ b[i]);
+
+const sameBytes = (a: Uint8Array, b: Uint8Array): boolean => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+const toBigInt = (bytes: Uint8Array): bigint => bytes.reduce((n, byte) => (n << 8n) | BigInt(byte), 0n);
+
+const toBytes = (n: bigint, length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--, n >>= 8n) bytes[i] = Number(n & 0xffn);
+  return bytes;
+};
+
+const powMod = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = 1n;
+  let b = base % modulus;
+  for (let e = exponent; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+  }
+  return result;
+};
+
+/* OAEP */
+
+export const encodeOaep = async (
+  message: Uint8Array,
+  seed: Uint8Array,
+  modulusBytes: number,
+  { hash: algorithm, label }: Pick<RsaParams, 'hash' | 'label'>
+): Promise<Uint8Array> => {
+  const hLen = HASH_BYTES[algorithm];
+  const db = new Uint8Array(modulusBytes - hLen - 1);
+  db.set(await hash(algorithm, utf8Encode(label)));
+  db[db.length - message.length - 1] = 0x01;
+  db.set(message, db.length - message.length);
+  const maskedDb = xor(db, await mgf1(seed, db.length, algorithm));
+  const maskedSeed = xor(seed, await mgf1(maskedDb, hLen, algorithm));
+  return new Uint8Array([0, ...maskedSeed, ...maskedDb]);
+};
+
+export interface OaepBlock {
+  // c^d mod n, the encoded message WebCrypto built.
+  em: Uint8Array;
+  maskedSeed: Uint8Array;
+  maskedDb: Uint8Array;
+  seedMask: Uint8Array;
+  seed: Uint8Array;
+  dbMask: Uint8Array;
+  db: Uint8Array;
+  lHash: Uint8Array;
+  expectedLHash: Uint8Array;
+  paddingBytes: number;
+  // Null when the block is malformed, e.g. decrypted with the wrong key.
+  message: Uint8Array | null;
+  // Whether encodeOaep with the recovered seed and message reproduces em exactly.
+  reencodes: boolean;
+}
+
+/** Raw-RSA decrypts an RSA-OAEP ciphertext and takes the encoded block apart. */
+export const inspectOaep = async (
+  privateKey: PrivateKeyInput,
+  ciphertext: Uint8Array,
+  params: Pick<RsaParams, 'hash' | 'label'>
+): Promise<Result<OaepBlock>> => {
+  if (typeof privateKey !== 'string') {
+    return fail('invalid-key', 'This private key is locked in the keyring, so raw RSA cannot read its private exponent.');
+  }
+  const decoded = decodeKeyAs(privateKey, 'private', 'RSA');
+  if (!decoded.ok) return decoded;
+  const integers = rsaKeyIntegers(decoded.value);
+  if (!integers.ok) return integers;
+  const { n, d } = integers.value;
+  if (d === undefined) return fail('invalid-input', 'The key has no private exponent, so raw RSA cannot open the ciphertext.');
+  const k = Math.ceil(n.toString(2).length / 8);
+  if (ciphertext.length !== k || toBigInt(ciphertext) >= n) {
+    return fail('invalid-input', `An RSA-OAEP ciphertext for this key is one ${k}-byte integer below the modulus.`);
+  }
+
+  try {
+    const hLen = HASH_BYTES[params.hash];
+    const em = toBytes(powMod(toBigInt(ciphertext), d, n), k);
+    const maskedSeed = em.subarray(1, 1 + hLen);
+    const maskedDb = em.subarray(1 + hLen);
+    const seedMask = await mgf1(maskedDb, hLen, params.hash);
+    const seed = xor(maskedSeed, seedMask);
+    const dbMask = await mgf1(seed, maskedDb.length, params.hash);
+    const db = xor(maskedDb, dbMask);
+    const lHash = db.subarray(0, hLen);
+    const expectedLHash = await hash(params.hash, utf8Encode(params.label));
+
+    let separator = hLen;
+    while (separator < db.length && db[separator] === 0) separator++;
+    const wellFormed = em[0] === 0 && sameBytes(lHash, expectedLHash) && db[separator] === 0x01;
+    const message = wellFormed ? db.subarray(separator + 1) : null;
+    return ok({
+      em,
+      maskedSeed,
+      maskedDb,
+      seedMask,
+      seed,
+      dbMask,
+      db,
+      lHash,
+      expectedLHash,
+      paddingBytes: separator - hLen,
+      message,
+      reencodes: !!message && sameBytes(await encodeOaep(message, seed, k, params), em)
+    });
+  } catch (error) {
+    return fail('decryption-failed', 'The OAEP block could not be decoded.', error);
+  }
+};
+
+/* PSS */
+
+const PSS_TRAILER = 0xbc;
+
+export const encodePss = async (
+  messageHash: Uint8Array,
+  salt: Uint8Array,
+  modulusBits: number,
+  algorithm: HashAlgorithm
+): Promise<Uint8Array> => {
+  const emBits = modulusBits - 1;
+  const emLen = Math.ceil(emBits / 8);
+  const h = await hash(algorithm, new Uint8Array([...new Uint8Array(8), ...messageHash, ...salt]));
+  const db = new Uint8Array(emLen - h.length - 1);
+  db[db.length - salt.length - 1] = 0x01;
+  db.set(salt, db.length - salt.length);
+  const maskedDb = xor(db, await mgf1(h, db.length, algorithm));
+  maskedDb[0] &= 0xff >> (8 * emLen - emBits);
+  return new Uint8Array([...maskedDb, ...h, PSS_TRAILER]);
+};
+
+export interface PssBlock {
+  // s^e mod n: the encoded message the signer raised to d.
+  em: Uint8Array;
+  maskedDb: Uint8Array;
+  h: Uint8Array;
+  trailer: number;
+  dbMask: Uint8Array;
+  db: Uint8Array;
+  // Leading bits of DB forced to zero so EM stays below the modulus.
+  zeroBits: number;
+  paddingBytes: number;
+  salt: Uint8Array | null;
+  messageHash: Uint8Array;
+  // 00 × 8 ‖ mHash ‖ salt, and its hash, which must equal H.
+  mPrime: Uint8Array | null;
+  expectedH: Uint8Array | null;
+  valid: boolean;
+  // Whether encodePss with the recovered salt reproduces em exactly.
+  reencodes: boolean;
+}
+
+/** Opens an RSA-PSS signature with the public key and takes the encoded block apart. */
+export const inspectPss = async (
+  publicKeyPem: string,
+  message: Uint8Array,
+  signature: Uint8Array,
+  algorithm: HashAlgorithm
+): Promise<Result<PssBlock>> => {
+  const decoded = decodeKeyAs(publicKeyPem, 'public', 'RSA');
+  if (!decoded.ok) return decoded;
+  const integers = rsaKeyIntegers(decoded.value);
+  if (!integers.ok) return integers;
+  const { n, e } = integers.value;
+  const modulusBits = n.toString(2).length;
+  const k = Math.ceil(modulusBits / 8);
+  if (signature.length !== k || toBigInt(signature) >= n) {
+    return fail('invalid-input', `An RSA-PSS signature for this key is one ${k}-byte integer below the modulus.`);
+  }
+
+  try {
+    const hLen = HASH_BYTES[algorithm];
+    const emBits = modulusBits - 1;
+    const emLen = Math.ceil(emBits / 8);
+    const em = toBytes(powMod(toBigInt(signature), e, n), emLen);
+    const maskedDb = em.subarray(0, emLen - hLen - 1);
+    const h = em.subarray(emLen - hLen - 1, emLen - 1);
+    const zeroBits = 8 * emLen - emBits;
+    const dbMask = await mgf1(h, maskedDb.length, algorithm);
+    const db = xor(maskedDb, dbMask);
+    db[0] &= 0xff >> zeroBits;
+    const messageHash = await hash(algorithm, message);
+
+    let separator = 0;
+    while (separator < db.length && db[separator] === 0) separator++;
+    const salt = db[separator] === 0x01 ? db.subarray(separator + 1) : null;
+    const mPrime = salt && new Uint8Array([...new Uint8Array(8), ...messageHash, ...salt]);
+    const expectedH = mPrime && (await hash(algorithm, mPrime));
+    const valid = em[emLen - 1] === PSS_TRAILER && !!expectedH && sameBytes(expectedH, h);
+    return ok({
+      em,
+      maskedDb,
+      h,
+      trailer: em[emLen - 1],
+      dbMask,
+      db,
+      zeroBits,
+      paddingBytes: separator,
+      salt,
+      messageHash,
+      mPrime,
+      expectedH,
+      valid,
+      reencodes: !!salt && sameBytes(await encodePss(messageHash, salt, modulusBits, algorithm), em)
+    });
+  } catch (error) {
+    return fail('verification-failed', 'The PSS block could not be decoded.', error);
+  }
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { toHex, utf8Encode } from './encoding';
+import { scrypt } from './scrypt';
+
+// RFC 7914 section 12.
+describe('scrypt', () => {
+  it('matches the empty-password vector', async () => {
+    const key = await scrypt(new Uint8Array(0), new Uint8Array(0), { N: 16, r: 1, p: 1, outputLength: 64 });
+    expect(toHex(key)).toBe(
+      '77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906'
+    );
+  });
+
+  it('matches the "password" / "NaCl" vector', async () => {
+    const key = await scrypt(utf8Encode('password'), utf8Encode('NaCl'), { N: 1024, r: 8, p: 16, outputLength: 64 });
+    expect(toHex(key)).toBe(
+      'fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b3731622eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640'
+    );
+  });
+});
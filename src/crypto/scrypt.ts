@@ -0,0 +1,111 @@
+// scrypt (RFC 7914) on top of WebCrypto's PBKDF2-HMAC-SHA256.
+
+export interface ScryptOptions {
+  N: number;
+  r: number;
+  p: number;
+  outputLength: number;
+}
+
+const pbkdf2Sha256 = async (password: Uint8Array, salt: Uint8Array, length: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', password, 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: 1 }, key, length * 8);
+  return new Uint8Array(bits);
+};
+
+const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+
+// Salsa20/8 core, in place on the 16 words starting at `offset`.
+const salsa208 = (b: Uint32Array, offset: number, x: Uint32Array) => {
+  for (let i = 0; i < 16; i++) x[i] = b[offset + i];
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= rotl(x[0] + x[12], 7);
+    x[8] ^= rotl(x[4] + x[0], 9);
+    x[12] ^= rotl(x[8] + x[4], 13);
+    x[0] ^= rotl(x[12] + x[8], 18);
+    x[9] ^= rotl(x[5] + x[1], 7);
+    x[13] ^= rotl(x[9] + x[5], 9);
+    x[1] ^= rotl(x[13] + x[9], 13);
+    x[5] ^= rotl(x[1] + x[13], 18);
+    x[14] ^= rotl(x[10] + x[6], 7);
+    x[2] ^= rotl(x[14] + x[10], 9);
+    x[6] ^= rotl(x[2] + x[14], 13);
+    x[10] ^= rotl(x[6] + x[2], 18);
+    x[3] ^= rotl(x[15] + x[11], 7);
+    x[7] ^= rotl(x[3] + x[15], 9);
+    x[11] ^= rotl(x[7] + x[3], 13);
+    x[15] ^= rotl(x[11] + x[7], 18);
+    x[1] ^= rotl(x[0] + x[3], 7);
+    x[2] ^= rotl(x[1] + x[0], 9);
+    x[3] ^= rotl(x[2] + x[1], 13);
+    x[0] ^= rotl(x[3] + x[2], 18);
+    x[6] ^= rotl(x[5] + x[4], 7);
+    x[7] ^= rotl(x[6] + x[5], 9);
+    x[4] ^= rotl(x[7] + x[6], 13);
+    x[5] ^= rotl(x[4] + x[7], 18);
+    x[11] ^= rotl(x[10] + x[9], 7);
+    x[8] ^= rotl(x[11] + x[10], 9);
+    x[9] ^= rotl(x[8] + x[11], 13);
+    x[10] ^= rotl(x[9] + x[8], 18);
+    x[12] ^= rotl(x[15] + x[14], 7);
+    x[13] ^= rotl(x[12] + x[15], 9);
+    x[14] ^= rotl(x[13] + x[12], 13);
+    x[15] ^= rotl(x[14] + x[13], 18);
+  }
+  for (let i = 0; i < 16; i++) b[offset + i] += x[i];
+};
+
+// BlockMix: reads 2r 64-byte blocks from `input`, writes the shuffled result to `output`.
+const blockMix = (input: Uint32Array, output: Uint32Array, r: number, t: Uint32Array, x: Uint32Array) => {
+  t.set(input.subarray((2 * r - 1) * 16, 2 * r * 16));
+  for (let i = 0; i < 2 * r; i++) {
+    for (let k = 0; k < 16; k++) t[k] ^= input[i * 16 + k];
+    salsa208(t, 0, x);
+    // Even blocks go to the first half of the output, odd blocks to the second.
+    output.set(t, ((i & 1) * r + (i >> 1)) * 16);
+  }
+};
+
+const roMix = (block: Uint32Array, N: number, r: number) => {
+  const words = 32 * r;
+  const v = new Uint32Array(N * words);
+  const y = new Uint32Array(words);
+  const t = new Uint32Array(16);
+  const x = new Uint32Array(16);
+
+  for (let i = 0; i < N; i++) {
+    v.set(block, i * words);
+    blockMix(block, y, r, t, x);
+    block.set(y);
+  }
+  for (let i = 0; i < N; i++) {
+    // Integerify: first word of the last 64-byte block; N is a power of two.
+    const j = block[words - 16] & (N - 1);
+    for (let k = 0; k < words; k++) block[k] ^= v[j * words + k];
+    blockMix(block, y, r, t, x);
+    block.set(y);
+  }
+};
+
+export const scrypt = async (password: Uint8Array, salt: Uint8Array, options: ScryptOptions): Promise<Uint8Array> => {
+  const { N, r, p, outputLength } = options;
+  if (N < 2 || (N & (N - 1)) !== 0) {
+    throw new RangeError('scrypt N must be a power of two greater than 1');
+  }
+  if (r < 1 || p < 1) {
+    throw new RangeError('scrypt r and p must be positive');
+  }
+
+  const bytes = await pbkdf2Sha256(password, salt, p * 128 * r);
+  const view = new DataView(bytes.buffer);
+  const words = 32 * r;
+  const block = new Uint32Array(words);
+
+  for (let i = 0; i < p; i++) {
+    for (let k = 0; k < words; k++) block[k] = view.getUint32((i * words + k) * 4, true);
+    roMix(block, N, r);
+    for (let k = 0; k < words; k++) view.setUint32((i * words + k) * 4, block[k], true);
+  }
+
+  return pbkdf2Sha256(password, bytes, outputLength);
+};
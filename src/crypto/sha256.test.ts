@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { toHex, utf8Encode } from './encoding';
+import { sha256, sha256Padding } from './sha256';
+
+describe('sha256', () => {
+  // FIPS 180-2 appendix B.
+  it('matches the one- and two-block vectors', () => {
+    expect(toHex(sha256(utf8Encode('abc')))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(toHex(sha256(utf8Encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  it.each([
+    [55, '9f4390f8d30c2dd92ec9f095b65e2b9ae9b0a925a5258e241c9f1e910f734318'],
+    [56, 'b35439a4ac6f0948b6d6f9e3c6af0f5f590ce20f1bde7090ef7970686ec6738a'],
+    [64, 'ffe054fe7ae0cb6dc65c3af9b61d5209f439851db43d0ba5997337df154668eb'],
+    [135, 'dfa58dfd72f3c7080d0249a7758fd3636872f63fa24b18473ed36f031e248347'],
+    [136, '6f0e44b9ce4ea61d52a3479c10f60ef916937f799f11964b7f1c7771063905c4']
+  ])('hashes %i bytes across the block boundary', (length, expected) => {
+    expect(toHex(sha256(utf8Encode('a'.repeat(length))))).toBe(expected);
+  });
+
+  it('pads to a whole number of blocks', () => {
+    expect([0, 55, 56, 63, 64, 119].map(length => (length + sha256Padding(length).length) % 64)).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(sha256Padding(55)).toHaveLength(9);
+    expect(sha256Padding(56)).toHaveLength(72);
+  });
+});
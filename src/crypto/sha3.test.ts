@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { toHex, utf8Encode } from './encoding';
+import { sha3, Sha3Bits } from './sha3';
+
+describe('sha3', () => {
+  // FIPS 202 examples.
+  it.each<[Sha3Bits, string, string]>([
+    [224, '6b4e03423667dbb73b6e15454f0eb1abd4597f9a1b078e3f5b5a6bc7', 'e642824c3f8cf24ad09234ee7d3c766fc9a3a5168d0c94ad73b46fdf'],
+    [
+      256,
+      'a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a',
+      '3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532'
+    ],
+    [
+      384,
+      '0c63a75b845e4f7d01107d852e4c2485c51a50aaaa94fc61995e71bbee983a2ac3713831264adb47fb6bd1e058d5f004',
+      'ec01498288516fc926459f58e2c6ad8df9b473cb0fc08c2596da7cf0e49be4b298d88cea927ac7f539f1edf228376d25'
+    ],
+    [
+      512,
+      'a69f73cca23a9ac5c8b567dc185a756e97c982164fe25859e0d1dcc1475c80a615b2123af1f5f94c11e3e9402c3ac558f500199d95b6d3e301758586281dcd26',
+      'b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0'
+    ]
+  ])('SHA3-%i of "" and "abc"', (bits, empty, abc) => {
+    expect(toHex(sha3(new Uint8Array(0), bits))).toBe(empty);
+    expect(toHex(sha3(utf8Encode('abc'), bits))).toBe(abc);
+  });
+
+  // SHA3-256 absorbs 136 bytes per block, so 135 bytes leave one byte for both padding bits.
+  it.each([
+    [55, '78c2a04624b9328ae0e40cb8cdd29980f6ff55abf2dca68e3412d09eed4b9d03'],
+    [64, '043d104b5480439c7acff8831ee195183928d9b7f8fcb0c655a086a87923ffee'],
+    [135, '8094bb53c44cfb1e67b7c30447f9a1c33696d2463ecc1d9c92538913392843c9'],
+    [136, '3fc5559f14db8e453a0a3091edbd2bc25e11528d81c66fa570a4efdcc2695ee1']
+  ])('hashes %i bytes across the SHA3-256 rate', (length, expected) => {
+    expect(toHex(sha3(utf8Encode('a'.repeat(length)), 256))).toBe(expected);
+  });
+});
@@ -0,0 +1,87 @@
+// SHA-3 (FIPS 202): the Keccak-f[1600] sponge. 64-bit lanes are held as (low, high) pairs
+// of 32-bit integers in a Uint32Array, so lane i lives at indices 2i and 2i + 1.
+
+export type Sha3Bits = 224 | 256 | 384 | 512;
+
+const ROUND_CONSTANTS = [
+  [0x00000001, 0x00000000], [0x00008082, 0x00000000], [0x0000808a, 0x80000000], [0x80008000, 0x80000000],
+  [0x0000808b, 0x00000000], [0x80000001, 0x00000000], [0x80008081, 0x80000000], [0x00008009, 0x80000000],
+  [0x0000008a, 0x00000000], [0x00000088, 0x00000000], [0x80008009, 0x00000000], [0x8000000a, 0x00000000],
+  [0x8000808b, 0x00000000], [0x0000008b, 0x80000000], [0x00008089, 0x80000000], [0x00008003, 0x80000000],
+  [0x00008002, 0x80000000], [0x00000080, 0x80000000], [0x0000800a, 0x00000000], [0x8000000a, 0x80000000],
+  [0x80008081, 0x80000000], [0x00008080, 0x80000000], [0x80000001, 0x00000000], [0x80008008, 0x80000000]
+];
+
+// Rotation offsets for rho, indexed by lane x + 5y.
+const ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+
+const rotl = (lo: number, hi: number, n: number): [number, number] => {
+  if (n === 0) return [lo, hi];
+  if (n === 32) return [hi, lo];
+  if (n > 32) [lo, hi, n] = [hi, lo, n - 32];
+  return [(lo << n) | (hi >>> (32 - n)), (hi << n) | (lo >>> (32 - n))];
+};
+
+const keccakF = (s: Uint32Array) => {
+  const c = new Uint32Array(10);
+  const b = new Uint32Array(50);
+  for (const [rcLo, rcHi] of ROUND_CONSTANTS) {
+    // theta
+    for (let x = 0; x < 5; x++) {
+      c[2 * x] = s[2 * x] ^ s[2 * x + 10] ^ s[2 * x + 20] ^ s[2 * x + 30] ^ s[2 * x + 40];
+      c[2 * x + 1] = s[2 * x + 1] ^ s[2 * x + 11] ^ s[2 * x + 21] ^ s[2 * x + 31] ^ s[2 * x + 41];
+    }
+    for (let x = 0; x < 5; x++) {
+      const [lo, hi] = rotl(c[2 * ((x + 1) % 5)], c[2 * ((x + 1) % 5) + 1], 1);
+      const dLo = c[2 * ((x + 4) % 5)] ^ lo;
+      const dHi = c[2 * ((x + 4) % 5) + 1] ^ hi;
+      for (let y = 0; y < 25; y += 5) {
+        s[2 * (x + y)] ^= dLo;
+        s[2 * (x + y) + 1] ^= dHi;
+      }
+    }
+    // rho and pi: lane (x, y) moves to (y, 2x + 3y)
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        const [lo, hi] = rotl(s[2 * (x + 5 * y)], s[2 * (x + 5 * y) + 1], ROTATIONS[x + 5 * y]);
+        const target = y + 5 * ((2 * x + 3 * y) % 5);
+        b[2 * target] = lo;
+        b[2 * target + 1] = hi;
+      }
+    }
+    // chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        const i = 2 * (x + y);
+        const j = 2 * (((x + 1) % 5) + y);
+        const k = 2 * (((x + 2) % 5) + y);
+        s[i] = b[i] ^ (~b[j] & b[k]);
+        s[i + 1] = b[i + 1] ^ (~b[j + 1] & b[k + 1]);
+      }
+    }
+    // iota
+    s[0] ^= rcLo;
+    s[1] ^= rcHi;
+  }
+};
+
+export const sha3 = (data: Uint8Array, bits: Sha3Bits = 256): Uint8Array => {
+  const rate = 200 - (2 * bits) / 8;
+  // SHA-3's domain suffix 01, then pad10*1.
+  const padded = new Uint8Array(Math.floor(data.length / rate + 1) * rate);
+  padded.set(data);
+  padded[data.length] ^= 0x06;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Uint32Array(50);
+  const view = new DataView(padded.buffer);
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let i = 0; i < rate / 4; i++) state[i] ^= view.getUint32(offset + 4 * i, true);
+    keccakF(state);
+  }
+
+  const out = new Uint8Array(bits / 8);
+  const stateBytes = new Uint8Array(state.buffer);
+  out.set(stateBytes.subarray(0, out.length));
+  return out;
+};
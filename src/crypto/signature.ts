@@ -0,0 +1,95 @@
+import { CURVE_HASH, generateEcKeyPair, signEcdsa, verifyEcdsa } from './ec';
+import { generateEd25519KeyPair, signEd25519, verifyEd25519 } from './ed25519';
+import { Result } from './result';
+import { DEFAULT_RSA_PARAMS, formatRsaParams, generateRsaKeyPair, rsaParamsOf, signPss, verifyPss } from './rsa';
+import { HashAlgorithm, KeyPair, NamedCurve, PrivateKeyInput, RsaParams } from './types';
+
+// One entry point for every signature algorithm the lab supports, so the views
+// only pass the scheme along.
+
+export type SignatureScheme = { name: 'RSA-PSS'; params: RsaParams } | { name: 'ECDSA'; curve: NamedCurve } | { name: 'Ed25519' };
+
+export const SIGNATURE_SCHEMES: { label: string; scheme: SignatureScheme }[] = [
+  { label: 'RSA-PSS', scheme: { name: 'RSA-PSS', params: DEFAULT_RSA_PARAMS } },
+  { label: 'ECDSA P-256 / SHA-256', scheme: { name: 'ECDSA', curve: 'P-256' } },
+  { label: 'ECDSA P-384 / SHA-384', scheme: { name: 'ECDSA', curve: 'P-384' } },
+  { label: 'ECDSA P-521 / SHA-512', scheme: { name: 'ECDSA', curve: 'P-521' } },
+  { label: 'Ed25519', scheme: { name: 'Ed25519' } }
+];
+
+export const schemeLabel = (scheme: SignatureScheme): string => {
+  switch (scheme.name) {
+    case 'RSA-PSS':
+      return formatRsaParams('signing', scheme.params);
+    case 'ECDSA':
+      return `ECDSA ${scheme.curve} / ${CURVE_HASH[scheme.curve]}`;
+    case 'Ed25519':
+      return 'Ed25519';
+  }
+};
+
+/** The signature scheme a key pair was generated for; untagged pairs predate EC support and are RSA-PSS. */
+export const signatureSchemeOf = (keyPair: KeyPair): SignatureScheme => {
+  switch (keyPair.algorithm?.name) {
+    case 'ECDSA':
+      return { name: 'ECDSA', curve: keyPair.algorithm.curve };
+    case 'Ed25519':
+      return { name: 'Ed25519' };
+    default:
+      return { name: 'RSA-PSS', params: rsaParamsOf(keyPair) };
+  }
+};
+
+// Ed25519 hashes internally with SHA-512; the others sign a digest of the message.
+export const signatureHash = (scheme: SignatureScheme): HashAlgorithm => {
+  switch (scheme.name) {
+    case 'ECDSA':
+      return CURVE_HASH[scheme.curve];
+    case 'Ed25519':
+      return 'SHA-512';
+    case 'RSA-PSS':
+      return scheme.params.hash;
+  }
+};
+
+export const generateSigningKeyPair = (scheme: SignatureScheme): Promise<Result<KeyPair>> => {
+  switch (scheme.name) {
+    case 'ECDSA':
+      return generateEcKeyPair('signing', scheme.curve);
+    case 'Ed25519':
+      return generateEd25519KeyPair();
+    case 'RSA-PSS':
+      return generateRsaKeyPair('signing', scheme.params);
+  }
+};
+
+export const signMessage = (
+  scheme: SignatureScheme,
+  privateKey: PrivateKeyInput,
+  message: Uint8Array
+): Promise<Result<Uint8Array>> => {
+  switch (scheme.name) {
+    case 'ECDSA':
+      return signEcdsa(privateKey, scheme.curve, message);
+    case 'Ed25519':
+      return signEd25519(privateKey, message);
+    case 'RSA-PSS':
+      return signPss(privateKey, message, scheme.params);
+  }
+};
+
+export const verifyMessage = (
+  scheme: SignatureScheme,
+  publicKeyPem: string,
+  message: Uint8Array,
+  signature: Uint8Array
+): Promise<Result<boolean>> => {
+  switch (scheme.name) {
+    case 'ECDSA':
+      return verifyEcdsa(publicKeyPem, scheme.curve, message, signature);
+    case 'Ed25519':
+      return verifyEd25519(publicKeyPem, message, signature);
+    case 'RSA-PSS':
+      return verifyPss(publicKeyPem, message, signature, scheme.params);
+  }
+};
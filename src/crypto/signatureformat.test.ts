@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { utf8Encode } from './encoding';
+import { generateSigningKeyPair, SignatureScheme } from './signature';
+import { detectSignatureFormat, formatSignature, SignatureFormat, verifyFormattedSignature } from './signatureformat';
+import { unwrap } from './testing';
+import { KeyPair } from './types';
+
+describe('signature formats', () => {
+  const scheme: SignatureScheme = { name: 'ECDSA', curve: 'P-256' };
+  const message = utf8Encode('signed in every format');
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    keyPair = unwrap(await generateSigningKeyPair(scheme));
+  });
+
+  const sign = async (format: SignatureFormat) =>
+    unwrap(await formatSignature(format, scheme, keyPair.privateKey, keyPair.publicKey, message)).text;
+
+  it.each<SignatureFormat>(['raw', 'jws', 'bundle', 'cms'])('round-trips a %s signature', async format => {
+    const text = await sign(format);
+    expect(detectSignatureFormat(text)).toBe(format);
+    const verification = unwrap(await verifyFormattedSignature(text, message, keyPair.publicKey, scheme));
+    expect(verification).toMatchObject({ format, valid: true });
+  });
+
+  it.each<SignatureFormat>(['raw', 'bundle'])('rejects a %s signature over another message', async format => {
+    const verification = unwrap(await verifyFormattedSignature(await sign(format), utf8Encode('changed'), keyPair.publicKey, scheme));
+    expect(verification.valid).toBe(false);
+  });
+
+  it('refuses to verify a bundle against the key it carries', async () => {
+    const result = await verifyFormattedSignature(await sign('bundle'), message, '', scheme);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('invalid-key');
+  });
+
+  it("names a bundle signed by a stranger's embedded key as another key's", async () => {
+    const stranger = unwrap(await generateSigningKeyPair(scheme));
+    const forged = unwrap(await formatSignature('bundle', scheme, stranger.privateKey, stranger.publicKey, message)).text;
+    const result = await verifyFormattedSignature(forged, message, keyPair.publicKey, scheme);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('invalid-key');
+  });
+
+  it.each([
+    ['publicKey', 123],
+    ['algorithm', { name: 'ECDSA' }]
+  ])('returns invalid-input for a bundle whose %s is not a string', async (field, value) => {
+    const bundle = { ...JSON.parse(await sign('bundle')), [field]: value };
+    const result = await verifyFormattedSignature(JSON.stringify(bundle), message, keyPair.publicKey, scheme);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('invalid-input');
+  });
+});
@@ -0,0 +1,385 @@
+import { ASN1_TAG, Asn1Field, Asn1Node, decodeOid, encodeDer, encodeInteger, encodeOid, integerToBigInt, OID, parseDer } from './asn1';
+import { ecdsaSignatureFromDer, ecdsaSignatureToDer } from './ec';
+import { fromHex, parseBase64, toBase64, toHex } from './encoding';
+import { decodeJws, looksLikeJws, signJws, verifyJws } from './jws';
+import { decodeKey, keyFingerprint } from './keys';
+import { derToPem, parsePem } from './pem';
+import { Result, fail, ok } from './result';
+import { SignatureScheme, schemeLabel, signatureHash, signMessage, verifyMessage } from './signature';
+import { HashAlgorithm, NamedCurve, PrivateKeyInput } from './types';
+
+/*
+ * Ways to hand over a signature:
+ *
+ *   raw     the signature bytes in base64; message, key and algorithm travel separately
+ *   jws     compact JWS with the message as its payload (see jws.ts)
+ *   bundle  detached JSON: the algorithm, public key and its fingerprint, and the signature
+ *   cms     minimal CMS SignedData (RFC 5652) carrying the message, as PEM "CMS"
+ *
+ * The CMS encoder writes one SignerInfo with no signed attributes, so the signature is over
+ * the content itself, and names the signer by subjectKeyIdentifier: the SHA-256 fingerprint
+ * of its public key, as there is no certificate to point at.
+ */
+
+export type SignatureFormat = 'raw' | 'jws' | 'bundle' | 'cms';
+
+export const SIGNATURE_FORMATS: { format: SignatureFormat; label: string; description: string }[] = [
+  { format: 'raw', label: 'Raw signature', description: 'Base64 signature bytes only' },
+  { format: 'jws', label: 'Compact JWS', description: 'header.payload.signature, message inside' },
+  { format: 'bundle', label: 'Detached JSON', description: 'Signature, algorithm, key and fingerprint' },
+  { format: 'cms', label: 'CMS SignedData', description: 'PKCS#7-style DER, message inside' }
+];
+
+export const BUNDLE_TYPE = 'detached-signature';
+
+export interface SignatureBundle {
+  type: typeof BUNDLE_TYPE;
+  v: number;
+  // schemeLabel of the signing key, e.g. "ECDSA P-256 / SHA-256".
+  algorithm: string;
+  // SHA-256 of the public key's SPKI, colon-separated hex as in the key inspector.
+  fingerprint: string;
+  // Informational only: verification always uses a key the verifier already trusts.
+  publicKey?: string;
+  signature: string;
+}
+
+export interface FormattedSignature {
+  text: string;
+  // The signature bytes in WebCrypto form, whatever the format wraps them in.
+  signature: Uint8Array;
+}
+
+/* CMS */
+
+const HASH_OIDS: Record<HashAlgorithm, string> = {
+  'SHA-1': OID.sha1,
+  'SHA-256': OID.sha256,
+  'SHA-384': OID.sha384,
+  'SHA-512': OID.sha512
+};
+
+// By curve, as each curve is paired with one hash.
+const ECDSA_OIDS: Record<NamedCurve, string> = {
+  'P-256': OID.ecdsaWithSHA256,
+  'P-384': OID.ecdsaWithSHA384,
+  'P-521': OID.ecdsaWithSHA512
+};
+
+const CMS_VERSION = 3;
+
+const algorithmIdentifier = (oid: string, ...parameters: Uint8Array[]) => encodeDer(ASN1_TAG.SEQUENCE, encodeOid(oid), ...parameters);
+
+const integer = (n: number) => encodeInteger(new Uint8Array([n >> 8, n & 0xff]));
+
+// RSASSA-PSS-params (RFC 4055), leaving out fields equal to their SHA-1 / 20-byte defaults.
+const pssParameters = (hash: HashAlgorithm, saltLength: number): Uint8Array => {
+  const fields: Uint8Array[] = [];
+  if (hash !== 'SHA-1') {
+    fields.push(encodeDer(ASN1_TAG.CONTEXT_0, algorithmIdentifier(HASH_OIDS[hash])));
+    fields.push(encodeDer(ASN1_TAG.CONTEXT_1, algorithmIdentifier(OID.mgf1, algorithmIdentifier(HASH_OIDS[hash]))));
+  }
+  if (saltLength !== 20) fields.push(encodeDer(ASN1_TAG.CONTEXT_2, integer(saltLength)));
+  return encodeDer(ASN1_TAG.SEQUENCE, ...fields);
+};
+
+const signatureAlgorithm = (scheme: SignatureScheme): Uint8Array => {
+  switch (scheme.name) {
+    case 'ECDSA':
+      return algorithmIdentifier(ECDSA_OIDS[scheme.curve]);
+    case 'Ed25519':
+      return algorithmIdentifier(OID.Ed25519);
+    case 'RSA-PSS':
+      return algorithmIdentifier(OID.rsassaPss, pssParameters(scheme.params.hash, scheme.params.saltLength));
+  }
+};
+
+const fingerprintBytes = (fingerprint: string): Uint8Array => fromHex(fingerprint.replace(/:/g, ''));
+
+const publicKeyFingerprint = async (publicKeyPem: string): Promise<Result<string>> => {
+  const key = decodeKey(publicKeyPem);
+  if (!key.ok) return key;
+  return keyFingerprint(key.value);
+};
+
+const encodeCms = (scheme: SignatureScheme, fingerprint: string, content: Uint8Array, signature: Uint8Array): Uint8Array => {
+  const digestAlgorithm = algorithmIdentifier(HASH_OIDS[signatureHash(scheme)]);
+  const signerInfo = encodeDer(
+    ASN1_TAG.SEQUENCE,
+    encodeInteger(new Uint8Array([CMS_VERSION])),
+    encodeDer(ASN1_TAG.CONTEXT_PRIMITIVE_0, fingerprintBytes(fingerprint)),
+    digestAlgorithm,
+    signatureAlgorithm(scheme),
+    encodeDer(ASN1_TAG.OCTET_STRING, scheme.name === 'ECDSA' ? ecdsaSignatureToDer(signature) : signature)
+  );
+  const signedData = encodeDer(
+    ASN1_TAG.SEQUENCE,
+    encodeInteger(new Uint8Array([CMS_VERSION])),
+    encodeDer(ASN1_TAG.SET, digestAlgorithm),
+    encodeDer(ASN1_TAG.SEQUENCE, encodeOid(OID.data), encodeDer(ASN1_TAG.CONTEXT_0, encodeDer(ASN1_TAG.OCTET_STRING, content))),
+    encodeDer(ASN1_TAG.SET, signerInfo)
+  );
+  return encodeDer(ASN1_TAG.SEQUENCE, encodeOid(OID.signedData), encodeDer(ASN1_TAG.CONTEXT_0, signedData));
+};
+
+interface DecodedCms {
+  content: Uint8Array;
+  keyIdentifier: Uint8Array;
+  digestAlgorithm: string;
+  signatureAlgorithm: string;
+  // RSA-PSS only.
+  pss?: { hash: string; saltLength: number };
+  // As stored: DER for ECDSA.
+  signature: Uint8Array;
+}
+
+const oidOf = (node: Asn1Node | undefined): string | null =>
+  node?.tag === ASN1_TAG.OBJECT_IDENTIFIER ? decodeOid(node.content) : null;
+
+const readPssParameters = (node: Asn1Node | undefined): { hash: string; saltLength: number } => {
+  const pss = { hash: OID.sha1 as string, saltLength: 20 };
+  for (const field of node?.children ?? []) {
+    if (field.tag === ASN1_TAG.CONTEXT_0) pss.hash = oidOf(field.children?.[0]?.children?.[0]) ?? '';
+    if (field.tag === ASN1_TAG.CONTEXT_2) pss.saltLength = Number(integerToBigInt(field.children?.[0]?.content ?? new Uint8Array(0)));
+  }
+  return pss;
+};
+
+const decodeCms = (der: Uint8Array): Result<DecodedCms> => {
+  const parsed = parseDer(der);
+  if (!parsed.ok) return parsed;
+  const [contentType, explicit] = parsed.value.children ?? [];
+  if (oidOf(contentType) !== OID.signedData) return fail('invalid-input', 'This CMS message is not SignedData.');
+
+  const [, , encapsulated, ...rest] = explicit?.children?.[0]?.children ?? [];
+  const eContent = encapsulated?.children?.[1]?.children?.[0];
+  if (oidOf(encapsulated?.children?.[0]) !== OID.data || eContent?.tag !== ASN1_TAG.OCTET_STRING) {
+    return fail('invalid-input', 'The SignedData carries no id-data content; detached CMS is not supported.');
+  }
+  // Certificates [0] and CRLs [1] may come before the signerInfos SET.
+  const signerInfos = rest.find(node => node.tag === ASN1_TAG.SET)?.children ?? [];
+  if (signerInfos.length !== 1) return fail('invalid-input', `Expected one SignerInfo, found ${signerInfos.length}.`);
+
+  const [, sid, digestAlgorithm, ...fields] = signerInfos[0].children ?? [];
+  if (fields[0]?.tag === ASN1_TAG.CONTEXT_0) {
+    return fail('invalid-input', 'The SignerInfo has signed attributes, which this lab does not verify.');
+  }
+  const [algorithm, signature] = fields;
+  if (sid?.tag !== ASN1_TAG.CONTEXT_PRIMITIVE_0) {
+    return fail('invalid-input', 'The signer is named by issuer and serial number; only subjectKeyIdentifier is supported.');
+  }
+  const signatureOid = oidOf(algorithm?.children?.[0]);
+  const digestOid = oidOf(digestAlgorithm?.children?.[0]);
+  if (!signatureOid || !digestOid || signature?.tag !== ASN1_TAG.OCTET_STRING) {
+    return fail('invalid-input', 'The SignerInfo is malformed.');
+  }
+  return ok({
+    content: eContent.content,
+    keyIdentifier: sid.content,
+    digestAlgorithm: digestOid,
+    signatureAlgorithm: signatureOid,
+    pss: signatureOid === OID.rsassaPss ? readPssParameters(algorithm?.children?.[1]) : undefined,
+    signature: signature.content
+  });
+};
+
+/** Names for the Asn1Inspector, by tree path, of what encodeCms writes. */
+export const CMS_SIGNED_DATA_FIELDS: Record<string, Asn1Field> = {
+  '': { name: 'ContentInfo' },
+  '0': { name: 'contentType' },
+  '1.0': { name: 'SignedData' },
+  '1.0.0': { name: 'version' },
+  '1.0.1': { name: 'digestAlgorithms' },
+  '1.0.2': { name: 'encapContentInfo' },
+  '1.0.2.0': { name: 'eContentType' },
+  '1.0.2.1.0': { name: 'eContent', highlight: true },
+  '1.0.3': { name: 'signerInfos' },
+  '1.0.3.0': { name: 'SignerInfo' },
+  '1.0.3.0.0': { name: 'version' },
+  '1.0.3.0.1': { name: 'sid (subjectKeyIdentifier)' },
+  '1.0.3.0.2': { name: 'digestAlgorithm' },
+  '1.0.3.0.3': { name: 'signatureAlgorithm' },
+  '1.0.3.0.4': { name: 'signature', highlight: true }
+};
+
+/* Encoding and detection */
+
+/** Signs `message` and wraps the signature in `format`. */
+export const formatSignature = async (
+  format: SignatureFormat,
+  scheme: SignatureScheme,
+  privateKey: PrivateKeyInput,
+  publicKeyPem: string,
+  message: Uint8Array
+): Promise<Result<FormattedSignature>> => {
+  if (format === 'jws') {
+    const jws = await signJws({}, message, scheme, privateKey);
+    if (!jws.ok) return jws;
+    const signature = decodeJws(jws.value);
+    if (!signature.ok) return signature;
+    return ok({ text: jws.value, signature: signature.value.signature });
+  }
+
+  const signature = await signMessage(scheme, privateKey, message);
+  if (!signature.ok) return signature;
+  if (format === 'raw') return ok({ text: toBase64(signature.value), signature: signature.value });
+
+  const fingerprint = await publicKeyFingerprint(publicKeyPem);
+  if (!fingerprint.ok) return fingerprint;
+  if (format === 'cms') {
+    const der = encodeCms(scheme, fingerprint.value, message, signature.value);
+    return ok({ text: derToPem(der, 'CMS'), signature: signature.value });
+  }
+  const bundle: SignatureBundle = {
+    type: BUNDLE_TYPE,
+    v: 1,
+    algorithm: schemeLabel(scheme),
+    fingerprint: fingerprint.value,
+    publicKey: publicKeyPem.trim(),
+    signature: toBase64(signature.value)
+  };
+  return ok({ text: JSON.stringify(bundle, null, 2), signature: signature.value });
+};
+
+const isCmsDer = (der: Uint8Array): boolean => {
+  const parsed = parseDer(der);
+  return parsed.ok && oidOf(parsed.value.children?.[0]) === OID.signedData;
+};
+
+/** Guesses the format of pasted signature text; anything unrecognised is taken as raw base64. */
+export const detectSignatureFormat = (text: string): SignatureFormat => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) return 'bundle';
+  if (/-----BEGIN (CMS|PKCS7)-----/.test(trimmed)) return 'cms';
+  if (looksLikeJws(trimmed)) return 'jws';
+  const der = parseBase64(trimmed, 'Signature');
+  return der.ok && isCmsDer(der.value) ? 'cms' : 'raw';
+};
+
+/** The DER of a CMS message given as PEM or bare base64. */
+export const cmsDer = (text: string): Result<Uint8Array> => {
+  if (!text.includes('-----BEGIN')) return parseBase64(text.trim(), 'CMS message');
+  const pem = parsePem(text);
+  if (!pem.ok) return pem;
+  return ok(pem.value.der);
+};
+
+/* Verification */
+
+export interface FormattedVerification {
+  format: SignatureFormat;
+  valid: boolean;
+  // The message checked: the one carried inside a JWS or CMS message, else the one supplied.
+  message: Uint8Array;
+  attached: boolean;
+  // Of the key that verified, as the bundle and CMS identify their signer.
+  fingerprint: string;
+}
+
+const parseBundle = (text: string): Result<SignatureBundle> => {
+  let bundle: SignatureBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch (error) {
+    return fail('invalid-input', 'The signature bundle is not valid JSON.', error);
+  }
+  if (bundle?.type !== BUNDLE_TYPE || typeof bundle.signature !== 'string' || typeof bundle.fingerprint !== 'string') {
+    return fail('invalid-input', `Not a signature bundle: expected "type": "${BUNDLE_TYPE}" with a signature and fingerprint.`);
+  }
+  if (typeof bundle.algorithm !== 'string') return fail('invalid-input', 'The bundle "algorithm" must be a string.');
+  if (bundle.publicKey !== undefined && typeof bundle.publicKey !== 'string') {
+    return fail('invalid-input', 'The bundle "publicKey" must be a PEM string.');
+  }
+  if (bundle.v > 1) return fail('invalid-input', `Bundle version ${bundle.v} is newer than this lab supports (1).`);
+  return ok(bundle);
+};
+
+/**
+ * Detects the format and verifies with the given scheme against a trusted public key. A bundle's
+ * own key is never used: anyone can make a key pair, sign with it and embed it with a matching
+ * fingerprint. A bundle's fingerprint and a CMS signer's key identifier are checked against the
+ * trusted key, so a signature made by another key is named as such rather than just invalid.
+ */
+export const verifyFormattedSignature = async (
+  text: string,
+  message: Uint8Array,
+  publicKeyPem: string,
+  scheme: SignatureScheme
+): Promise<Result<FormattedVerification>> => {
+  const format = detectSignatureFormat(text);
+  const publicKey = publicKeyPem.trim();
+  let bundle: SignatureBundle | undefined;
+  if (format === 'bundle') {
+    const parsed = parseBundle(text);
+    if (!parsed.ok) return parsed;
+    bundle = parsed.value;
+  }
+  if (!publicKey) {
+    return fail('invalid-key', `No public key was given. Use the signer's key from a source you trust, not one carried by the signature.`);
+  }
+  const fingerprint = await publicKeyFingerprint(publicKey);
+  if (!fingerprint.ok) return fingerprint;
+  const result = (valid: boolean, checked = message, attached = false): Result<FormattedVerification> =>
+    ok({ format, valid, message: checked, attached, fingerprint: fingerprint.value });
+
+  switch (format) {
+    case 'raw': {
+      const signature = parseBase64(text.trim(), 'Signature');
+      if (!signature.ok) return signature;
+      const verified = await verifyMessage(scheme, publicKey, message, signature.value);
+      return verified.ok ? result(verified.value) : verified;
+    }
+    case 'jws': {
+      const jws = decodeJws(text);
+      if (!jws.ok) return jws;
+      const verified = await verifyJws(jws.value, scheme, publicKey, message);
+      if (!verified.ok) return verified;
+      return jws.value.detached ? result(verified.value) : result(verified.value, jws.value.payload, true);
+    }
+    case 'bundle': {
+      if (!bundle) return fail('invalid-input', 'Not a signature bundle.');
+      if (bundle.fingerprint !== fingerprint.value) {
+        return fail('invalid-key', `The bundle was signed by key ${bundle.fingerprint}, not this one (${fingerprint.value}).`);
+      }
+      if (bundle.algorithm !== schemeLabel(scheme)) {
+        return fail('invalid-input', `The bundle says ${bundle.algorithm}, but the key pair is ${schemeLabel(scheme)}.`);
+      }
+      const signature = parseBase64(bundle.signature, 'Bundle signature');
+      if (!signature.ok) return signature;
+      const verified = await verifyMessage(scheme, publicKey, message, signature.value);
+      return verified.ok ? result(verified.value) : verified;
+    }
+    case 'cms': {
+      const der = cmsDer(text);
+      if (!der.ok) return der;
+      const cms = decodeCms(der.value);
+      if (!cms.ok) return cms;
+      const { content, keyIdentifier, digestAlgorithm, signatureAlgorithm: algorithm, pss } = cms.value;
+      if (toHex(keyIdentifier) !== toHex(fingerprintBytes(fingerprint.value))) {
+        return fail('invalid-key', 'The CMS signer is a different key from this one: its subjectKeyIdentifier does not match.');
+      }
+      const hash = signatureHash(scheme);
+      if (digestAlgorithm !== HASH_OIDS[hash]) {
+        return fail('invalid-input', `The CMS digest algorithm is not ${hash}, which ${schemeLabel(scheme)} uses.`);
+      }
+      let verifying = scheme;
+      let signature = cms.value.signature;
+      if (scheme.name === 'ECDSA') {
+        if (algorithm !== ECDSA_OIDS[scheme.curve]) return fail('invalid-input', `The CMS signature algorithm is not ECDSA with ${hash}.`);
+        const raw = ecdsaSignatureFromDer(signature, scheme.curve);
+        if (!raw.ok) return raw;
+        signature = raw.value;
+      } else if (scheme.name === 'Ed25519') {
+        if (algorithm !== OID.Ed25519) return fail('invalid-input', 'The CMS signature algorithm is not Ed25519.');
+      } else {
+        if (algorithm !== OID.rsassaPss || pss?.hash !== HASH_OIDS[hash]) {
+          return fail('invalid-input', `The CMS signature algorithm is not RSASSA-PSS with ${hash}.`);
+        }
+        // The salt length is read from the message, as a CMS verifier would.
+        verifying = { ...scheme, params: { ...scheme.params, saltLength: pss.saltLength } };
+      }
+      const verified = await verifyMessage(verifying, publicKey, content, signature);
+      return verified.ok ? result(verified.value, content, true) : verified;
+    }
+  }
+};
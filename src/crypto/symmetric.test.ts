@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { utf8Decode, utf8Encode } from './encoding';
+import { decryptSymmetric, encryptSymmetric, generateSymmetricKey } from './symmetric';
+import { unwrap } from './testing';
+
+describe('symmetric encryption', () => {
+  const plaintext = utf8Encode('attack at dawn');
+
+  it('round-trips AES-GCM with a fresh IV each time', async () => {
+    const key = generateSymmetricKey();
+    const first = unwrap(await encryptSymmetric(plaintext, key));
+    const second = unwrap(await encryptSymmetric(plaintext, key));
+    expect(first.iv).not.toEqual(second.iv);
+    expect(utf8Decode(unwrap(await decryptSymmetric(first, key)))).toBe('attack at dawn');
+  });
+
+  it('fails to decrypt under the wrong key or with a modified ciphertext', async () => {
+    const key = generateSymmetricKey();
+    const encrypted = unwrap(await encryptSymmetric(plaintext, key));
+    expect((await decryptSymmetric(encrypted, generateSymmetricKey())).ok).toBe(false);
+
+    const ciphertext = encrypted.ciphertext.slice();
+    ciphertext[0] ^= 1;
+    const tampered = await decryptSymmetric({ ...encrypted, ciphertext }, key);
+    expect(tampered.ok).toBe(false);
+    if (!tampered.ok) expect(tampered.error.code).toBe('decryption-failed');
+  });
+
+  it('rejects keys that are not 256 bits', async () => {
+    const encrypted = await encryptSymmetric(plaintext, new Uint8Array(16));
+    expect(encrypted.ok).toBe(false);
+    if (!encrypted.ok) expect(encrypted.error.code).toBe('invalid-key');
+  });
+});
@@ -0,0 +1,271 @@
+import { utf8Encode } from './encoding';
+import { hkdf } from './hkdf';
+import { KdfParams } from './kdf';
+import { hmacSign, hmacVerify, MacAlgorithm } from './mac';
+import { Result, fail, ok } from './result';
+
+export type SymmetricMode = 'AES-GCM' | 'AES-CBC' | 'AES-CTR' | 'AES-KW';
+
+export const SYMMETRIC_MODES: SymmetricMode[] = ['AES-GCM', 'AES-CBC', 'AES-CTR', 'AES-KW'];
+
+// The unauthenticated modes, which encrypt-then-MAC can add an HMAC tag to.
+export const ETM_MODES: SymmetricMode[] = ['AES-CBC', 'AES-CTR'];
+
+export interface SymmetricCiphertext {
+  mode: SymmetricMode;
+  ciphertext: Uint8Array;
+  // Empty for AES-KW, which has a fixed initial value instead of an IV.
+  iv: Uint8Array;
+  // Present when the key was derived from a passphrase.
+  kdf?: KdfParams;
+  // Encrypt-then-MAC tag over iv ‖ ciphertext, for AES-CBC and AES-CTR.
+  mac?: { algorithm: MacAlgorithm; tag: Uint8Array };
+}
+
+const AES_KEY_BYTES = 32;
+export const AES_BLOCK_BYTES = 16;
+const GCM_IV_BYTES = 12;
+const GCM_TAG_BITS = 128;
+export const GCM_TAG_BYTES = GCM_TAG_BITS / 8;
+// AES-CTR counter block: 8 random nonce bytes followed by a 64-bit block counter.
+const CTR_NONCE_BYTES = 8;
+const CTR_COUNTER_BITS = 64;
+
+export const IV_BYTES: Record<SymmetricMode, number> = {
+  'AES-GCM': GCM_IV_BYTES,
+  'AES-CBC': AES_BLOCK_BYTES,
+  'AES-CTR': AES_BLOCK_BYTES,
+  'AES-KW': 0
+};
+
+const DECRYPTION_FAILURE: Record<SymmetricMode, string> = {
+  'AES-GCM': 'Authentication failed: wrong key or the message was modified.',
+  'AES-CBC': 'Invalid padding after decryption: wrong key or corrupted ciphertext.',
+  'AES-CTR': 'AES-CTR decryption failed.',
+  'AES-KW': 'Key unwrap integrity check failed: wrong key or the wrapped key was modified.'
+};
+
+export const generateSymmetricKey = (): Uint8Array => crypto.getRandomValues(new Uint8Array(AES_KEY_BYTES));
+
+const generateIv = (mode: SymmetricMode): Uint8Array => {
+  const iv = new Uint8Array(IV_BYTES[mode]);
+  if (mode === 'AES-CTR') {
+    // Only the nonce half is random; the counter half starts at zero.
+    crypto.getRandomValues(iv.subarray(0, CTR_NONCE_BYTES));
+  } else {
+    crypto.getRandomValues(iv);
+  }
+  return iv;
+};
+
+const algorithmParams = (mode: SymmetricMode, iv: Uint8Array): AlgorithmIdentifier | AesGcmParams | AesCbcParams | AesCtrParams => {
+  switch (mode) {
+    case 'AES-GCM':
+      return { name: mode, iv, tagLength: GCM_TAG_BITS };
+    case 'AES-CBC':
+      return { name: mode, iv };
+    case 'AES-CTR':
+      return { name: mode, counter: iv, length: CTR_COUNTER_BITS };
+    case 'AES-KW':
+      return { name: mode };
+  }
+};
+
+const importAesKey = async (keyBytes: Uint8Array, mode: SymmetricMode, usage: KeyUsage): Promise<Result<CryptoKey>> => {
+  if (keyBytes.length !== AES_KEY_BYTES) {
+    return fail('invalid-key', `AES-256 keys must be ${AES_KEY_BYTES} bytes, got ${keyBytes.length}.`);
+  }
+  try {
+    return ok(await crypto.subtle.importKey('raw', keyBytes, { name: mode }, false, [usage]));
+  } catch (error) {
+    return fail('invalid-key', `The key could not be imported for ${mode}.`, error);
+  }
+};
+
+// AES-KW wraps key material, so the plaintext is imported as an extractable AES key.
+const importKeyToWrap = async (keyMaterial: Uint8Array): Promise<Result<CryptoKey>> => {
+  if (![16, 24, 32].includes(keyMaterial.length)) {
+    return fail('invalid-input', `AES-KW wraps 16, 24 or 32-byte keys, got ${keyMaterial.length} bytes.`);
+  }
+  try {
+    return ok(await crypto.subtle.importKey('raw', keyMaterial, { name: 'AES-GCM' }, true, ['encrypt']));
+  } catch (error) {
+    return fail('invalid-input', 'The key material could not be imported for wrapping.', error);
+  }
+};
+
+/**
+ * Encrypts with a fresh IV for the chosen mode. For AES-KW the plaintext must be raw key material.
+ * `fixedIv` exists only for the nonce-reuse demonstration: never reuse an IV under one key.
+ */
+export const encryptSymmetric = async (
+  plaintext: Uint8Array,
+  keyBytes: Uint8Array,
+  mode: SymmetricMode = 'AES-GCM',
+  fixedIv?: Uint8Array
+): Promise<Result<SymmetricCiphertext>> => {
+  const key = await importAesKey(keyBytes, mode, mode === 'AES-KW' ? 'wrapKey' : 'encrypt');
+  if (!key.ok) return key;
+
+  if (fixedIv && fixedIv.length !== IV_BYTES[mode]) {
+    return fail('invalid-input', `${mode} needs a ${IV_BYTES[mode]}-byte IV, got ${fixedIv.length} bytes.`);
+  }
+  const iv = fixedIv ?? generateIv(mode);
+  try {
+    if (mode === 'AES-KW') {
+      const keyToWrap = await importKeyToWrap(plaintext);
+      if (!keyToWrap.ok) return keyToWrap;
+      const wrapped = await crypto.subtle.wrapKey('raw', keyToWrap.value, key.value, { name: mode });
+      return ok({ mode, ciphertext: new Uint8Array(wrapped), iv });
+    }
+
+    const encrypted = await crypto.subtle.encrypt(algorithmParams(mode, iv), key.value, plaintext);
+    return ok({ mode, ciphertext: new Uint8Array(encrypted), iv });
+  } catch (error) {
+    return fail('encryption-failed', `${mode} encryption failed.`, error);
+  }
+};
+
+/* Encrypt-then-MAC */
+
+// Encryption and MAC keys given separately, e.g. from a key schedule, instead of one AES key.
+export interface EtmKeys {
+  encryption: Uint8Array;
+  mac: Uint8Array;
+}
+
+/**
+ * Separate encryption and MAC keys from one AES key. The mode is in the HKDF info, so a tag
+ * made for AES-CBC does not verify when the message is relabelled AES-CTR.
+ */
+const etmKeys = async (key: Uint8Array | EtmKeys, mode: SymmetricMode): Promise<Result<EtmKeys>> => {
+  if (!(key instanceof Uint8Array)) return ok(key);
+  const keyBytes = key;
+  if (keyBytes.length !== AES_KEY_BYTES) {
+    return fail('invalid-key', `AES-256 keys must be ${AES_KEY_BYTES} bytes, got ${keyBytes.length}.`);
+  }
+  const encryption = await hkdf(keyBytes, new Uint8Array(0), utf8Encode(`${mode} encryption key`), AES_KEY_BYTES);
+  if (!encryption.ok) return encryption;
+  const mac = await hkdf(keyBytes, new Uint8Array(0), utf8Encode(`${mode} HMAC key`), AES_KEY_BYTES);
+  if (!mac.ok) return mac;
+  return ok({ encryption: encryption.value, mac: mac.value });
+};
+
+const macInput = ({ iv, ciphertext }: SymmetricCiphertext): Uint8Array => new Uint8Array([...iv, ...ciphertext]);
+
+/** AES-CBC or AES-CTR, then an HMAC over the IV and ciphertext, each under its own subkey. */
+export const encryptThenMac = async (
+  plaintext: Uint8Array,
+  key: Uint8Array | EtmKeys,
+  mode: SymmetricMode,
+  algorithm: MacAlgorithm = 'HS256',
+  fixedIv?: Uint8Array
+): Promise<Result<SymmetricCiphertext>> => {
+  if (!ETM_MODES.includes(mode)) return fail('invalid-input', `${mode} does not take an encrypt-then-MAC tag.`);
+  const keys = await etmKeys(key, mode);
+  if (!keys.ok) return keys;
+  const encrypted = await encryptSymmetric(plaintext, keys.value.encryption, mode, fixedIv);
+  if (!encrypted.ok) return encrypted;
+  const tag = await hmacSign(macInput(encrypted.value), keys.value.mac, algorithm);
+  if (!tag.ok) return tag;
+  return ok({ ...encrypted.value, mac: { algorithm, tag: tag.value } });
+};
+
+/**
+ * Checks an encrypt-then-MAC tag without decrypting. A failed result means the check could not
+ * run; `valid` is whether the tag matched, and `encryption` is the key to decrypt with if it did.
+ */
+export const verifyEtmTag = async (
+  payload: SymmetricCiphertext,
+  key: Uint8Array | EtmKeys
+): Promise<Result<{ valid: boolean; encryption: Uint8Array }>> => {
+  const { mode, mac } = payload;
+  if (!mac || !ETM_MODES.includes(mode)) return fail('invalid-input', `${mode} does not take an encrypt-then-MAC tag.`);
+  const keys = await etmKeys(key, mode);
+  if (!keys.ok) return keys;
+  const verified = await hmacVerify(macInput(payload), mac.tag, keys.value.mac, mac.algorithm);
+  if (!verified.ok) return verified;
+  return ok({ valid: verified.value, encryption: keys.value.encryption });
+};
+
+// Checks the tag before anything is decrypted, so a modified message never reaches the padding check.
+const verifyThenDecrypt = async (payload: SymmetricCiphertext, key: Uint8Array | EtmKeys): Promise<Result<Uint8Array>> => {
+  const verified = await verifyEtmTag(payload, key);
+  if (!verified.ok) return verified;
+  if (!verified.value.valid) {
+    return fail('decryption-failed', `The ${payload.mac?.algorithm} tag does not match: wrong key or the message was modified. Nothing was decrypted.`);
+  }
+  const { mode, iv, ciphertext } = payload;
+  return decryptSymmetric({ mode, iv, ciphertext }, verified.value.encryption);
+};
+
+/** Takes one AES key, or separate keys where only the encryption key matters without a MAC. */
+export const decryptSymmetric = async (payload: SymmetricCiphertext, secret: Uint8Array | EtmKeys): Promise<Result<Uint8Array>> => {
+  if (payload.mac) return verifyThenDecrypt(payload, secret);
+  const { mode } = payload;
+  const keyBytes = secret instanceof Uint8Array ? secret : secret.encryption;
+  const key = await importAesKey(keyBytes, mode, mode === 'AES-KW' ? 'unwrapKey' : 'decrypt');
+  if (!key.ok) return key;
+
+  if (payload.iv.length !== IV_BYTES[mode]) {
+    return fail('invalid-input', `${mode} needs a ${IV_BYTES[mode]}-byte IV, got ${payload.iv.length} bytes.`);
+  }
+
+  try {
+    if (mode === 'AES-KW') {
+      const unwrapped = await crypto.subtle.unwrapKey(
+        'raw',
+        payload.ciphertext,
+        key.value,
+        { name: mode },
+        { name: 'AES-GCM' },
+        true,
+        ['encrypt']
+      );
+      return ok(new Uint8Array(await crypto.subtle.exportKey('raw', unwrapped)));
+    }
+
+    const decrypted = await crypto.subtle.decrypt(algorithmParams(mode, payload.iv), key.value, payload.ciphertext);
+    return ok(new Uint8Array(decrypted));
+  } catch (error) {
+    return fail('decryption-failed', DECRYPTION_FAILURE[mode], error);
+  }
+};
+
+/** PKCS#7: append N bytes of value N so the length becomes a multiple of the block size. */
+export const pkcs7Pad = (data: Uint8Array, blockSize = AES_BLOCK_BYTES): Uint8Array => {
+  const padLength = blockSize - (data.length % blockSize);
+  const padded = new Uint8Array(data.length + padLength);
+  padded.set(data);
+  padded.fill(padLength, data.length);
+  return padded;
+};
+
+export const pkcs7Unpad = (padded: Uint8Array, blockSize = AES_BLOCK_BYTES): Result<Uint8Array> => {
+  if (padded.length === 0 || padded.length % blockSize !== 0) {
+    return fail('invalid-input', 'Invalid PKCS#7 padding.');
+  }
+  const padLength = padded[padded.length - 1];
+  if (padLength < 1 || padLength > blockSize) {
+    return fail('invalid-input', 'Invalid PKCS#7 padding.');
+  }
+  for (let i = padded.length - padLength; i < padded.length; i++) {
+    if (padded[i] !== padLength) return fail('invalid-input', 'Invalid PKCS#7 padding.');
+  }
+  return ok(padded.slice(0, padded.length - padLength));
+};
+
+/** The AES-CTR counter blocks used for a message of `blockCount` blocks starting at `initialCounter`. */
+export const ctrCounterBlocks = (initialCounter: Uint8Array, blockCount: number): Uint8Array[] => {
+  const blocks: Uint8Array[] = [];
+  const counter = new Uint8Array(initialCounter);
+  for (let i = 0; i < blockCount; i++) {
+    blocks.push(new Uint8Array(counter));
+    // Big-endian increment of the low 64 bits; the nonce half never changes.
+    for (let j = counter.length - 1; j >= counter.length - CTR_COUNTER_BITS / 8; j--) {
+      counter[j] = (counter[j] + 1) & 0xff;
+      if (counter[j] !== 0) break;
+    }
+  }
+  return blocks;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { toBase64, utf8Decode, utf8Encode } from './encoding';
+import { encodeSymmetricEnvelope } from './envelope';
+import { encryptThenMac } from './symmetric';
+import { DecryptionTrace, traceSymmetricDecryption } from './tamper';
+import { unwrap } from './testing';
+
+const PLAINTEXT = 'transfer 100 to Bob';
+// Fixed keys and IVs, so each trace below is the same on every run.
+const KEY = new Uint8Array(32).fill(1);
+const OTHER_KEY = new Uint8Array(32).fill(2);
+const MAC_KEY = new Uint8Array(32).fill(3);
+const IV = new Uint8Array(16).fill(4);
+
+const statuses = (trace: DecryptionTrace) => trace.checks.map(({ name, status }) => `${name}: ${status}`);
+
+describe('decryption trace with encrypt-then-MAC', () => {
+  it('passes the tag, then the padding, for an untouched message', async () => {
+    const envelope = encodeSymmetricEnvelope(unwrap(await encryptThenMac(utf8Encode(PLAINTEXT), KEY, 'AES-CBC', 'HS256', IV)));
+    const trace = await traceSymmetricDecryption(envelope, toBase64(KEY));
+    expect(statuses(trace).slice(-2)).toEqual(['HS256 tag: passed', 'PKCS#7 padding: passed']);
+    expect(trace.plaintext && utf8Decode(trace.plaintext)).toBe(PLAINTEXT);
+  });
+
+  it('fails the tag when the ciphertext was modified', async () => {
+    const encrypted = unwrap(await encryptThenMac(utf8Encode(PLAINTEXT), KEY, 'AES-CBC', 'HS256', IV));
+    encrypted.ciphertext[0] ^= 1;
+    const trace = await traceSymmetricDecryption(encodeSymmetricEnvelope(encrypted), toBase64(KEY));
+    expect(statuses(trace).slice(-1)).toEqual(['HS256 tag: failed']);
+    expect(trace.plaintext).toBeNull();
+  });
+
+  it('blames the padding, not the tag, when only the encryption key is wrong', async () => {
+    const encrypted = unwrap(
+      await encryptThenMac(utf8Encode(PLAINTEXT), { encryption: KEY, mac: MAC_KEY }, 'AES-CBC', 'HS256', IV)
+    );
+    const trace = await traceSymmetricDecryption(encodeSymmetricEnvelope(encrypted), toBase64(OTHER_KEY), MAC_KEY);
+    expect(statuses(trace).slice(-2)).toEqual(['HS256 tag: passed', 'PKCS#7 padding: failed']);
+    expect(trace.checks[trace.checks.length - 1].message).not.toMatch(/tag/);
+  });
+
+  it('reports no separate integrity gap for AES-CTR under a tag', async () => {
+    const envelope = encodeSymmetricEnvelope(unwrap(await encryptThenMac(utf8Encode(PLAINTEXT), KEY, 'AES-CTR', 'HS256', IV)));
+    const trace = await traceSymmetricDecryption(envelope, toBase64(KEY));
+    expect(statuses(trace).slice(-1)).toEqual(['HS256 tag: passed']);
+    expect(trace.plaintext && utf8Decode(trace.plaintext)).toBe(PLAINTEXT);
+  });
+});
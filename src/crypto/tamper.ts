@@ -0,0 +1,110 @@
+import { parseBase64 } from './encoding';
+import { decodeSymmetricEnvelope } from './envelope';
+import { decryptSymmetric, IV_BYTES, SymmetricMode, verifyEtmTag } from './symmetric';
+
+/*
+ * Step-by-step symmetric decryption for the tamper tool. Where decryptSymmetric stops at the
+ * first error, this records each check the message passes through, so the lab can show
+ * whether a change was caught by the envelope parser, the key or IV length, an encrypt-then-MAC
+ * tag, or the mode's own integrity check, and that AES-CTR has none.
+ */
+
+export type CheckStatus = 'passed' | 'failed' | 'absent';
+
+export interface DecryptionCheck {
+  name: string;
+  status: CheckStatus;
+  message: string;
+}
+
+export interface DecryptionTrace {
+  checks: DecryptionCheck[];
+  // Null unless every check passed.
+  plaintext: Uint8Array | null;
+}
+
+const AES_256_KEY_BYTES = 32;
+
+const INTEGRITY_CHECKS: Record<SymmetricMode, { name: string; passed: string }> = {
+  'AES-GCM': { name: 'Authentication tag', passed: 'The 128-bit GCM tag matches the IV and ciphertext.' },
+  'AES-CBC': { name: 'PKCS#7 padding', passed: 'The last block ends in valid padding. This is not an integrity check.' },
+  'AES-CTR': { name: 'Integrity', passed: '' },
+  'AES-KW': { name: 'Integrity check value', passed: 'The unwrapped value starts with a6a6a6a6a6a6a6a6.' }
+};
+
+/** `macKey` is a separate HMAC key, e.g. from a key schedule; without it one is derived from the AES key. */
+export const traceSymmetricDecryption = async (
+  envelope: string,
+  keyBase64: string,
+  macKey?: Uint8Array
+): Promise<DecryptionTrace> => {
+  const checks: DecryptionCheck[] = [];
+  const trace = (check: DecryptionCheck, plaintext: Uint8Array | null = null): DecryptionTrace => {
+    checks.push(check);
+    return { checks, plaintext };
+  };
+
+  const payload = decodeSymmetricEnvelope(envelope);
+  if (!payload.ok) return trace({ name: 'Envelope', status: 'failed', message: payload.error.message });
+  const { mode, iv } = payload.value;
+  checks.push({ name: 'Envelope', status: 'passed', message: `Base64url and JSON header decode; the mode is ${mode}.` });
+
+  const key = parseBase64(keyBase64, 'Key');
+  if (!key.ok) return trace({ name: 'Key', status: 'failed', message: key.error.message });
+  if (key.value.length !== AES_256_KEY_BYTES) {
+    return trace({
+      name: 'Key',
+      status: 'failed',
+      message: `AES-256 needs a ${AES_256_KEY_BYTES}-byte key, got ${key.value.length} bytes.`
+    });
+  }
+  checks.push({ name: 'Key', status: 'passed', message: `${AES_256_KEY_BYTES} bytes.` });
+
+  if (iv.length !== IV_BYTES[mode]) {
+    return trace({ name: 'IV', status: 'failed', message: `${mode} needs a ${IV_BYTES[mode]}-byte IV, got ${iv.length} bytes.` });
+  }
+  if (mode !== 'AES-KW') checks.push({ name: 'IV', status: 'passed', message: `${iv.length} bytes.` });
+
+  const { mac } = payload.value;
+  let decryptionKey = key.value;
+  if (mac) {
+    // Only a mismatch is the tag's failure; a wrong key or bad padding after it is reported below.
+    const name = `${mac.algorithm} tag`;
+    const verified = await verifyEtmTag(payload.value, macKey ? { encryption: key.value, mac: macKey } : key.value);
+    if (!verified.ok) return trace({ name, status: 'failed', message: verified.error.message });
+    if (!verified.value.valid) {
+      return trace({
+        name,
+        status: 'failed',
+        message: 'The HMAC over the IV and ciphertext does not match: wrong key or the message was modified. Nothing was decrypted.'
+      });
+    }
+    checks.push({ name, status: 'passed', message: 'The HMAC over the IV and ciphertext matches; it was checked before decrypting.' });
+    decryptionKey = verified.value.encryption;
+  }
+
+  const decrypted = await decryptSymmetric({ mode, iv, ciphertext: payload.value.ciphertext }, decryptionKey);
+  const integrity = INTEGRITY_CHECKS[mode];
+  if (!decrypted.ok) return trace({ name: integrity.name, status: 'failed', message: decrypted.error.message });
+  if (mode === 'AES-CTR') {
+    // With a tag, the HMAC above was the integrity check.
+    if (mac) return { checks, plaintext: decrypted.value };
+    return trace(
+      { name: integrity.name, status: 'absent', message: 'AES-CTR has no integrity check: every ciphertext decrypts to something.' },
+      decrypted.value
+    );
+  }
+  return trace({ name: integrity.name, status: 'passed', message: integrity.passed }, decrypted.value);
+};
+
+/**
+ * The malleability of stream-like modes: XORing `known ^ wanted` into the bytes at `offset`
+ * turns a known plaintext into a chosen one, without the key. For AES-CTR (and GCM, which
+ * the tag then rejects) apply it to the ciphertext; for AES-CBC's first block, to the IV.
+ */
+export const xorRewrite = (bytes: Uint8Array, offset: number, known: Uint8Array, wanted: Uint8Array): Uint8Array => {
+  const rewritten = new Uint8Array(bytes);
+  const length = Math.min(known.length, wanted.length, bytes.length - offset);
+  for (let i = 0; i < length; i++) rewritten[offset + i] ^= known[i] ^ wanted[i];
+  return rewritten;
+};
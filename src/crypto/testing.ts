@@ -0,0 +1,7 @@
+import { Result } from './result';
+
+/** For tests: the value of a successful result, or a thrown error carrying the failure. */
+export const unwrap = <T>(result: Result<T>): T => {
+  if (!result.ok) throw new Error(`${result.error.code}: ${result.error.message}`);
+  return result.value;
+};
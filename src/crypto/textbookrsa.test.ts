@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { unwrap } from './testing';
+import {
+  createTextbookKey,
+  extendedGcd,
+  integerRoot,
+  isProbablePrime,
+  modInverse,
+  modPowSteps,
+  scaleCiphertext,
+  smallExponentAttack,
+  textbookDecrypt,
+  textbookEncrypt,
+  TextbookRsaKey
+} from './textbookrsa';
+
+// Primes just below 2^32, all 2 mod 3 so that e = 3 has an inverse.
+const PRIMES = [4294967291n, 4294967279n, 4294967231n, 4294967189n, 4294967111n, 4294967087n];
+
+const encrypt = (key: TextbookRsaKey, m: bigint) => unwrap(textbookEncrypt(key, m)).value;
+const decrypt = (key: TextbookRsaKey, c: bigint) => unwrap(textbookDecrypt(key, c)).value;
+
+describe('textbook RSA', () => {
+  it('derives the textbook example key and round-trips a message', () => {
+    const key = unwrap(createTextbookKey(61n, 53n, 17n));
+    expect(key).toMatchObject({ n: 3233n, phi: 3120n, d: 2753n });
+    expect(encrypt(key, 65n)).toBe(2790n);
+    expect(decrypt(key, 2790n)).toBe(65n);
+  });
+
+  it('rejects composites, e sharing a factor with φ(n) and messages of n or more', () => {
+    expect(isProbablePrime(PRIMES[0])).toBe(true);
+    expect(isProbablePrime(PRIMES[0] * PRIMES[1])).toBe(false);
+    expect(createTextbookKey(61n, 51n, 17n).ok).toBe(false);
+    expect(createTextbookKey(61n, 53n, 3n).ok).toBe(false);
+    expect(textbookEncrypt(unwrap(createTextbookKey(61n, 53n, 17n)), 3233n).ok).toBe(false);
+  });
+
+  it('computes modular inverses and square-and-multiply', () => {
+    expect(modInverse(17n, 3120n)).toBe(2753n);
+    expect(modInverse(6n, 9n)).toBeNull();
+    expect(modPowSteps(4n, 13n, 497n).value).toBe(445n);
+  });
+
+  it('is malleable: scaling a ciphertext by s^e scales the plaintext by s', () => {
+    const key = unwrap(createTextbookKey(PRIMES[0], PRIMES[1], 65537n));
+    const c = encrypt(key, 1_000_000n);
+    expect(decrypt(key, scaleCiphertext(key, c, 3n))).toBe(3_000_000n);
+  });
+
+  it('gives up a small message under e = 3 to a cube root', () => {
+    const key = unwrap(createTextbookKey(PRIMES[0], PRIMES[1], 3n));
+    const m = 123_456n;
+    const attack = unwrap(smallExponentAttack([encrypt(key, m)], [key.n], 3n));
+    expect(attack).toMatchObject({ root: m, exact: true });
+  });
+
+  it('recovers a message sent to three e = 3 keys by the CRT (Håstad)', () => {
+    const keys = [0, 2, 4].map(i => unwrap(createTextbookKey(PRIMES[i], PRIMES[i + 1], 3n)));
+    // m^3 wraps around each n, so no single ciphertext gives it away.
+    const m = (1n << 60n) + 12_345n;
+    expect(unwrap(smallExponentAttack([encrypt(keys[0], m)], [keys[0].n], 3n)).exact).toBe(false);
+    const attack = unwrap(smallExponentAttack(keys.map(key => encrypt(key, m)), keys.map(key => key.n), 3n));
+    expect(attack).toMatchObject({ root: m, exact: true });
+    expect(integerRoot(attack.combined, 3n)).toBe(m);
+  });
+
+  it('recovers a message encrypted under one modulus with two coprime exponents', () => {
+    const first = unwrap(createTextbookKey(PRIMES[0], PRIMES[1], 3n));
+    const second = unwrap(createTextbookKey(PRIMES[0], PRIMES[1], 11n));
+    const m = 987_654_321n;
+    const [c1, c2] = [encrypt(first, m), encrypt(second, m)];
+    // a * e1 + b * e2 = 1, so c1^a * c2^b = m; a negative power is one of the inverse.
+    const { gcd, x: a, y: b } = extendedGcd(first.e, second.e);
+    expect(gcd).toBe(1n);
+    const power = (c: bigint, k: bigint) =>
+      k < 0n ? modPowSteps(modInverse(c, first.n) ?? 0n, -k, first.n).value : modPowSteps(c, k, first.n).value;
+    expect((power(c1, a) * power(c2, b)) % first.n).toBe(m);
+  });
+});
@@ -0,0 +1,217 @@
+import { Result, fail, ok } from './result';
+
+// Textbook RSA over BigInt with small primes: no padding, nothing constant time, and moduli
+// anyone can factor. It exists to show the arithmetic and why real RSA needs OAEP or PSS.
+
+// Miller-Rabin with these bases is deterministic below 3.3 * 10^24, comfortably above MAX_PRIME.
+const WITNESSES = [2n, 3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n];
+const MAX_PRIME_BITS = 64;
+const MAX_PRIME = 1n << BigInt(MAX_PRIME_BITS);
+
+export const TEXTBOOK_PRIME_BITS = [8, 16, 24, 32, 48, 64];
+
+const mod = (a: bigint, m: bigint): bigint => {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+};
+
+const powMod = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = 1n;
+  let b = mod(base, modulus);
+  for (let e = exponent; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+  }
+  return result;
+};
+
+export const isProbablePrime = (n: bigint): boolean => {
+  if (n < 2n) return false;
+  for (const w of WITNESSES) {
+    if (n === w) return true;
+    if (n % w === 0n) return false;
+  }
+  let d = n - 1n;
+  let s = 0;
+  while ((d & 1n) === 0n) {
+    d >>= 1n;
+    s++;
+  }
+  return WITNESSES.every(w => {
+    let x = powMod(w, d, n);
+    if (x === 1n || x === n - 1n) return true;
+    for (let i = 1; i < s; i++) {
+      x = (x * x) % n;
+      if (x === n - 1n) return true;
+    }
+    return false;
+  });
+};
+
+/** A random prime of exactly `bits` bits. */
+export const randomPrime = (bits: number): bigint => {
+  const bytes = new Uint8Array(Math.ceil(bits / 8));
+  for (;;) {
+    crypto.getRandomValues(bytes);
+    let n = bytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+    n &= (1n << BigInt(bits)) - 1n;
+    n |= (1n << BigInt(bits - 1)) | 1n;
+    if (isProbablePrime(n)) return n;
+  }
+};
+
+export const parseInteger = (text: string, label: string): Result<bigint> =>
+  /^\s*\d+\s*$/.test(text) ? ok(BigInt(text.trim())) : fail('invalid-input', `${label} must be a non-negative whole number.`);
+
+export interface EuclidStep {
+  quotient: bigint | null;
+  remainder: bigint;
+  // remainder = a * x + b * y
+  x: bigint;
+  y: bigint;
+}
+
+/** The extended Euclidean algorithm, keeping every row of the table. */
+export const extendedGcd = (a: bigint, b: bigint): { gcd: bigint; x: bigint; y: bigint; steps: EuclidStep[] } => {
+  const steps: EuclidStep[] = [
+    { quotient: null, remainder: a, x: 1n, y: 0n },
+    { quotient: null, remainder: b, x: 0n, y: 1n }
+  ];
+  for (;;) {
+    const [previous, current] = steps.slice(-2);
+    if (current.remainder === 0n) return { gcd: previous.remainder, x: previous.x, y: previous.y, steps };
+    const quotient = previous.remainder / current.remainder;
+    steps.push({
+      quotient,
+      remainder: previous.remainder - quotient * current.remainder,
+      x: previous.x - quotient * current.x,
+      y: previous.y - quotient * current.y
+    });
+  }
+};
+
+export const modInverse = (a: bigint, m: bigint): bigint | null => {
+  const { gcd, y } = extendedGcd(m, mod(a, m));
+  return gcd === 1n ? mod(y, m) : null;
+};
+
+export interface ModPowStep {
+  bit: 0 | 1;
+  squared: bigint;
+  // Only for 1 bits: the square times the base.
+  multiplied: bigint | null;
+}
+
+/** Left-to-right square-and-multiply, one step per exponent bit. */
+export const modPowSteps = (base: bigint, exponent: bigint, modulus: bigint): { value: bigint; steps: ModPowStep[] } => {
+  const steps: ModPowStep[] = [];
+  let value = 1n;
+  for (const digit of exponent.toString(2)) {
+    const squared = (value * value) % modulus;
+    const multiplied = digit === '1' ? (squared * base) % modulus : null;
+    value = multiplied ?? squared;
+    steps.push({ bit: digit === '1' ? 1 : 0, squared, multiplied });
+  }
+  return { value, steps };
+};
+
+export interface TextbookRsaKey {
+  p: bigint;
+  q: bigint;
+  n: bigint;
+  phi: bigint;
+  e: bigint;
+  d: bigint;
+  // The extended Euclid table for φ(n) and e, which yields d.
+  euclid: EuclidStep[];
+}
+
+export const createTextbookKey = (p: bigint, q: bigint, e: bigint): Result<TextbookRsaKey> => {
+  for (const [name, prime] of [['p', p], ['q', q]] as const) {
+    if (prime >= MAX_PRIME) return fail('invalid-key', `${name} must be below 2^${MAX_PRIME_BITS} in this lab.`);
+    if (!isProbablePrime(prime)) return fail('invalid-key', `${name} = ${prime} is not prime.`);
+  }
+  if (p === q) return fail('invalid-key', 'p and q must differ: with p = q, φ(n) is not (p-1)(q-1) and n has an obvious square root.');
+  const n = p * q;
+  const phi = (p - 1n) * (q - 1n);
+  if (e <= 1n || e >= phi) return fail('invalid-key', `e must be between 1 and φ(n) = ${phi}.`);
+  const { gcd, y, steps } = extendedGcd(phi, e);
+  if (gcd !== 1n) return fail('invalid-key', `e = ${e} shares the factor ${gcd} with φ(n) = ${phi}, so it has no inverse d.`);
+  return ok({ p, q, n, phi, e, d: mod(y, phi), euclid: steps });
+};
+
+/** A random key with `bits`-bit primes, retrying until e is coprime to φ(n). */
+export const generateTextbookKey = (bits: number, e: bigint): Result<TextbookRsaKey> => {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const p = randomPrime(bits);
+    const q = randomPrime(bits);
+    if (p === q || e >= (p - 1n) * (q - 1n)) continue;
+    const key = createTextbookKey(p, q, e);
+    if (key.ok) return key;
+  }
+  return fail('key-generation-failed', `No ${bits}-bit primes were found that work with e = ${e}; try larger primes.`);
+};
+
+const checkMessage = (value: bigint, n: bigint, label: string): Result<bigint> =>
+  value < n ? ok(value) : fail('invalid-input', `${label} must be smaller than n = ${n}; RSA works modulo n.`);
+
+export const textbookEncrypt = (key: TextbookRsaKey, m: bigint): Result<{ value: bigint; steps: ModPowStep[] }> => {
+  const checked = checkMessage(m, key.n, 'The message');
+  return checked.ok ? ok(modPowSteps(m, key.e, key.n)) : checked;
+};
+
+export const textbookDecrypt = (key: TextbookRsaKey, c: bigint): Result<{ value: bigint; steps: ModPowStep[] }> => {
+  const checked = checkMessage(c, key.n, 'The ciphertext');
+  return checked.ok ? ok(modPowSteps(c, key.d, key.n)) : checked;
+};
+
+/**
+ * Malleability: (m^e)(s^e) = (ms)^e mod n, so anyone holding only the public key can turn an
+ * encryption of m into one of m * s.
+ */
+export const scaleCiphertext = (key: Pick<TextbookRsaKey, 'n' | 'e'>, c: bigint, s: bigint): bigint =>
+  (c * powMod(s, key.e, key.n)) % key.n;
+
+/** floor(value^(1/k)), by Newton's method from above. */
+export const integerRoot = (value: bigint, k: bigint): bigint => {
+  if (value < 2n) return value;
+  let x = 1n << (BigInt(value.toString(2).length) / k + 1n);
+  for (;;) {
+    const next = ((k - 1n) * x + value / x ** (k - 1n)) / k;
+    if (next >= x) return x;
+    x = next;
+  }
+};
+
+/** The x below the product of the moduli with x = residues[i] mod moduli[i]; null unless the moduli are coprime. */
+export const crtCombine = (residues: bigint[], moduli: bigint[]): bigint | null => {
+  const product = moduli.reduce((acc, m) => acc * m, 1n);
+  let x = 0n;
+  for (let i = 0; i < moduli.length; i++) {
+    const rest = product / moduli[i];
+    const inverse = modInverse(rest, moduli[i]);
+    if (inverse === null) return null;
+    x += residues[i] * rest * inverse;
+  }
+  return mod(x, product);
+};
+
+export interface SmallExponentAttack {
+  // The value whose e-th root is taken: c itself, or the CRT combination of e ciphertexts.
+  combined: bigint;
+  root: bigint;
+  // Whether root^e reproduces it exactly, in which case root is the message.
+  exact: boolean;
+}
+
+/**
+ * With a small e and no padding, m^e may never wrap around n (c = m^e over the integers), and e
+ * ciphertexts of one message under different keys combine by the CRT into m^e below the product
+ * of the moduli (Håstad's broadcast attack). Either way an integer e-th root gives back m.
+ */
+export const smallExponentAttack = (ciphertexts: bigint[], moduli: bigint[], e: bigint): Result<SmallExponentAttack> => {
+  const combined = ciphertexts.length === 1 ? ciphertexts[0] : crtCombine(ciphertexts, moduli);
+  if (combined === null) return fail('invalid-input', 'The moduli share a factor, so the CRT cannot combine them (and gcd factors both).');
+  const root = integerRoot(combined, e);
+  return ok({ combined, root, exact: root ** e === combined });
+};
@@ -0,0 +1,31 @@
+export type HashAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+export type NamedCurve = 'P-256' | 'P-384' | 'P-521';
+
+export type RsaModulusLength = 1024 | 2048 | 3072 | 4096;
+
+export interface RsaParams {
+  modulusLength: RsaModulusLength;
+  hash: HashAlgorithm;
+  // RSA-PSS salt length in bytes.
+  saltLength: number;
+  // RSA-OAEP label, bound into every ciphertext; empty for none.
+  label: string;
+}
+
+export type KeyAlgorithm =
+  | { name: 'RSA-OAEP' | 'RSA-PSS'; params?: RsaParams }
+  | { name: 'ECDSA' | 'ECDH'; curve: NamedCurve }
+  | { name: 'Ed25519' | 'X25519' };
+
+export interface KeyPair {
+  publicKey: string;
+  // PEM; empty when the key is held only as the non-extractable privateCryptoKey.
+  privateKey: string;
+  privateCryptoKey?: CryptoKey;
+  // Absent on key pairs from before algorithm tracking; those are RSA.
+  algorithm?: KeyAlgorithm;
+}
+
+// A private key as PEM, or as a non-extractable CryptoKey from the keyring.
+export type PrivateKeyInput = string | CryptoKey;
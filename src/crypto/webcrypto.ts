@@ -0,0 +1,34 @@
+import { Result, fail, ok } from './result';
+
+// Browsers added Ed25519 and X25519 to WebCrypto only recently (Chrome 133, Firefox 129,
+// Safari 17), so their availability is probed once and cached.
+
+export type Curve25519Algorithm = 'Ed25519' | 'X25519';
+
+const USAGES: Record<Curve25519Algorithm, KeyUsage[]> = {
+  Ed25519: ['sign', 'verify'],
+  X25519: ['deriveBits']
+};
+
+const probes = new Map<Curve25519Algorithm, Promise<boolean>>();
+
+export const supportsNative = (algorithm: Curve25519Algorithm): Promise<boolean> => {
+  let probe = probes.get(algorithm);
+  if (!probe) {
+    probe = crypto.subtle.generateKey({ name: algorithm }, false, USAGES[algorithm]).then(
+      () => true,
+      () => false
+    );
+    probes.set(algorithm, probe);
+  }
+  return probe;
+};
+
+/** Checks a keyring CryptoKey before use, since WebCrypto fixes its algorithm and usages at import. */
+export const checkCryptoKey = (key: CryptoKey, algorithm: string, usage: KeyUsage): Result<CryptoKey> => {
+  if (key.algorithm.name !== algorithm) {
+    return fail('invalid-key', `This key is for ${key.algorithm.name}, but ${algorithm} was expected.`);
+  }
+  if (!key.usages.includes(usage)) return fail('invalid-key', `This ${algorithm} key cannot be used to ${usage}.`);
+  return ok(key);
+};
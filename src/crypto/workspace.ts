@@ -0,0 +1,155 @@
+import { parseBase64Url, toBase64Url, utf8Decode, utf8Encode } from './encoding';
+import { hkdf } from './hkdf';
+import { createKdfParams, deriveKey, formatKdfParams, parseKdfParams } from './kdf';
+import { Result, fail, ok } from './result';
+
+/*
+ * Workspace file, version 1: a JSON document
+ *
+ *   format      "cryptolab-workspace"
+ *   v           1
+ *   created     ISO 8601 time of export
+ *   kdf         passphrase derivation, "pbkdf2-sha256$i=600000$<base64 salt>"
+ *   check       base64url 16-byte passphrase check value
+ *   iv          base64url 96-bit AES-GCM IV
+ *   ciphertext  base64url AES-256-GCM encryption of the workspace JSON, tag appended
+ *
+ * The PBKDF2 output is split with HKDF into the AES key and the check value, so a wrong
+ * passphrase can be reported as such rather than as a corrupted file. Every header field
+ * is bound into the GCM tag as additional data, so none can be changed unnoticed.
+ */
+
+export const WORKSPACE_FORMAT = 'cryptolab-workspace';
+export const WORKSPACE_VERSION = 1;
+
+export const MIN_WORKSPACE_PASSPHRASE_LENGTH = 8;
+
+interface WorkspaceHeader {
+  format: string;
+  v: number;
+  created: string;
+  kdf: string;
+  check: string;
+  iv: string;
+}
+
+interface WorkspaceFile extends WorkspaceHeader {
+  ciphertext: string;
+}
+
+const IV_BYTES = 12;
+const CHECK_BYTES = 16;
+const KEY_BYTES = 32;
+
+const additionalData = ({ format, v, created, kdf, check, iv }: WorkspaceHeader): Uint8Array =>
+  utf8Encode(JSON.stringify([format, v, created, kdf, check, iv]));
+
+const workspaceKeys = async (
+  passphrase: string,
+  kdfText: string
+): Promise<Result<{ key: CryptoKey; check: Uint8Array }>> => {
+  const params = parseKdfParams(kdfText);
+  if (!params.ok) return params;
+  const master = await deriveKey(passphrase, params.value);
+  if (!master.ok) return master;
+
+  const noSalt = new Uint8Array(0);
+  const keyBytes = await hkdf(master.value.key, noSalt, utf8Encode('cryptolab workspace key'), KEY_BYTES);
+  if (!keyBytes.ok) return keyBytes;
+  const check = await hkdf(master.value.key, noSalt, utf8Encode('cryptolab workspace check'), CHECK_BYTES);
+  if (!check.ok) return check;
+
+  const key = await crypto.subtle.importKey('raw', keyBytes.value, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  return ok({ key, check: check.value });
+};
+
+/** Encrypts any JSON-serialisable workspace into the text of a workspace file. */
+export const encryptWorkspace = async (data: unknown, passphrase: string): Promise<Result<string>> => {
+  if (passphrase.length < MIN_WORKSPACE_PASSPHRASE_LENGTH) {
+    return fail('invalid-input', `Use a passphrase of at least ${MIN_WORKSPACE_PASSPHRASE_LENGTH} characters.`);
+  }
+
+  const kdf = formatKdfParams(createKdfParams('pbkdf2-sha256'));
+  const keys = await workspaceKeys(passphrase, kdf);
+  if (!keys.ok) return keys;
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const header: WorkspaceHeader = {
+    format: WORKSPACE_FORMAT,
+    v: WORKSPACE_VERSION,
+    created: new Date().toISOString(),
+    kdf,
+    check: toBase64Url(keys.value.check),
+    iv: toBase64Url(iv)
+  };
+  try {
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: additionalData(header) },
+      keys.value.key,
+      utf8Encode(JSON.stringify(data))
+    );
+    const file: WorkspaceFile = { ...header, ciphertext: toBase64Url(ciphertext) };
+    return ok(JSON.stringify(file, null, 2));
+  } catch (error) {
+    return fail('encryption-failed', 'The workspace could not be encrypted.', error);
+  }
+};
+
+const isWorkspaceFile = (value: unknown): value is WorkspaceFile => {
+  if (typeof value !== 'object' || value === null) return false;
+  const file = value as WorkspaceFile;
+  return (
+    file.format === WORKSPACE_FORMAT &&
+    typeof file.v === 'number' &&
+    ['created', 'kdf', 'check', 'iv', 'ciphertext'].every(field => typeof file[field as keyof WorkspaceFile] === 'string')
+  );
+};
+
+/** Decrypts a workspace file, telling a wrong passphrase apart from a modified file. */
+export const decryptWorkspace = async (
+  text: string,
+  passphrase: string
+): Promise<Result<{ data: unknown; created: string }>> => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch (error) {
+    return fail('invalid-input', 'This is not a workspace file: it is not JSON.', error);
+  }
+  if (!isWorkspaceFile(file)) return fail('invalid-input', 'This is not a Cryptography Lab workspace file.');
+  if (file.v > WORKSPACE_VERSION) {
+    return fail('invalid-input', `Workspace version ${file.v} is newer than this lab supports (${WORKSPACE_VERSION}).`);
+  }
+
+  const keys = await workspaceKeys(passphrase, file.kdf);
+  if (!keys.ok) return keys;
+  if (toBase64Url(keys.value.check) !== file.check) {
+    return fail('decryption-failed', 'Wrong passphrase: it does not match the one this workspace was exported with.');
+  }
+
+  const iv = parseBase64Url(file.iv, 'Workspace IV');
+  if (!iv.ok) return iv;
+  const ciphertext = parseBase64Url(file.ciphertext, 'Workspace ciphertext');
+  if (!ciphertext.ok) return ciphertext;
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: iv.value, additionalData: additionalData(file) },
+      keys.value.key,
+      ciphertext.value
+    );
+  } catch (error) {
+    return fail(
+      'decryption-failed',
+      'The passphrase is right, but the file has been modified or corrupted: its AES-GCM tag does not verify.',
+      error
+    );
+  }
+
+  try {
+    return ok({ data: JSON.parse(utf8Decode(plaintext)), created: file.created });
+  } catch (error) {
+    return fail('invalid-input', 'The workspace decrypted, but its contents are not valid JSON.', error);
+  }
+};
@@ -0,0 +1,68 @@
+import { x25519, x25519PublicKey } from './curve25519';
+import { decodeKeyAs, rawKeyBytes, rawKeyToPem } from './keys';
+import { derToPem } from './pem';
+import { Result, fail, ok } from './result';
+import { KeyPair, PrivateKeyInput } from './types';
+import { checkCryptoKey, supportsNative } from './webcrypto';
+
+export const generateX25519KeyPair = async (): Promise<Result<KeyPair>> => {
+  try {
+    if (await supportsNative('X25519')) {
+      const keyPair = (await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits'])) as CryptoKeyPair;
+      return ok({
+        publicKey: derToPem(await crypto.subtle.exportKey('spki', keyPair.publicKey), 'PUBLIC KEY'),
+        privateKey: derToPem(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey), 'PRIVATE KEY'),
+        algorithm: { name: 'X25519' }
+      });
+    }
+
+    const privateKey = crypto.getRandomValues(new Uint8Array(32));
+    return ok({
+      publicKey: rawKeyToPem('X25519', x25519PublicKey(privateKey), 'public'),
+      privateKey: rawKeyToPem('X25519', privateKey, 'private'),
+      algorithm: { name: 'X25519' }
+    });
+  } catch (error) {
+    return fail('key-generation-failed', 'X25519 key generation failed.', error);
+  }
+};
+
+const deriveNative = async (ownKey: CryptoKey, peerDer: Uint8Array): Promise<Uint8Array> => {
+  const peerKey = await crypto.subtle.importKey('spki', peerDer, { name: 'X25519' }, false, []);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'X25519', public: peerKey }, ownKey, 256));
+};
+
+// A keyring CryptoKey only exists where the browser has native X25519.
+export const x25519SharedSecret = async (
+  privateKeyInput: PrivateKeyInput,
+  peerPublicKeyPem: string
+): Promise<Result<Uint8Array>> => {
+  const publicKey = decodeKeyAs(peerPublicKeyPem, 'public', 'X25519');
+  if (!publicKey.ok) return publicKey;
+
+  let secret: Uint8Array;
+  try {
+    if (typeof privateKeyInput !== 'string') {
+      const ownKey = checkCryptoKey(privateKeyInput, 'X25519', 'deriveBits');
+      if (!ownKey.ok) return ownKey;
+      secret = await deriveNative(ownKey.value, publicKey.value.der);
+    } else {
+      const privateKey = decodeKeyAs(privateKeyInput, 'private', 'X25519');
+      if (!privateKey.ok) return privateKey;
+      if (await supportsNative('X25519')) {
+        const ownKey = await crypto.subtle.importKey('pkcs8', privateKey.value.der, { name: 'X25519' }, false, ['deriveBits']);
+        secret = await deriveNative(ownKey, publicKey.value.der);
+      } else {
+        secret = x25519(rawKeyBytes(privateKey.value), rawKeyBytes(publicKey.value));
+      }
+    }
+  } catch (error) {
+    return fail('invalid-key', 'X25519 key agreement failed.', error);
+  }
+
+  // A low-order peer point forces the all-zero secret (RFC 7748 section 6.1).
+  if (secret.every(byte => byte === 0)) {
+    return fail('invalid-key', 'The peer public key is a low-order point; the shared secret is all zeros.');
+  }
+  return ok(secret);
+};
@@ -0,0 +1,39 @@
+import type { HashAlgorithm, KeyPair, SignatureFormat, SymmetricMode } from './crypto';
+
+export type { KeyPair } from './crypto';
+
+export interface EncryptionResult {
+  encrypted: string;
+  decrypted?: string;
+  key?: string;
+  mode?: SymmetricMode;
+  error?: string;
+}
+
+export interface SignatureResult {
+  message: string;
+  // Base64 of the bare signature bytes, whatever the output format.
+  signature: string;
+  // Absent for raw signatures, which are the base64 above.
+  format?: SignatureFormat;
+  formatted?: string;
+  // Label of the signature scheme, e.g. "ECDSA P-256 / SHA-256".
+  algorithm?: string;
+  digest?: string;
+  digestAlgorithm?: HashAlgorithm;
+  verified?: boolean;
+  verificationDigest?: string;
+  // The format detected in the pasted signature, and the message a JWS or CMS message carried.
+  verificationFormat?: SignatureFormat;
+  attachedMessage?: string;
+  // Of the trusted key the signature was checked against, to compare with one obtained separately.
+  verificationFingerprint?: string;
+  error?: string;
+}
+
+// Everything the demos hold in App state; exported and imported as one encrypted file.
+export interface WorkspaceState {
+  symmetric: { key: string | null; result: EncryptionResult | null };
+  asymmetric: { keyPair: KeyPair | null; result: EncryptionResult | null };
+  signature: { keyPair: KeyPair | null; result: SignatureResult | null };
+}